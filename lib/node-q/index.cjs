@@ -39,6 +39,7 @@ Connection.prototype.listen = function() {
 		var buffer,
 			length, // current msg length
 			o, // deserialized object
+			info, // top-level q type and attribute of o
 			err, // deserialize error
 			responseNo;
 
@@ -52,8 +53,9 @@ Connection.prototype.listen = function() {
 		while (buffer.length >= 8) {
 			length = buffer.readUInt32LE(4);
 			if (buffer.length >= length) {
+				info = {};
 				try {
-					o = libc.deserialize(buffer, self.nanos2date, self.flipTables, self.emptyChar2null, self.long2number);
+					o = libc.deserialize(buffer, self.nanos2date, self.flipTables, self.emptyChar2null, self.long2number, info);
 					err = undefined;
 				} catch (e) {
 					o = null;
@@ -62,14 +64,15 @@ Connection.prototype.listen = function() {
 				if (buffer.readUInt8(1) === 2) { // MsgType: 2 := response
 					responseNo = self.nextResponseNo;
 					self.nextResponseNo += 1;
-					self.emit("response:" + responseNo, err, o);
+					self.emit("response:" + responseNo, err, o, info);
 				} else {
-					if (err === undefined && Array.isArray(o) && o[0] === "upd") {
+					// symbols deserialize to { __kdb_type: 'symbol', value } objects, so compare as a string
+					if (err === undefined && Array.isArray(o) && o[0] !== null && String(o[0]) === "upd") {
 						events.EventEmitter.prototype.emit.apply(self, o);
 					} else {
 						responseNo = self.nextResponseNo;
 						self.nextResponseNo += 1;
-						self.emit("response:" + responseNo, err, o);
+						self.emit("response:" + responseNo, err, o, info);
 					}
 				}
 				if (buffer.length > length) {
@@ -118,8 +121,8 @@ Connection.prototype.k = function(s, cb) {
 	this.nextRequestNo += 1;
 	if (arguments.length === 1) {
 		// Listen for async responses
-		self.once("response:" + requestNo, function(err, o) {
-			cb(err, o);
+		self.once("response:" + requestNo, function(err, o, info) {
+			cb(err, o, info);
 		});
 	} else {
 		assert.string(s, "s");
@@ -131,8 +134,8 @@ Connection.prototype.k = function(s, cb) {
 		b = libc.serialize(payload);
 		b.writeUInt8(0x1, 1); // MsgType: 1 := sync
 		this.socket.write(b, function() {
-			self.once("response:" + requestNo, function(err, o) {
-				cb(err, o);
+			self.once("response:" + requestNo, function(err, o, info) {
+				cb(err, o, info);
 			});
 		});
 	}
@@ -16,6 +16,8 @@ var INT_NEG_INFINITY = 0 - INT_INFINITY;
 var LONG_NULL = Long.fromString("9223372036854775808", false, 10);
 var LONG_INFINITY = Long.fromString("9223372036854775807", false, 10);
 var LONG_NEG_INFINITY = Long.fromString("9223372036854775809", false, 10);
+// Nanoseconds between the Unix epoch and the kdb+ epoch (2000.01.01)
+var UNIX_EPOCH_OFFSET_NANOS = Long.fromString("946684800000000000", false, 10);
 var ZERO_BYTE = new Buffer(1);
 ZERO_BYTE.writeUInt8(0, 0);
 
@@ -121,7 +123,33 @@ function decompress(compressedSize, b) {
 	return dst;
 }
 
-function deserialize(b, nanos2date, flipTables, emptyChar2null, long2number) {
+// Vector attribute byte -> q attribute letter
+var ATTRIBUTES = ["", "s", "u", "p", "g"];
+
+// Record the q type and attribute on a deserialized list, table or dictionary.
+// Non-enumerable so row objects and Object.keys() are unaffected.
+function tag(o, t, a) {
+	if (o !== null && typeof o === "object") {
+		Object.defineProperty(o, "__qtype", { value: t });
+		Object.defineProperty(o, "__qattr", { value: ATTRIBUTES[a] || "" });
+	}
+	return o;
+}
+
+// Temporal infinities (0Wp, 0Wd, ...) stay as +/-Infinity instead of becoming invalid dates
+function isInfinite(v) {
+	return v === Infinity || v === -Infinity;
+}
+
+// Type of a deserialized column vector (char vectors come back as plain strings)
+function columnType(v) {
+	if (typeof v === "string") {
+		return 10;
+	}
+	return v && typeof v.__qtype === "number" ? v.__qtype : 0;
+}
+
+function deserialize(b, nanos2date, flipTables, emptyChar2null, long2number, info) {
 	"use strict";
 	var pos = 8, isCompressed = (b[2] === 1);
 	function rBool() {
@@ -267,10 +295,13 @@ function deserialize(b, nanos2date, flipTables, emptyChar2null, long2number) {
 	}
 	function rTimestamp() {
 		var val = rInt64();
-		if (val === null) {
-			return null;
+		if (val === null || isInfinite(val)) {
+			return val;
 		}
 		if (nanos2date === false) {
+			if (Long.isLong(val)) { // exact nanoseconds since the Unix epoch
+				return val.add(UNIX_EPOCH_OFFSET_NANOS);
+			}
 			return 86400000000000 * (10957 + (val / 86400000000000));
 		} else {
 			return date(val / 86400000000000);
@@ -278,8 +309,8 @@ function deserialize(b, nanos2date, flipTables, emptyChar2null, long2number) {
 	}
 	function rMonth() {
 		var y = rInt32();
-		if (y === null) {
-			return null;
+		if (y === null || isInfinite(y)) {
+			return y;
 		}
 		var m = y % 12;
 		y = 2000 + y / 12;
@@ -290,16 +321,16 @@ function deserialize(b, nanos2date, flipTables, emptyChar2null, long2number) {
 	}
 	function rDate() {
 		var val = rInt32();
-		return (val === null) ? null : date(val);
+		return (val === null || isInfinite(val)) ? val : date(val);
 	}
 	function rDateTime() {
 		var val = rFloat64();
-		return (val === null) ? null : date(val);
+		return (val === null || isInfinite(val)) ? val : date(val);
 	}
 	function rTimespan() {
 		var val = rInt64();
-		if (val === null) {
-			return null;
+		if (val === null || isInfinite(val)) {
+			return val;
 		}
 		if (nanos2date === false) {
 			return val;
@@ -308,9 +339,8 @@ function deserialize(b, nanos2date, flipTables, emptyChar2null, long2number) {
 	}
 	function rSecond() {
 		var val = rInt32();
-		console.log('DEBUG: rSecond() called with val:', val);
-		if (val === null) {
-			return null;
+		if (val === null || isInfinite(val)) {
+			return val;
 		}
 		// Convert seconds from midnight to HH:MM:SS format
 		var hours = Math.floor(val / 3600);
@@ -321,15 +351,13 @@ function deserialize(b, nanos2date, flipTables, emptyChar2null, long2number) {
 		var timeStr = hours.toString().padStart(2, '0') + ':' + 
 					  minutes.toString().padStart(2, '0') + ':' + 
 					  seconds.toString().padStart(2, '0');
-		
-		console.log('DEBUG: rSecond() returning timeStr:', timeStr);
+
 		return timeStr;
 	}
 	function rMinute() {
 		var val = rInt32();
-		console.log('DEBUG: rMinute() called with val:', val);
-		if (val === null) {
-			return null;
+		if (val === null || isInfinite(val)) {
+			return val;
 		}
 		// Convert minutes from midnight to HH:MM format
 		var hours = Math.floor(val / 60);
@@ -338,14 +366,13 @@ function deserialize(b, nanos2date, flipTables, emptyChar2null, long2number) {
 		// Format as HH:MM
 		var timeStr = hours.toString().padStart(2, '0') + ':' + 
 					  minutes.toString().padStart(2, '0');
-		
-		console.log('DEBUG: rMinute() returning timeStr:', timeStr);
+
 		return timeStr;
 	}
 	function rTime() {
 		var val = rInt32();
-		if (val === null) {
-			return null;
+		if (val === null || isInfinite(val)) {
+			return val;
 		}
 		// Convert milliseconds from midnight to HH:MM:SS.mmm format
 		var hours = Math.floor(val / 3600000);
@@ -373,6 +400,9 @@ function deserialize(b, nanos2date, flipTables, emptyChar2null, long2number) {
 		if (t < 0 && t > -20) {
 			return fns[-t]();
 		}
+		if (t < -19 && t > -77) { // enumerated symbol: index into the enum domain
+			return rInt32();
+		}
 		if (t > 99) {
 			if (t === 100) {
 				rSymbol();
@@ -406,12 +436,20 @@ function deserialize(b, nanos2date, flipTables, emptyChar2null, long2number) {
 				o[0]=x;
 				o[1]=y;
 			}
+			tag(o, 99, 0);
+			if (!flip) {
+				// Object keys are strings, so keep the original key and value lists (and their types) too
+				Object.defineProperty(o, "__qkeys", { value: x });
+				Object.defineProperty(o, "__qvalues", { value: y });
+				Object.defineProperty(o, "__qkeytype", { value: columnType(x) });
+				Object.defineProperty(o, "__qvaluetype", { value: columnType(y) });
+			}
 			return o;
 		}
-		pos++;
+		var a = rUInt8();
 		if (98 === t) {
 			if (flipTables === false) {
-				return r();
+				return tag(r(), 98, a);
 			} else {
 				rInt8();
 				var x = r();
@@ -424,7 +462,12 @@ function deserialize(b, nanos2date, flipTables, emptyChar2null, long2number) {
 					}
 					A[j] = o;
 				}
-				return A;
+				var columns = new Array(x.length);
+				for (var i = 0; i < x.length; i++) {
+					columns[i] = { name: String(x[i]), type: columnType(y[i]), attribute: y[i].__qattr || "" };
+				}
+				Object.defineProperty(A, "__qcolumns", { value: columns });
+				return tag(A, 98, a);
 			}
 		}
 		n = rInt32();
@@ -432,30 +475,24 @@ function deserialize(b, nanos2date, flipTables, emptyChar2null, long2number) {
 			return rString(n);
 		}
 		var A = new Array(n);
-		var f = fns[t];
-		
-		// DEBUG: Log array deserialization for temporal types
-		if (t === 17 || t === 18 || t === 19) {
-			console.log(`DEBUG: Deserializing array of type ${t} (${t === 17 ? 'minute' : t === 18 ? 'second' : 'time'}) with ${n} elements`);
-			console.log(`DEBUG: Using function: ${f ? f.name : 'undefined'}`);
-		}
-		
+		var f = t > 19 && t < 77 ? rInt32 : fns[t];
+
 		for (i = 0; i < n; i++) {
 			A[i] = f();
 		}
-		
-		// DEBUG: Show first few values for temporal arrays
-		if (t === 17 || t === 18 || t === 19) {
-			console.log(`DEBUG: First 3 converted values:`, A.slice(0, 3));
-		}
-		
-		return A;
+
+		return tag(A, t, a);
 	}
 	if (isCompressed) {
 		var compressedSize = rInt32();
 		b = decompress(compressedSize, b);
 		pos = 8;
 	}
+	if (info) { // top-level type, which atoms cannot carry themselves, and the message size
+		info.type = b.readInt8(pos);
+		info.bytes = b.length;
+		info.attribute = info.type >= 0 && info.type < 98 ? ATTRIBUTES[b[pos + 1]] || "" : "";
+	}
 	return r();
 }
 
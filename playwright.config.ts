@@ -25,9 +25,22 @@ export default defineConfig({
       use: { ...devices['Desktop Safari'] },
     },
   ],
-  webServer: {
-    command: 'npm run dev',
-    url: 'http://localhost:3000',
-    reuseExistingServer: !process.env.CI,
-  },
+  // The specs connect to the mock q process on 5000 through the bridge
+  webServer: [
+    {
+      command: 'npm run mock-q',
+      port: 5000,
+      reuseExistingServer: !process.env.CI,
+    },
+    {
+      command: 'npm run server',
+      url: 'http://localhost:3001/api/health',
+      reuseExistingServer: !process.env.CI,
+    },
+    {
+      command: 'npm run dev',
+      url: 'http://localhost:3000',
+      reuseExistingServer: !process.env.CI,
+    },
+  ],
 });
\ No newline at end of file
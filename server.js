@@ -1,6 +1,22 @@
 import express from 'express';
 import cors from 'cors';
-import * as nodeq from './lib/node-q/index.cjs';
+import { KdbBridgeError, ErrorCodes, classifyQueryError, sendError } from './server/errors.js';
+import { createSession, getSession, closeSession, listSessions, closeAllSessions } from './server/sessions.js';
+import { describeResult, formatDescription, formatQueryResult, limitRows, toNumber } from './server/results.js';
+import { COLUMNAR_CONTENT_TYPE, encodeColumnar } from './server/columnar.js';
+import { NDJSON_CONTENT_TYPE, STREAM_CHUNK_ROWS, streamQueryResult } from './server/streaming.js';
+import { splitStatements } from './server/statements.js';
+import { buildTableViewQueries, normalizeTableView } from './server/select.js';
+import { checkNamespace, checkQName, symbolArg, symbolsArg } from './server/identifiers.js';
+import { LATEST_PARTITION, LIST_TABLES, TABLE_METADATA, TABLE_PARTITIONS, parsePartitions, parseTableList, parseTableMetadata } from './server/tables.js';
+import { LIST_NAMESPACE, PREVIEW_ENTRY, PREVIEW_ROW_LIMIT, parseNamespaceEntries } from './server/explorer.js';
+import { FUNCTION_SOURCE, LIST_FUNCTIONS, checkNamespaces, functionArguments, parseFunctionList } from './server/functions.js';
+import { enforceQueryPolicy } from './server/guard.js';
+import { createSubscription, getSubscription, closeSubscription, listSubscriptions, closeAllSubscriptions } from './server/subscriptions.js';
+import { cancelJob, closeAllJobs, configureJobs, countJobs, getJob, getJobQueue, listJobs, submitJob } from './server/jobs.js';
+import { AuditLog, isAuditToken, normalizeAuditFilters } from './server/audit.js';
+import { isOriginAllowed, loadConfig } from './server/config.js';
+import { log, setLogLevel } from './server/logger.js';
 
 // Helper function to safely convert KDB+ symbol objects to strings
 function toStringValue(value) {
@@ -25,446 +41,325 @@ function toStringValue(value) {
   return String(value);
 }
 
+// Settings from bridge.config.json and the environment (see server/config.js)
+const config = loadConfig();
+setLogLevel(config.logLevel);
+
 const app = express();
-const PORT = 3001;
 
-app.use(cors());
+// Queries running longer than this are abandoned with a QUERY_TIMEOUT error.
+// Clients may ask for a different limit per query, up to QUERY_TIMEOUT_MAX_MS.
+const QUERY_TIMEOUT_MS = config.queryTimeoutMs;
+const QUERY_TIMEOUT_MAX_MS = config.queryTimeoutMaxMs;
+
+const resolveQueryTimeout = (requested, fallback = QUERY_TIMEOUT_MS) => {
+  const timeoutMs = parseInt(requested);
+  if (isNaN(timeoutMs) || timeoutMs <= 0) {
+    return fallback;
+  }
+  return Math.min(timeoutMs, QUERY_TIMEOUT_MAX_MS);
+};
+
+// Queries run for the browser are appended to a JSON Lines file (see server/audit.js)
+const auditLog = new AuditLog(config.audit);
+
+// Finished background jobs are kept for a while, up to a total size of results (see server/jobs.js)
+configureJobs(config.jobs);
+
+// Browsers on other origins are only answered when their origin is allowed; requests without an
+// Origin header (curl, scripts) always are
+app.use(cors({
+  origin: (origin, callback) => callback(null, !origin || isOriginAllowed(config.allowedOrigins, origin))
+}));
 app.use(express.json());
 
-// KDB+ connection management
-let kdbConnection = null;
-let connectionConfig = null;
+// Resolve the session a request belongs to from the X-Session-Id header
+// (or a sessionId query parameter for clients that cannot set headers)
+const resolveSession = (req, res, next) => {
+  const sessionId = req.get('X-Session-Id') || req.query.sessionId;
+  if (!sessionId) {
+    return res.status(400).json({
+      success: false,
+      error: 'Missing session id - connect first'
+    });
+  }
 
-// Helper function to connect to KDB+ process using node-q
-const connectToKdb = async (host, port) => {
-  return new Promise((resolve, reject) => {
-    // Close existing connection if any
-    if (kdbConnection) {
-      try {
-        kdbConnection.close();
-      } catch (e) {
-        console.warn('Error closing existing connection:', e.message);
-      }
-      kdbConnection = null;
-    }
-    
-    // Create new KDB+ connection using node-q
-    try {
-      console.log(`Attempting to connect to KDB+ at ${host}:${port}`);
-      
-      nodeq.connect({
-        host: host,
-        port: parseInt(port)
-      }, (err, connection) => {
-        if (err) {
-          console.error('Connection error:', err);
-          reject(new Error(`Failed to connect to KDB+ at ${host}:${port} - ${err.message || err}`));
-          return;
-        }
-        
-        kdbConnection = connection;
-        connectionConfig = { host, port };
-        
-        console.log(`Successfully connected to KDB+ at ${host}:${port}`);
-        
-        // Handle connection events
-        connection.on('error', (error) => {
-          console.error('KDB+ connection error:', error);
-          kdbConnection = null;
-        });
-        
-        connection.on('close', () => {
-          console.log('KDB+ connection closed');
-          kdbConnection = null;
-        });
-        
-        resolve(true);
-      });
-      
-    } catch (error) {
-      console.error('Error creating connection:', error);
-      reject(new Error(`Failed to create KDB+ connection: ${error.message}`));
-    }
-  });
+  const session = getSession(sessionId);
+  if (!session) {
+    return res.status(404).json({
+      success: false,
+      error: `Unknown or expired session ${sessionId}`
+    });
+  }
+
+  req.kdbSession = session;
+  next();
 };
 
-// Execute KDB+ queries using node-q
-const executeKdbQuery = async (query) => {
-  if (!kdbConnection) {
+// Call a q function with arguments sent as data, k(fn, args), e.g. ('{cols x}', [symbolArg(table)]).
+// Anything the bridge asks q about on the browser's behalf goes this way, never spliced into q text.
+const executeKdbCall = async (session, fn, args, timeoutMs = QUERY_TIMEOUT_MS, info = null) => {
+  // A session whose socket dropped rejects with CONNECTION_LOST from session.query()
+  if (!session) {
     throw new Error('Not connected to KDB+ server');
   }
 
   return new Promise((resolve, reject) => {
     try {
-      console.log(`Executing KDB+ query: ${query}`);
+      log.debug(`[session ${session.id}] Executing KDB+ query: ${fn}${args.length ? ` with ${args.join(', ')}` : ''}`);
       
-      kdbConnection.k(query, (err, result) => {
-        if (err) {
-          console.error(`Query failed: ${query}`, err);
-          reject(new Error(`Query execution failed: ${err.message || err}`));
-          return;
-        }
-        
-        console.log(`Query successful: ${query}`, typeof result, Array.isArray(result) ? `Array(${result.length})` : result);
-        
-        // AGGRESSIVE DEBUG: Log the raw result structure
-        console.log('=== RAW KDB+ RESULT DEBUG ===');
-        console.log('Result type:', typeof result);
-        console.log('Is array:', Array.isArray(result));
-        if (result && typeof result === 'object' && !Array.isArray(result)) {
-          console.log('Object keys:', Object.keys(result));
-          Object.keys(result).forEach(key => {
-            const value = result[key];
-            if (Array.isArray(value)) {
-              console.log(`  ${key}: Array[${value.length}] - first few:`, value.slice(0, 3), `(types: ${value.slice(0, 3).map(v => typeof v).join(', ')})`);
-            } else {
-              console.log(`  ${key}:`, value, `(${typeof value})`);
-            }
-          });
-        }
-        console.log('================================');
-        
+      session.query(fn, { timeoutMs, info, args }).then((result) => {
+        log.debug(`[session ${session.id}] Query returned ${Array.isArray(result) ? `${result.length} items` : typeof result}`);
         resolve(result);
+      }, (err) => {
+        log.warn(`[session ${session.id}] Query failed: ${fn}`, err.message || err);
+        // Bridge errors (e.g. a dropped connection) keep their code for the client; anything else was signalled by q
+        reject(err instanceof KdbBridgeError ? err : classifyQueryError(err));
       });
     } catch (error) {
-      console.error(`Error executing query: ${query}`, error);
+      log.error(`Error executing query: ${fn}`, error);
       reject(new Error(`Query execution error: ${error.message}`));
     }
   });
 };
 
-// Helper function to parse KDB+ table list
-const parseTableList = (result) => {
-  if (!result) return [];
-  
-  // result should be an array of table names
-  if (Array.isArray(result)) {
-    return result.map(tableName => ({
-      name: toStringValue(tableName), // Convert symbol objects to strings
-      columns: [], // Will be populated when table is selected
-      rowCount: 0   // Will be populated when table is selected
-    }));
+// Execute KDB+ queries using node-q; `info` receives the result's top-level q type
+const executeKdbQuery = (session, query, timeoutMs = QUERY_TIMEOUT_MS, info = null) =>
+  executeKdbCall(session, query, [], timeoutMs, info);
+
+// Run a query statement by statement (see server/statements.js) and resolve with the value of the
+// last one. A q error stops the run and says which statement signalled it; the timeout applies
+// to each statement. Nothing runs unless the session's query policy allows every statement
+// (see server/guard.js); `confirmed` is the user's go-ahead for flagged ones.
+const checkKdbScript = (session, script, { confirmed = false } = {}) => {
+  const statements = splitStatements(script);
+  if (statements.length === 0) {
+    throw new KdbBridgeError(ErrorCodes.INVALID_REQUEST, 'Query is empty', 400);
   }
-  
-  return [];
+  enforceQueryPolicy(session.config.policy, statements, { confirmed });
+  return statements;
 };
 
-// Helper function to get table metadata
-const getTableMetadata = async (tableName) => {
-  try {
-    // Ensure tableName is a string for query construction
-    const tableNameStr = toStringValue(tableName);
-    
-    // Get column names by querying the table structure
-    // Use cols command to get column names directly
-    const colsResult = await executeKdbQuery(`cols ${tableNameStr}`);
-    let columns = [];
-    
-    if (Array.isArray(colsResult)) {
-      columns = colsResult;
-    } else if (typeof colsResult === 'object' && colsResult !== null) {
-      columns = Object.keys(colsResult);
-    }
-    
-    // Get row count
-    const countResult = await executeKdbQuery(`count ${tableNameStr}`);
-    const rowCount = typeof countResult === 'number' ? countResult : 0;
-    
-    console.log(`Table ${tableNameStr} metadata:`, { columns, rowCount });
-    return { columns, rowCount };
-  } catch (error) {
-    console.warn(`Failed to get metadata for table ${tableNameStr}:`, error.message);
-    // Fallback: try to get column names from a single row
+const executeKdbScript = async (session, script, timeoutMs = QUERY_TIMEOUT_MS, info = null, { confirmed = false } = {}) => {
+  const statements = checkKdbScript(session, script, { confirmed });
+
+  let result;
+  for (const statement of statements) {
     try {
-      const sampleResult = await executeKdbQuery(`1#${tableNameStr}`);
-      if (Array.isArray(sampleResult) && sampleResult.length > 0 && typeof sampleResult[0] === 'object') {
-        const columns = Object.keys(sampleResult[0]);
-        const countResult = await executeKdbQuery(`count ${tableNameStr}`);
-        const rowCount = typeof countResult === 'number' ? countResult : 0;
-        console.log(`Table ${tableNameStr} fallback metadata:`, { columns, rowCount });
-        return { columns, rowCount };
+      result = await executeKdbQuery(session, statement.text, timeoutMs, info);
+    } catch (error) {
+      if (error.code === ErrorCodes.QUERY_ERROR) {
+        error.details.statement = { ...statement, count: statements.length };
       }
-    } catch (fallbackError) {
-      console.warn(`Fallback metadata failed for ${tableNameStr}:`, fallbackError.message);
+      throw error;
     }
-    return { columns: [], rowCount: 0 };
   }
+  return result;
 };
 
-// Helper function to convert KDB+ data types to JavaScript compatible values
-const convertKdbValue = (value, columnName = '', expectedType = '') => {
-  if (value === null || value === undefined) {
-    return null;
-  }
-  
-  // Handle KDB+ specific null/infinity values
-  if (typeof value === 'number') {
-    if (value === -2147483648) return null; // KDB+ null int
-    if (value === -9223372036854775808) return null; // KDB+ null long
-    if (isNaN(value)) return null;
-    if (!isFinite(value)) return value > 0 ? 'Infinity' : '-Infinity';
-    
-    // REMOVED: Dangerous server-side numeric-to-time conversion
-    // Node-q handles all temporal conversions correctly at deserialization level
-  }
-  
-  // Handle KDB+ timestamps (if it's already a Date object)
-  if (value instanceof Date) {
-    return value.toISOString();
-  }
-  
-  // Handle strings with potential encoding issues
-  if (typeof value === 'string') {
-    return value.toString();
+// Run a query for the browser and record it in the audit log, whether it succeeds or not. `info`
+// is the object the query fills in with its result's q type, needed to count an atom's rows.
+const runAudited = async (session, client, kind, text, info, run) => {
+  const startedAt = Date.now();
+  try {
+    const result = await run();
+    auditLog.record({ session, client, kind, query: text, startedAt, rowCount: describeResult(result, info).count });
+    return result;
+  } catch (error) {
+    auditLog.record({ session, client, kind, query: text, startedAt, error });
+    throw error;
   }
-  
-  // For all other values, return as-is
-  return value;
 };
 
-// Helper function to format query results for frontend
-const formatQueryResult = (result) => {
-  console.log('=== DEBUG: formatQueryResult input ===');
-  console.log('Result type:', typeof result);
-  console.log('Result is array:', Array.isArray(result));
-  if (result && typeof result === 'object') {
-    console.log('Result keys:', Object.keys(result));
-    if (Array.isArray(result) && result.length > 0) {
-      console.log('First row:', result[0]);
-      console.log('First row type:', typeof result[0]);
-    } else if (!Array.isArray(result)) {
-      const keys = Object.keys(result);
-      keys.forEach(key => {
-        const value = result[key];
-        console.log(`Column "${key}":`, Array.isArray(value) ? `Array[${value.length}] - first value: ${value[0]} (${typeof value[0]})` : `${value} (${typeof value})`);
-      });
-    }
-  }
-  console.log('=======================================');
-
-  if (!result) {
-    return {
-      columns: [],
-      data: [],
-      meta: { types: [], count: 0 }
-    };
-  }
-
-  // Handle different result types
-  if (Array.isArray(result)) {
-    // Check if it's an array of objects (table rows from KDB+)
-    if (result.length > 0 && typeof result[0] === 'object' && result[0] !== null && !Array.isArray(result[0])) {
-      // This is a table result - extract columns from first row
-      const columns = Object.keys(result[0]);
-      
-      // First pass: determine types (safe approach - trust node-q, classify strings only)
-      const types = columns.map(col => {
-        const sampleValue = result[0][col];
-        
-        if (typeof sampleValue === 'number') {
-          // Never convert numbers - let them stay as numbers
-          // Node-q already handled any necessary temporal conversions
-          return 'number';
-        }
-        
-        // Check for KDB+ symbol objects first
-        if (typeof sampleValue === 'object' && sampleValue !== null && sampleValue.__kdb_type === 'symbol') {
-          return 'symbol';
-        }
-        
-        if (typeof sampleValue === 'string') {
-          // Check for KDB+ time patterns - most specific first!
-          // Check exact HH:MM:SS format first (no milliseconds)
-          if (/^\d{2}:\d{2}:\d{2}$/.test(sampleValue)) {
-            return 'second'; // HH:MM:SS from KDB+ second type (18h)
-          }
-          // Then check HH:MM:SS.mmm format  
-          if (/^\d{2}:\d{2}:\d{2}\.\d{3}$/.test(sampleValue)) {
-            return 'time'; // HH:MM:SS.mmm from KDB+ time type (19h)
-          }
-          // Finally check HH:MM format
-          if (/^\d{2}:\d{2}$/.test(sampleValue)) {
-            return 'minute'; // HH:MM from KDB+ minute type (17h)
-          }
-          if (sampleValue.includes('T')) {
-            return 'datetime'; // ISO datetime
-          }
-          return 'string';
-        }
-        
-        if (sampleValue instanceof Date) return 'datetime';
-        return 'mixed';
-      });
-      
-      // Second pass: convert data using type information
-      const data = result.map(row => 
-        columns.map((col, colIndex) => convertKdbValue(row[col], col, types[colIndex]))
-      );
-
-      return {
-        columns,
-        data,
-        meta: { 
-          types, 
-          count: result.length 
-        }
-      };
-    }
-    
-    // Check if it's an array of symbols/strings (table names)
-    if (result.length > 0 && typeof result[0] === 'string') {
-      return {
-        columns: ['name'],
-        data: result.map(item => [convertKdbValue(item, 'name', 'string')]),
-        meta: { types: ['string'], count: result.length }
-      };
-    }
-    
-    // Simple array result
-    return {
-      columns: ['result'],
-      data: result.map(item => [convertKdbValue(item, 'result', 'mixed')]),
-      meta: { types: ['mixed'], count: result.length }
-    };
-  }
-
-  if (typeof result === 'object' && result !== null) {
-    // Check if it's a KDB+ table result (column-oriented)
-    const columns = Object.keys(result);
-    if (columns.length === 0) {
-      return {
-        columns: [],
-        data: [],
-        meta: { types: [], count: 0 }
-      };
+// Open a new session; replaces the caller's previous session if one is given
+app.post('/api/connect', async (req, res) => {
+  // The password is only handed to node-q; it is never logged or echoed back
+  const { host, port, user, password, transport, caPath, socketPath, policy, sessionId } = req.body;
+  
+  try {
+    if (sessionId) {
+      closeSession(sessionId);
     }
 
-    // Get first column to determine row count
-    const firstColumn = result[columns[0]];
-    const rowCount = Array.isArray(firstColumn) ? firstColumn.length : 1;
+    const session = await createSession({
+      host,
+      port,
+      user: user || undefined,
+      password,
+      transport,
+      caPath: caPath || undefined,
+      socketPath: socketPath || undefined,
+      policy: policy || undefined
+    }, { queryPolicies: config.queryPolicies });
     
-    // First pass: determine types (safe approach - trust node-q, classify strings only)  
-    const types = columns.map(col => {
-      const colData = result[col];
-      const sampleValue = Array.isArray(colData) ? colData[0] : colData;
-      
-      if (typeof sampleValue === 'number') {
-        // Never convert numbers - let them stay as numbers
-        // Node-q already handled any necessary temporal conversions
-        return 'number';
-      }
-      
-      if (typeof sampleValue === 'string') {
-        // Check for KDB+ time patterns - most specific first!
-        // Check exact HH:MM:SS format first (no milliseconds)
-        if (/^\d{2}:\d{2}:\d{2}$/.test(sampleValue)) {
-          return 'second'; // HH:MM:SS from KDB+ second type (18h)
-        }
-        // Then check HH:MM:SS.mmm format  
-        if (/^\d{2}:\d{2}:\d{2}\.\d{3}$/.test(sampleValue)) {
-          return 'time'; // HH:MM:SS.mmm from KDB+ time type (19h)
-        }
-        // Finally check HH:MM format
-        if (/^\d{2}:\d{2}$/.test(sampleValue)) {
-          return 'minute'; // HH:MM from KDB+ minute type (17h)
-        }
-        if (sampleValue.includes('T')) {
-          return 'datetime'; // ISO datetime
-        }
-        return 'string';
+    res.json({ 
+      success: true, 
+      message: `Connected to KDB+ at ${session.target}`,
+      sessionId: session.id,
+      connection: {
+        host,
+        port,
+        user: user || null,
+        transport: session.config.transport,
+        socketPath: session.config.socketPath || null,
+        policy: session.config.policy
       }
-      
-      if (sampleValue instanceof Date) return 'datetime';
-      return 'mixed';
     });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-    // Second pass: convert to row-based format with proper type conversion
-    const data = [];
-    for (let i = 0; i < rowCount; i++) {
-      const row = columns.map((col, colIndex) => {
-        const colData = result[col];
-        const value = Array.isArray(colData) ? colData[i] : colData;
-        return convertKdbValue(value, col, types[colIndex]);
-      });
-      data.push(row);
-    }
+// Close a session and release its KDB+ socket
+app.post('/api/disconnect', (req, res) => {
+  const sessionId = req.get('X-Session-Id') || req.body.sessionId;
+  const closed = closeSession(sessionId);
 
-    return {
-      columns,
-      data,
-      meta: { 
-        types, 
-        count: rowCount 
-      }
-    };
-  }
+  res.json({
+    success: true,
+    closed
+  });
+});
 
-  // Single value result
-  return {
-    columns: ['result'],
-    data: [[convertKdbValue(result, 'result', 'mixed')]],
-    meta: { types: ['mixed'], count: 1 }
-  };
-};
+// The caller's own session; ids of other sessions are never listed
+app.get('/api/sessions', resolveSession, (req, res) => {
+  res.json({
+    success: true,
+    sessions: [{ id: req.kdbSession.id, ...req.kdbSession.describe() }]
+  });
+});
 
-// Test connection endpoint
-app.post('/api/connect', async (req, res) => {
-  const { host, port } = req.body;
-  
+// Table names, and which are partitioned; columns and counts come from /api/tables/:name/meta
+app.get('/api/tables', resolveSession, async (req, res) => {
   try {
-    await connectToKdb(host, port);
-    
+    const tables = parseTableList(await executeKdbQuery(req.kdbSession, LIST_TABLES));
+
     res.json({ 
       success: true, 
-      message: `Connected to KDB+ at ${host}:${port}`,
-      connection: { host, port }
+      tables 
     });
   } catch (error) {
-    res.status(500).json({ 
-      success: false, 
-      error: error.message 
+    sendError(res, error, { tables: [] });
+  }
+});
+
+// Columns (from meta) and row count of one table; count=true also counts a partitioned table
+app.get('/api/tables/:tableName/meta', resolveSession, async (req, res) => {
+  const tableName = toStringValue(req.params.tableName);
+
+  try {
+    checkQName(tableName, 'table name');
+    const result = await executeKdbCall(req.kdbSession, TABLE_METADATA, [symbolArg(tableName), req.query.count === 'true']);
+
+    res.json({
+      success: true,
+      table: parseTableMetadata(tableName, result)
     });
+  } catch (error) {
+    sendError(res, error, { tableName });
   }
 });
 
-// Get tables endpoint
-app.get('/api/tables', async (req, res) => {
+// Partition field and partitions (oldest first) of a partitioned table; field is null otherwise
+app.get('/api/tables/:tableName/partitions', resolveSession, async (req, res) => {
+  const tableName = toStringValue(req.params.tableName);
+
   try {
-    const tablesResult = await executeKdbQuery('tables[]');
-    const tables = parseTableList(tablesResult);
-    
-    // Get metadata for each table
-    const tablesWithMetadata = await Promise.all(
-      tables.map(async (table) => {
-        const { columns, rowCount } = await getTableMetadata(table.name);
-        return {
-          ...table,
-          columns,
-          rowCount
-        };
-      })
-    );
-    
-    res.json({ 
-      success: true, 
-      tables: tablesWithMetadata 
+    checkQName(tableName, 'table name');
+    const result = await executeKdbCall(req.kdbSession, TABLE_PARTITIONS, [symbolArg(tableName)]);
+
+    res.json({
+      success: true,
+      ...parsePartitions(result)
     });
   } catch (error) {
-    res.status(500).json({ 
-      success: false, 
-      error: error.message,
-      tables: [] 
+    sendError(res, error, { tableName });
+  }
+});
+
+// The entries of one namespace for the sidebar tree: namespace=. (the default) for the root, .ns for a context
+app.get('/api/namespaces', resolveSession, async (req, res) => {
+  const namespace = String(req.query.namespace || '.');
+
+  try {
+    checkNamespace(namespace);
+    const result = await executeKdbCall(req.kdbSession, LIST_NAMESPACE, [symbolArg(namespace)]);
+
+    res.json({
+      success: true,
+      namespace,
+      entries: parseNamespaceEntries(result)
     });
+  } catch (error) {
+    sendError(res, error, { entries: [] });
   }
 });
 
-// Get table data endpoint with improved pagination
-app.get('/api/tables/:tableName/data', async (req, res) => {
+// The first `limit` items of a variable (or a view's value), or a function's source
+app.get('/api/namespaces/preview', resolveSession, async (req, res) => {
+  const name = String(req.query.name || '');
+  const limit = Math.min(parseInt(req.query.limit) || PREVIEW_ROW_LIMIT, PREVIEW_ROW_LIMIT);
+
+  try {
+    checkQName(name, 'name');
+    const rows = Math.max(limit, 1);
+    const info = {};
+    const result = await runAudited(req.kdbSession, req.ip, 'browse', `${PREVIEW_ENTRY}[\`${name};${rows}]`, info, () => (
+      executeKdbCall(req.kdbSession, PREVIEW_ENTRY, [symbolArg(name), rows], QUERY_TIMEOUT_MS, info)
+    ));
+
+    res.json({
+      success: true,
+      data: formatQueryResult(result, info)
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Column name -> q type char (meta's t column) of a table
+const getColumnTypes = async (session, tableName) => {
+  const [keys, values] = await executeKdbCall(session, '{meta x}', [symbolArg(tableName)]);
+  return new Map(keys.map((row, i) => [toStringValue(row.c), values[i].t || ' ']));
+};
+
+// The sort/filters query parameters are JSON; anything unreadable is a bad request
+const parseViewParam = (value, name) => {
+  if (value === undefined || value === '') return [];
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new KdbBridgeError(ErrorCodes.INVALID_REQUEST, `Invalid ${name} parameter`, 400);
+  }
+};
+
+// The partition a page of tableName is read from: the one asked for, or the latest; null when
+// the table is not partitioned
+const resolvePartition = async (session, tableName, requested) => {
+  const { field, partitions } = parsePartitions(await executeKdbCall(session, LATEST_PARTITION, [symbolArg(tableName)]));
+  if (!field) {
+    if (requested) {
+      throw new KdbBridgeError(ErrorCodes.INVALID_REQUEST, `${tableName} is not partitioned`, 400);
+    }
+    return null;
+  }
+  if (!requested && partitions.length === 0) {
+    throw new KdbBridgeError(ErrorCodes.INVALID_REQUEST, `${tableName} has no partitions`, 400);
+  }
+  return { field, value: requested || partitions[0] };
+};
+
+// One page of a table, optionally sorted (sort=[{column,desc}]), filtered
+// (filters=[{column,op,value}]) and searched (search=text) by q before paging. A partitioned
+// table is read from one partition (partition=2024.01.15), by default the latest.
+app.get('/api/tables/:tableName/data', resolveSession, async (req, res) => {
   const { tableName } = req.params;
   const tableNameStr = toStringValue(tableName); // Ensure string for queries
-  const { offset = 0, limit = 100 } = req.query;
+  const { offset = 0, limit = 100, sort, filters, search = '', partition = '' } = req.query;
   
   try {
+    // The name comes straight from the URL: only names q could have defined get any further
+    checkQName(tableNameStr, 'table name');
     const offsetNum = parseInt(offset);
     const limitNum = parseInt(limit);
     
@@ -483,121 +378,491 @@ app.get('/api/tables/:tableName/data', async (req, res) => {
       });
     }
     
-    // Use KDB+ syntax for pagination
-    // For better performance with large tables, use select statement
-    const query = `select from ${tableNameStr} where i within (${offsetNum};${offsetNum + limitNum - 1})`;
+    const columnTypes = await getColumnTypes(req.kdbSession, tableNameStr);
+    const view = normalizeTableView(columnTypes, {
+      sort: parseViewParam(sort, 'sort'),
+      filters: parseViewParam(filters, 'filters'),
+      search: String(search)
+    });
+    const scope = await resolvePartition(req.kdbSession, tableNameStr, String(partition));
+    const queries = buildTableViewQueries(tableNameStr, columnTypes, view, offsetNum, limitNum, scope);
     
-    console.log(`Fetching ${limitNum} rows from ${tableNameStr} starting at offset ${offsetNum}`);
-    const result = await executeKdbQuery(query);
-    const formattedData = formatQueryResult(result);
+    log.debug(`Fetching ${limitNum} rows from ${tableNameStr}${scope ? ` (${scope.field} ${scope.value})` : ''} starting at offset ${offsetNum}`);
+    const info = {};
+    // The page is audited as browsing; the view in it came from the browser
+    const result = await runAudited(req.kdbSession, req.ip, 'browse', queries.page, info, () => (
+      executeKdbQuery(req.kdbSession, queries.page, QUERY_TIMEOUT_MS, info)
+    ));
+    const total = toNumber(await executeKdbQuery(req.kdbSession, queries.count));
+    const formattedData = formatQueryResult(result, info);
     
-    // Add pagination metadata
+    // Add pagination metadata; total counts the rows matching the view
     const response = {
       success: true,
       data: formattedData,
       pagination: {
         offset: offsetNum,
         limit: limitNum,
-        returned: formattedData.data.length
-      }
+        returned: formattedData.data.length,
+        total
+      },
+      partition: scope
     };
     
     res.json(response);
   } catch (error) {
-    console.error(`Error fetching data from ${tableNameStr}:`, error);
-    res.status(500).json({ 
-      success: false, 
-      error: error.message,
-      tableName: tableNameStr
-    });
+    log.error(`Error fetching data from ${tableNameStr}:`, error);
+    sendError(res, error, { tableName: tableNameStr });
   }
 });
 
+// Send a query result in the encoding the client asked for. Clients that can decode them get the
+// columnar frame or, for results longer than one chunk, a stream of row chunks; errors are JSON
+// either way. Results longer than the configured maximum, or than the client's rowLimit, are cut
+// short and marked truncated.
+const sendQueryResult = async (req, res, result, info, rowLimit) => {
+  const description = limitRows(describeResult(result, info), config.maxResultRows);
+  const requestedRows = parseInt(rowLimit) || 0;
+  const rows = requestedRows > 0 ? Math.min(description.count, requestedRows) : description.count;
+  if (rows > STREAM_CHUNK_ROWS && req.accepts(['application/json', COLUMNAR_CONTENT_TYPE, NDJSON_CONTENT_TYPE]) === NDJSON_CONTENT_TYPE) {
+    await streamQueryResult(res, description, { rowLimit: requestedRows });
+    return;
+  }
+
+  // A result that fits in one chunk gains nothing from streaming and goes whole
+  const limited = limitRows(description, requestedRows);
+  if (req.accepts(['application/json', COLUMNAR_CONTENT_TYPE]) === COLUMNAR_CONTENT_TYPE) {
+    res.type(COLUMNAR_CONTENT_TYPE).send(encodeColumnar(limited));
+    return;
+  }
+
+  const formattedData = formatDescription(limited);
+  
+  res.json({ 
+    success: true, 
+    data: formattedData 
+  });
+};
+
 // Execute query endpoint - simplified version
-app.post('/api/query', async (req, res) => {
-  const { query } = req.body;
+app.post('/api/query', resolveSession, async (req, res) => {
+  const { query, timeoutMs, rowLimit, confirmed } = req.body;
   
   try {
-    const result = await executeKdbQuery(query);
-    const formattedData = formatQueryResult(result);
-    
-    res.json({ 
-      success: true, 
-      data: formattedData 
+    const info = {};
+    const result = await runAudited(req.kdbSession, req.ip, 'query', query, info, () => (
+      executeKdbScript(req.kdbSession, query, resolveQueryTimeout(timeoutMs), info, { confirmed: confirmed === true })
+    ));
+    await sendQueryResult(req, res, result, info, rowLimit);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Cancel the session's running queries by restarting its socket
+app.post('/api/query/cancel', resolveSession, (req, res) => {
+  const cancelled = req.kdbSession.cancel();
+
+  res.json({
+    success: true,
+    cancelled
+  });
+});
+
+// Queue a query to run in the background, on the session's job socket rather than its own; the
+// job id comes back at once and the result is fetched from /api/jobs/:id/result when it is done.
+// The query policy is checked up front, so a statement that needs confirming is refused here
+// rather than failing the job later.
+app.post('/api/jobs', resolveSession, (req, res) => {
+  const { query, timeoutMs, confirmed } = req.body;
+  const session = req.kdbSession;
+  const client = req.ip;
+
+  try {
+    try {
+      checkKdbScript(session, query, { confirmed: confirmed === true });
+    } catch (error) {
+      // Audited like a query /api/query refuses
+      auditLog.record({ session, client, kind: 'job', query, startedAt: Date.now(), error });
+      throw error;
+    }
+    const job = submitJob(session, query, (worker, info) => runAudited(session, client, 'job', query, info, () => (
+      // Jobs are for queries that run long: one that does not ask for a timeout gets the longest allowed
+      executeKdbScript(worker, query, resolveQueryTimeout(timeoutMs, QUERY_TIMEOUT_MAX_MS), info, { confirmed: confirmed === true })
+    )));
+    res.status(202).json({
+      success: true,
+      job: job.describe()
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// The session's running, queued and recent jobs, newest first
+app.get('/api/jobs', resolveSession, (req, res) => {
+  res.json({
+    success: true,
+    jobs: listJobs(req.kdbSession.id)
+  });
+});
+
+// Server-sent events with a job's description whenever one of the session's jobs changes status
+app.get('/api/jobs/events', resolveSession, (req, res) => {
+  const queue = getJobQueue(req.kdbSession);
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.flushHeaders();
+
+  const sendJob = (job) => res.write(`event: job\ndata: ${JSON.stringify(job)}\n\n`);
+  const handleClosed = () => res.end();
+  queue.on('job', sendJob);
+  queue.once('closed', handleClosed);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    queue.off('job', sendJob);
+    queue.off('closed', handleClosed);
+  });
+});
+
+// Look up a job, making sure it belongs to the caller's session
+const resolveJob = (req, res, next) => {
+  const job = getJob(req.params.jobId);
+  if (!job || job.session.id !== req.kdbSession.id) {
+    return res.status(404).json({
+      success: false,
+      error: `Unknown job ${req.params.jobId}`
     });
+  }
+
+  req.kdbJob = job;
+  next();
+};
+
+app.get('/api/jobs/:jobId', resolveSession, resolveJob, (req, res) => {
+  res.json({
+    success: true,
+    job: req.kdbJob.describe()
+  });
+});
+
+// The result of a finished job, encoded like /api/query's; a failed job answers with its error
+app.get('/api/jobs/:jobId/result', resolveSession, resolveJob, async (req, res) => {
+  const job = req.kdbJob;
+
+  try {
+    if (job.status === 'failed' || job.status === 'cancelled') {
+      throw job.error || new KdbBridgeError(ErrorCodes.QUERY_CANCELLED, 'Query cancelled', 499);
+    }
+    if (job.status !== 'done') {
+      throw new KdbBridgeError(ErrorCodes.JOB_NOT_FINISHED, `Job ${job.id} is ${job.status}`, 409, { status: job.status });
+    }
+    await sendQueryResult(req, res, job.result, job.info, req.query.rowLimit);
   } catch (error) {
-    res.status(500).json({ 
-      success: false, 
-      error: error.message 
+    sendError(res, error, { jobId: job.id });
+  }
+});
+
+app.post('/api/jobs/:jobId/cancel', resolveSession, resolveJob, (req, res) => {
+  res.json({
+    success: true,
+    cancelled: cancelJob(req.kdbJob)
+  });
+});
+
+// Lambdas in the root namespace and any others asked for (namespaces=.util,.ns), with their parameters
+app.get('/api/functions', resolveSession, async (req, res) => {
+  const { namespaces } = req.query;
+
+  try {
+    const requested = typeof namespaces === 'string' && namespaces.trim()
+      ? namespaces.split(',').map(namespace => namespace.trim()).filter(Boolean)
+      : undefined;
+    const result = await executeKdbCall(req.kdbSession, LIST_FUNCTIONS, [symbolsArg(checkNamespaces(requested))]);
+
+    res.json({
+      success: true,
+      functions: parseFunctionList(result)
     });
+  } catch (error) {
+    sendError(res, error, { functions: [] });
   }
 });
 
-// Global error handlers
-process.on('uncaughtException', (error) => {
-  console.error('Uncaught Exception:', error);
-  // Close KDB+ connection gracefully
-  if (kdbConnection) {
-    try {
-      kdbConnection.close();
-    } catch (e) {
-      console.error('Error closing KDB+ connection:', e);
+// Call a function by name with typed arguments ([{ type, value }], see server/functions.js).
+// The query policy cannot see what a call does, so it checks the function's own source.
+app.post('/api/functions/call', resolveSession, async (req, res) => {
+  const { name, args, timeoutMs, confirmed } = req.body;
+
+  try {
+    checkQName(name, 'function name');
+    const qArgs = functionArguments(args);
+    const { policy } = req.kdbSession.config;
+    if (policy !== 'read-write') {
+      const source = await executeKdbCall(req.kdbSession, FUNCTION_SOURCE, [symbolArg(name)]);
+      enforceQueryPolicy(policy, [{ index: 0, line: 1, text: String(source) }], { confirmed: confirmed === true });
+    }
+
+    // Recorded as the call it stands for, e.g. .util.vwap["AAPL";"2024-01-15"]
+    const text = `${name}[${(Array.isArray(args) ? args : []).map(arg => JSON.stringify(arg.value)).join(';')}]`;
+    const info = {};
+    const result = await runAudited(req.kdbSession, req.ip, 'function', text, info, () => (
+      executeKdbCall(req.kdbSession, name, qArgs, resolveQueryTimeout(timeoutMs), info)
+    ));
+
+    res.json({
+      success: true,
+      data: formatDescription(limitRows(describeResult(result, info), config.maxResultRows))
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Subscribe to a tickerplant table; updates are read from /api/subscriptions/:id/events
+app.post('/api/subscriptions', resolveSession, async (req, res) => {
+  const { table, syms = [] } = req.body;
+
+  try {
+    const subscription = await createSubscription(req.kdbSession, table, syms);
+    res.json({
+      success: true,
+      subscription: subscription.describe()
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// List the session's subscriptions
+app.get('/api/subscriptions', resolveSession, (req, res) => {
+  res.json({
+    success: true,
+    subscriptions: listSubscriptions(req.kdbSession.id)
+  });
+});
+
+// Look up a subscription, making sure it belongs to the caller's session
+const resolveSubscription = (req, res, next) => {
+  const subscription = getSubscription(req.params.subscriptionId);
+  if (!subscription || subscription.owner.id !== req.kdbSession.id) {
+    return res.status(404).json({
+      success: false,
+      error: `Unknown subscription ${req.params.subscriptionId}`
+    });
+  }
+
+  req.kdbSubscription = subscription;
+  next();
+};
+
+app.delete('/api/subscriptions/:subscriptionId', resolveSession, resolveSubscription, (req, res) => {
+  res.json({
+    success: true,
+    closed: closeSubscription(req.kdbSubscription.id)
+  });
+});
+
+// Server-sent events carrying upd batches (formatted like query results) and feed state
+app.get('/api/subscriptions/:subscriptionId/events', resolveSession, resolveSubscription, (req, res) => {
+  const subscription = req.kdbSubscription;
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.flushHeaders();
+
+  const sendEvent = (event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  const sendBatch = (rows) => sendEvent('upd', { table: subscription.table, ...formatQueryResult(rows) });
+  const sendState = (state) => sendEvent('status', state);
+  const handleClosed = () => {
+    sendEvent('status', { state: 'closed', attempt: 0, nextRetryAt: null, error: null });
+    res.end();
+  };
+
+  sendState(subscription.feed.describeState());
+  subscription.on('batch', sendBatch);
+  subscription.on('state', sendState);
+  subscription.once('closed', handleClosed);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    subscription.off('batch', sendBatch);
+    subscription.off('state', sendState);
+    subscription.off('closed', handleClosed);
+  });
+});
+
+// Server-sent events for a session's connection state (connected / reconnecting / disconnected)
+app.get('/api/events', resolveSession, (req, res) => {
+  const session = req.kdbSession;
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.flushHeaders();
+
+  const sendState = (state) => {
+    res.write(`event: status\ndata: ${JSON.stringify(state)}\n\n`);
+    if (state.state === 'closed') {
+      res.end();
     }
+  };
+  sendState(session.describeState());
+  session.on('state', sendState);
+
+  // Comment line keeps proxies from timing out an idle stream
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    session.off('state', sendState);
+  });
+});
+
+// Whose audit entries a request may read: a browser its own session's, and a request carrying the
+// audit token (audit.token) as X-Audit-Token every session's
+const resolveAuditScope = (req, res, next) => {
+  const token = req.get('X-Audit-Token');
+  if (token === undefined) {
+    return resolveSession(req, res, () => {
+      req.auditSessionId = req.kdbSession.id;
+      next();
+    });
+  }
+  if (!isAuditToken(config.audit.token, token)) {
+    return sendError(res, new KdbBridgeError(ErrorCodes.AUTH_FAILED, 'Invalid audit token', 401));
   }
+  req.auditSessionId = null;
+  next();
+};
+
+// Audit entries matching the filters (from, to, sessionId, user, kind, status, target, text),
+// newest first, at most `limit` of them, from the sessions the request may read
+app.get('/api/audit', resolveAuditScope, async (req, res) => {
+  try {
+    const filters = normalizeAuditFilters(req.query);
+    if (req.auditSessionId) {
+      filters.sessionId = req.auditSessionId;
+    }
+    const entries = await auditLog.search(filters);
+    res.json({
+      success: true,
+      entries,
+      limit: filters.limit,
+      retentionDays: auditLog.retentionDays
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Global error handlers
+process.on('uncaughtException', (error) => {
+  log.error('Uncaught Exception:', error);
+  // Close KDB+ connections gracefully
+  closeAllSubscriptions();
+  closeAllJobs();
+  closeAllSessions();
   process.exit(1);
 });
 
 process.on('unhandledRejection', (reason, promise) => {
-  console.error('Unhandled Rejection at:', promise, 'reason:', reason);
+  log.error('Unhandled Rejection at:', promise, 'reason:', reason);
 });
 
 // Graceful shutdown handler
 process.on('SIGINT', () => {
-  console.log('Received SIGINT, shutting down gracefully...');
-  if (kdbConnection) {
-    try {
-      kdbConnection.close();
-      console.log('KDB+ connection closed');
-    } catch (e) {
-      console.error('Error closing KDB+ connection:', e);
-    }
-  }
-  process.exit(0);
+  log.info('Received SIGINT, shutting down gracefully...');
+  closeAllSubscriptions();
+  closeAllJobs();
+  closeAllSessions();
+  // Let audit entries still being written reach the file
+  auditLog.close();
+  auditLog.flush().finally(() => process.exit(0));
 });
 
 process.on('SIGTERM', () => {
-  console.log('Received SIGTERM, shutting down gracefully...');
-  if (kdbConnection) {
-    try {
-      kdbConnection.close();
-      console.log('KDB+ connection closed');
-    } catch (e) {
-      console.error('Error closing KDB+ connection:', e);
-    }
-  }
-  process.exit(0);
+  log.info('Received SIGTERM, shutting down gracefully...');
+  closeAllSubscriptions();
+  closeAllJobs();
+  closeAllSessions();
+  // Let audit entries still being written reach the file
+  auditLog.close();
+  auditLog.flush().finally(() => process.exit(0));
 });
 
-// Health check endpoint
+// Health check endpoint. It needs no session, so it only counts what the bridge holds
 app.get('/api/health', (req, res) => {
+  const sessions = listSessions();
   const health = {
     status: 'healthy',
     timestamp: new Date().toISOString(),
     kdbConnection: {
-      connected: !!kdbConnection,
-      config: connectionConfig
-    }
+      sessions: sessions.length,
+      connected: sessions.filter(session => session.connected).length,
+      reconnecting: sessions.filter(session => session.state === 'reconnecting').length,
+      transports: sessions.reduce((counts, session) => {
+        counts[session.transport] = (counts[session.transport] || 0) + 1;
+        return counts;
+      }, {})
+    },
+    subscriptions: listSubscriptions().length,
+    jobs: countJobs()
   };
   
   res.json(health);
 });
 
-app.listen(PORT, () => {
-  console.log(`KDB+ API server running on http://localhost:${PORT}`);
-  console.log('Available endpoints:');
-  console.log('  POST /api/connect - Connect to KDB+ server');
-  console.log('  GET  /api/tables - List tables');
-  console.log('  GET  /api/tables/:name/data - Get table data');
-  console.log('  POST /api/query - Execute KDB+ query');
-  console.log('  GET  /api/health - Health check');
-});
\ No newline at end of file
+auditLog.startRetention();
+
+// Behind a path prefix the routes below are served under it, e.g. /kdb/api/query
+const server = config.basePath ? express().use(config.basePath, app) : app;
+
+const onListening = () => {
+  log.info(`KDB+ API server running on http://${config.host || 'localhost'}:${config.port}${config.basePath}`);
+  log.info(`Config: ${config.file || 'defaults and environment'}; allowed origins ${config.allowedOrigins.join(', ') || 'none'}`);
+  log.info(`Audit log: ${auditLog.path}${auditLog.retentionDays > 0 ? ` (kept for ${auditLog.retentionDays} days)` : ''}`);
+  log.info('Available endpoints:');
+  log.info('  POST /api/connect - Open a session to a KDB+ server');
+  log.info('  POST /api/disconnect - Close a session');
+  log.info('  GET  /api/sessions - Describe the calling session');
+  log.info('  GET  /api/tables - List tables');
+  log.info('  GET  /api/tables/:name/meta - Get table columns and row count');
+  log.info('  GET  /api/tables/:name/partitions - List partitions of a partitioned table');
+  log.info('  GET  /api/tables/:name/data - Get table data');
+  log.info('  POST /api/query - Execute KDB+ query');
+  log.info('  POST /api/query/cancel - Cancel running queries');
+  log.info('  POST /api/jobs - Run a query in the background');
+  log.info('  GET  /api/jobs - List running and recent jobs');
+  log.info('  GET  /api/jobs/events - Job status stream (SSE)');
+  log.info('  GET  /api/jobs/:id/result - Get a finished job\'s result');
+  log.info('  POST /api/jobs/:id/cancel - Cancel a job');
+  log.info('  GET  /api/events - Connection state stream (SSE)');
+  log.info('  POST /api/subscriptions - Subscribe to a tickerplant table');
+  log.info('  GET  /api/subscriptions/:id/events - Live updates (SSE)');
+  log.info('  DELETE /api/subscriptions/:id - Unsubscribe');
+  log.info('  GET  /api/audit - Search the query audit log');
+  log.info('  GET  /api/health - Health check');
+};
+
+if (config.host) {
+  server.listen(config.port, config.host, onListening);
+} else {
+  server.listen(config.port, onListening);
+}
\ No newline at end of file
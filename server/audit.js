@@ -0,0 +1,227 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { appendFile, mkdir, open, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { KdbBridgeError, ErrorCodes } from './errors.js';
+import { log } from './logger.js';
+
+// The audit log: one JSON object per line for every query run on a user's behalf (typed queries,
+// background jobs, function calls, and browsing: table pages with their sort, filters and search,
+// and namespace previews; not the bridge's lookups of names and metadata), appended as it finishes:
+//   { timestamp, sessionId, user, client, target, kind, query, durationMs, rowCount, status, error }
+// user is the q username of the session, client the browser's address and status ok, error or
+// cancelled. Text matching a redaction pattern is replaced by *** before anything is written.
+// Entries older than the retention period (if there is one) are dropped at startup and once a day.
+
+export const AUDIT_KINDS = ['query', 'job', 'function', 'browse'];
+
+const REDACTED = '***';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Entries /api/audit returns unless asked for fewer, and at most
+const DEFAULT_AUDIT_LIMIT = 200;
+const MAX_AUDIT_LIMIT = 1000;
+
+// Quoted values assigned to anything named like a password, secret or token, e.g. .z.pw checks
+// or `password:"hunter2"`, and the password of a connection string (`:host:port:user:password)
+export const DEFAULT_REDACT_PATTERNS = [
+  /((?:pass(?:word)?|pwd|secret|token|api_?key)\s*[:=]\s*)"(?:[^"\\]|\\.)*"/gi,
+  /(`:[^:\s`"]*:\d+:[^:\s`"]+:)[^\s`";)\]]+/g
+];
+
+// Redaction patterns from configuration: regular expressions, each either a plain source
+// (matched case-insensitively) or /source/flags. A first capture group is kept, so a pattern can
+// match a name along with the value it hides.
+export const compileRedactPatterns = (sources) => {
+  if (!Array.isArray(sources) || sources.some(source => typeof source !== 'string')) {
+    throw new Error('Audit redaction patterns must be a JSON array of regular expressions');
+  }
+  return sources.map((source) => {
+    const literal = /^\/(.+)\/([a-z]*)$/s.exec(source);
+    try {
+      const [pattern, flags] = literal ? [literal[1], literal[2]] : [source, 'i'];
+      return new RegExp(pattern, flags.includes('g') ? flags : `${flags}g`);
+    } catch (e) {
+      throw new Error(`Invalid audit redaction pattern ${source}: ${e.message}`);
+    }
+  });
+};
+
+// The same, given as JSON text (an environment variable); the defaults when there is none
+export const parseRedactPatterns = (text) => {
+  if (!text) return DEFAULT_REDACT_PATTERNS;
+
+  let sources;
+  try {
+    sources = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Audit redaction patterns must be a JSON array of regular expressions: ${e.message}`);
+  }
+  return compileRedactPatterns(sources);
+};
+
+export const redact = (text, patterns) => patterns.reduce(
+  (redacted, pattern) => redacted.replace(pattern, (match, kept) => (typeof kept === 'string' ? `${kept}${REDACTED}` : REDACTED)),
+  text
+);
+
+// Whether `given` is the configured audit token; never when there is none. Digests are compared
+// so the time taken says nothing about the token, not even its length.
+export const isAuditToken = (token, given) => {
+  if (!token || typeof given !== 'string') return false;
+  const digest = (text) => createHash('sha256').update(text).digest();
+  return timingSafeEqual(digest(token), digest(given));
+};
+
+// Check the filters of GET /api/audit: from/to (ISO times), exact sessionId, user, kind and status,
+// and target and text as case-insensitive substrings of the target and the query
+export const normalizeAuditFilters = (query) => {
+  const time = (name) => {
+    if (!query[name]) return null;
+    const value = Date.parse(query[name]);
+    if (isNaN(value)) {
+      throw new KdbBridgeError(ErrorCodes.INVALID_REQUEST, `Invalid ${name} time "${query[name]}"`, 400);
+    }
+    return value;
+  };
+  if (query.kind && !AUDIT_KINDS.includes(query.kind)) {
+    throw new KdbBridgeError(ErrorCodes.INVALID_REQUEST, `Unknown audit kind "${query.kind}" (expected ${AUDIT_KINDS.join(', ')})`, 400);
+  }
+  const limit = parseInt(query.limit);
+  return {
+    from: time('from'),
+    to: time('to'),
+    sessionId: query.sessionId || null,
+    user: query.user || null,
+    kind: query.kind || null,
+    status: query.status || null,
+    target: query.target ? String(query.target).toLowerCase() : null,
+    text: query.text ? String(query.text).toLowerCase() : null,
+    limit: isNaN(limit) || limit <= 0 ? DEFAULT_AUDIT_LIMIT : Math.min(limit, MAX_AUDIT_LIMIT)
+  };
+};
+
+export const matchesAuditFilters = (entry, filters) => {
+  const timestamp = Date.parse(entry.timestamp);
+  return (filters.from === null || timestamp >= filters.from)
+    && (filters.to === null || timestamp <= filters.to)
+    && (!filters.sessionId || entry.sessionId === filters.sessionId)
+    && (!filters.user || entry.user === filters.user)
+    && (!filters.kind || entry.kind === filters.kind)
+    && (!filters.status || entry.status === filters.status)
+    && (!filters.target || String(entry.target).toLowerCase().includes(filters.target))
+    && (!filters.text || String(entry.query).toLowerCase().includes(filters.text));
+};
+
+// Every entry in a log file, oldest first; lines that do not parse are skipped
+const readEntries = async function* (path) {
+  let file;
+  try {
+    file = await open(path);
+  } catch (error) {
+    if (error.code === 'ENOENT') return;
+    throw error;
+  }
+  try {
+    for await (const line of file.readLines()) {
+      if (!line.trim()) continue;
+      try {
+        yield JSON.parse(line);
+      } catch (e) {
+        // A line cut short by a crash while writing
+      }
+    }
+  } finally {
+    await file.close().catch(() => undefined);
+  }
+};
+
+// Append-only JSON Lines file of audit entries. Writes are queued so entries keep their order
+// and never interleave; a failed write is reported on the console and does not fail the query.
+export class AuditLog {
+  constructor({ path, retentionDays = 90, redactPatterns = DEFAULT_REDACT_PATTERNS }) {
+    this.path = path;
+    this.retentionDays = retentionDays;
+    this.redactPatterns = redactPatterns;
+    this.writes = mkdir(dirname(path), { recursive: true }).catch((error) => {
+      log.error(`[audit] Cannot create ${dirname(path)}:`, error.message);
+    });
+    this.pruneTimer = null;
+  }
+
+  record({ session, client = null, kind, query, startedAt, rowCount = null, error = null }) {
+    const entry = {
+      timestamp: new Date().toISOString(),
+      sessionId: session.id,
+      user: session.config.user || null,
+      client,
+      target: session.target,
+      kind,
+      query: redact(String(query), this.redactPatterns),
+      durationMs: Date.now() - startedAt,
+      rowCount: error ? null : rowCount,
+      status: !error ? 'ok' : error.code === ErrorCodes.QUERY_CANCELLED ? 'cancelled' : 'error',
+      error: error ? { code: error.code || null, message: redact(String(error.message || error), this.redactPatterns) } : null
+    };
+    this.enqueue(() => appendFile(this.path, `${JSON.stringify(entry)}\n`));
+    return entry;
+  }
+
+  enqueue(write) {
+    this.writes = this.writes.then(write).catch((error) => {
+      log.error(`[audit] Cannot write ${this.path}:`, error.message);
+    });
+    return this.writes;
+  }
+
+  // Resolves once everything recorded so far is on disk
+  flush() {
+    return this.writes;
+  }
+
+  // The newest entries matching the filters (see normalizeAuditFilters), newest first
+  async search(filters) {
+    await this.flush();
+    const matches = [];
+    for await (const entry of readEntries(this.path)) {
+      if (!matchesAuditFilters(entry, filters)) continue;
+      matches.push(entry);
+      if (matches.length > filters.limit) matches.shift();
+    }
+    return matches.reverse();
+  }
+
+  // Drop entries older than the retention period; resolves to how many were dropped
+  prune(now = Date.now()) {
+    if (this.retentionDays <= 0) return Promise.resolve(0);
+    const cutoff = now - this.retentionDays * DAY_MS;
+    let dropped = 0;
+    return this.enqueue(async () => {
+      const kept = [];
+      for await (const entry of readEntries(this.path)) {
+        if (Date.parse(entry.timestamp) < cutoff) {
+          dropped += 1;
+        } else {
+          kept.push(JSON.stringify(entry));
+        }
+      }
+      if (dropped === 0) return;
+      const temporary = `${this.path}.${process.pid}.tmp`;
+      await writeFile(temporary, kept.map(line => `${line}\n`).join(''));
+      await rename(temporary, this.path);
+      log.info(`[audit] Dropped ${dropped} entries older than ${this.retentionDays} days`);
+    }).then(() => dropped);
+  }
+
+  // Prune now and then once a day
+  startRetention() {
+    this.prune();
+    this.pruneTimer = setInterval(() => this.prune(), DAY_MS);
+    this.pruneTimer.unref();
+  }
+
+  close() {
+    clearInterval(this.pruneTimer);
+    this.pruneTimer = null;
+  }
+}
@@ -0,0 +1,88 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { KdbBridgeError, ErrorCodes } from './errors.js';
+import { AuditLog, DEFAULT_REDACT_PATTERNS, isAuditToken, normalizeAuditFilters, parseRedactPatterns, redact } from './audit.js';
+
+const session = { id: 's1', target: 'alice@localhost:5000', config: { user: 'alice' } };
+
+let directory;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'kdb-audit-'));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('redact', () => {
+  it('masks passwords by default and keeps what names them', () => {
+    expect(redact('.auth.login[`bob; password:"hunter2"]', DEFAULT_REDACT_PATTERNS)).toBe('.auth.login[`bob; password:***]');
+    expect(redact('h:hopen `:tp:5010:bob:s3cret; h"tables[]"', DEFAULT_REDACT_PATTERNS)).toBe('h:hopen `:tp:5010:bob:***; h"tables[]"');
+    expect(redact('select from trade', DEFAULT_REDACT_PATTERNS)).toBe('select from trade');
+  });
+
+  it('uses configured patterns, plain or /source/flags', () => {
+    const patterns = parseRedactPatterns('["acct[0-9]+", "/(ssn=)\\\\d+/"]');
+    expect(redact('select from pos where account=`ACCT123, ssn=123456', patterns)).toBe('select from pos where account=`***, ssn=***');
+    expect(() => parseRedactPatterns('acct')).toThrow(/JSON array/);
+    expect(() => parseRedactPatterns('["("]')).toThrow(/Invalid audit redaction pattern/);
+  });
+});
+
+describe('isAuditToken', () => {
+  it('accepts only the configured token, and nothing when there is none', () => {
+    expect(isAuditToken('s3cret-token', 's3cret-token')).toBe(true);
+    expect(isAuditToken('s3cret-token', 's3cret')).toBe(false);
+    expect(isAuditToken('s3cret-token', undefined)).toBe(false);
+    expect(isAuditToken(null, '')).toBe(false);
+    expect(isAuditToken(null, 'anything')).toBe(false);
+  });
+});
+
+describe('AuditLog', () => {
+  it('appends entries and finds the newest matching ones', async () => {
+    const log = new AuditLog({ path: join(directory, 'audit.jsonl') });
+    log.record({ session, client: '10.0.0.1', kind: 'query', query: 'select from trade', startedAt: Date.now(), rowCount: 10 });
+    log.record({ session, kind: 'job', query: 'select from quote', startedAt: Date.now(), rowCount: 5 });
+    log.record({ session, kind: 'query', query: "'oops", startedAt: Date.now(), error: new KdbBridgeError(ErrorCodes.QUERY_ERROR, "'oops") });
+
+    const all = await log.search(normalizeAuditFilters({}));
+    expect(all.map(entry => entry.query)).toEqual(["'oops", 'select from quote', 'select from trade']);
+    expect(all[2]).toMatchObject({ sessionId: 's1', user: 'alice', client: '10.0.0.1', target: 'alice@localhost:5000', rowCount: 10, status: 'ok', error: null });
+    expect(all[0]).toMatchObject({ status: 'error', rowCount: null, error: { code: 'QUERY_ERROR' } });
+
+    expect((await log.search(normalizeAuditFilters({ kind: 'query', text: 'TRADE' }))).map(entry => entry.query)).toEqual(['select from trade']);
+    expect((await log.search(normalizeAuditFilters({ status: 'error' })))).toHaveLength(1);
+    expect((await log.search(normalizeAuditFilters({ limit: '2' }))).map(entry => entry.query)).toEqual(["'oops", 'select from quote']);
+  });
+
+  it('keeps browsing apart from typed queries', async () => {
+    const log = new AuditLog({ path: join(directory, 'audit.jsonl') });
+    const page = '0 100 sublist ?[`$"trade";enlist (=;`$"sym";(enlist `$"IBM"));0b;()]';
+    log.record({ session, kind: 'browse', query: page, startedAt: Date.now(), rowCount: 100 });
+    log.record({ session, kind: 'query', query: 'select from trade where sym=`IBM', startedAt: Date.now(), rowCount: 120 });
+
+    expect((await log.search(normalizeAuditFilters({ kind: 'browse' }))).map(entry => entry.query)).toEqual([page]);
+  });
+
+  it('drops entries past the retention period', async () => {
+    const path = join(directory, 'audit.jsonl');
+    const old = { timestamp: '2024-01-01T00:00:00.000Z', query: 'old' };
+    const recent = { timestamp: '2024-03-01T00:00:00.000Z', query: 'recent' };
+    await writeFile(path, `${JSON.stringify(old)}\n${JSON.stringify(recent)}\n`);
+
+    const log = new AuditLog({ path, retentionDays: 30 });
+    expect(await log.prune(Date.parse('2024-03-10T00:00:00.000Z'))).toBe(1);
+    expect(await readFile(path, 'utf8')).toBe(`${JSON.stringify(recent)}\n`);
+    expect(await new AuditLog({ path, retentionDays: 0 }).prune()).toBe(0);
+  });
+
+  it('refuses filters it cannot apply', () => {
+    expect(() => normalizeAuditFilters({ from: 'yesterday' })).toThrow(/Invalid from time/);
+    expect(() => normalizeAuditFilters({ kind: 'login' })).toThrow(/Unknown audit kind/);
+    expect(normalizeAuditFilters({ limit: '100000' }).limit).toBe(1000);
+  });
+});
@@ -0,0 +1,134 @@
+import Long from 'long';
+import { convertKdbValue, resultHeader } from './results.js';
+
+// Columnar encoding of a query result, sent instead of JSON when the browser asks for it.
+// Numeric vectors travel as little-endian typed arrays with q's own null and infinity
+// sentinels, symbols as an index into a per-column dictionary, and anything else as the
+// same JSON values formatQueryResult would send.
+//
+// Frame: "KDBC" | header length (uint32) | header JSON | pad to 8 | column buffers
+// The header's rows is how many values each column holds, fewer than meta.count when truncated.
+// Buffer offsets in the header are relative to the first byte after the padding, and
+// every buffer starts on an 8-byte boundary so the browser can view it in place.
+
+export const COLUMNAR_CONTENT_TYPE = 'application/x-kdb-columnar';
+
+const MAGIC = 'KDBC';
+
+const align8 = (n) => (n + 7) & ~7;
+
+// Sentinels of the integer types, as q writes them
+const INT_SENTINELS = {
+  int16: { nul: -32768, inf: 32767 },
+  int32: { nul: -2147483648, inf: 2147483647 }
+};
+
+const LONG_NULL = Long.MIN_VALUE;
+const LONG_INFINITY = Long.MAX_VALUE;
+const LONG_NEG_INFINITY = Long.MAX_VALUE.negate();
+
+// Bytes per value for each typed encoding, keyed by the q type it carries
+const TYPED_ENCODINGS = {
+  boolean: { encoding: 'uint8', size: 1 },
+  byte: { encoding: 'uint8', size: 1 },
+  short: { encoding: 'int16', size: 2 },
+  int: { encoding: 'int32', size: 4 },
+  long: { encoding: 'int64', size: 8 },
+  real: { encoding: 'float32', size: 4 },
+  float: { encoding: 'float64', size: 8 },
+  symbol: { encoding: 'symbol', size: 4 }
+};
+
+const toLong = (value) => {
+  if (Long.isLong(value)) return value;
+  if (value === null || value === undefined || Number.isNaN(value)) return LONG_NULL;
+  if (value === Infinity) return LONG_INFINITY;
+  if (value === -Infinity) return LONG_NEG_INFINITY;
+  return Long.fromNumber(value);
+};
+
+const toSentinel = (value, { nul, inf }) => {
+  if (value === null || value === undefined || Number.isNaN(value)) return nul;
+  if (value === Infinity) return inf;
+  if (value === -Infinity) return -inf;
+  return value;
+};
+
+// Write one column's values into `body` at `offset`; returns the column's header entry
+const writeColumn = (body, offset, { encoding }, column) => {
+  const { values } = column;
+  switch (encoding) {
+    case 'uint8':
+      values.forEach((value, i) => body.writeUInt8(value === true ? 1 : (value || 0) & 0xff, offset + i));
+      return { encoding, offset };
+    case 'int16':
+      values.forEach((value, i) => body.writeInt16LE(toSentinel(value, INT_SENTINELS.int16), offset + i * 2));
+      return { encoding, offset };
+    case 'int32':
+      values.forEach((value, i) => body.writeInt32LE(toSentinel(value, INT_SENTINELS.int32), offset + i * 4));
+      return { encoding, offset };
+    case 'int64':
+      values.forEach((value, i) => {
+        const long = toLong(value);
+        body.writeInt32LE(long.low, offset + i * 8);
+        body.writeInt32LE(long.high, offset + i * 8 + 4);
+      });
+      return { encoding, offset };
+    case 'float32':
+      values.forEach((value, i) => body.writeFloatLE(value === null || value === undefined ? NaN : value, offset + i * 4));
+      return { encoding, offset };
+    case 'float64':
+      values.forEach((value, i) => body.writeDoubleLE(value === null || value === undefined ? NaN : value, offset + i * 8));
+      return { encoding, offset };
+    case 'symbol': {
+      // Codes index the dictionary in first-seen order; -1 is the null symbol
+      const dictionary = [];
+      const codes = new Map();
+      values.forEach((value, i) => {
+        let code = -1;
+        if (value !== null && value !== undefined) {
+          const text = String(value.value ?? value);
+          code = codes.get(text);
+          if (code === undefined) {
+            code = dictionary.length;
+            codes.set(text, code);
+            dictionary.push(text);
+          }
+        }
+        body.writeInt32LE(code, offset + i * 4);
+      });
+      return { encoding, offset, dictionary };
+    }
+  }
+  return null;
+};
+
+// The typed encoding for a column, or null when it has to go as JSON values.
+// Only simple vectors qualify: atoms, general lists and strings do not.
+const typedEncoding = (column) => (column.typeCode > 0 ? TYPED_ENCODINGS[column.type] || null : null);
+
+// Encode a describeResult() description as a columnar frame
+export const encodeColumnar = (description) => {
+  const { columns, count } = description;
+
+  let bodyLength = 0;
+  const layout = columns.map((column) => {
+    const typed = typedEncoding(column);
+    if (!typed) return null;
+    const offset = bodyLength;
+    bodyLength = align8(bodyLength + typed.size * count);
+    return { ...typed, offset };
+  });
+
+  const body = Buffer.alloc(bodyLength);
+  const encodings = columns.map((column, i) => layout[i]
+    ? writeColumn(body, layout[i].offset, layout[i], column)
+    : { encoding: 'json', values: column.values.map(value => convertKdbValue(value, column.name, column.type)) });
+
+  const header = Buffer.from(JSON.stringify({ ...resultHeader(description), rows: count, encodings }), 'utf8');
+  const prefix = Buffer.alloc(align8(8 + header.length));
+  prefix.write(MAGIC, 0, 'latin1');
+  prefix.writeUInt32LE(header.length, 4);
+  header.copy(prefix, 8);
+  return Buffer.concat([prefix, body]);
+};
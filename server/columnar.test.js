@@ -0,0 +1,75 @@
+import Long from 'long';
+import { describe, expect, it } from 'vitest';
+import nodeq from '../lib/node-q/index.cjs';
+import { deserialize, serialize } from '../lib/node-q/lib/c.cjs';
+import { decodeColumnar } from '../src/lib/columnar.ts';
+import { encodeColumnar } from './columnar.js';
+import { describeResult, formatDescription, limitRows } from './results.js';
+
+// A table as a q IPC response (98, no attribute, then its column dictionary)
+const tableMessage = (columns) => {
+  const body = Buffer.concat([Buffer.from([98, 0]), serialize(nodeq.dict(columns)).subarray(8)]);
+  const header = Buffer.alloc(8);
+  header.writeUInt8(1, 0);
+  header.writeUInt8(2, 1);
+  header.writeUInt32LE(8 + body.length, 4);
+  return Buffer.concat([header, body]);
+};
+
+// Deserialized as sessions do, so longs and nanoseconds arrive exact
+const describeMessage = (message) => {
+  const info = {};
+  return describeResult(deserialize(message, false, true, true, false, info), info);
+};
+
+// Encode, then decode from a fresh ArrayBuffer as the browser's fetch would hand it over
+const roundTrip = (description) => {
+  const frame = encodeColumnar(description);
+  return decodeColumnar(frame.buffer.slice(frame.byteOffset, frame.byteOffset + frame.length));
+};
+
+const rows = (result) => Array.from({ length: result.data.length }, (_, i) => result.data[i]);
+
+// Each typed column holds a value, then q's null, infinity and negative infinity
+const TRADES = tableMessage({
+  sym: nodeq.symbols(['AAPL', 'MSFT', 'AAPL', '']),
+  price: nodeq.floats([189.5, NaN, Infinity, -Infinity]),
+  qty: nodeq.ints([100, -2147483648, 2147483647, -2147483647]),
+  lot: nodeq.shorts([1, -32768, 32767, -32767]),
+  size: nodeq.longs([Long.fromString('9007199254740993'), Long.MIN_VALUE, Long.MAX_VALUE, Long.MAX_VALUE.negate()]),
+  bid: nodeq.reals([1.5, NaN, Infinity, -Infinity]),
+  live: nodeq.booleans([true, false, true, false]),
+  note: ['first', 'second', '', 'fourth']
+});
+
+describe('columnar round trip', () => {
+  it('decodes to the same columns, meta and rows as the JSON encoding', () => {
+    const description = describeMessage(TRADES);
+    const decoded = roundTrip(description);
+    // As the browser receives the JSON encoding
+    const { data, ...header } = JSON.parse(JSON.stringify(formatDescription(description)));
+
+    expect(decoded.columnar.map(column => column.encoding))
+      .toEqual(['symbol', 'float64', 'int32', 'int16', 'int64', 'float32', 'uint8', 'json']);
+    expect(decoded).toMatchObject(header);
+    expect(rows(decoded)).toEqual(data);
+  });
+
+  it('keeps nulls, infinities and exact longs through the typed buffers', () => {
+    const [aapl, missing, infinite, negative] = rows(roundTrip(describeMessage(TRADES)));
+    expect(aapl.slice(0, 5)).toEqual([{ __kdb_type: 'symbol', value: 'AAPL' }, 189.5, 100, 1, '9007199254740993']);
+    expect(missing.slice(1, 6)).toEqual([null, null, null, null, null]);
+    expect(infinite.slice(1, 6)).toEqual(Array(5).fill({ __kdb_type: 'infinity', sign: 1 }));
+    expect(negative.slice(1, 6)).toEqual(Array(5).fill({ __kdb_type: 'infinity', sign: -1 }));
+    expect(negative[0]).toBeNull();
+  });
+
+  it('carries only the rows kept by limitRows and marks the result truncated', () => {
+    const decoded = roundTrip(limitRows(describeMessage(TRADES), 2));
+    expect(decoded.truncated).toBe(true);
+    expect(decoded.meta.count).toBe(4);
+    expect(decoded.data.length).toBe(2);
+    expect(decoded.data[1][0]).toEqual({ __kdb_type: 'symbol', value: 'MSFT' });
+    expect(decoded.data[2]).toBeUndefined();
+  });
+});
@@ -0,0 +1,208 @@
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { LOG_LEVELS } from './logger.js';
+import { DEFAULT_REDACT_PATTERNS, compileRedactPatterns, parseRedactPatterns } from './audit.js';
+import { QUERY_POLICIES } from './guard.js';
+
+// Bridge settings. Each is taken from its environment variable if set, else from the JSON config
+// file, else from the defaults below. The file is KDB_BRIDGE_CONFIG, or bridge.config.json in the
+// working directory when there is one; it has the same shape as DEFAULT_CONFIG (see
+// bridge.config.example.json). Anything invalid or unknown stops the bridge at startup.
+
+export const DEFAULT_CONFIG_FILE = 'bridge.config.json';
+
+export const DEFAULT_CONFIG = {
+  host: null,                // Listen address; every interface when null
+  port: 3001,
+  basePath: '',              // Prefix of every route, e.g. /kdb to serve /kdb/api/...
+  allowedOrigins: ['http://localhost:*', 'http://127.0.0.1:*'],
+  logLevel: 'info',
+  queryTimeoutMs: 2 * 60 * 1000,
+  queryTimeoutMaxMs: 30 * 60 * 1000,
+  maxResultRows: 0,          // 0 sends every row of a result
+  // Query policies the bridge enforces whatever the browser asks for, as [{ target, policy }]: the
+  // first entry whose target (host:port or socket path, * as a wildcard) matches applies
+  queryPolicies: [],
+  jobs: {
+    retentionMinutes: 60,    // How long a finished job and its result are kept; 0 keeps them until disconnect
+    maxResultBytes: 256 * 1024 * 1024  // Results of finished jobs held at once, oldest dropped first; 0 for no limit
+  },
+  audit: {
+    path: 'logs/audit.jsonl',
+    retentionDays: 90,       // 0 keeps entries forever
+    redactPatterns: null,    // DEFAULT_REDACT_PATTERNS
+    token: null              // Sent as X-Audit-Token to read every session's entries; none when null
+  }
+};
+
+const integer = (min) => (value, fromEnv) => {
+  const number = fromEnv ? Number(value) : value;
+  if (!Number.isInteger(number) || number < min) {
+    throw new Error(`must be a whole number of at least ${min}`);
+  }
+  return number;
+};
+
+const string = (value) => {
+  if (typeof value !== 'string' || !value) {
+    throw new Error('must be a non-empty string');
+  }
+  return value;
+};
+
+// How each setting is read, keyed by its path in the file
+const SETTINGS = {
+  host: { env: 'API_HOST', parse: string },
+  port: {
+    env: 'API_PORT',
+    parse: (value, fromEnv) => {
+      const port = integer(1)(value, fromEnv);
+      if (port > 65535) throw new Error('must be a port number');
+      return port;
+    }
+  },
+  basePath: {
+    env: 'API_BASE_PATH',
+    // '/kdb/' and 'kdb' both mean /kdb; '' and '/' mean no prefix
+    parse: (value) => {
+      if (typeof value !== 'string') throw new Error('must be a path');
+      const path = value.replace(/^\/*/, '/').replace(/\/+$/, '');
+      if (/[?#\s]/.test(path)) throw new Error('must be a path');
+      return path;
+    }
+  },
+  allowedOrigins: {
+    env: 'API_ALLOWED_ORIGINS',
+    parse: (value, fromEnv) => {
+      const origins = fromEnv ? value.split(',').map(origin => origin.trim()).filter(Boolean) : value;
+      if (!Array.isArray(origins) || origins.some(origin => typeof origin !== 'string')) {
+        throw new Error('must be a list of origins');
+      }
+      return origins;
+    }
+  },
+  logLevel: {
+    env: 'API_LOG_LEVEL',
+    parse: (value) => {
+      if (!LOG_LEVELS.includes(value)) throw new Error(`must be one of ${LOG_LEVELS.join(', ')}`);
+      return value;
+    }
+  },
+  queryTimeoutMs: { env: 'KDB_QUERY_TIMEOUT_MS', parse: integer(1) },
+  queryTimeoutMaxMs: { env: 'KDB_QUERY_TIMEOUT_MAX_MS', parse: integer(1) },
+  maxResultRows: { env: 'KDB_MAX_RESULT_ROWS', parse: integer(0) },
+  queryPolicies: {
+    env: 'KDB_QUERY_POLICIES',
+    // prod-*:*=read-only,*=confirm in the environment
+    parse: (value, fromEnv) => {
+      const rules = fromEnv
+        ? value.split(',').map(rule => rule.trim()).filter(Boolean).map((rule) => {
+          const split = rule.lastIndexOf('=');
+          return { target: rule.slice(0, split).trim(), policy: rule.slice(split + 1).trim() };
+        })
+        : value;
+      if (!Array.isArray(rules) || rules.some(rule => !rule || typeof rule.target !== 'string' || !rule.target)) {
+        throw new Error('must be a list of { target, policy }');
+      }
+      const unknown = rules.find(rule => !QUERY_POLICIES.includes(rule.policy));
+      if (unknown) throw new Error(`has unknown policy "${unknown.policy}" for ${unknown.target} (expected ${QUERY_POLICIES.join(', ')})`);
+      return rules.map(({ target, policy }) => ({ target, policy }));
+    }
+  },
+  'jobs.retentionMinutes': { env: 'KDB_JOB_RETENTION_MINUTES', parse: integer(0) },
+  'jobs.maxResultBytes': { env: 'KDB_JOB_MAX_RESULT_BYTES', parse: integer(0) },
+  'audit.path': { env: 'KDB_AUDIT_LOG', parse: string },
+  'audit.retentionDays': { env: 'KDB_AUDIT_RETENTION_DAYS', parse: integer(0) },
+  'audit.redactPatterns': {
+    env: 'KDB_AUDIT_REDACT_PATTERNS',
+    parse: (value, fromEnv) => (fromEnv ? parseRedactPatterns(value) : compileRedactPatterns(value))
+  },
+  'audit.token': { env: 'KDB_AUDIT_TOKEN', parse: string }
+};
+
+// { audit: { path } } -> { 'audit.path': ... }
+const flatten = (object, prefix = '') => Object.entries(object).reduce((flat, [key, value]) => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? { ...flat, ...flatten(value, `${prefix}${key}.`) }
+    : { ...flat, [`${prefix}${key}`]: value }
+), {});
+
+const readConfigFile = (env, cwd) => {
+  const path = env.KDB_BRIDGE_CONFIG ? resolve(cwd, env.KDB_BRIDGE_CONFIG) : resolve(cwd, DEFAULT_CONFIG_FILE);
+  if (!env.KDB_BRIDGE_CONFIG && !existsSync(path)) {
+    return { path: null, values: {} };
+  }
+
+  let values;
+  try {
+    values = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (e) {
+    throw new Error(`Cannot read bridge config ${path}: ${e.message}`);
+  }
+  if (values === null || typeof values !== 'object' || Array.isArray(values)) {
+    throw new Error(`Bridge config ${path} must hold a JSON object`);
+  }
+  return { path, values: flatten(values) };
+};
+
+// The bridge's settings, with `file` set to the config file they came from (if any)
+export const loadConfig = ({ env = process.env, cwd = process.cwd() } = {}) => {
+  const file = readConfigFile(env, cwd);
+  const unknown = Object.keys(file.values).filter(key => !SETTINGS[key]);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown setting${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')} in ${file.path}`);
+  }
+
+  const values = flatten(DEFAULT_CONFIG);
+  for (const [key, { env: name, parse }] of Object.entries(SETTINGS)) {
+    const [value, source, fromEnv] = env[name]
+      ? [env[name], name, true]
+      : key in file.values ? [file.values[key], `${key} in ${file.path}`, false] : [undefined];
+    if (value === undefined || (value === null && !fromEnv)) continue;
+    try {
+      values[key] = parse(value, fromEnv);
+    } catch (e) {
+      throw new Error(`${source} ${e.message}`);
+    }
+  }
+
+  return {
+    host: values.host,
+    port: values.port,
+    basePath: values.basePath,
+    allowedOrigins: values.allowedOrigins,
+    logLevel: values.logLevel,
+    queryTimeoutMs: values.queryTimeoutMs,
+    queryTimeoutMaxMs: values.queryTimeoutMaxMs,
+    maxResultRows: values.maxResultRows,
+    queryPolicies: values.queryPolicies,
+    jobs: {
+      retentionMinutes: values['jobs.retentionMinutes'],
+      maxResultBytes: values['jobs.maxResultBytes']
+    },
+    audit: {
+      path: values['audit.path'],
+      retentionDays: values['audit.retentionDays'],
+      redactPatterns: values['audit.redactPatterns'] || DEFAULT_REDACT_PATTERNS,
+      token: values['audit.token']
+    },
+    file: file.path
+  };
+};
+
+// Whether `text` matches a pattern whose * stands for any run of characters but /; a lone * matches anything
+const matchesWildcard = (pattern, text) => {
+  if (pattern === '*') return true;
+  const expression = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\/]/g, '\\$&')).join('[^/]*');
+  return new RegExp(`^${expression}$`, 'i').test(text);
+};
+
+// Whether a browser origin may call the bridge. Allowed origins are exact (https://app.example.com)
+// or have * standing for any run of characters but / (http://localhost:*); a lone * allows every origin.
+export const isOriginAllowed = (allowedOrigins, origin) => allowedOrigins.some(allowed => matchesWildcard(allowed, origin));
+
+// The query policy the bridge requires for a KDB+ process (host:port, or a Unix socket path),
+// from the first matching queryPolicies entry; null when none matches. A process reached by
+// more than one name needs an entry for each, or a catch-all * entry last.
+export const policyForTarget = (queryPolicies, address) =>
+  queryPolicies.find(rule => matchesWildcard(rule.target, address))?.policy ?? null;
@@ -0,0 +1,101 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_REDACT_PATTERNS, redact } from './audit.js';
+import { isOriginAllowed, loadConfig, policyForTarget } from './config.js';
+
+let directory;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'kdb-config-'));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+const writeConfig = (values, name = 'bridge.config.json') => writeFile(join(directory, name), JSON.stringify(values));
+
+describe('loadConfig', () => {
+  it('uses the defaults without a file or environment', () => {
+    const config = loadConfig({ env: {}, cwd: directory });
+    expect(config).toMatchObject({ host: null, port: 3001, basePath: '', logLevel: 'info', maxResultRows: 0, queryPolicies: [], file: null });
+    expect(config.audit).toEqual({ path: 'logs/audit.jsonl', retentionDays: 90, redactPatterns: DEFAULT_REDACT_PATTERNS, token: null });
+    expect(config.jobs).toEqual({ retentionMinutes: 60, maxResultBytes: 256 * 1024 * 1024 });
+  });
+
+  it('reads bridge.config.json and lets the environment override it', async () => {
+    await writeConfig({ port: 4001, basePath: '/kdb/', logLevel: 'debug', audit: { retentionDays: 7, redactPatterns: ['acct[0-9]+'] } });
+    const config = loadConfig({
+      env: { API_PORT: '4002', API_ALLOWED_ORIGINS: 'https://a.example.com, https://b.example.com', KDB_AUDIT_TOKEN: 'review-2026' },
+      cwd: directory
+    });
+    expect(config).toMatchObject({
+      port: 4002,
+      basePath: '/kdb',
+      logLevel: 'debug',
+      allowedOrigins: ['https://a.example.com', 'https://b.example.com'],
+      file: join(directory, 'bridge.config.json')
+    });
+    expect(config.audit).toMatchObject({ retentionDays: 7, token: 'review-2026' });
+    expect(redact('select from pos where account=`ACCT1', config.audit.redactPatterns)).toBe('select from pos where account=`***');
+  });
+
+  it('reads the file named by KDB_BRIDGE_CONFIG, which must exist', async () => {
+    await writeConfig({ maxResultRows: 100000 }, 'prod.json');
+    expect(loadConfig({ env: { KDB_BRIDGE_CONFIG: 'prod.json' }, cwd: directory }).maxResultRows).toBe(100000);
+    expect(() => loadConfig({ env: { KDB_BRIDGE_CONFIG: 'missing.json' }, cwd: directory })).toThrow(/Cannot read bridge config/);
+  });
+
+  it('refuses settings it does not know or cannot use', async () => {
+    expect(() => loadConfig({ env: { API_PORT: 'http' }, cwd: directory })).toThrow('API_PORT must be a whole number of at least 1');
+    expect(() => loadConfig({ env: { API_LOG_LEVEL: 'verbose' }, cwd: directory })).toThrow(/API_LOG_LEVEL must be one of/);
+    expect(() => loadConfig({ env: { KDB_QUERY_POLICIES: 'prod-*:*=readonly' }, cwd: directory }))
+      .toThrow('KDB_QUERY_POLICIES has unknown policy "readonly" for prod-*:* (expected read-write, confirm, read-only)');
+    await writeConfig({ prot: 4001 });
+    expect(() => loadConfig({ env: {}, cwd: directory })).toThrow(/Unknown setting prot/);
+    await writeConfig({ queryTimeoutMs: '2m' });
+    expect(() => loadConfig({ env: {}, cwd: directory })).toThrow(/queryTimeoutMs in .* must be a whole number/);
+  });
+
+  it('reads query policies from the file or the environment', async () => {
+    await writeConfig({ queryPolicies: [{ target: 'prod-*:*', policy: 'read-only' }] });
+    expect(loadConfig({ env: {}, cwd: directory }).queryPolicies).toEqual([{ target: 'prod-*:*', policy: 'read-only' }]);
+    expect(loadConfig({ env: { KDB_QUERY_POLICIES: 'uat-1:5000=confirm, *=read-only' }, cwd: directory }).queryPolicies).toEqual([
+      { target: 'uat-1:5000', policy: 'confirm' },
+      { target: '*', policy: 'read-only' }
+    ]);
+  });
+});
+
+describe('policyForTarget', () => {
+  const queryPolicies = [
+    { target: 'prod-*:*', policy: 'read-only' },
+    { target: '/tmp/kx.*', policy: 'confirm' },
+    { target: '*:5000', policy: 'confirm' }
+  ];
+
+  it('takes the policy of the first matching target', () => {
+    expect(policyForTarget(queryPolicies, 'prod-hdb:5000')).toBe('read-only');
+    expect(policyForTarget(queryPolicies, 'PROD-rdb:5010')).toBe('read-only');
+    expect(policyForTarget(queryPolicies, 'localhost:5000')).toBe('confirm');
+    expect(policyForTarget(queryPolicies, '/tmp/kx.5001')).toBe('confirm');
+  });
+
+  it('returns null when no target matches', () => {
+    expect(policyForTarget(queryPolicies, 'localhost:5001')).toBeNull();
+    expect(policyForTarget([], 'prod-hdb:5000')).toBeNull();
+  });
+});
+
+describe('isOriginAllowed', () => {
+  it('matches exact origins, * wildcards and a lone *', () => {
+    const allowed = ['http://localhost:*', 'https://kdb.example.com'];
+    expect(isOriginAllowed(allowed, 'http://localhost:3000')).toBe(true);
+    expect(isOriginAllowed(allowed, 'https://kdb.example.com')).toBe(true);
+    expect(isOriginAllowed(allowed, 'https://kdb.example.com.evil.net')).toBe(false);
+    expect(isOriginAllowed(allowed, 'http://localhost.evil.net')).toBe(false);
+    expect(isOriginAllowed(['*'], 'https://anywhere.net')).toBe(true);
+  });
+});
@@ -0,0 +1,110 @@
+// Error type for failures the bridge reports to the browser with a stable code.
+// `details` is sent along as is, e.g. the parsed signal of a q error.
+export class KdbBridgeError extends Error {
+  constructor(code, message, status = 500, details = null) {
+    super(message);
+    this.name = 'KdbBridgeError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export const ErrorCodes = {
+  AUTH_FAILED: 'AUTH_FAILED',
+  HOST_UNREACHABLE: 'HOST_UNREACHABLE',
+  CONNECTION_FAILED: 'CONNECTION_FAILED',
+  TLS_HANDSHAKE_FAILED: 'TLS_HANDSHAKE_FAILED',
+  INVALID_REQUEST: 'INVALID_REQUEST',
+  CONNECTION_LOST: 'CONNECTION_LOST',
+  QUERY_TIMEOUT: 'QUERY_TIMEOUT',
+  QUERY_CANCELLED: 'QUERY_CANCELLED',
+  SUBSCRIPTION_FAILED: 'SUBSCRIPTION_FAILED',
+  QUERY_ERROR: 'QUERY_ERROR',
+  READ_ONLY: 'READ_ONLY',
+  CONFIRMATION_REQUIRED: 'CONFIRMATION_REQUIRED',
+  JOB_NOT_FINISHED: 'JOB_NOT_FINISHED',
+  RESULT_TOO_LARGE: 'RESULT_TOO_LARGE',
+};
+
+// Socket errors that mean we never reached a KDB+ process at all
+// (ENOENT is a Unix domain socket path that does not exist)
+const UNREACHABLE_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EHOSTUNREACH', 'ENETUNREACH', 'ETIMEDOUT', 'EAI_AGAIN', 'ENOENT']);
+
+const isTlsError = (err) => !!err && typeof err.code === 'string' &&
+  (/CERT|SSL|TLS|SELF_SIGNED|UNABLE_TO_VERIFY/.test(err.code) || /ssl|tls/i.test(err.library || ''));
+
+// Turn a node-q connect() failure into a bridge error the UI can tell apart
+export const classifyConnectError = (err, target) => {
+  const message = err && err.message ? err.message : String(err);
+
+  if (err && UNREACHABLE_CODES.has(err.code)) {
+    return new KdbBridgeError(ErrorCodes.HOST_UNREACHABLE, `Host unreachable: ${target} (${err.code})`, 502);
+  }
+
+  if (isTlsError(err)) {
+    return new KdbBridgeError(ErrorCodes.TLS_HANDSHAKE_FAILED, `TLS handshake with ${target} failed - ${message}`, 502);
+  }
+
+  // q closes the socket during the handshake when .z.pw or -u/-U rejects the credentials
+  if (/wrong auth|invalid auth/i.test(message)) {
+    return new KdbBridgeError(ErrorCodes.AUTH_FAILED, `Authentication failed for ${target}`, 401);
+  }
+
+  return new KdbBridgeError(ErrorCodes.CONNECTION_FAILED, `Failed to connect to KDB+ at ${target} - ${message}`, 500);
+};
+
+// What the common q signals mean, in plain words
+const Q_SIGNALS = {
+  type: 'Wrong type: an argument is not of a type the operation accepts',
+  length: 'Length mismatch: the lists involved do not have compatible lengths',
+  rank: 'Wrong number of arguments for the function',
+  nyi: 'Not yet implemented: this operation is not supported for these arguments',
+  wsfull: 'Out of memory: the q process could not allocate enough workspace',
+  domain: 'Out of domain: an argument is outside the values the operation accepts',
+  index: 'Index out of range',
+  limit: 'Limit exceeded: a list, string or serialized object is too large',
+  value: 'No value: the name refers to something that has not been defined',
+  parse: 'Invalid syntax: the expression could not be parsed',
+  mismatch: 'Columns of the tables do not match',
+  assign: 'Cannot redefine a reserved word',
+  noupdate: 'Updates are blocked on this process (-b or a read-only handle)',
+  access: 'Access denied: the process does not allow this operation',
+  stack: 'Stack overflow: too much recursion or too deep an expression',
+  stop: 'Interrupted: the query was stopped on the server',
+  abort: 'Aborted: the query was stopped on the server',
+  conn: 'Too many connections to the process',
+  cast: 'Invalid cast: the value is not in the enumeration domain',
+  par: 'Operation not supported on a partitioned table',
+  splay: 'Operation not supported on a splayed table',
+  os: 'Operating system error on the server',
+  timeout: 'The server stopped the query after its -T timeout'
+};
+
+// A name-like signal is what q reports for an undefined variable or function, but code on the
+// process can signal any word of its own ('badsym), so the two cannot be told apart
+const NAME_PATTERN = /^\.?[a-zA-Z][\w.]*$/;
+
+export const explainQSignal = (signal) => {
+  if (Q_SIGNALS[signal]) return Q_SIGNALS[signal];
+  if (NAME_PATTERN.test(signal)) return `Undefined name or custom signal: \`${signal} is not defined on this process, or code on it signalled '${signal}`;
+  return 'The q process signalled an error';
+};
+
+// Turn an error signalled by q (node-q gives the signal as the message) into a bridge error
+export const classifyQueryError = (err) => {
+  const signal = String(err && err.message ? err.message : err).replace(/^'/, '');
+  const explanation = explainQSignal(signal);
+  return new KdbBridgeError(ErrorCodes.QUERY_ERROR, `'${signal} - ${explanation}`, 400, { signal, explanation });
+};
+
+// Send an error to the client in the bridge's usual { success: false } shape
+export const sendError = (res, error, extra = {}) => {
+  res.status(error.status || 500).json({
+    success: false,
+    error: error.message,
+    code: error.code,
+    ...(error.details ? { details: error.details } : {}),
+    ...extra
+  });
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { classifyConnectError, classifyQueryError, ErrorCodes, explainQSignal } from './errors.js';
+
+describe('explainQSignal', () => {
+  it('explains the signals q itself raises', () => {
+    expect(explainQSignal('type')).toMatch(/^Wrong type/);
+    expect(explainQSignal('length')).toMatch(/^Length mismatch/);
+    expect(explainQSignal('noupdate')).toMatch(/blocked on this process/);
+  });
+
+  it('reads a name-like signal as an undefined name or a custom signal', () => {
+    expect(explainQSignal('trdaes')).toBe("Undefined name or custom signal: `trdaes is not defined on this process, or code on it signalled 'trdaes");
+    expect(explainQSignal('.u.sub')).toMatch(/^Undefined name or custom signal: `\.u\.sub/);
+  });
+
+  it('falls back to a general explanation for anything else', () => {
+    expect(explainQSignal('bad input: 42')).toBe('The q process signalled an error');
+    expect(explainQSignal('')).toBe('The q process signalled an error');
+  });
+});
+
+describe('classifyQueryError', () => {
+  it('parses the signal out of a node-q error', () => {
+    const error = classifyQueryError(new Error('length'));
+    expect(error).toMatchObject({ code: ErrorCodes.QUERY_ERROR, status: 400, details: { signal: 'length' } });
+    expect(error.message).toBe(`'length - ${explainQSignal('length')}`);
+  });
+
+  it('drops a leading quote and takes plain strings', () => {
+    expect(classifyQueryError("'rank").details.signal).toBe('rank');
+    expect(classifyQueryError('myerr').details.explanation).toMatch(/custom signal/);
+  });
+});
+
+describe('classifyConnectError', () => {
+  it('tells unreachable hosts, TLS failures and rejected logins apart', () => {
+    expect(classifyConnectError(Object.assign(new Error('refused'), { code: 'ECONNREFUSED' }), 'localhost:5000').code).toBe(ErrorCodes.HOST_UNREACHABLE);
+    expect(classifyConnectError(Object.assign(new Error('bad cert'), { code: 'DEPTH_ZERO_SELF_SIGNED_CERT' }), 'localhost:5000').code).toBe(ErrorCodes.TLS_HANDSHAKE_FAILED);
+    expect(classifyConnectError(new Error('wrong auth'), 'localhost:5000')).toMatchObject({ code: ErrorCodes.AUTH_FAILED, status: 401 });
+    expect(classifyConnectError(new Error('socket hang up'), 'localhost:5000').code).toBe(ErrorCodes.CONNECTION_FAILED);
+  });
+});
@@ -0,0 +1,53 @@
+import { qTypeName, toNumber } from './results.js';
+
+// What the sidebar's namespace tree shows: the entries of one namespace at a time, each with
+// its kind, q type and size, and a preview of a single entry.
+
+// q's own namespaces are left out of the root listing
+const BUILT_IN_NAMESPACES = '`q`Q`h`j`o`m';
+
+// Entries of namespace x (` . ` for the root): child namespaces, views (listed with \b and never
+// evaluated here), then every other name with its kind, type and count. Partitioned tables are
+// not counted; that reads every partition.
+export const LIST_NAMESPACE = [
+  '{[ns]',
+  `nss:$[ns~\`.;{\`$".",string x} each (key \`) except ${BUILT_IN_NAMESPACES};\`symbol$()];`,
+  'vs:$[ns~`.;views[];system"b ",string ns];',
+  'qualify:{[ns;names] $[ns~`.;names;` sv\' ns,\'names]}[ns];',
+  'names:qualify (key ns) except (enlist `),vs;',
+  'info:{v:get x; t:type v; ($[t=98h;`table;',
+  't=99h;$[98h=type key v;`keyedTable;(11h=type key v)&null first key v;`namespace;`dictionary];',
+  't within 100 112h;`function;`variable];t;$[1b~.Q.qp v;0N;count v])} each names;',
+  '([] name:nss,names,qualify vs;',
+  'kind:(count[nss]#`namespace),(`symbol$info[;0]),count[vs]#`view;',
+  'type:(count[nss]#0Nh),(`short$info[;1]),count[vs]#0Nh;',
+  'size:(count[nss]#0N),(`long$info[;2]),count[vs]#0N)}'
+].join(' ');
+
+// The value of x, or its first y items; a function as its source text. Partitioned tables are
+// browsed through /api/tables/:name/data instead.
+export const PREVIEW_ENTRY = '{[n;lim] v:get n; t:type v; $[t within 100 112h;$[t=100h;last value v;.Q.s1 v];t within 0 99h;(`long$lim) sublist v;v]}';
+
+export const PREVIEW_ROW_LIMIT = 1000;
+
+const KIND_ORDER = ['namespace', 'table', 'keyedTable', 'view', 'function', 'dictionary', 'variable'];
+
+// Rows of LIST_NAMESPACE in the order the tree shows them: by kind, then by name
+export const parseNamespaceEntries = (result) => {
+  if (!Array.isArray(result)) return [];
+  return result
+    .map(row => {
+      const kind = String(row.kind);
+      // Namespaces and views are listed without evaluating them, so their type and size are nulls
+      const known = kind !== 'namespace' && kind !== 'view';
+      const typeCode = toNumber(row.type);
+      return {
+        name: String(row.name),
+        kind,
+        type: known ? qTypeName(typeCode) : null,
+        typeCode: known ? typeCode : null,
+        count: known ? toNumber(row.size) : null
+      };
+    })
+    .sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || a.name.localeCompare(b.name));
+};
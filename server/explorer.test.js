@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parseNamespaceEntries } from './explorer.js';
+
+describe('parseNamespaceEntries', () => {
+  it('orders entries by kind, then by name', () => {
+    const entries = parseNamespaceEntries([
+      { name: 'trade', kind: 'table', type: 98, size: 1200 },
+      { name: 'cfg', kind: 'dictionary', type: 99, size: 3 },
+      { name: '.util', kind: 'namespace', type: null, size: null },
+      { name: 'vwap', kind: 'function', type: 100, size: 1 },
+      { name: 'quote', kind: 'table', type: 98, size: 10 }
+    ]);
+    expect(entries.map(entry => entry.name)).toEqual(['.util', 'quote', 'trade', 'vwap', 'cfg']);
+  });
+
+  it('names types and leaves namespaces and views without a type or size', () => {
+    const [namespace, view, list] = parseNamespaceEntries([
+      { name: '.ns', kind: 'namespace', type: -32768, size: null },
+      { name: 'prices', kind: 'variable', type: 9, size: 5 },
+      { name: 'live', kind: 'view', type: -32768, size: null }
+    ]);
+    expect(namespace).toEqual({ name: '.ns', kind: 'namespace', type: null, typeCode: null, count: null });
+    expect(list).toEqual({ name: 'prices', kind: 'variable', type: 'float', typeCode: 9, count: 5 });
+    expect(view).toEqual({ name: 'live', kind: 'view', type: null, typeCode: null, count: null });
+  });
+});
@@ -0,0 +1,136 @@
+import Long from 'long';
+import nodeq from '../lib/node-q/index.cjs';
+import { KdbBridgeError, ErrorCodes } from './errors.js';
+import { checkNamespace } from './identifiers.js';
+
+// Lambdas the browser can call with a generated form. q does not type parameters, so each
+// one gets a type guessed from its name, which the user can change before calling. Arguments
+// arrive as { type, value } and are sent to q as typed node-q values in a k(fn, args) call.
+
+export const PARAMETER_TYPES = [
+  'boolean', 'long', 'float', 'string', 'symbol', 'date', 'timestamp', 'time',
+  'longs', 'floats', 'symbols', 'dates'
+];
+
+// The lambdas (type 100h) in each namespace, with parameter names and source from `value`.
+// A namespace that does not exist, or is not a dictionary, lists nothing.
+export const LIST_FUNCTIONS = '{[ns] raze {[n] d:@[get;n;()!()]; if[99h<>type d; d:()!()]; d:(where 100h=type each d)#d;' +
+  ' ([] name:$[n~`.;key d;` sv\' n,\'key d]; params:{(value x) 1} each value d; source:{last value x} each value d)} each ns}';
+
+// The source of the lambda `name`, for the query policy to check before it is called
+export const FUNCTION_SOURCE = '{$[100h=type f:get x;last value f;\'`type]}';
+
+// The root namespace unless others are asked for
+export const checkNamespaces = (namespaces) => {
+  if (!Array.isArray(namespaces) || namespaces.length === 0) return ['.'];
+  return [...new Set(namespaces.map(checkNamespace))];
+};
+
+// A likely type from the parameter's name: d or date is a date, syms a symbol list, and so on
+export const guessParameterType = (name) => {
+  const lower = name.toLowerCase();
+  if (/dates$/.test(lower)) return 'dates';
+  if (/^(d|dt)$|date/.test(lower)) return 'date';
+  if (/^(syms|symbols|tickers|tables|tbls|cols|columns)$/.test(lower)) return 'symbols';
+  if (/^(s|sym|symbol|ticker|t|tbl|table|tab|col|column|c)$/.test(lower)) return 'symbol';
+  if (/^(ts|start|end|st|et|from|to)$|timestamp|datetime/.test(lower)) return 'timestamp';
+  if (/time$/.test(lower)) return 'time';
+  if (/^(n|i|cnt|count|limit|size|qty|num|depth|lvl|level)$/.test(lower)) return 'long';
+  if (/price|px|amount|amt|rate|ratio|pct/.test(lower)) return 'float';
+  if (/^(flag|b|debug|verbose)$|^is[A-Z_]/.test(name)) return 'boolean';
+  return 'string';
+};
+
+// Rows of LIST_FUNCTIONS as the functions the UI shows
+export const parseFunctionList = (result) => {
+  if (!Array.isArray(result)) return [];
+  return result
+    .map(row => {
+      const parameters = (Array.isArray(row.params) ? row.params : [row.params]).map(String);
+      return {
+        name: String(row.name),
+        parameters: parameters.map(name => ({ name, type: guessParameterType(name), required: true })),
+        source: typeof row.source === 'string' ? row.source : ''
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const invalidArgument = (index, type, value) => new KdbBridgeError(
+  ErrorCodes.INVALID_REQUEST,
+  `Argument ${index + 1} is not a valid ${type}: ${JSON.stringify(value)}`,
+  400
+);
+
+// "" is q's null of the type; dates and times are UTC, the way node-q sends them
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?$/;
+const TIME = /^\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?$/;
+
+const utc = (iso) => {
+  const date = new Date(`${iso}Z`);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// One atom of an argument; null when the text does not read as the type
+const parseAtom = (type, value) => {
+  const text = String(value ?? '').trim();
+  switch (type) {
+    case 'long':
+      return /^-?\d+$/.test(text) ? Long.fromString(text) : null;
+    case 'float': {
+      const number = Number(text);
+      return text !== '' && Number.isFinite(number) ? number : null;
+    }
+    case 'symbol':
+      return String(value ?? '');
+    case 'date':
+      return DATE.test(text) ? utc(`${text}T00:00:00`) : null;
+    case 'timestamp':
+      return TIMESTAMP.test(text) ? utc(text.replace(' ', 'T')) : null;
+    case 'time':
+      return TIME.test(text) ? utc(`1970-01-01T${text}`) : null;
+    default:
+      return null;
+  }
+};
+
+const ATOMS = { long: nodeq.long, float: nodeq.float, symbol: nodeq.symbol, date: nodeq.date, timestamp: nodeq.timestamp, time: nodeq.time };
+const LISTS = { longs: ['long', nodeq.longs], floats: ['float', nodeq.floats], symbols: ['symbol', nodeq.symbols], dates: ['date', nodeq.dates] };
+
+// A { type, value } argument from the browser as a typed value node-q serialises exactly
+export const toFunctionArgument = ({ type, value } = {}, index = 0) => {
+  if (type === 'boolean') {
+    if (typeof value !== 'boolean') throw invalidArgument(index, type, value);
+    return nodeq.boolean(value);
+  }
+  if (type === 'string') {
+    // A plain string starting with ` would go as a symbol, so spell out the char list
+    return nodeq.chars(Array.from(String(value ?? '')));
+  }
+  if (ATOMS[type]) {
+    if (type !== 'symbol' && String(value ?? '').trim() === '') return ATOMS[type](null);
+    const atom = parseAtom(type, value);
+    if (atom === null) throw invalidArgument(index, type, value);
+    return ATOMS[type](atom);
+  }
+  if (LISTS[type]) {
+    const [atomType, list] = LISTS[type];
+    if (!Array.isArray(value)) throw invalidArgument(index, type, value);
+    return list(value.map(item => {
+      const atom = parseAtom(atomType, item);
+      if (atom === null) throw invalidArgument(index, type, item);
+      return atom;
+    }));
+  }
+  throw new KdbBridgeError(ErrorCodes.INVALID_REQUEST, `Unknown argument type ${JSON.stringify(String(type))}`, 400);
+};
+
+// Every q function takes at least one argument; a call with none applies it to ::
+export const functionArguments = (args) => {
+  if (args === undefined) return [null];
+  if (!Array.isArray(args) || args.length > 8) {
+    throw new KdbBridgeError(ErrorCodes.INVALID_REQUEST, 'Arguments must be a list of at most 8 { type, value } items', 400);
+  }
+  return args.length === 0 ? [null] : args.map((arg, index) => toFunctionArgument(arg ?? {}, index));
+};
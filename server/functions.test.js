@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { serialize, deserialize } from '../lib/node-q/lib/c.cjs';
+import { checkNamespaces, functionArguments, guessParameterType, parseFunctionList, toFunctionArgument } from './functions.js';
+
+// The q type an argument goes as, and what q would read back
+const sent = (argument) => {
+  const message = serialize(toFunctionArgument(argument));
+  return { type: message.readInt8(8), value: deserialize(message, false, true, true, false, {}) };
+};
+
+describe('toFunctionArgument', () => {
+  it('sends each parameter type as its q type', () => {
+    expect(sent({ type: 'boolean', value: true })).toEqual({ type: -1, value: true });
+    expect(sent({ type: 'float', value: '1.5' })).toEqual({ type: -9, value: 1.5 });
+    expect(sent({ type: 'symbol', value: 'AAPL' }).type).toBe(-11);
+    expect(sent({ type: 'date', value: '2024-01-15' })).toEqual({ type: -14, value: new Date('2024-01-15T00:00:00Z') });
+    expect(sent({ type: 'timestamp', value: '2024-01-15T09:30:00.123' }).type).toBe(-12);
+    expect(sent({ type: 'time', value: '09:30:00.5' }).type).toBe(-19);
+    expect(sent({ type: 'symbols', value: ['AAPL', 'IBM'] }).type).toBe(11);
+    expect(sent({ type: 'dates', value: ['2024-01-15'] }).type).toBe(14);
+    expect(String(sent({ type: 'long', value: '42' }).value)).toBe('42');
+  });
+
+  it('keeps strings as strings, even ones that look like symbols', () => {
+    expect(sent({ type: 'string', value: '`trade' })).toEqual({ type: 10, value: '`trade' });
+  });
+
+  it('sends an empty value as the null of its type', () => {
+    expect(sent({ type: 'long', value: '' })).toEqual({ type: -7, value: null });
+    expect(sent({ type: 'date', value: '' })).toEqual({ type: -14, value: null });
+  });
+
+  it('rejects values that do not read as their type', () => {
+    expect(() => toFunctionArgument({ type: 'long', value: '1;exit 0' })).toThrow(/Argument 1 is not a valid long/);
+    expect(() => toFunctionArgument({ type: 'date', value: '2024.01.15' })).toThrow(/not a valid date/);
+    expect(() => toFunctionArgument({ type: 'boolean', value: 'yes' })).toThrow(/not a valid boolean/);
+    expect(() => toFunctionArgument({ type: 'longs', value: '1 2' })).toThrow(/not a valid longs/);
+    expect(() => toFunctionArgument({ type: 'lambda', value: '{x}' })).toThrow(/Unknown argument type/);
+  });
+});
+
+describe('functionArguments', () => {
+  it('applies a function called without arguments to ::', () => {
+    expect(functionArguments([])).toEqual([null]);
+  });
+
+  it('numbers invalid arguments from one', () => {
+    expect(() => functionArguments([{ type: 'long', value: '1' }, { type: 'long', value: 'x' }])).toThrow(/Argument 2/);
+  });
+});
+
+describe('checkNamespaces', () => {
+  it('defaults to the root namespace', () => {
+    expect(checkNamespaces(undefined)).toEqual(['.']);
+  });
+
+  it('accepts namespaces and refuses anything else', () => {
+    expect(checkNamespaces(['.', '.util', '.ns.sub'])).toEqual(['.', '.util', '.ns.sub']);
+    expect(() => checkNamespaces(['util'])).toThrow(/Invalid namespace/);
+    expect(() => checkNamespaces(['.u;exit 0'])).toThrow(/Invalid namespace/);
+  });
+});
+
+describe('parseFunctionList', () => {
+  it('guesses parameter types from their names', () => {
+    expect(parseFunctionList([
+      { name: '.util.vwap', params: ['d', 'syms', 'start'], source: '{[d;syms;start] ...}' },
+      { name: 'add', params: ['x', 'y'], source: '{x+y}' }
+    ])).toEqual([
+      {
+        name: '.util.vwap',
+        parameters: [
+          { name: 'd', type: 'date', required: true },
+          { name: 'syms', type: 'symbols', required: true },
+          { name: 'start', type: 'timestamp', required: true }
+        ],
+        source: '{[d;syms;start] ...}'
+      },
+      {
+        name: 'add',
+        parameters: [{ name: 'x', type: 'string', required: true }, { name: 'y', type: 'string', required: true }],
+        source: '{x+y}'
+      }
+    ]);
+  });
+
+  it('guesses lists and numbers', () => {
+    expect(guessParameterType('tradeDates')).toBe('dates');
+    expect(guessParameterType('limit')).toBe('long');
+    expect(guessParameterType('qty')).toBe('long');
+    expect(guessParameterType('price')).toBe('float');
+    expect(guessParameterType('endTime')).toBe('time');
+  });
+});
@@ -0,0 +1,283 @@
+import { KdbBridgeError, ErrorCodes } from './errors.js';
+
+// The per-connection policy for statements that would change the process they run on:
+// assigning globals, delete/insert/upsert, dropping tables, system commands, exit, writing files,
+// sending to other processes over a handle, and evaluating code built at run time (value, get,
+// eval and parse on a string, or applying what they look up), which could do any of them.
+//   read-write  run everything (the default)
+//   confirm     run flagged statements only once the user has confirmed them
+//   read-only   refuse flagged statements
+// This is a safety net for people typing into a console, not a permission system: a process
+// that must not be changed still needs its own checks (-b, -u, .z.pg and friends).
+
+export const QUERY_POLICIES = ['read-write', 'confirm', 'read-only'];
+
+// The stricter of two policies; a missing one is read-write
+export const strictestPolicy = (a, b) => QUERY_POLICIES[Math.max(QUERY_POLICIES.indexOf(a || 'read-write'), QUERY_POLICIES.indexOf(b || 'read-write'))];
+
+// Functions that write when called, whatever they are applied to
+const WRITING_FUNCTIONS = {
+  insert: { kind: 'insert', detail: 'Inserts rows (insert)' },
+  upsert: { kind: 'upsert', detail: 'Upserts rows (upsert)' },
+  set: { kind: 'assign', detail: 'Writes a global or a file (set)' },
+  exit: { kind: 'exit', detail: 'Exits the q process (exit)' },
+  system: { kind: 'system', detail: 'Runs a system command (system)' },
+  hdel: { kind: 'system', detail: 'Deletes a file (hdel)' },
+  save: { kind: 'file', detail: 'Saves a table to a file (save)' },
+  rsave: { kind: 'file', detail: 'Saves a table splayed (rsave)' },
+  dsave: { kind: 'file', detail: 'Saves tables splayed (dsave)' },
+  '.Q.dpft': { kind: 'file', detail: 'Saves a table partition (.Q.dpft)' },
+  '.Q.dpfts': { kind: 'file', detail: 'Saves a table partition (.Q.dpfts)' },
+  '.Q.dpt': { kind: 'file', detail: 'Saves a table partition (.Q.dpt)' },
+  '.Q.hdpf': { kind: 'file', detail: 'Saves every table to a partition (.Q.hdpf)' },
+  '.Q.en': { kind: 'file', detail: 'Enumerates against a sym file on disk (.Q.en)' }
+};
+
+// Keywords that write, also reachable by name in the .q namespace (.q.set, `.q.insert)
+const WRITING_KEYWORDS = new Set(['insert', 'upsert', 'set', 'exit', 'system', 'hdel', 'delete']);
+
+// Functions that run whatever code they are given. Only a lone symbol is safe to hand them
+// (value `t reads a global), and only while what it names is not applied: (value `exit) 0 exits.
+// A string, parse tree or any computed argument could hold a write.
+const EVALUATING_FUNCTIONS = new Set(['value', 'get', 'eval', 'parse']);
+
+// File verbs: `:f 0: lines and `:f 1: bytes write; given a file on the right they only read.
+// 2: loads a shared library, code the process then runs. The tokenizer keeps a name written
+// against the verb (0:enlist) in the same token.
+const FILE_VERB = /^([012]:)(?![\d:])(.*)$/;
+
+// Infix keywords that follow an expression without applying it to anything: (value `t) lj x
+const INFIX_KEYWORDS = new Set([
+  'and', 'or', 'in', 'within', 'like', 'except', 'inter', 'union', 'cross', 'each', 'over', 'scan',
+  'prior', 'lj', 'ij', 'uj', 'pj', 'ej', 'aj', 'wj', 'xasc', 'xdesc', 'xkey', 'xcol', 'xcols',
+  'xgroup', 'xbar', 'xexp', 'xlog', 'sublist', 'sv', 'vs', 'ss', 'bin', 'binr', 'mod', 'div',
+  'wavg', 'wsum', 'mmu', 'cor', 'cov', 'scov', 'mavg', 'msum', 'mmax', 'mmin', 'mcount', 'mdev'
+]);
+
+// q-sql templates: between these and `from`, name: is a column name, not an assignment
+const TEMPLATES = new Set(['select', 'exec', 'update', 'delete']);
+
+// Tokens after which an argument cannot go on
+const EXPRESSION_ENDS = new Set([';', ')', ']', '}']);
+
+// A statement as tokens; comments are dropped and strings kept whole, since nothing in them
+// runs unless they are evaluated
+const tokenize = (text) => {
+  const tokens = [];
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    let match;
+    if (/^\s/.test(rest)) {
+      // A / after whitespace comments out the rest of the line
+      const comment = rest.match(/^\s+\/[^\n]*/);
+      i += (comment || rest.match(/^\s+/))[0].length;
+    } else if (rest[0] === '"') {
+      match = rest.match(/^"(?:\\.|[^"\\])*"?/);
+      tokens.push({ type: 'string', value: match[0] });
+      i += match[0].length;
+    } else if ((match = rest.match(/^`[\w.:/]*/))) {
+      tokens.push({ type: 'symbol', value: match[0].slice(1) });
+      i += match[0].length;
+    } else if ((match = rest.match(/^(?:\d|\.\d)[\w.:]*/))) {
+      // Numbers, dates and times (12:30:00, 2024.01.15D09:30) hold colons that assign nothing
+      tokens.push({ type: 'number', value: match[0] });
+      i += match[0].length;
+    } else if ((match = rest.match(/^\.?[a-zA-Z][\w.]*/))) {
+      tokens.push({ type: 'name', value: match[0] });
+      i += match[0].length;
+    } else {
+      tokens.push({ type: 'op', value: rest[0] });
+      i += 1;
+    }
+  }
+  return tokens;
+};
+
+// Index just past the bracket group starting at tokens[start]
+const skipBrackets = (tokens, start) => {
+  let depth = 0;
+  for (let i = start; i < tokens.length; i++) {
+    if (tokens[i].type !== 'op') continue;
+    if (tokens[i].value === '[') depth++;
+    if (tokens[i].value === ']' && --depth === 0) return i + 1;
+  }
+  return tokens.length;
+};
+
+const isOp = (token, value) => !!token && token.type === 'op' && token.value === value;
+
+// Where the lone symbol argument starting at tokens[start] ends (f `t, f[`t]); -1 if it is not one
+const symbolArgumentEnd = (tokens, start) => {
+  const bracketed = isOp(tokens[start], '[');
+  const symbol = bracketed ? start + 1 : start;
+  if (tokens[symbol]?.type !== 'symbol') return -1;
+  const after = tokens[symbol + 1];
+  if (bracketed) return isOp(after, ']') ? symbol + 2 : -1;
+  return !after || (after.type === 'op' && EXPRESSION_ENDS.has(after.value)) ? symbol + 1 : -1;
+};
+
+// Whether whatever ends just before tokens[end] is applied to what comes next: f[x], f x, f "x"
+const isAppliedAt = (tokens, end) => {
+  const after = tokens[end];
+  if (!after) return false;
+  if (after.type === 'op') return after.value === '[' || after.value === '(';
+  return after.type !== 'name' || !INFIX_KEYWORDS.has(after.value);
+};
+
+// Whether the call at tokens[start] whose argument ends before tokens[end] has its result applied:
+// f[x][y], f[x] y, and (f x) y when the call is all a parenthesis holds
+const isResultApplied = (tokens, start, end) => {
+  if (isOp(tokens[end - 1], ']') && isAppliedAt(tokens, end)) return true;
+  return isOp(tokens[start - 1], '(') && isOp(tokens[end], ')') && isAppliedAt(tokens, end + 1);
+};
+
+// Where the argument of a call at tokens[start] ends: a bracket group or a single token
+const argumentEnd = (tokens, start) => (isOp(tokens[start], '[') ? skipBrackets(tokens, start) : start + 1);
+
+// neg h / neg[h] / -5 applied to a message: an asynchronous send the other process runs. -1 and
+// -2 only print to stdout and stderr.
+const isNegativeHandleSend = (tokens, i) => {
+  const token = tokens[i];
+  if (token.type === 'name' && token.value === 'neg') {
+    const end = argumentEnd(tokens, i + 1);
+    return isResultApplied(tokens, i, end) || (isOp(tokens[i + 1], '[') && isAppliedAt(tokens, end));
+  }
+  if (isOp(token, '-') && tokens[i + 1]?.type === 'number' && /^\d+$/.test(tokens[i + 1].value) && !['1', '2'].includes(tokens[i + 1].value)) {
+    const previous = tokens[i - 1];
+    const standsAlone = !previous || (previous.type === 'op' && previous.value !== ')' && previous.value !== ']');
+    return standsAlone && (isResultApplied(tokens, i, i + 2) || ['string', 'symbol'].includes(tokens[i + 2]?.type) || isOp(tokens[i + 2], '('));
+  }
+  return false;
+};
+
+// A name as q resolves it: .q.set is the keyword set
+const keyword = (name) => (name.startsWith('.q.') ? name.slice(3) : name);
+
+// Why a statement would change the process, as [{ kind, detail }]; empty if it would not
+export const flagStatement = (text) => {
+  const reasons = [];
+  const flag = (kind, detail) => {
+    if (!reasons.some(reason => reason.detail === detail)) reasons.push({ kind, detail });
+  };
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('\\')) {
+    flag('system', `Runs a system command (${trimmed.split(/\s/)[0]})`);
+    return reasons;
+  }
+
+  const tokens = tokenize(text);
+  let lambdaDepth = 0;
+  let template = null;
+  // Open parentheses, true for table literals ([] a:1 2 3) whose name: is a column name
+  const parens = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const next = tokens[i + 1];
+
+    if (isNegativeHandleSend(tokens, i)) {
+      flag('ipc', 'Sends a message for another process to run (negative handle)');
+    }
+    // `:f 0: data writes a file; `fmt 0: `:f only reads one
+    const fileVerb = token.type === 'number' && FILE_VERB.exec(token.value);
+    if (fileVerb) {
+      const [, verb, attached] = fileVerb;
+      if (verb === '2:') flag('system', 'Loads a shared library (2:)');
+      else if (attached || !(next?.type === 'symbol' && next.value.startsWith(':'))) flag('file', `Writes a file (${verb})`);
+      continue;
+    }
+    // A symbol naming a writing keyword in .q can be applied like the keyword: (`.q.insert)[`t;x]
+    if (token.type === 'symbol' && token.value.startsWith('.q.') && WRITING_KEYWORDS.has(keyword(token.value))) {
+      flag(keyword(token.value) === 'delete' ? 'delete' : WRITING_FUNCTIONS[keyword(token.value)].kind, `Names the keyword ${keyword(token.value)} (${token.value})`);
+      continue;
+    }
+
+    if (token.type === 'op') {
+      if (token.value === '{') lambdaDepth++;
+      if (token.value === '}') lambdaDepth = Math.max(0, lambdaDepth - 1);
+      if (token.value === '(') parens.push(isOp(next, '['));
+      if (token.value === ')') parens.pop();
+      // . applied to a string evaluates it: . "a:1"
+      if (token.value === '.' && next?.type === 'string') {
+        flag('eval', 'Evaluates a string (.)');
+      }
+      // Amending a table by name: @[`t;...], .[`t;...]; functional update/delete: ![`t;...]
+      if ((token.value === '@' || token.value === '.' || token.value === '!') && isOp(next, '[') && tokens[i + 2]?.type === 'symbol') {
+        const target = tokens[i + 2].value;
+        if (token.value !== '!') flag('assign', `Amends the global ${target} in place`);
+        else if (target === '.') flag('drop', 'Drops globals from the root namespace');
+        else flag('delete', `Updates or deletes in ${target} in place (functional form)`);
+      }
+      continue;
+    }
+    if (token.type !== 'name') continue;
+
+    const name = keyword(token.value);
+    if (EVALUATING_FUNCTIONS.has(name)) {
+      const end = symbolArgumentEnd(tokens, i + 1);
+      if (end < 0) {
+        flag('eval', `Evaluates code built at run time (${token.value})`);
+      } else if (isResultApplied(tokens, i, end)) {
+        flag('eval', `Applies what ${token.value} looks up (${token.value})`);
+      }
+      continue;
+    }
+    if (WRITING_FUNCTIONS[name]) {
+      flag(WRITING_FUNCTIONS[name].kind, WRITING_FUNCTIONS[name].detail);
+      continue;
+    }
+    if (name === 'delete' && token.value !== name) {
+      flag('delete', `Deletes rows or columns (${token.value})`);
+      continue;
+    }
+    if (TEMPLATES.has(token.value)) {
+      template = token.value;
+      if (template === 'delete') flag('delete', 'Deletes rows or columns (delete)');
+      continue;
+    }
+    if (token.value === 'from' && template) {
+      // A template on a symbol works on the global itself: update ... from `t, delete t from `.
+      if (next?.type === 'symbol') {
+        if (template === 'delete' && next.value === '.') flag('drop', 'Drops tables from the root namespace');
+        else if (template === 'update' || template === 'delete') flag('assign', `Changes the global ${next.value} in place`);
+      }
+      template = null;
+      continue;
+    }
+    if ((template && lambdaDepth === 0) || parens.includes(true)) continue;
+
+    // name:, name+:, name[i]: and name:: assign; inside a lambda only name:: and .ns.name: are global
+    let after = i + 1;
+    if (isOp(tokens[after], '[')) after = skipBrackets(tokens, after);
+    const operator = tokens[after]?.type === 'op' && tokens[after].value !== ':' && isOp(tokens[after + 1], ':') ? 1 : 0;
+    if (!isOp(tokens[after + operator], ':')) continue;
+    const isViewOrGlobal = isOp(tokens[after + operator + 1], ':');
+    if (lambdaDepth === 0 || isViewOrGlobal || token.value.includes('.')) {
+      flag('assign', `Assigns the global ${token.value}`);
+    }
+  }
+  return reasons;
+};
+
+// The statements (from splitStatements) that would change the process, with the reasons why
+export const flagStatements = (statements) => statements
+  .map(statement => ({ ...statement, reasons: flagStatement(statement.text) }))
+  .filter(statement => statement.reasons.length > 0);
+
+// Throw unless the policy lets `statements` run: read-only refuses any flagged statement,
+// confirm asks for `confirmed` once there is one
+export const enforceQueryPolicy = (policy, statements, { confirmed = false } = {}) => {
+  if (policy !== 'confirm' && policy !== 'read-only') return;
+  const flagged = flagStatements(statements);
+  if (flagged.length === 0) return;
+
+  const count = `${flagged.length} statement${flagged.length === 1 ? '' : 's'}`;
+  if (policy === 'read-only') {
+    throw new KdbBridgeError(ErrorCodes.READ_ONLY, `Read-only connection: ${count} would change the process`, 403, { policy, flagged });
+  }
+  if (!confirmed) {
+    throw new KdbBridgeError(ErrorCodes.CONFIRMATION_REQUIRED, `${count} would change the process and must be confirmed`, 409, { policy, flagged });
+  }
+};
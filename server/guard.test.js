@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { enforceQueryPolicy, flagStatement, strictestPolicy } from './guard.js';
+import { splitStatements } from './statements.js';
+
+const kinds = (text) => flagStatement(text).map(reason => reason.kind);
+
+describe('flagStatement', () => {
+  it('leaves queries that only read alone', () => {
+    for (const text of [
+      'count trade',
+      'select mx:max price by sym from trade where size>100',
+      'update px:2 from trade',
+      'select from trade where time within 09:30:00 10:00:00',
+      '2024.01.15D09:30:00.000',
+      '([] a:1 2 3)',
+      '{x:1; y+:2}[3]',
+      '"a:1"',
+      '1 2 3 / comment a:1'
+    ]) {
+      expect(kinds(text)).toEqual([]);
+    }
+  });
+
+  it('flags assignments to globals', () => {
+    for (const text of ['a:1', 't:([] a:1 2 3)', 'a[1]:2', 'x+:1', '.z.ts:{}', 'x:`a`b!1 2', 'if[1b;b:2]', 'f:{a::1}', '{.ns.a:1}[]']) {
+      expect(kinds(text)).toContain('assign');
+    }
+  });
+
+  it('flags writing functions, delete and drops', () => {
+    expect(kinds('`t insert (1;2)')).toEqual(['insert']);
+    expect(kinds('`t upsert x')).toEqual(['upsert']);
+    expect(kinds('delete from `trade')).toEqual(['delete', 'assign']);
+    expect(kinds('delete trade from `.')).toEqual(['delete', 'drop']);
+    expect(kinds('update px:2 from `trade')).toEqual(['assign']);
+    expect(kinds('![`t;();0b;enlist `c]')).toEqual(['delete']);
+    expect(kinds('@[`t;0;:;1]')).toEqual(['assign']);
+  });
+
+  it('flags value, eval and parse on strings and computed arguments', () => {
+    expect(kinds('value "delete trades from `."')).toEqual(['eval']);
+    expect(kinds('eval parse "a:1"')).toEqual(['eval', 'eval']);
+    expect(kinds('value raze "de","lete from `t"')).toEqual(['eval']);
+    expect(kinds('value[q]')).toEqual(['eval']);
+    expect(kinds('{value x} "a:1"')).toEqual(['eval']);
+    expect(kinds('. "a:1"')).toEqual(['eval']);
+    expect(flagStatement('value "a:1"')).toEqual([{ kind: 'eval', detail: 'Evaluates code built at run time (value)' }]);
+  });
+
+  it('lets value and get read a global or file named by a symbol', () => {
+    for (const text of ['value `trade', 'count value `trade', 'value[`trade]', '(value `a; value `b)', 'get `:hdb/trade', '(value `t) lj x']) {
+      expect(kinds(text)).toEqual([]);
+    }
+  });
+
+  it('flags get on strings, and applying what value or get looks up', () => {
+    expect(kinds('get "exit 0"')).toEqual(['eval']);
+    expect(kinds('@[get;"exit 0";::]')).toEqual(['eval']);
+    expect(kinds('(value`exit) 0')).toEqual(['eval']);
+    expect(kinds('(get`exit)0')).toEqual(['eval']);
+    expect(kinds('value[`f][1]')).toEqual(['eval']);
+    expect(flagStatement('(value`exit) 0')).toEqual([{ kind: 'eval', detail: 'Applies what value looks up (value)' }]);
+  });
+
+  it('flags writing keywords reached through .q', () => {
+    expect(kinds('.q.set[`a;1]')).toEqual(['assign']);
+    expect(kinds('(value`.q.upsert)[`t;x]')).toEqual(['eval', 'upsert']);
+    expect(kinds('(`.q.insert)[`t;x]')).toEqual(['insert']);
+    expect(kinds('.q.exit 0')).toEqual(['exit']);
+    expect(kinds('.q.system "ls"')).toEqual(['system']);
+    expect(kinds('(`.q.delete)')).toEqual(['delete']);
+  });
+
+  it('flags file writes and leaves file reads alone', () => {
+    expect(kinds('`:/tmp/x 0: enlist "hi"')).toEqual(['file']);
+    expect(kinds('`:/tmp/x 0:enlist "hi"')).toEqual(['file']);
+    expect(kinds('`:/tmp/x 1: 0x0102')).toEqual(['file']);
+    expect(kinds('save `:t')).toEqual(['file']);
+    expect(kinds('rsave `:t')).toEqual(['file']);
+    expect(kinds('.Q.dpft[`:db;2024.01.15;`sym;`trade]')).toEqual(['file']);
+    expect(kinds('.Q.dpt[`:db;2024.01.15;`trade]')).toEqual(['file']);
+    expect(kinds('`f 2: (`f;1)')).toEqual(['system']);
+    expect(kinds('("SJ";enlist ",") 0: `:trades.csv')).toEqual([]);
+  });
+
+  it('flags sends over negative handles, but not printing or negating', () => {
+    expect(kinds('(neg h) "a:1"')).toEqual(['ipc']);
+    expect(kinds('neg[h] "a:1"')).toEqual(['ipc']);
+    expect(kinds('(-5)"a:1"')).toEqual(['ipc']);
+    expect(kinds('-5 "a:1"')).toEqual(['ipc']);
+    for (const text of ['-1 "hello"', '-2 "oops"', 'select neg price from trade', 'x-5', 'neg 5']) {
+      expect(kinds(text)).toEqual([]);
+    }
+  });
+
+  it('flags system commands and exit', () => {
+    expect(flagStatement('\\l db')).toEqual([{ kind: 'system', detail: 'Runs a system command (\\l)' }]);
+    expect(kinds('system "ls"')).toEqual(['system']);
+    expect(kinds('exit 0')).toEqual(['exit']);
+  });
+});
+
+describe('enforceQueryPolicy', () => {
+  const script = 'count trade\n`trade insert (1;2)';
+
+  it('lets everything run on a read-write connection', () => {
+    expect(() => enforceQueryPolicy('read-write', splitStatements(script))).not.toThrow();
+  });
+
+  it('refuses flagged statements on a read-only connection, listing them', () => {
+    expect(() => enforceQueryPolicy('read-only', splitStatements(script))).toThrow(expect.objectContaining({
+      code: 'READ_ONLY',
+      status: 403,
+      details: {
+        policy: 'read-only',
+        flagged: [expect.objectContaining({ index: 1, line: 2, text: '`trade insert (1;2)' })]
+      }
+    }));
+    expect(() => enforceQueryPolicy('read-only', splitStatements('count trade'))).not.toThrow();
+  });
+
+  it('asks for confirmation on a confirm connection until it is given', () => {
+    expect(() => enforceQueryPolicy('confirm', splitStatements(script))).toThrow(expect.objectContaining({
+      code: 'CONFIRMATION_REQUIRED',
+      status: 409
+    }));
+    expect(() => enforceQueryPolicy('confirm', splitStatements(script), { confirmed: true })).not.toThrow();
+  });
+});
+
+describe('strictestPolicy', () => {
+  it('picks the stricter policy, reading a missing one as read-write', () => {
+    expect(strictestPolicy('read-write', 'confirm')).toBe('confirm');
+    expect(strictestPolicy('read-only', 'confirm')).toBe('read-only');
+    expect(strictestPolicy(undefined, null)).toBe('read-write');
+    expect(strictestPolicy('confirm', undefined)).toBe('confirm');
+  });
+});
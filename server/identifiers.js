@@ -0,0 +1,50 @@
+import nodeq from '../lib/node-q/index.cjs';
+import { KdbBridgeError, ErrorCodes } from './errors.js';
+
+// Names and literals that end up in q the bridge sends. A name from the browser is checked
+// against q's naming rules and then only ever travels as a symbol: either as an argument of a
+// k(fn, args) call or quoted into generated q as `$"name". Text is quoted as a q string.
+
+// A q name, optionally in a namespace: trade, .u.sub, .ns.trade_2
+const Q_NAME = /^\.?[a-zA-Z][a-zA-Z0-9_]*(\.[a-zA-Z][a-zA-Z0-9_]*)*$/;
+
+// Reserved words (.Q.res) cannot name a variable
+const Q_RESERVED = new Set([
+  'abs', 'acos', 'asin', 'atan', 'avg', 'bin', 'binr', 'cor', 'cos', 'cov', 'delete', 'dev', 'div',
+  'do', 'enlist', 'exec', 'exit', 'exp', 'getenv', 'hopen', 'if', 'in', 'insert', 'last', 'like',
+  'log', 'max', 'min', 'prd', 'select', 'setenv', 'sin', 'sqrt', 'ss', 'sum', 'tan', 'update',
+  'var', 'wavg', 'while', 'within', 'wsum', 'xexp'
+]);
+
+export const isQName = (name) => typeof name === 'string' && Q_NAME.test(name) && !Q_RESERVED.has(name);
+
+// The name itself if it is one q could have defined, otherwise an INVALID_REQUEST error
+export const checkQName = (name, what = 'name') => {
+  if (!isQName(name)) {
+    throw new KdbBridgeError(ErrorCodes.INVALID_REQUEST, `Invalid ${what} ${JSON.stringify(String(name))}`, 400);
+  }
+  return name;
+};
+
+// A namespace: `.` for the root, otherwise a dotted name such as .util or .ns.sub
+export const checkNamespace = (name) => {
+  if (name !== '.' && !(isQName(name) && name.startsWith('.'))) {
+    throw new KdbBridgeError(ErrorCodes.INVALID_REQUEST, `Invalid namespace ${JSON.stringify(String(name))}`, 400);
+  }
+  return name;
+};
+
+// A q string literal, with quotes, backslashes and control characters escaped
+export const qString = (text) => `"${Array.from(String(text), (c) => {
+  if (c === '\\' || c === '"') return `\\${c}`;
+  const code = c.charCodeAt(0);
+  return code < 0x20 ? `\\${code.toString(8).padStart(3, '0')}` : c;
+}).join('')}"`;
+
+// A symbol built from a string literal, so any name is safe to reference in generated q
+export const qSymbol = (name) => `\`$${qString(name)}`;
+
+// Arguments of a k(fn, args) call. Plain JavaScript strings are no good here: node-q sends
+// "`abc" as a symbol and anything else as a string, so the type is always made explicit.
+export const symbolArg = (name) => nodeq.symbol(String(name));
+export const symbolsArg = (names) => nodeq.symbols(names.map(String));
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { checkNamespace, checkQName, isQName, qString, qSymbol } from './identifiers.js';
+
+describe('isQName', () => {
+  it('accepts plain and namespaced names', () => {
+    for (const name of ['trade', 'quote_2', 'Trade', '.u.sub', '.ns.trade', 'a.b']) {
+      expect(isQName(name)).toBe(true);
+    }
+  });
+
+  it('rejects anything q would read as more than a name', () => {
+    for (const name of [
+      '', ' trade', 'trade;system"rm -rf /"', 'trade where i<10', '2trade', '_trade', 'trade.',
+      '.u..sub', 'tr ade', '`trade', 'trade[]', 'trade\nexit 0', '{x}', 'a-b'
+    ]) {
+      expect(isQName(name)).toBe(false);
+    }
+  });
+
+  it('rejects reserved words and non-strings', () => {
+    expect(isQName('select')).toBe(false);
+    expect(isQName('exit')).toBe(false);
+    expect(isQName(undefined)).toBe(false);
+    expect(isQName(['trade'])).toBe(false);
+  });
+});
+
+describe('checkQName', () => {
+  it('returns a valid name', () => {
+    expect(checkQName('trade', 'table name')).toBe('trade');
+  });
+
+  it('throws INVALID_REQUEST for an invalid one', () => {
+    expect(() => checkQName('t;exit 0', 'table name')).toThrow(expect.objectContaining({
+      code: 'INVALID_REQUEST',
+      status: 400,
+      message: 'Invalid table name "t;exit 0"'
+    }));
+  });
+});
+
+describe('checkNamespace', () => {
+  it('accepts the root and dotted names', () => {
+    expect(checkNamespace('.')).toBe('.');
+    expect(checkNamespace('.ns.sub')).toBe('.ns.sub');
+  });
+
+  it('refuses names outside a namespace', () => {
+    expect(() => checkNamespace('trade')).toThrow(/Invalid namespace/);
+    expect(() => checkNamespace('.u;exit 0')).toThrow(/Invalid namespace/);
+  });
+});
+
+describe('qString', () => {
+  it('escapes quotes, backslashes and control characters', () => {
+    expect(qString('plain')).toBe('"plain"');
+    expect(qString('say "hi"')).toBe('"say \\"hi\\""');
+    expect(qString('a\\b')).toBe('"a\\\\b"');
+    expect(qString('line\nbreak\ttab')).toBe('"line\\012break\\011tab"');
+  });
+
+  it('keeps a closing quote from ending the literal', () => {
+    expect(qString('";exit 0;"')).toBe('"\\";exit 0;\\""');
+  });
+});
+
+describe('qSymbol', () => {
+  it('builds a symbol from a string literal', () => {
+    expect(qSymbol('price')).toBe('`$"price"');
+    expect(qSymbol('odd name"')).toBe('`$"odd name\\""');
+  });
+});
@@ -0,0 +1,303 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { KdbBridgeError, ErrorCodes } from './errors.js';
+import { describeResult } from './results.js';
+import { KdbSession } from './sessions.js';
+
+// Finished jobs, results included, kept per session for the history; older ones are dropped
+const JOB_HISTORY_LIMIT = 50;
+
+// How long finished jobs are kept, and how many bytes of results all sessions' finished jobs may
+// hold between them before the oldest are dropped; 0 for no limit. Set from the bridge's config
+// with configureJobs.
+const limits = { retentionMs: 0, maxResultBytes: 0 };
+
+const JOB_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// While a job runs its session counts as in use, so the idle sweep does not close it under the job
+const JOB_KEEPALIVE_MS = 60 * 1000;
+
+const FINISHED = new Set(['done', 'failed', 'cancelled']);
+
+// Every job still in a history, by id
+const jobs = new Map();
+
+// A query submitted to run in the background. `run(worker, info)` does the work on the queue's
+// worker session and resolves with the raw node-q result, and sets `info.bytes` to its size; the
+// result stays here until the job falls out of the session's history.
+export class QueryJob {
+  constructor(session, query, run) {
+    this.id = randomUUID();
+    this.session = session;
+    this.query = query;
+    this.run = run;
+    this.status = 'queued';
+    this.error = null;
+    this.result = null;
+    this.info = {};
+    this.rowCount = null;
+    this.bytes = 0;
+    this.submittedAt = new Date();
+    this.startedAt = null;
+    this.finishedAt = null;
+  }
+
+  get finished() {
+    return FINISHED.has(this.status);
+  }
+
+  describe() {
+    const end = this.finishedAt || (this.startedAt ? new Date() : null);
+    return {
+      id: this.id,
+      sessionId: this.session.id,
+      query: this.query,
+      status: this.status,
+      rowCount: this.rowCount,
+      error: this.error ? {
+        message: this.error.message,
+        code: this.error.code,
+        ...(this.error.details ? { details: this.error.details } : {})
+      } : null,
+      submittedAt: this.submittedAt.toISOString(),
+      startedAt: this.startedAt ? this.startedAt.toISOString() : null,
+      finishedAt: this.finishedAt ? this.finishedAt.toISOString() : null,
+      elapsedMs: this.startedAt ? end.getTime() - this.startedAt.getTime() : null
+    };
+  }
+}
+
+// Jobs run on a socket of their own, opened with the owning session's settings, so that a
+// cancelled or timed-out query on the session never takes a job down with it, nor the other way round
+const connectWorker = async (owner) => {
+  const worker = new KdbSession(owner.config);
+  try {
+    await worker.connect();
+  } catch (error) {
+    worker.close();
+    throw error;
+  }
+  return worker;
+};
+
+// The jobs of one session, run one at a time in the order they were submitted: q answers a
+// socket serially, so a second job could only wait behind the first on the wire anyway.
+// The worker session is opened with `openWorker(session)` when the first job runs.
+// Emits 'job' with describe() whenever a job is submitted or changes status.
+export class JobQueue extends EventEmitter {
+  constructor(session, openWorker = connectWorker) {
+    super();
+    this.session = session;
+    this.openWorker = openWorker;
+    this.opening = null;
+    this.worker = null;
+    this.jobs = [];
+    this.running = null;
+  }
+
+  // The worker session, opened on first use. A failed open, or a worker that gave up
+  // reconnecting, is opened afresh for the next job.
+  getWorker() {
+    if (this.worker && this.worker.state === 'disconnected') {
+      this.worker.close();
+      this.worker = null;
+      this.opening = null;
+    }
+    if (!this.opening) {
+      this.opening = this.openWorker(this.session).then((worker) => {
+        this.worker = worker;
+        return worker;
+      }, (error) => {
+        this.opening = null;
+        throw error;
+      });
+    }
+    return this.opening;
+  }
+
+  submit(query, run) {
+    const job = new QueryJob(this.session, query, run);
+    this.jobs.push(job);
+    jobs.set(job.id, job);
+    this.emit('job', job.describe());
+    this.next();
+    return job;
+  }
+
+  async next() {
+    if (this.running) return;
+    const job = this.jobs.find(candidate => candidate.status === 'queued');
+    if (!job) return;
+
+    this.running = job;
+    job.status = 'running';
+    job.startedAt = new Date();
+    this.emit('job', job.describe());
+    const keepalive = setInterval(() => this.session.touch(), JOB_KEEPALIVE_MS);
+    keepalive.unref();
+    try {
+      const result = await job.run(await this.getWorker(), job.info);
+      const bytes = job.info.bytes || 0;
+      if (limits.maxResultBytes > 0 && bytes > limits.maxResultBytes) {
+        throw new KdbBridgeError(ErrorCodes.RESULT_TOO_LARGE, `Result of ${formatBytes(bytes)} is larger than the ${formatBytes(limits.maxResultBytes)} the bridge keeps for jobs`, 413);
+      }
+      job.result = result;
+      job.bytes = bytes;
+      job.rowCount = describeResult(job.result, job.info).count;
+      job.status = 'done';
+    } catch (error) {
+      job.error = error;
+      job.status = error.code === ErrorCodes.QUERY_CANCELLED ? 'cancelled' : 'failed';
+    }
+    clearInterval(keepalive);
+    this.session.touch();
+    job.finishedAt = new Date();
+    this.running = null;
+    this.emit('job', job.describe());
+    this.trim();
+    fitResults();
+    this.next();
+  }
+
+  // A queued job is just taken off the queue. A running one is stopped by restarting the worker's
+  // socket (see session.cancel); the owning session's queries carry on.
+  cancel(job) {
+    if (job.status === 'queued') {
+      job.status = 'cancelled';
+      job.finishedAt = new Date();
+      this.emit('job', job.describe());
+      this.trim();
+      return true;
+    }
+    if (job.status === 'running') {
+      return !!this.worker && this.worker.cancel() > 0;
+    }
+    return false;
+  }
+
+  trim() {
+    const finished = this.jobs.filter(job => job.finished);
+    this.forget(finished.slice(0, Math.max(0, finished.length - JOB_HISTORY_LIMIT)));
+  }
+
+  // Take finished jobs out of the history, results and all
+  forget(dropped) {
+    if (dropped.length === 0) return;
+    this.jobs = this.jobs.filter(job => !dropped.includes(job));
+    for (const job of dropped) {
+      jobs.delete(job.id);
+    }
+  }
+
+  close() {
+    for (const job of this.jobs) {
+      jobs.delete(job.id);
+    }
+    this.jobs = [];
+    if (this.opening) {
+      this.opening.then(worker => worker.close(), () => undefined);
+      this.opening = null;
+      this.worker = null;
+    }
+    this.emit('closed');
+    this.removeAllListeners();
+  }
+}
+
+const queues = new Map();
+
+const formatBytes = (bytes) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const forgetJob = (job) => {
+  const queue = queues.get(job.session.id);
+  if (queue) queue.forget([job]);
+};
+
+// Drop the finished jobs of every session, oldest first, until their results fit in maxResultBytes
+const fitResults = () => {
+  if (limits.maxResultBytes <= 0) return;
+  const held = Array.from(jobs.values())
+    .filter(job => job.finished && job.bytes > 0)
+    .sort((a, b) => a.finishedAt - b.finishedAt);
+  let total = held.reduce((sum, job) => sum + job.bytes, 0);
+  for (const job of held) {
+    if (total <= limits.maxResultBytes) return;
+    total -= job.bytes;
+    forgetJob(job);
+  }
+};
+
+export const configureJobs = ({ retentionMinutes, maxResultBytes }) => {
+  limits.retentionMs = retentionMinutes * 60 * 1000;
+  limits.maxResultBytes = maxResultBytes;
+  fitResults();
+};
+
+// The session's queue, created on first use; it goes away with the session
+export const getJobQueue = (session, openWorker) => {
+  let queue = queues.get(session.id);
+  if (queue) return queue;
+
+  queue = new JobQueue(session, openWorker);
+  queues.set(session.id, queue);
+  const handleSessionState = (state) => {
+    if (state.state === 'closed') {
+      session.off('state', handleSessionState);
+      queues.delete(session.id);
+      queue.close();
+    }
+  };
+  session.on('state', handleSessionState);
+  return queue;
+};
+
+// Queue a query on its session; `run(worker, info)` is called once the jobs ahead of it have finished
+export const submitJob = (session, query, run) => {
+  if (typeof query !== 'string' || !query.trim()) {
+    throw new KdbBridgeError(ErrorCodes.INVALID_REQUEST, 'Query is empty', 400);
+  }
+  return getJobQueue(session).submit(query, run);
+};
+
+export const getJob = (id) => jobs.get(id) || null;
+
+export const cancelJob = (job) => {
+  const queue = queues.get(job.session.id);
+  return queue ? queue.cancel(job) : false;
+};
+
+// A session's jobs, newest first
+export const listJobs = (sessionId) => {
+  const queue = queues.get(sessionId);
+  return queue ? queue.jobs.map(job => job.describe()).reverse() : [];
+};
+
+// How many jobs of every session are in each status, e.g. { running: 1, done: 4 }
+export const countJobs = () => {
+  const counts = {};
+  for (const job of jobs.values()) {
+    counts[job.status] = (counts[job.status] || 0) + 1;
+  }
+  return counts;
+};
+
+// Drop finished jobs that have been kept longer than the retention
+export const expireJobs = (now = Date.now()) => {
+  if (limits.retentionMs <= 0) return;
+  for (const job of Array.from(jobs.values())) {
+    if (job.finished && now - job.finishedAt.getTime() > limits.retentionMs) {
+      forgetJob(job);
+    }
+  }
+};
+
+const sweepTimer = setInterval(() => expireJobs(), JOB_SWEEP_INTERVAL_MS);
+sweepTimer.unref();
+
+export const closeAllJobs = () => {
+  for (const queue of Array.from(queues.values())) {
+    queue.close();
+  }
+  queues.clear();
+};
+
@@ -0,0 +1,201 @@
+import { EventEmitter } from 'events';
+import { afterEach, describe, expect, it } from 'vitest';
+import { KdbBridgeError, ErrorCodes } from './errors.js';
+import { closeAllJobs, cancelJob, configureJobs, countJobs, expireJobs, getJob, getJobQueue, listJobs, submitJob } from './jobs.js';
+
+// Enough of a KdbSession for the queue: an id, state events and cancel() failing the query in flight
+class FakeSession extends EventEmitter {
+  constructor(id) {
+    super();
+    this.id = id;
+    this.state = 'connected';
+    this.inFlight = null;
+    this.closed = false;
+  }
+
+  query(value) {
+    return new Promise((resolve, reject) => {
+      this.inFlight = { resolve: () => resolve(value), reject };
+    });
+  }
+
+  finish() {
+    const request = this.inFlight;
+    this.inFlight = null;
+    request.resolve();
+  }
+
+  cancel() {
+    if (!this.inFlight) return 0;
+    this.inFlight.reject(new KdbBridgeError(ErrorCodes.QUERY_CANCELLED, 'Query cancelled', 499));
+    this.inFlight = null;
+    return 1;
+  }
+
+  touch() {}
+
+  close() {
+    this.closed = true;
+  }
+}
+
+// A session whose jobs run on their own worker session
+const sessionWithWorker = (id = 's1') => {
+  const session = new FakeSession(id);
+  const worker = new FakeSession(`${id} jobs`);
+  const opened = [];
+  getJobQueue(session, (owner) => {
+    opened.push(owner);
+    return Promise.resolve(worker);
+  });
+  return { session, worker, opened };
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// A job whose result is `bytes` long, as node-q reports it
+const sized = (bytes) => (worker, info) => {
+  info.bytes = bytes;
+  return Promise.resolve(bytes);
+};
+
+afterEach(() => {
+  closeAllJobs();
+  configureJobs({ retentionMinutes: 0, maxResultBytes: 0 });
+});
+
+describe('job queue', () => {
+  it('runs a session\'s jobs one at a time, in the order they were submitted', async () => {
+    const { session, worker } = sessionWithWorker();
+    const first = submitJob(session, 'a', (jobWorker) => jobWorker.query([1, 2, 3]));
+    const second = submitJob(session, 'b', (jobWorker) => jobWorker.query(42));
+    expect([first.status, second.status]).toEqual(['running', 'queued']);
+
+    await settle();
+    worker.finish();
+    await settle();
+    expect([first.status, second.status]).toEqual(['done', 'running']);
+    expect(first.describe().rowCount).toBe(3);
+
+    worker.finish();
+    await settle();
+    expect(second.status).toBe('done');
+    expect(second.result).toBe(42);
+    expect(listJobs('s1').map(job => job.query)).toEqual(['b', 'a']);
+    expect(countJobs()).toEqual({ done: 2 });
+  });
+
+  it('keeps the error of a failed job and goes on with the next', async () => {
+    const { session } = sessionWithWorker();
+    const failing = submitJob(session, 'x', () => Promise.reject(new KdbBridgeError(ErrorCodes.QUERY_ERROR, "'type", 400, { signal: 'type' })));
+    const next = submitJob(session, 'y', () => Promise.resolve(1));
+    await settle();
+    expect(failing.describe()).toMatchObject({ status: 'failed', error: { code: 'QUERY_ERROR', details: { signal: 'type' } } });
+    expect(next.status).toBe('done');
+  });
+
+  it('cancels a queued job without running it, and a running one through the worker', async () => {
+    const { session, worker } = sessionWithWorker();
+    let ran = false;
+    const running = submitJob(session, 'a', (jobWorker) => jobWorker.query(1));
+    const queued = submitJob(session, 'b', () => { ran = true; return Promise.resolve(2); });
+    await settle();
+
+    expect(cancelJob(queued)).toBe(true);
+    expect(queued.status).toBe('cancelled');
+    expect(cancelJob(running)).toBe(true);
+    await settle();
+    expect(running.status).toBe('cancelled');
+    expect(ran).toBe(false);
+    expect(cancelJob(running)).toBe(false);
+    expect(worker.inFlight).toBeNull();
+  });
+
+  it('runs jobs on one worker, apart from the session\'s own queries', async () => {
+    const { session, worker, opened } = sessionWithWorker();
+    const interactive = session.query('interactive');
+    const job = submitJob(session, 'a', (jobWorker) => jobWorker.query('job'));
+    await settle();
+
+    // Cancelling the session's queries leaves the job running
+    session.cancel();
+    await expect(interactive).rejects.toThrow('Query cancelled');
+    expect(job.status).toBe('running');
+
+    worker.finish();
+    await settle();
+    expect(job.result).toBe('job');
+    submitJob(session, 'b', () => Promise.resolve(1));
+    await settle();
+    expect(opened).toEqual([session]);
+  });
+
+  it('forgets a session\'s jobs and closes its worker when the session closes', async () => {
+    const { session, worker } = sessionWithWorker();
+    const job = submitJob(session, 'a', () => Promise.resolve(1));
+    await settle();
+    session.emit('state', { state: 'closed' });
+    await settle();
+    expect(getJob(job.id)).toBeNull();
+    expect(listJobs('s1')).toEqual([]);
+    expect(worker.closed).toBe(true);
+  });
+
+  it('fails a job whose worker cannot connect, and tries again for the next', async () => {
+    const session = new FakeSession('s1');
+    const worker = new FakeSession('s1 jobs');
+    let attempts = 0;
+    getJobQueue(session, () => (++attempts === 1 ? Promise.reject(new KdbBridgeError(ErrorCodes.HOST_UNREACHABLE, 'Host unreachable', 502)) : Promise.resolve(worker)));
+
+    const failed = submitJob(session, 'a', () => Promise.resolve(1));
+    await settle();
+    expect(failed.describe()).toMatchObject({ status: 'failed', error: { code: 'HOST_UNREACHABLE' } });
+
+    const next = submitJob(session, 'b', () => Promise.resolve(2));
+    await settle();
+    expect(next.status).toBe('done');
+    expect(attempts).toBe(2);
+  });
+
+  it('drops finished jobs kept longer than the retention', async () => {
+    configureJobs({ retentionMinutes: 10, maxResultBytes: 0 });
+    const { session } = sessionWithWorker();
+    const job = submitJob(session, 'a', () => Promise.resolve(1));
+    await settle();
+
+    expireJobs(job.finishedAt.getTime() + 9 * 60 * 1000);
+    expect(getJob(job.id)).toBe(job);
+    expireJobs(job.finishedAt.getTime() + 11 * 60 * 1000);
+    expect(getJob(job.id)).toBeNull();
+    expect(listJobs('s1')).toEqual([]);
+  });
+
+  it('drops the oldest results of any session once they hold more than the limit', async () => {
+    configureJobs({ retentionMinutes: 0, maxResultBytes: 1000 });
+    const first = sessionWithWorker('s1');
+    const second = sessionWithWorker('s2');
+    const oldest = submitJob(first.session, 'a', sized(400));
+    await settle();
+    const older = submitJob(second.session, 'b', sized(400));
+    await settle();
+    const newest = submitJob(first.session, 'c', sized(400));
+    await settle();
+
+    expect(getJob(oldest.id)).toBeNull();
+    expect([getJob(older.id), getJob(newest.id)]).toEqual([older, newest]);
+    expect(listJobs('s1').map(job => job.query)).toEqual(['c']);
+  });
+
+  it('fails a job whose result alone is over the limit', async () => {
+    configureJobs({ retentionMinutes: 0, maxResultBytes: 1000 });
+    const { session } = sessionWithWorker();
+    const job = submitJob(session, 'a', sized(2000));
+    await settle();
+    expect(job.describe()).toMatchObject({ status: 'failed', error: { code: 'RESULT_TOO_LARGE' } });
+    expect(job.result).toBeNull();
+  });
+
+  it('refuses an empty query', () => {
+    expect(() => submitJob(new FakeSession('s1'), '  ', () => Promise.resolve(null))).toThrow('Query is empty');
+  });
+});
@@ -0,0 +1,26 @@
+// Console logging with a level: error, warn, info (the default) or debug. Debug adds a line for
+// every query the bridge sends to q and what came back.
+
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug'];
+
+let threshold = LOG_LEVELS.indexOf('info');
+
+export const setLogLevel = (level) => {
+  if (!LOG_LEVELS.includes(level)) {
+    throw new Error(`Unknown log level "${level}" (expected ${LOG_LEVELS.join(', ')})`);
+  }
+  threshold = LOG_LEVELS.indexOf(level);
+};
+
+const logAt = (level, write) => (...args) => {
+  if (LOG_LEVELS.indexOf(level) <= threshold) {
+    write(...args);
+  }
+};
+
+export const log = {
+  error: logAt('error', console.error),
+  warn: logAt('warn', console.warn),
+  info: logAt('info', console.log),
+  debug: logAt('debug', console.log)
+};
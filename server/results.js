@@ -0,0 +1,261 @@
+import Long from 'long';
+
+// Turning node-q results into the { columns, data, meta } shape the browser renders.
+// node-q tags lists, tables and dictionaries with their q type (__qtype/__qattr, and
+// __qcolumns on flipped tables); atoms rely on the top-level type from session.query().
+
+// q type names indexed by type number (atoms use the negated number)
+const Q_TYPE_NAMES = [
+  'mixed', 'boolean', 'guid', null, 'byte', 'short', 'int', 'long', 'real', 'float',
+  'char', 'symbol', 'timestamp', 'month', 'date', 'datetime', 'timespan', 'minute', 'second', 'time'
+];
+
+export const qTypeName = (typeCode) => {
+  const t = Math.abs(typeCode);
+  if (Q_TYPE_NAMES[t]) return Q_TYPE_NAMES[t];
+  if (t >= 20 && t <= 76) return 'enum';
+  if (t === 98) return 'table';
+  if (t === 99) return 'dict';
+  if (t >= 100) return 'function';
+  return 'mixed';
+};
+
+// A general list whose items are all char vectors is a string column
+const isStringList = (values) => {
+  let strings = 0;
+  for (const value of values) {
+    if (typeof value === 'string') {
+      strings++;
+    } else if (value !== null && value !== undefined) {
+      return false;
+    }
+  }
+  return strings > 0;
+};
+
+// A column of a result: its q type plus the raw deserialized values, in row order
+const columnMeta = (name, typeCode, attribute, values) => ({
+  name,
+  type: typeCode === 0 && isStringList(values) ? 'string' : qTypeName(typeCode),
+  typeCode,
+  attribute: attribute || '',
+  values
+});
+
+// Type of a deserialized list; char vectors arrive as plain strings
+const listType = (value) => {
+  if (typeof value === 'string') return 10;
+  return value && typeof value.__qtype === 'number' ? value.__qtype : 0;
+};
+
+// Columns of a list of rows, from node-q's flipped table metadata
+export const describeRowColumns = (rows) => {
+  if (Array.isArray(rows.__qcolumns)) {
+    return rows.__qcolumns.map(column => columnMeta(column.name, column.type, column.attribute, rows.map(row => row[column.name])));
+  }
+  // Rows built by hand (no metadata): all we know are the names
+  const names = rows.length > 0 ? Object.keys(rows[0]) : [];
+  return names.map(name => columnMeta(name, 0, '', rows.map(row => row[name])));
+};
+
+// Columns of a table node-q left unflipped (a column name -> list object)
+const describeDictColumns = (result) => Object.keys(result).map((name) => {
+  const value = result[name];
+  return columnMeta(name, listType(value), value && value.__qattr, Array.isArray(value) ? value : [value]);
+});
+
+// Null sentinels of types whose values can reach the bridge as raw numbers
+const NULL_SENTINELS = {
+  short: -32768,
+  int: -2147483648,
+  long: -9223372036854775808
+};
+
+// q infinities (0W, -0Wi, 0Wp, 0w ...) become +/-Infinity in node-q, which JSON would turn into null,
+// so they travel in the same tagged form as symbols. The column type says which infinity it is.
+const infinity = (value) => ({ __kdb_type: 'infinity', sign: value > 0 ? 1 : -1 });
+
+// Sessions connect with long2number/nanos2date off, so every 64-bit value arrives as an exact Long:
+// longs as themselves, timestamps as nanoseconds since the Unix epoch and timespans as nanoseconds.
+// They are sent as strings so no digit is lost in JSON.
+const NANOS_PER_MILLI = Long.fromInt(1000000);
+const NANOS_PER_DAY = Long.fromString('86400000000000');
+
+const pad = (n, width = 2) => String(n).padStart(width, '0');
+
+// 2024-01-15T14:30:25.123456789Z
+const formatTimestamp = (nanos) => {
+  let millis = nanos.div(NANOS_PER_MILLI);
+  let rest = nanos.mod(NANOS_PER_MILLI).toNumber();
+  if (rest < 0) {
+    millis = millis.subtract(1);
+    rest += 1000000;
+  }
+  return `${new Date(millis.toNumber()).toISOString().slice(0, -1)}${pad(rest, 6)}Z`;
+};
+
+// 14:30:25.123456789, with a day count (2D14:30:25.123456789) past 24 hours
+const formatTimespan = (nanos) => {
+  const negative = nanos.isNegative();
+  const magnitude = negative ? nanos.negate() : nanos;
+  const days = magnitude.div(NANOS_PER_DAY);
+  const ns = magnitude.mod(NANOS_PER_DAY).toNumber();
+  const time = `${pad(Math.floor(ns / 3600e9))}:${pad(Math.floor(ns % 3600e9 / 60e9))}:${pad(Math.floor(ns % 60e9 / 1e9))}.${pad(ns % 1e9, 9)}`;
+  return `${negative ? '-' : ''}${days.isZero() ? '' : `${days.toString()}D`}${time}`;
+};
+
+const formatLong = (value, type) => {
+  if (type === 'timestamp') return formatTimestamp(value);
+  if (type === 'timespan') return formatTimespan(value);
+  return value.toString();
+};
+
+// A q count or other long the bridge itself needs as a number
+export const toNumber = (value) => (Long.isLong(value) ? value.toNumber() : value);
+
+// Convert a deserialized value of q type `type` to JSON. Nulls of every type are sent as null;
+// the frontend renders them from the column type (0Nh, 0Np, ` ...).
+export const convertKdbValue = (value, columnName = '', type = '') => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (typeof value === 'number') {
+    if (isNaN(value) || value === NULL_SENTINELS[type]) return null;
+    if (!isFinite(value)) return infinity(value);
+    return value;
+  }
+
+  if (Long.isLong(value)) {
+    return formatLong(value, type);
+  }
+
+  // Handle KDB+ timestamps (if it's already a Date object)
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString();
+  }
+
+  // Handle strings with potential encoding issues
+  if (typeof value === 'string') {
+    return value.toString();
+  }
+
+  // A nested list: its items have the list's own type
+  if (Array.isArray(value)) {
+    const itemType = qTypeName(listType(value));
+    return value.map(item => convertKdbValue(item, columnName, itemType));
+  }
+
+  // For all other values, return as-is
+  return value;
+};
+
+// kind says how the result was shaped in q; keyColumns lists the key columns the grid pins
+const describe = (columns, kind, keyColumns = []) => ({
+  columns,
+  kind,
+  keyColumns,
+  count: columns.length > 0 ? columns[0].values.length : 0
+});
+
+// node-q hands a keyed table over as [keys, values], two tables of the same length
+const describeKeyedTable = ([keys, values]) => {
+  const keyColumns = describeRowColumns(keys);
+  return describe([...keyColumns, ...describeRowColumns(values)], 'keyedTable', keyColumns.map(column => column.name));
+};
+
+// A dictionary is shown as key/value rows, whatever its keys and values are
+const describeDictionary = (dict) => {
+  const keys = Array.from(dict.__qkeys);
+  const { __qvalues: qvalues } = dict;
+  const values = Array.isArray(qvalues) ? qvalues : typeof qvalues === 'string' ? Array.from(qvalues) : keys.map(() => qvalues);
+  return describe([
+    columnMeta('key', dict.__qkeytype, dict.__qkeys.__qattr, keys),
+    columnMeta('value', dict.__qvaluetype, '', values)
+  ], 'dict', ['key']);
+};
+
+// Break a query result into typed columns of raw values, the common ground of the JSON and
+// columnar encodings. `info` is the top-level { type, attribute } reported by session.query(),
+// needed for atoms which cannot carry a type themselves.
+export const describeResult = (result, info = {}) => {
+  if (result === null || result === undefined) {
+    return describe([], 'atom');
+  }
+
+  if (Array.isArray(result)) {
+    if (result.__qtype === 99) {
+      return describeKeyedTable(result);
+    }
+
+    // A table: node-q flips it into one object per row (untagged arrays are rows built by hand)
+    const isTable = typeof result.__qtype === 'number'
+      ? result.__qtype === 98
+      : result.length > 0 && typeof result[0] === 'object' && result[0] !== null && !Array.isArray(result[0]);
+    if (isTable) {
+      return describe(describeRowColumns(result), 'table');
+    }
+
+    // Any other list, nested or not, is shown as a single column
+    const name = result.length > 0 && typeof result[0] === 'string' ? 'name' : 'result';
+    return describe([columnMeta(name, listType(result), result.__qattr || info.attribute, result)], 'list');
+  }
+
+  if (typeof result === 'object' && !(result instanceof Date) && !Long.isLong(result) && result.__kdb_type !== 'symbol') {
+    if (result.__qkeys) {
+      return describeDictionary(result);
+    }
+
+    // An unflipped table (or a plain object): one column per key
+    return describe(describeDictColumns(result), 'table');
+  }
+
+  // Single value result; a char vector is a string rather than a char
+  const typeCode = typeof info.type === 'number' ? info.type : 0;
+  const column = typeCode === 10
+    ? { name: 'result', type: 'string', typeCode, attribute: info.attribute || '', values: [result] }
+    : columnMeta('result', typeCode, '', [result]);
+  return describe([column], 'atom');
+};
+
+// Cut a description to its first maxRows rows (0 keeps them all). The full count stays in
+// totalCount, so every encoding can say how many rows the result really had, however often it is cut.
+export const limitRows = (description, maxRows) => {
+  if (!(maxRows > 0) || description.count <= maxRows) return description;
+  return {
+    ...description,
+    columns: description.columns.map(column => ({ ...column, values: column.values.slice(0, maxRows) })),
+    count: maxRows,
+    totalCount: description.totalCount ?? description.count
+  };
+};
+
+// The parts of a result every encoding sends alongside the values. meta.count is the row count
+// of the whole result; a result cut short by limitRows is marked truncated.
+export const resultHeader = ({ columns, kind, keyColumns, count, totalCount }) => ({
+  columns: columns.map(column => column.name),
+  kind,
+  keyColumns,
+  ...(totalCount !== undefined && { truncated: true }),
+  meta: {
+    types: columns.map(column => column.type),
+    typeCodes: columns.map(column => column.typeCode),
+    attributes: columns.map(column => column.attribute),
+    count: totalCount ?? count
+  }
+});
+
+// Format a describeResult() description as the row-major JSON the browser renders
+export const formatDescription = (description) => {
+  const { columns, count } = description;
+  const converted = columns.map(column => column.values.map(value => convertKdbValue(value, column.name, column.type)));
+  const data = new Array(count);
+  for (let i = 0; i < count; i++) {
+    data[i] = converted.map(values => values[i]);
+  }
+  const { meta, ...header } = resultHeader(description);
+  return { ...header, data, meta };
+};
+
+// Format a query result as the row-major JSON the browser renders
+export const formatQueryResult = (result, info = {}) => formatDescription(describeResult(result, info));
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { deserialize } from '../lib/node-q/lib/c.cjs';
+import { formatQueryResult } from './results.js';
+
+// A q vector as an IPC response: type, attribute, count, then each item as `write` puts it
+const qVector = (type, width, items, write) => {
+  const body = Buffer.alloc(6 + width * items.length);
+  body.writeInt8(type, 0);
+  body.writeUInt32LE(items.length, 2);
+  items.forEach((item, i) => write(body, item, 6 + i * width));
+  const header = Buffer.alloc(8);
+  header.writeUInt8(1, 0);
+  header.writeUInt8(2, 1);
+  header.writeUInt32LE(8 + body.length, 4);
+  return Buffer.concat([header, body]);
+};
+
+const int16 = (buffer, value, offset) => buffer.writeInt16LE(value, offset);
+const int32 = (buffer, value, offset) => buffer.writeInt32LE(value, offset);
+const int64 = (buffer, value, offset) => buffer.writeBigInt64LE(BigInt(value), offset);
+const float32 = (buffer, value, offset) => buffer.writeFloatLE(value, offset);
+const float64 = (buffer, value, offset) => buffer.writeDoubleLE(value, offset);
+
+// Deserialize as sessions do (exact longs and nanoseconds) and format for the browser
+const decode = (message) => {
+  const info = {};
+  return formatQueryResult(deserialize(message, false, true, true, false, info), info);
+};
+
+const values = (message) => decode(message).data.map(row => row[0]);
+
+const INT16 = [-32768, 32767, -32767];
+const INT32 = [-2147483648, 2147483647, -2147483647];
+const INT64 = ['-9223372036854775808', '9223372036854775807', '-9223372036854775807'];
+const FLOAT = [NaN, Infinity, -Infinity];
+
+const POSITIVE_INFINITY = { __kdb_type: 'infinity', sign: 1 };
+const NEGATIVE_INFINITY = { __kdb_type: 'infinity', sign: -1 };
+
+// Null, infinity and negative infinity as q writes them, per type: [name, type, width, writer, sentinels]
+const SENTINEL_TYPES = [
+  ['short', 5, 2, int16, INT16],
+  ['int', 6, 4, int32, INT32],
+  ['long', 7, 8, int64, INT64],
+  ['real', 8, 4, float32, FLOAT],
+  ['float', 9, 8, float64, FLOAT],
+  ['timestamp', 12, 8, int64, INT64],
+  ['month', 13, 4, int32, INT32],
+  ['date', 14, 4, int32, INT32],
+  ['datetime', 15, 8, float64, FLOAT],
+  ['timespan', 16, 8, int64, INT64],
+  ['minute', 17, 4, int32, INT32],
+  ['second', 18, 4, int32, INT32],
+  ['time', 19, 4, int32, INT32]
+];
+
+// Nanoseconds between 2000.01.01 (q's epoch) and a UTC time, plus extra nanoseconds
+const qNanos = (iso, extraNanos = 0) => (BigInt(Date.parse(iso) - Date.UTC(2000, 0, 1)) * 1000000n + BigInt(extraNanos)).toString();
+
+describe('nulls and infinities', () => {
+  it.each(SENTINEL_TYPES)('maps the %s null to null and its infinities to tagged infinities', (name, type, width, write, sentinels) => {
+    const result = decode(qVector(type, width, sentinels, write));
+    expect(result.meta.types).toEqual([name]);
+    expect(result.data.map(row => row[0])).toEqual([null, POSITIVE_INFINITY, NEGATIVE_INFINITY]);
+  });
+
+  it('keeps ordinary values next to the sentinels', () => {
+    expect(values(qVector(5, 2, [-32768, 7], int16))).toEqual([null, 7]);
+    expect(values(qVector(9, 8, [NaN, 1.5], float64))).toEqual([null, 1.5]);
+    expect(values(qVector(14, 4, [-2147483648, 0], int32))).toEqual([null, '2000-01-01T00:00:00.000Z']);
+  });
+});
+
+describe('64-bit values', () => {
+  it('sends longs as exact decimal strings', () => {
+    expect(values(qVector(7, 8, ['9007199254740993', '-9223372036854775806', '0'], int64)))
+      .toEqual(['9007199254740993', '-9223372036854775806', '0']);
+  });
+
+  it('formats timestamps to the nanosecond, before and after both epochs', () => {
+    expect(values(qVector(12, 8, [
+      qNanos('2024-01-15T14:30:25.123Z', 456789),
+      '-1',
+      qNanos('1969-12-31T23:59:59.999Z', 999999)
+    ], int64))).toEqual([
+      '2024-01-15T14:30:25.123456789Z',
+      '1999-12-31T23:59:59.999999999Z',
+      '1969-12-31T23:59:59.999999999Z'
+    ]);
+  });
+
+  it('formats timespans to the nanosecond with a day count and sign', () => {
+    const day = 86400000000000n;
+    expect(values(qVector(16, 8, [
+      '1',
+      (2n * day + 52225123456789n).toString(),
+      '-1500000000'
+    ], int64))).toEqual(['00:00:00.000000001', '2D14:30:25.123456789', '-00:00:01.500000000']);
+  });
+});
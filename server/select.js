@@ -0,0 +1,141 @@
+import { KdbBridgeError, ErrorCodes } from './errors.js';
+import { checkQName, qString, qSymbol } from './identifiers.js';
+
+// Table browsing with sorting, column filters and a global search done by q rather than the
+// browser. A view is turned into a functional select, ?[t;c;b;a], built only from checked
+// column names and escaped string literals: nothing the browser sends is pasted in as code.
+
+// Comparison operators a column filter can use; 'contains' is a case-insensitive match
+const COMPARISONS = { eq: '=', ne: '<>', lt: '<', le: '<=', gt: '>', ge: '>=' };
+export const FILTER_OPS = [...Object.keys(COMPARISONS), 'contains'];
+
+// Column types (meta's t) searched by the global search
+const TEXT_TYPES = new Set(['s', 'C', 'c']);
+
+// A like pattern matching `text` anywhere; wildcard characters in it are matched literally
+const containsPattern = (text) => `*${String(text).toLowerCase().replace(/[*?[]/g, (c) => `[${c}]`)}*`;
+
+const invalid = (message) => new KdbBridgeError(ErrorCodes.INVALID_REQUEST, message, 400);
+
+// Parse-tree constant for a filter value, read as the column's own type
+const literal = (type, value) => {
+  if (type === 's') return `(enlist ${qSymbol(value)})`;
+  if (type === 'c') return `(first ${qString(value)})`;
+  if (/^[a-z]$/.test(type)) return `(${qString(type.toUpperCase())}$${qString(value)})`;
+  throw invalid(`Cannot compare values of this column type (${JSON.stringify(type)})`);
+};
+
+// Case-insensitive match of a column against `text`; symbols and strings are lowered, other
+// types compared through their string form. A char column is one string to like, so its chars
+// are made strings of their own first.
+const containsClause = (column, type, text) => {
+  const subject = {
+    s: `(lower;${qSymbol(column)})`,
+    C: `(lower;${qSymbol(column)})`,
+    c: `(lower;(string;${qSymbol(column)}))`
+  }[type] || `(string;${qSymbol(column)})`;
+  return `(like;${subject};${qString(containsPattern(text))})`;
+};
+
+const filterClause = ({ column, op, value }, type) => {
+  if (op === 'contains') return containsClause(column, type, value);
+  if (type === 'C') {
+    if (op !== 'eq' && op !== 'ne') throw invalid(`String column ${column} can only be matched, not ordered`);
+    const match = `(like;${qSymbol(column)};${qString(String(value).replace(/[*?[]/g, (c) => `[${c}]`))})`;
+    return op === 'eq' ? match : `(not;${match})`;
+  }
+  return `(${COMPARISONS[op]};${qSymbol(column)};${literal(type, value)})`;
+};
+
+// How a partition value from .Q.PV (as `string` writes it) is read back, by partition field
+const PARTITION_FORMATS = {
+  date: { type: 'D', pattern: /^\d{4}\.\d{2}\.\d{2}$/ },
+  month: { type: 'M', pattern: /^\d{4}\.\d{2}$/ },
+  year: { type: 'I', pattern: /^\d{1,4}$/ },
+  int: { type: 'I', pattern: /^\d{1,10}$/ }
+};
+
+// Where clause limiting a partitioned table to one partition, e.g. date=2024.01.15
+export const partitionClause = ({ field, value }) => {
+  const format = PARTITION_FORMATS[field];
+  if (!format) throw invalid(`Cannot browse tables partitioned by ${JSON.stringify(field)}`);
+  if (!format.pattern.test(String(value))) throw invalid(`Invalid ${field} partition ${JSON.stringify(value)}`);
+  return `(=;${qSymbol(field)};(${qString(format.type)}$${qString(value)}))`;
+};
+
+// q list syntax for where clauses: () for none, enlist for one
+const qList = (items) => {
+  if (items.length === 0) return '()';
+  if (items.length === 1) return `enlist ${items[0]}`;
+  return `(${items.join(';')})`;
+};
+
+// Check a view from the browser against the table's columns (name -> meta type char)
+export const normalizeTableView = (columnTypes, { sort = [], filters = [], search = '' } = {}) => {
+  if (!Array.isArray(sort) || !Array.isArray(filters) || typeof search !== 'string') {
+    throw invalid('Malformed table view');
+  }
+  const checkColumn = (column) => {
+    if (typeof column !== 'string' || !columnTypes.has(column)) {
+      throw invalid(`Unknown column ${JSON.stringify(column)}`);
+    }
+    return column;
+  };
+  return {
+    sort: sort.map(spec => ({ column: checkColumn(spec && spec.column), desc: !!(spec && spec.desc) })),
+    filters: filters.map((filter) => {
+      if (!filter || !FILTER_OPS.includes(filter.op) || filter.value === undefined || filter.value === null) {
+        throw invalid('Malformed column filter');
+      }
+      return { column: checkColumn(filter.column), op: filter.op, value: String(filter.value) };
+    }),
+    search: search.trim()
+  };
+};
+
+// Where clauses of a view: every column filter, and the search over the text columns
+const whereClauses = (columnTypes, { filters, search }) => {
+  const clauses = filters.map(filter => filterClause(filter, columnTypes.get(filter.column)));
+  if (search) {
+    const matches = Array.from(columnTypes.entries())
+      .filter(([, type]) => TEXT_TYPES.has(type))
+      .map(([column, type]) => containsClause(column, type, search));
+    if (matches.length > 0) {
+      clauses.push(matches.reduce((either, match) => `(|;${either};${match})`));
+    }
+  }
+  return clauses;
+};
+
+// q expressions for one page of a table view and for the number of rows it matches. Given a
+// partition ({ field, value }), a partitioned table is only read from that partition: its
+// constraint comes first so q skips the others, i counts rows within the partition, and the rows
+// are counted with exec rather than by selecting them.
+export const buildTableViewQueries = (tableName, columnTypes, view, offset, limit, partition = null) => {
+  const table = qSymbol(checkQName(tableName, 'table name'));
+  if (![offset, limit].every(Number.isSafeInteger) || offset < 0 || limit < 1) {
+    throw invalid('Offset and limit must be whole numbers');
+  }
+  const scope = partition ? [partitionClause(partition)] : [];
+  const clauses = [...scope, ...whereClauses(columnTypes, view)];
+  const countOf = (where) => (partition ? `?[${table};${qList(where)};();(count;\`i)]` : `count ?[${table};${qList(where)};0b;()]`);
+
+  if (clauses.length === scope.length && view.sort.length === 0) {
+    // Nothing to filter or sort: read the page by row index, without touching the rest
+    return {
+      page: `?[${table};${qList([...scope, `(within;\`i;${offset} ${offset + limit - 1})`])};0b;()]`,
+      count: partition ? countOf(scope) : `count get ${table}`
+    };
+  }
+
+  const selected = `?[${table};${qList(clauses)};0b;()]`;
+  // xasc/xdesc are stable, so sorting by the last key first leaves the first key in charge
+  const sorted = view.sort.reduceRight(
+    (expression, { column, desc }) => `(${qSymbol(column)}) ${desc ? 'xdesc' : 'xasc'} ${expression}`,
+    selected
+  );
+  return {
+    page: `${offset} ${limit} sublist ${sorted}`,
+    count: countOf(clauses)
+  };
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { buildTableViewQueries, normalizeTableView, partitionClause } from './select.js';
+
+const columnTypes = new Map([['time', 'p'], ['sym', 's'], ['side', 'c'], ['price', 'f'], ['size', 'j'], ['note', 'C']]);
+
+const view = (spec) => normalizeTableView(columnTypes, spec);
+
+describe('normalizeTableView', () => {
+  it('rejects columns the table does not have', () => {
+    expect(() => view({ sort: [{ column: 'price;exit 0' }] })).toThrow(/Unknown column/);
+    expect(() => view({ filters: [{ column: 'nope', op: 'eq', value: '1' }] })).toThrow(/Unknown column/);
+  });
+
+  it('rejects unknown operators and malformed views', () => {
+    expect(() => view({ filters: [{ column: 'price', op: 'exec', value: '1' }] })).toThrow(/Malformed column filter/);
+    expect(() => view({ sort: 'price' })).toThrow(/Malformed table view/);
+  });
+});
+
+describe('buildTableViewQueries', () => {
+  it('pages by row index when there is nothing to sort or filter', () => {
+    expect(buildTableViewQueries('trade', columnTypes, view({}), 200, 100)).toEqual({
+      page: '?[`$"trade";enlist (within;`i;200 299);0b;()]',
+      count: 'count get `$"trade"'
+    });
+  });
+
+  it('selects, sorts and counts with a functional select', () => {
+    const queries = buildTableViewQueries('trade', columnTypes, view({
+      sort: [{ column: 'sym' }, { column: 'price', desc: true }],
+      filters: [{ column: 'price', op: 'gt', value: '100' }, { column: 'sym', op: 'eq', value: 'AAPL' }]
+    }), 0, 50);
+    const selected = '?[`$"trade";((>;`$"price";("F"$"100"));(=;`$"sym";(enlist `$"AAPL")));0b;()]';
+    expect(queries.page).toBe(`0 50 sublist (\`$"sym") xasc (\`$"price") xdesc ${selected}`);
+    expect(queries.count).toBe(`count ${selected}`);
+  });
+
+  it('keeps filter values inside string literals', () => {
+    const { page } = buildTableViewQueries('trade', columnTypes, view({
+      filters: [{ column: 'size', op: 'eq', value: '1";system"rm -rf /' }]
+    }), 0, 10);
+    expect(page).toContain('(=;`$"size";("J"$"1\\";system\\"rm -rf /"))');
+  });
+
+  it('matches wildcards in contains filters literally', () => {
+    const { page } = buildTableViewQueries('trade', columnTypes, view({
+      filters: [{ column: 'note', op: 'contains', value: 'A*B?' }]
+    }), 0, 10);
+    expect(page).toContain('(like;(lower;`$"note");"*a[*]b[?]*")');
+  });
+
+  it('searches every symbol, char and string column', () => {
+    const { count } = buildTableViewQueries('trade', columnTypes, view({ search: 'ib' }), 0, 10);
+    expect(count).toBe('count ?[`$"trade";enlist (|;(|;(like;(lower;`$"sym");"*ib*");(like;(lower;(string;`$"side"));"*ib*"));(like;(lower;`$"note");"*ib*"));0b;()]');
+  });
+
+  it('matches a char column a char at a time', () => {
+    const { page } = buildTableViewQueries('trade', columnTypes, view({
+      filters: [{ column: 'side', op: 'contains', value: 'B' }]
+    }), 0, 10);
+    expect(page).toContain('(like;(lower;(string;`$"side"));"*b*")');
+  });
+
+  it('refuses table names q could not have defined', () => {
+    expect(() => buildTableViewQueries('trade;exit 0', columnTypes, view({}), 0, 10)).toThrow(/Invalid table name/);
+    expect(() => buildTableViewQueries('select', columnTypes, view({}), 0, 10)).toThrow(/Invalid table name/);
+  });
+
+  it('refuses offsets and limits that are not whole numbers', () => {
+    expect(() => buildTableViewQueries('trade', columnTypes, view({}), 0.5, 10)).toThrow(/whole numbers/);
+    expect(() => buildTableViewQueries('trade', columnTypes, view({}), 0, 0)).toThrow(/whole numbers/);
+  });
+});
+
+describe('partitions', () => {
+  const date = { field: 'date', value: '2024.01.15' };
+
+  it('reads a page of one partition by its row index', () => {
+    expect(buildTableViewQueries('trade', columnTypes, view({}), 100, 100, date)).toEqual({
+      page: '?[`$"trade";((=;`$"date";("D"$"2024.01.15"));(within;`i;100 199));0b;()]',
+      count: '?[`$"trade";enlist (=;`$"date";("D"$"2024.01.15"));();(count;`i)]'
+    });
+  });
+
+  it('constrains the partition before any filter', () => {
+    const { page, count } = buildTableViewQueries('trade', columnTypes, view({
+      filters: [{ column: 'sym', op: 'eq', value: 'IBM' }]
+    }), 0, 10, date);
+    const where = '((=;`$"date";("D"$"2024.01.15"));(=;`$"sym";(enlist `$"IBM")))';
+    expect(page).toBe(`0 10 sublist ?[\`$"trade";${where};0b;()]`);
+    expect(count).toBe(`?[\`$"trade";${where};();(count;\`i)]`);
+  });
+
+  it('reads months and years and refuses anything else', () => {
+    expect(partitionClause({ field: 'month', value: '2024.01' })).toBe('(=;`$"month";("M"$"2024.01"))');
+    expect(partitionClause({ field: 'year', value: '2024' })).toBe('(=;`$"year";("I"$"2024"))');
+    expect(() => partitionClause({ field: 'date', value: '2024.01.15;exit 0' })).toThrow(/Invalid date partition/);
+    expect(() => partitionClause({ field: 'sym', value: 'IBM' })).toThrow(/Cannot browse/);
+  });
+});
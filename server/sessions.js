@@ -0,0 +1,382 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { readFileSync } from 'fs';
+import nodeq from '../lib/node-q/index.cjs';
+import { KdbBridgeError, ErrorCodes, classifyConnectError } from './errors.js';
+import { policyForTarget } from './config.js';
+import { QUERY_POLICIES, strictestPolicy } from './guard.js';
+import { log } from './logger.js';
+
+export const TRANSPORTS = ['tcp', 'tls', 'unix'];
+
+// Check the transport options of a connect request and fill in defaults. The query policy is the
+// stricter of the one asked for and the one the bridge's queryPolicies set for the target.
+export const normalizeConnectionConfig = (config, { queryPolicies = [] } = {}) => {
+  const transport = config.transport || 'tcp';
+  if (!TRANSPORTS.includes(transport)) {
+    throw new KdbBridgeError(ErrorCodes.INVALID_REQUEST, `Unknown transport "${transport}" (expected ${TRANSPORTS.join(', ')})`, 400);
+  }
+
+  const requested = config.policy || 'read-write';
+  if (!QUERY_POLICIES.includes(requested)) {
+    throw new KdbBridgeError(ErrorCodes.INVALID_REQUEST, `Unknown query policy "${requested}" (expected ${QUERY_POLICIES.join(', ')})`, 400);
+  }
+
+  const normalized = { ...config, transport };
+  if (transport === 'unix') {
+    // q listens on /tmp/kx.<port> for Unix domain socket clients
+    normalized.socketPath = config.socketPath || (config.port ? `/tmp/kx.${parseInt(config.port)}` : undefined);
+    if (!normalized.socketPath) {
+      throw new KdbBridgeError(ErrorCodes.INVALID_REQUEST, 'Unix transport needs a socket path or port', 400);
+    }
+  } else {
+    delete normalized.socketPath;
+  }
+  if (transport !== 'tls') {
+    delete normalized.caPath;
+  }
+
+  const address = transport === 'unix' ? normalized.socketPath : `${config.host}:${config.port}`;
+  normalized.policy = strictestPolicy(requested, policyForTarget(queryPolicies, address));
+  return normalized;
+};
+
+// Sessions that have not been used for this long are closed by the idle sweep
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Reconnect backoff after the KDB+ socket drops: 0.5s, 1s, 2s ... capped at 30s
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+const RECONNECT_MAX_ATTEMPTS = 10;
+
+// A single named connection to a KDB+ process owned by one browser client.
+// Emits 'state' with describeState() whenever the connection goes up, drops or gives up.
+export class KdbSession extends EventEmitter {
+  constructor(config) {
+    super();
+    this.id = randomUUID();
+    this.config = config;
+    this.connection = null;
+    this.state = 'connecting';
+    this.reconnectAttempt = 0;
+    this.reconnectTimer = null;
+    this.nextRetryAt = null;
+    this.lastError = null;
+    this.closed = false;
+    this.pending = new Set();
+    this.restarting = null;  // Set while restart() opens a fresh socket
+    this.createdAt = new Date();
+    this.lastUsedAt = new Date();
+  }
+
+  get connected() {
+    return !!this.connection;
+  }
+
+  // Printable address prefixed with the user, never including the password
+  get target() {
+    const { host, port, user, transport, socketPath } = this.config;
+    const address = transport === 'unix' ? socketPath : `${host}:${port}`;
+    const target = user ? `${user}@${address}` : address;
+    return transport === 'tcp' ? target : `${transport}://${target}`;
+  }
+
+  touch() {
+    this.lastUsedAt = new Date();
+  }
+
+  setState(state, error = null) {
+    this.state = state;
+    this.lastError = error ? error.message || String(error) : null;
+    this.emit('state', this.describeState());
+  }
+
+  describeState() {
+    return {
+      state: this.state,
+      attempt: this.reconnectAttempt,
+      nextRetryAt: this.nextRetryAt ? this.nextRetryAt.toISOString() : null,
+      error: this.lastError
+    };
+  }
+
+  connect() {
+    const { host, port, user, password, transport, caPath, socketPath } = this.config;
+    // Longs arrive as Long and timestamps/timespans as exact nanoseconds; see results.js
+    const params = { long2number: false, nanos2date: false };
+    if (transport === 'unix') {
+      params.unixSocket = socketPath;
+    } else {
+      params.host = host;
+      params.port = parseInt(port);
+    }
+    if (transport === 'tls') {
+      params.useTLS = true;
+      if (caPath) {
+        try {
+          params.ca = readFileSync(caPath);
+        } catch (e) {
+          return Promise.reject(new KdbBridgeError(ErrorCodes.INVALID_REQUEST, `Cannot read CA bundle ${caPath}: ${e.message}`, 400));
+        }
+      }
+    }
+    if (user) {
+      params.user = user;
+      params.password = password || '';
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        log.info(`[session ${this.id}] Attempting to connect to KDB+ at ${this.target}`);
+
+        nodeq.connect(params, (err, connection) => {
+          if (err) {
+            const error = classifyConnectError(err, this.target);
+            log.error(`[session ${this.id}] Connection error (${error.code}):`, err.message || err);
+            reject(error);
+            return;
+          }
+
+          if (this.closed) {
+            // Session was closed while the socket was being opened
+            connection.close();
+            reject(new KdbBridgeError(ErrorCodes.CONNECTION_LOST, `Session ${this.id} was closed`, 410));
+            return;
+          }
+
+          this.connection = connection;
+          log.info(`[session ${this.id}] Successfully connected to KDB+ at ${this.target}`);
+
+          connection.on('error', (error) => {
+            log.error(`[session ${this.id}] KDB+ connection error:`, error);
+            this.handleDrop(connection, error);
+          });
+
+          connection.on('close', () => {
+            log.info(`[session ${this.id}] KDB+ connection closed`);
+            this.handleDrop(connection);
+          });
+
+          this.reconnectAttempt = 0;
+          this.nextRetryAt = null;
+          if (this.state !== 'connected') {
+            this.setState('connected');
+          }
+          resolve(this);
+        });
+      } catch (error) {
+        log.error(`[session ${this.id}] Error creating connection:`, error);
+        reject(new Error(`Failed to create KDB+ connection: ${error.message}`));
+      }
+    });
+  }
+
+  // The socket went away underneath us: fail in-flight queries and start reconnecting.
+  // node-q never calls back for requests that were on a dead socket, so we reject them here.
+  handleDrop(connection, error) {
+    if (connection !== this.connection) return;
+    this.connection = null;
+
+    const lost = new KdbBridgeError(ErrorCodes.CONNECTION_LOST, `Connection to ${this.target} lost${error ? ` - ${error.message || error}` : ''}`, 503);
+    this.failPending(lost);
+
+    if (!this.closed) {
+      this.scheduleReconnect(lost);
+    }
+  }
+
+  failPending(error) {
+    for (const request of Array.from(this.pending)) {
+      clearTimeout(request.timer);
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  // Abandon whatever is running on the socket and open a fresh one. q only answers a handle
+  // in order, so this is the only way to get the session usable again while a query is stuck.
+  // The session stays connected meanwhile and queries wait for the new socket; only failing to
+  // open it counts as a dropped connection.
+  restart(error) {
+    const connection = this.connection;
+    this.connection = null;
+    this.failPending(error);
+    if (connection) {
+      try {
+        connection.close();
+      } catch (e) {
+        log.warn(`[session ${this.id}] Error closing connection:`, e.message);
+      }
+    }
+    if (this.closed) return;
+
+    log.info(`[session ${this.id}] Restarting connection: ${error.message}`);
+    this.reconnectAttempt = 0;
+    this.restarting = this.connect()
+      .catch((err) => {
+        if (!this.closed) {
+          this.scheduleReconnect(err);
+        }
+      })
+      .finally(() => {
+        this.restarting = null;
+      });
+  }
+
+  // Cancel every in-flight query on this session; resolves to how many were cancelled
+  cancel() {
+    const count = this.pending.size;
+    if (count > 0) {
+      this.restart(new KdbBridgeError(ErrorCodes.QUERY_CANCELLED, 'Query cancelled', 499));
+    }
+    return count;
+  }
+
+  scheduleReconnect(error) {
+    if (this.reconnectAttempt >= RECONNECT_MAX_ATTEMPTS) {
+      log.error(`[session ${this.id}] Giving up after ${this.reconnectAttempt} reconnect attempts`);
+      this.nextRetryAt = null;
+      this.setState('disconnected', error);
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempt, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempt += 1;
+    this.nextRetryAt = new Date(Date.now() + delay);
+    log.info(`[session ${this.id}] Reconnect attempt ${this.reconnectAttempt}/${RECONNECT_MAX_ATTEMPTS} in ${delay}ms`);
+    this.setState('reconnecting', error);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch((err) => {
+        if (!this.closed) {
+          this.scheduleReconnect(err);
+        }
+      });
+    }, delay);
+    this.reconnectTimer.unref();
+  }
+
+  // Send a query over this session's socket and resolve with the raw node-q result.
+  // With timeoutMs > 0 the query is abandoned (and the socket restarted) once it runs that long.
+  // An `info` object, if given, receives the q type and attribute of the top-level result.
+  // With `args`, `query` is a function applied to them on the server: k(fn, args) sends
+  // (fn;arg1;arg2...) so the arguments arrive as q data and are never parsed as code.
+  query(query, { timeoutMs = 0, info = null, args = [] } = {}) {
+    if (!this.connection && this.restarting) {
+      return this.restarting.then(() => this.query(query, { timeoutMs, info, args }));
+    }
+    if (!this.connection) {
+      if (this.state === 'reconnecting') {
+        return Promise.reject(new KdbBridgeError(ErrorCodes.CONNECTION_LOST, `Connection to ${this.target} lost - reconnecting (attempt ${this.reconnectAttempt})`, 503));
+      }
+      return Promise.reject(new KdbBridgeError(ErrorCodes.CONNECTION_LOST, 'Not connected to KDB+ server', 503));
+    }
+
+    this.touch();
+    return new Promise((resolve, reject) => {
+      const request = { resolve, reject, timer: null };
+      this.pending.add(request);
+      if (timeoutMs > 0) {
+        request.timer = setTimeout(() => {
+          log.warn(`[session ${this.id}] Query timed out after ${timeoutMs}ms: ${query}`);
+          this.restart(new KdbBridgeError(ErrorCodes.QUERY_TIMEOUT, `Query timed out after ${timeoutMs / 1000}s`, 504));
+        }, timeoutMs);
+      }
+      this.connection.k(query, ...args, (err, result, typeInfo) => {
+        if (!this.pending.delete(request)) return;
+        clearTimeout(request.timer);
+        if (err) {
+          reject(err);
+          return;
+        }
+        if (info && typeInfo) {
+          Object.assign(info, typeInfo);
+        }
+        resolve(result);
+      });
+    });
+  }
+
+  close() {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.connection) {
+      try {
+        this.connection.close();
+      } catch (e) {
+        log.warn(`[session ${this.id}] Error closing connection:`, e.message);
+      }
+      this.connection = null;
+    }
+    this.failPending(new KdbBridgeError(ErrorCodes.CONNECTION_LOST, `Session ${this.id} was closed`, 410));
+    this.setState('closed');
+    this.removeAllListeners('state');
+  }
+
+  // Leaves out the id, which is handed only to the client that opened the session
+  describe() {
+    return {
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.user || null,
+      transport: this.config.transport,
+      socketPath: this.config.socketPath || null,
+      policy: this.config.policy,
+      connected: this.connected,
+      state: this.state,
+      reconnectAttempt: this.reconnectAttempt,
+      createdAt: this.createdAt.toISOString(),
+      lastUsedAt: this.lastUsedAt.toISOString()
+    };
+  }
+}
+
+const sessions = new Map();
+
+// Open a new session; only registered in the pool once the socket is up. `options` are the
+// bridge settings normalizeConnectionConfig applies (queryPolicies).
+export const createSession = async (config, options) => {
+  const session = new KdbSession(normalizeConnectionConfig(config, options));
+  await session.connect();
+  sessions.set(session.id, session);
+  return session;
+};
+
+export const getSession = (id) => {
+  if (!id) return null;
+  return sessions.get(id) || null;
+};
+
+export const closeSession = (id) => {
+  const session = sessions.get(id);
+  if (!session) return false;
+  session.close();
+  sessions.delete(id);
+  log.info(`[session ${id}] Closed and removed from pool`);
+  return true;
+};
+
+export const listSessions = () => Array.from(sessions.values()).map(session => session.describe());
+
+export const closeAllSessions = () => {
+  for (const id of Array.from(sessions.keys())) {
+    closeSession(id);
+  }
+};
+
+// Periodically drop sessions whose browser tab went away without disconnecting
+const sweepTimer = setInterval(() => {
+  const now = Date.now();
+  for (const session of Array.from(sessions.values())) {
+    if (now - session.lastUsedAt.getTime() > SESSION_IDLE_TIMEOUT_MS) {
+      log.info(`[session ${session.id}] Idle for more than ${SESSION_IDLE_TIMEOUT_MS / 60000} minutes`);
+      closeSession(session.id);
+    }
+  }
+}, SESSION_SWEEP_INTERVAL_MS);
+sweepTimer.unref();
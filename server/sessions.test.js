@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import nodeq from '../lib/node-q/index.cjs';
+import { createSession, closeAllSessions, normalizeConnectionConfig } from './sessions.js';
+import { createSubscription, closeAllSubscriptions } from './subscriptions.js';
+import { symbolArg } from './identifiers.js';
+import { startStandInQ } from './testing/stand-in-q.js';
+
+// What arrived at the stand-in, with symbols written `sym so messages are easy to compare
+const received = (q) => q.messages.map(message => (Array.isArray(message)
+  ? message.map(item => (item && item.__kdb_type === 'symbol' ? `\`${item.value}` : item))
+  : message));
+
+let q;
+
+beforeEach(async () => {
+  q = await startStandInQ((message) => {
+    if (!Array.isArray(message)) {
+      if (message === 'undefinedName') throw new Error('undefinedName');
+      return null;
+    }
+    if (message[0] === '{cols x}') return nodeq.symbols(['time', 'sym', 'price']);
+    return null;
+  });
+});
+
+afterEach(async () => {
+  closeAllSubscriptions();
+  closeAllSessions();
+  await q.close();
+});
+
+describe('KdbSession.query', () => {
+  it('sends a query as text', async () => {
+    const session = await createSession({ host: q.host, port: q.port });
+    await session.query('tables[]');
+    expect(received(q)).toEqual(['tables[]']);
+  });
+
+  it('sends k(fn, args) arguments as q data, not as code', async () => {
+    const session = await createSession({ host: q.host, port: q.port });
+    const columns = await session.query('{cols x}', { args: [symbolArg('trade;exit 0')] });
+    expect(columns.map(String)).toEqual(['time', 'sym', 'price']);
+    expect(received(q)).toEqual([['{cols x}', '`trade;exit 0']]);
+  });
+
+  it('rejects with the signal q sends back', async () => {
+    const session = await createSession({ host: q.host, port: q.port });
+    await expect(session.query('undefinedName')).rejects.toThrow('undefinedName');
+  });
+
+  it('stays connected through a cancel and runs the next query on a fresh socket', async () => {
+    await q.close();
+    q = await startStandInQ(message => (message === 'slow' ? new Promise(() => {}) : 42));
+    const session = await createSession({ host: q.host, port: q.port });
+    const states = [];
+    session.on('state', state => states.push(state.state));
+
+    const slow = session.query('slow');
+    expect(session.cancel()).toBe(1);
+    await expect(slow).rejects.toThrow('Query cancelled');
+    expect(await session.query('1+41')).toBe(42);
+    expect(states).toEqual([]);
+    expect(session.state).toBe('connected');
+  });
+});
+
+describe('normalizeConnectionConfig', () => {
+  const queryPolicies = [{ target: 'prod-*:*', policy: 'read-only' }, { target: '/tmp/kx.*', policy: 'confirm' }];
+
+  it('applies the stricter of the requested policy and the bridge policy for the target', () => {
+    expect(normalizeConnectionConfig({ host: 'prod-hdb', port: 5000, policy: 'read-write' }, { queryPolicies }).policy).toBe('read-only');
+    expect(normalizeConnectionConfig({ host: 'prod-hdb', port: 5000 }, { queryPolicies }).policy).toBe('read-only');
+    expect(normalizeConnectionConfig({ transport: 'unix', port: 5000, policy: 'read-only' }, { queryPolicies }).policy).toBe('read-only');
+    expect(normalizeConnectionConfig({ transport: 'unix', port: 5000 }, { queryPolicies }).policy).toBe('confirm');
+    expect(normalizeConnectionConfig({ host: 'localhost', port: 5000, policy: 'confirm' }, { queryPolicies }).policy).toBe('confirm');
+    expect(normalizeConnectionConfig({ host: 'localhost', port: 5000 }).policy).toBe('read-write');
+  });
+
+  it('refuses a policy it does not know', () => {
+    expect(() => normalizeConnectionConfig({ host: 'localhost', port: 5000, policy: 'none' })).toThrow(/Unknown query policy "none"/);
+  });
+});
+
+describe('createSubscription', () => {
+  it('subscribes with the table and syms as symbols', async () => {
+    const owner = await createSession({ host: q.host, port: q.port });
+    const subscription = await createSubscription(owner, 'trade', ['AAPL', 'IBM']);
+    const [subscribe, cols] = received(q);
+    expect(subscribe[0]).toBe('.u.sub');
+    expect(subscribe[1]).toBe('`trade');
+    expect(subscribe[2].map(String)).toEqual(['AAPL', 'IBM']);
+    expect(cols).toEqual(['{cols x}', '`trade']);
+    expect(subscription.columns).toEqual(['time', 'sym', 'price']);
+  });
+
+  it('never contacts q for a table name that is not a name', async () => {
+    const owner = await createSession({ host: q.host, port: q.port });
+    await expect(createSubscription(owner, 'trade;exit 0')).rejects.toThrow(/Invalid table name/);
+    expect(q.messages).toEqual([]);
+  });
+});
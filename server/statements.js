@@ -0,0 +1,42 @@
+// Splitting a query into the statements the bridge runs one at a time, so a q error can be
+// pinned to the statement that signalled it.
+//
+// Lines are read the way q reads a script: a statement starts on a line with no leading
+// whitespace and carries on over the indented lines below it. Lines starting with / are
+// comments, a lone / opens a comment block closed by a lone \, and a lone \ outside a block
+// ends the script.
+
+export const splitStatements = (script) => {
+  const statements = [];
+  let current = null;
+  let inComment = false;
+
+  const lines = String(script).split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i].trimEnd();
+    if (inComment) {
+      inComment = text !== '\\';
+      continue;
+    }
+    if (text === '/') {
+      inComment = true;
+      current = null;
+      continue;
+    }
+    if (text === '\\') break;
+    if (text.trim() === '') continue;
+
+    if (/^\s/.test(text) && current) {
+      current.text += `\n${text}`;
+      continue;
+    }
+    if (text.trimStart().startsWith('/')) {
+      continue;
+    }
+
+    // line is 1-based within the submitted query
+    current = { index: statements.length, line: i + 1, text: text.trimStart() };
+    statements.push(current);
+  }
+  return statements;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { splitStatements } from './statements.js';
+
+describe('splitStatements', () => {
+  it('starts a statement on each unindented line', () => {
+    expect(splitStatements('a:1\nb:2\na+b')).toEqual([
+      { index: 0, line: 1, text: 'a:1' },
+      { index: 1, line: 2, text: 'b:2' },
+      { index: 2, line: 3, text: 'a+b' }
+    ]);
+  });
+
+  it('carries a statement over its indented lines', () => {
+    const script = 'f:{[x]\n  y:x*2;\n  y+1\n  }\nf 3';
+    expect(splitStatements(script)).toEqual([
+      { index: 0, line: 1, text: 'f:{[x]\n  y:x*2;\n  y+1\n  }' },
+      { index: 1, line: 5, text: 'f 3' }
+    ]);
+  });
+
+  it('numbers lines within the query across blank lines and Windows line endings', () => {
+    expect(splitStatements('\r\na:1\r\n\r\n  \r\nselect from t\r\n  where a>0')).toEqual([
+      { index: 0, line: 2, text: 'a:1' },
+      { index: 1, line: 5, text: 'select from t\n  where a>0' }
+    ]);
+  });
+
+  it('skips comment lines and comment blocks', () => {
+    const script = '/ load trades\na:1\n/\nb:2\nnot run\n\\\n  / indented comment\nc:3 / trailing comment';
+    expect(splitStatements(script).map(statement => statement.text)).toEqual(['a:1', 'c:3 / trailing comment']);
+  });
+
+  it('does not attach indented lines after a comment block to the statement before it', () => {
+    expect(splitStatements('a:1\n/\nnote\n\\\n  b:2').map(statement => statement.text)).toEqual(['a:1', 'b:2']);
+  });
+
+  it('stops at a lone backslash', () => {
+    expect(splitStatements('a:1\n\\\nexit 0').map(statement => statement.text)).toEqual(['a:1']);
+  });
+});
@@ -0,0 +1,52 @@
+import { convertKdbValue, resultHeader } from './results.js';
+import { log } from './logger.js';
+
+// Streamed query results, for browsers that ask for application/x-ndjson. One JSON object per line:
+//   { "type": "header", columns, kind, keyColumns, meta }   meta.count is the full row count
+//   { "type": "rows", "rows": [[...], ...] }                 up to STREAM_CHUNK_ROWS rows each
+//   { "type": "end", "rows": n }                             rows actually sent
+// A failure after the header has gone out is reported as { "type": "error", error, code, details }.
+
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+export const STREAM_CHUNK_ROWS = 5000;
+
+const line = (message) => `${JSON.stringify(message)}\n`;
+
+// Resolves once the socket can take more, or false if the browser went away first
+const waitForDrain = (res) => new Promise((resolve) => {
+  const onDrain = () => { res.off('close', onClose); resolve(true); };
+  const onClose = () => { res.off('drain', onDrain); resolve(false); };
+  res.once('drain', onDrain);
+  res.once('close', onClose);
+});
+
+// Write a describeResult() description to `res` chunk by chunk, converting each chunk's rows only
+// as it is sent. Stops after `rowLimit` rows (0 means all) or when the browser disconnects.
+export const streamQueryResult = async (res, description, { rowLimit = 0 } = {}) => {
+  const { columns, count } = description;
+  const total = rowLimit > 0 ? Math.min(count, rowLimit) : count;
+
+  res.status(200).type(NDJSON_CONTENT_TYPE);
+  res.write(line({ type: 'header', ...resultHeader(description) }));
+
+  let sent = 0;
+  try {
+    while (sent < total && !res.destroyed) {
+      const end = Math.min(sent + STREAM_CHUNK_ROWS, total);
+      const rows = [];
+      for (let i = sent; i < end; i++) {
+        rows.push(columns.map(column => convertKdbValue(column.values[i], column.name, column.type)));
+      }
+      sent = end;
+      if (!res.write(line({ type: 'rows', rows })) && !(await waitForDrain(res))) {
+        return sent;
+      }
+    }
+    res.end(line({ type: 'end', rows: sent }));
+  } catch (error) {
+    log.error('Error streaming query result:', error);
+    res.end(line({ type: 'error', error: error.message, code: error.code, details: error.details }));
+  }
+  return sent;
+};
@@ -0,0 +1,70 @@
+import { EventEmitter } from 'events';
+import { describe, expect, it } from 'vitest';
+import { describeResult, limitRows } from './results.js';
+import { NDJSON_CONTENT_TYPE, STREAM_CHUNK_ROWS, streamQueryResult } from './streaming.js';
+
+// Enough of an Express response to stream into. `full` makes write() report backpressure
+// until the test emits 'drain'.
+const fakeResponse = ({ full = false } = {}) => {
+  const res = new EventEmitter();
+  res.lines = [];
+  res.destroyed = false;
+  res.status = (code) => { res.statusCode = code; return res; };
+  res.type = (type) => { res.contentType = type; return res; };
+  res.write = (text) => { res.lines.push(JSON.parse(text)); return !full; };
+  res.end = (text) => { if (text) res.lines.push(JSON.parse(text)); res.ended = true; };
+  return res;
+};
+
+// A hand-built table of `count` rows: i and i*2
+const table = (count) => describeResult(Array.from({ length: count }, (_, i) => ({ i, double: i * 2 })));
+
+const chunkSizes = (res) => res.lines.filter(line => line.type === 'rows').map(line => line.rows.length);
+
+describe('streamQueryResult', () => {
+  it('sends a header, the rows in chunks and an end line', async () => {
+    const res = fakeResponse();
+    const sent = await streamQueryResult(res, table(2 * STREAM_CHUNK_ROWS + 10));
+
+    expect(sent).toBe(2 * STREAM_CHUNK_ROWS + 10);
+    expect(res.contentType).toBe(NDJSON_CONTENT_TYPE);
+    expect(res.lines[0]).toMatchObject({ type: 'header', columns: ['i', 'double'], meta: { count: 2 * STREAM_CHUNK_ROWS + 10 } });
+    expect(chunkSizes(res)).toEqual([STREAM_CHUNK_ROWS, STREAM_CHUNK_ROWS, 10]);
+    expect(res.lines[2].rows[0]).toEqual([STREAM_CHUNK_ROWS, 2 * STREAM_CHUNK_ROWS]);
+    expect(res.lines.at(-1)).toEqual({ type: 'end', rows: 2 * STREAM_CHUNK_ROWS + 10 });
+    expect(res.ended).toBe(true);
+  });
+
+  it('stops at the row limit while the header keeps the full count', async () => {
+    const res = fakeResponse();
+    const sent = await streamQueryResult(res, table(3 * STREAM_CHUNK_ROWS), { rowLimit: STREAM_CHUNK_ROWS + 1 });
+
+    expect(sent).toBe(STREAM_CHUNK_ROWS + 1);
+    expect(res.lines[0].meta.count).toBe(3 * STREAM_CHUNK_ROWS);
+    expect(chunkSizes(res)).toEqual([STREAM_CHUNK_ROWS, 1]);
+    expect(res.lines.at(-1)).toEqual({ type: 'end', rows: STREAM_CHUNK_ROWS + 1 });
+  });
+
+  it('marks a cut result truncated, with the count from before any cut', async () => {
+    const res = fakeResponse();
+    await streamQueryResult(res, limitRows(limitRows(table(30), 25), 20));
+
+    expect(res.lines[0]).toMatchObject({ truncated: true, meta: { count: 30 } });
+    expect(res.lines.at(-1)).toEqual({ type: 'end', rows: 20 });
+  });
+
+  it('waits for the socket to drain and gives up when the browser goes away', async () => {
+    const res = fakeResponse({ full: true });
+    const streaming = streamQueryResult(res, table(3 * STREAM_CHUNK_ROWS));
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect(chunkSizes(res)).toEqual([STREAM_CHUNK_ROWS]);
+    res.emit('drain');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(chunkSizes(res)).toEqual([STREAM_CHUNK_ROWS, STREAM_CHUNK_ROWS]);
+    res.emit('close');
+
+    expect(await streaming).toBe(2 * STREAM_CHUNK_ROWS);
+    expect(res.ended).toBeUndefined();
+  });
+});
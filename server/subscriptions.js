@@ -0,0 +1,196 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { KdbSession } from './sessions.js';
+import { KdbBridgeError, ErrorCodes } from './errors.js';
+import { checkQName, symbolArg, symbolsArg } from './identifiers.js';
+import { log } from './logger.js';
+
+// upd messages are collected for this long and forwarded to the browser as one batch
+const BATCH_INTERVAL_MS = 100;
+
+const SYMBOL = /^[A-Za-z0-9_.:/-]+$/;
+
+// Arguments of .u.sub[table;syms]; the null symbol subscribes to every sym
+const subscribeArgs = (table, syms) => [symbolArg(table), syms.length === 0 ? symbolArg('') : symbolsArg(syms)];
+
+// upd carries either a table (rows after node-q flips it) or a list of column vectors
+const toRows = (data, columns) => {
+  if (!Array.isArray(data)) {
+    return data && typeof data === 'object' ? [data] : [];
+  }
+  if (data.length === 0 || !Array.isArray(data[0])) {
+    return data;
+  }
+  const count = data[0].length;
+  const rows = new Array(count);
+  for (let i = 0; i < count; i++) {
+    const row = {};
+    columns.forEach((column, c) => {
+      row[column] = data[c] ? data[c][i] : null;
+    });
+    rows[i] = row;
+  }
+  return rows;
+};
+
+// Column names and q types of an upd payload, in the __qcolumns form node-q gives flipped tables
+const updColumns = (data, columns) => {
+  if (data && Array.isArray(data.__qcolumns)) {
+    return data.__qcolumns;
+  }
+  if (Array.isArray(data) && Array.isArray(data[0])) {
+    return columns.map((name, c) => ({
+      name,
+      type: typeof data[c] === 'string' ? 10 : (data[c] && data[c].__qtype) || 0,
+      attribute: ''
+    }));
+  }
+  return null;
+};
+
+// A tickerplant subscription for one table, held on its own socket so that running,
+// cancelling or timing out queries on the owning session never interrupts the feed.
+// Emits 'batch' with row objects and 'state' with the feed's connection state.
+export class KdbSubscription extends EventEmitter {
+  constructor(owner, table, syms) {
+    super();
+    this.id = randomUUID();
+    this.owner = owner;
+    this.table = table;
+    this.syms = syms;
+    this.columns = [];
+    this.columnTypes = null;
+    this.feed = new KdbSession(owner.config);
+    this.pendingRows = [];
+    this.flushTimer = null;
+    this.updates = 0;
+    this.rows = 0;
+    this.createdAt = new Date();
+    this.handleUpd = this.handleUpd.bind(this);
+  }
+
+  async start() {
+    await this.feed.connect();
+    await this.subscribe();
+
+    this.feed.on('state', (state) => {
+      this.emit('state', state);
+      // A reconnected socket has lost its subscription on the tickerplant
+      if (state.state === 'connected') {
+        this.subscribe().catch((error) => {
+          log.error(`[subscription ${this.id}] Resubscribe failed:`, error.message);
+        });
+      }
+    });
+  }
+
+  async subscribe() {
+    this.feed.connection.on('upd', this.handleUpd);
+    await this.feed.query('.u.sub', { args: subscribeArgs(this.table, this.syms) });
+    const columns = await this.feed.query('{cols x}', { args: [symbolArg(this.table)] });
+    this.columns = Array.isArray(columns) ? columns.map(column => String(column)) : [];
+    log.info(`[subscription ${this.id}] Subscribed to ${this.table}${this.syms.length ? ` (${this.syms.join(' ')})` : ''} on ${this.feed.target}`);
+  }
+
+  handleUpd(table, data) {
+    if (String(table) !== this.table) return;
+
+    const rows = toRows(data, this.columns);
+    this.columnTypes = updColumns(data, this.columns) || this.columnTypes;
+    this.updates += 1;
+    this.rows += rows.length;
+    for (const row of rows) {
+      this.pendingRows.push(row);
+    }
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), BATCH_INTERVAL_MS);
+    }
+  }
+
+  flush() {
+    this.flushTimer = null;
+    if (this.pendingRows.length === 0) return;
+
+    const rows = this.pendingRows;
+    this.pendingRows = [];
+    if (this.columnTypes) {
+      Object.defineProperty(rows, '__qcolumns', { value: this.columnTypes });
+    }
+    // Live data counts as activity, so the idle sweep leaves the owning session alone
+    this.owner.touch();
+    this.emit('batch', rows);
+  }
+
+  close() {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    this.pendingRows = [];
+    this.feed.close();
+    this.emit('closed');
+    this.removeAllListeners();
+  }
+
+  describe() {
+    return {
+      id: this.id,
+      table: this.table,
+      syms: this.syms,
+      columns: this.columns,
+      state: this.feed.state,
+      updates: this.updates,
+      rows: this.rows,
+      createdAt: this.createdAt.toISOString()
+    };
+  }
+}
+
+const subscriptions = new Map();
+
+// Subscribe the owner's KDB+ process (normally a tickerplant) to a table and optional syms
+export const createSubscription = async (owner, table, syms = []) => {
+  checkQName(table, 'table name');
+  if (!Array.isArray(syms) || syms.some(sym => typeof sym !== 'string' || !SYMBOL.test(sym))) {
+    throw new KdbBridgeError(ErrorCodes.INVALID_REQUEST, 'Syms must be a list of plain symbol names', 400);
+  }
+
+  const subscription = new KdbSubscription(owner, table, syms);
+  try {
+    await subscription.start();
+  } catch (error) {
+    subscription.close();
+    throw error instanceof KdbBridgeError ? error : new KdbBridgeError(ErrorCodes.SUBSCRIPTION_FAILED, `Subscription to ${table} failed: ${error.message || error}`, 502);
+  }
+  subscriptions.set(subscription.id, subscription);
+
+  // Subscriptions never outlive the session that opened them
+  const handleOwnerState = (state) => {
+    if (state.state === 'closed') {
+      closeSubscription(subscription.id);
+    }
+  };
+  owner.on('state', handleOwnerState);
+  subscription.once('closed', () => owner.off('state', handleOwnerState));
+  return subscription;
+};
+
+export const getSubscription = (id) => subscriptions.get(id) || null;
+
+export const closeSubscription = (id) => {
+  const subscription = subscriptions.get(id);
+  if (!subscription) return false;
+  subscription.close();
+  subscriptions.delete(id);
+  log.info(`[subscription ${id}] Closed`);
+  return true;
+};
+
+export const listSubscriptions = (sessionId) => Array.from(subscriptions.values())
+  .filter(subscription => !sessionId || subscription.owner.id === sessionId)
+  .map(subscription => subscription.describe());
+
+export const closeAllSubscriptions = () => {
+  for (const id of Array.from(subscriptions.keys())) {
+    closeSubscription(id);
+  }
+};
@@ -0,0 +1,62 @@
+import { qTypeName, toNumber } from './results.js';
+
+// The table list and per-table metadata. GET /api/tables only names the tables (one round trip,
+// nothing read from disk); columns and row counts are asked for one table at a time, and a
+// partitioned table is only counted when the caller asks, since that touches every partition.
+
+// Names of the root tables, and whether each is partitioned (.Q.pt, set once an HDB is loaded)
+export const LIST_TABLES = '{([] name:x; partitioned:x in @[value;`.Q.pt;`symbol$()])} tables[]';
+
+// meta of table t, its key columns, whether it is partitioned and its row count; a partitioned
+// table's count is null unless withCount, and then summed from .Q.cn
+export const TABLE_METADATA = '{[t;withCount] v:get t; p:1b~.Q.qp v; (0!meta v; keys v; p; $[not p;count v;withCount;sum .Q.cn v;0N])}';
+
+// The partition field (.Q.pf) and every partition value (.Q.PV, oldest first) as strings of a
+// partitioned table; ` and an empty list for any other table
+export const TABLE_PARTITIONS = '{[t] $[1b~.Q.qp get t;(.Q.pf;string .Q.PV);(`;())]}';
+
+// The partition field of t and its latest partition, which browsing defaults to
+export const LATEST_PARTITION = '{[t] $[1b~.Q.qp get t;(.Q.pf;string last .Q.PV);(`;"")]}';
+
+// meta's t column: the type char, upper case for a column of vectors
+const TYPE_CHARS = ' bg xhijefcspmdznuvt';
+
+export const columnTypeName = (char) => {
+  const text = String(char || ' ');
+  const lower = text.toLowerCase();
+  const index = TYPE_CHARS.indexOf(lower);
+  const name = index > 0 ? qTypeName(index) : 'mixed';
+  if (lower === text) return name;
+  return lower === 'c' ? 'string' : `${name} list`;
+};
+
+// Rows of LIST_TABLES
+export const parseTableList = (result) => {
+  if (!Array.isArray(result)) return [];
+  return result.map(row => ({
+    name: String(row.name),
+    partitioned: row.partitioned === true
+  }));
+};
+
+// The (meta; keys; partitioned; count) list of TABLE_METADATA; keyColumns is empty for a table
+// that is not keyed
+export const parseTableMetadata = (tableName, [meta, keys, partitioned, count]) => ({
+  tableName,
+  columns: (Array.isArray(meta) ? meta : []).map(row => ({
+    name: String(row.c),
+    type: columnTypeName(row.t),
+    foreignKey: String(row.f ?? ''),
+    attributes: String(row.a ?? '')
+  })),
+  keyColumns: (Array.isArray(keys) ? keys : []).map(String),
+  rowCount: toNumber(count) ?? null,
+  partitioned: partitioned === true
+});
+
+// The (field; values) pair of TABLE_PARTITIONS or LATEST_PARTITION; field is null when the
+// table is not partitioned
+export const parsePartitions = ([field, values]) => ({
+  field: field ? String(field) : null,
+  partitions: Array.isArray(values) ? values.map(String) : typeof values === 'string' && values ? [values] : []
+});
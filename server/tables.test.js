@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import Long from 'long';
+import { columnTypeName, parsePartitions, parseTableList, parseTableMetadata } from './tables.js';
+
+describe('parseTableList', () => {
+  it('names tables and flags the partitioned ones', () => {
+    expect(parseTableList([
+      { name: 'quote', partitioned: false },
+      { name: 'trade', partitioned: true }
+    ])).toEqual([
+      { name: 'quote', partitioned: false },
+      { name: 'trade', partitioned: true }
+    ]);
+    expect(parseTableList(null)).toEqual([]);
+  });
+});
+
+describe('parseTableMetadata', () => {
+  it('reads columns from meta and the count', () => {
+    expect(parseTableMetadata('trade', [
+      [
+        { c: 'date', t: 'd', f: '', a: '' },
+        { c: 'sym', t: 's', f: '', a: 'p' },
+        { c: 'note', t: 'C', f: '', a: '' }
+      ],
+      [],
+      false,
+      Long.fromNumber(1200)
+    ])).toEqual({
+      tableName: 'trade',
+      columns: [
+        { name: 'date', type: 'date', foreignKey: '', attributes: '' },
+        { name: 'sym', type: 'symbol', foreignKey: '', attributes: 'p' },
+        { name: 'note', type: 'string', foreignKey: '', attributes: '' }
+      ],
+      keyColumns: [],
+      rowCount: 1200,
+      partitioned: false
+    });
+  });
+
+  it('names the key columns of a keyed table', () => {
+    const symbol = (value) => ({ __kdb_type: 'symbol', value, toString: () => value });
+    const metadata = parseTableMetadata('position', [
+      [
+        { c: 'account', t: 's', f: '', a: 'u' },
+        { c: 'sym', t: 's', f: '', a: '' },
+        { c: 'qty', t: 'j', f: '', a: '' }
+      ],
+      [symbol('account'), symbol('sym')],
+      false,
+      Long.fromNumber(3)
+    ]);
+    expect(metadata.keyColumns).toEqual(['account', 'sym']);
+    expect(metadata.columns.map(column => column.name)).toEqual(['account', 'sym', 'qty']);
+  });
+
+  it('leaves an uncounted partitioned table without a row count', () => {
+    const metadata = parseTableMetadata('trade', [[{ c: 'price', t: 'f', f: '', a: '' }], [], true, null]);
+    expect(metadata.rowCount).toBeNull();
+    expect(metadata.partitioned).toBe(true);
+  });
+});
+
+describe('columnTypeName', () => {
+  it('names atoms, vectors and mixed columns', () => {
+    expect(columnTypeName('p')).toBe('timestamp');
+    expect(columnTypeName('J')).toBe('long list');
+    expect(columnTypeName(' ')).toBe('mixed');
+  });
+});
+
+describe('parsePartitions', () => {
+  it('reads the partition field and values of a partitioned table', () => {
+    expect(parsePartitions(['date', ['2024.01.15', '2024.01.16']])).toEqual({ field: 'date', partitions: ['2024.01.15', '2024.01.16'] });
+    expect(parsePartitions(['date', '2024.01.16'])).toEqual({ field: 'date', partitions: ['2024.01.16'] });
+  });
+
+  it('has no field or partitions for other tables', () => {
+    expect(parsePartitions(['', []])).toEqual({ field: null, partitions: [] });
+    expect(parsePartitions(['', ''])).toEqual({ field: null, partitions: [] });
+  });
+});
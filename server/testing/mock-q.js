@@ -0,0 +1,298 @@
+import { pathToFileURL } from 'url';
+import Long from 'long';
+import nodeq from '../../lib/node-q/index.cjs';
+import { QKeyedTable, QTable, startStandInQ } from './stand-in-q.js';
+import { LATEST_PARTITION, LIST_TABLES, TABLE_METADATA, TABLE_PARTITIONS } from '../tables.js';
+import { LIST_NAMESPACE, PREVIEW_ENTRY } from '../explorer.js';
+import { FUNCTION_SOURCE, LIST_FUNCTIONS } from '../functions.js';
+import { isFunctionalSelect, parseFunctionalSelect, runFunctionalSelect } from './mock-select.js';
+
+// A q process to develop and run the e2e suite against without kdb+. It answers what the
+// bridge sends while browsing (its own lambdas, paging, sorted and filtered views, counts, meta,
+// listing and calling functions), a few queries typed into the editor (tables[], cols t,
+// count t, meta t, select from t, a bare name and vwap`AAPL), publishes upd to .u.sub
+// subscribers like a tickerplant, and can be made to fail ('signal) or stall
+// (system"sleep 2"). Anything else is refused with a 'mock signal.
+//
+//   npm run mock-q             listens on 5000, the port the connection box suggests
+//   MOCK_Q_PORT=5010 MOCK_Q_LATENCY_MS=200 npm run mock-q
+
+const SYMS = ['AAPL', 'MSFT', 'IBM', 'GOOG', 'AMZN'];
+const START = Date.UTC(2024, 0, 15, 9, 30);
+
+// node-q value types by meta type char
+const VALUE_TYPES = {
+  b: 'boolean', g: 'guid', x: 'byte', h: 'short', i: 'int', j: 'long', e: 'real', f: 'float',
+  c: 'char', s: 'symbol', p: 'timestamp', m: 'month', d: 'date', z: 'datetime', n: 'timespan',
+  u: 'minute', v: 'second', t: 'time'
+};
+
+// node-q's typed value class, taken from an atom so serialize recognises what it builds
+const Typed = nodeq.short(null).constructor;
+
+// A column of meta type `type`. Built as node-q's typed list directly, because its list
+// constructors refuse null: here null is q's null of the type and, for the numeric types,
+// ±Infinity its infinities. The null symbol and string are empty; C (strings) is a plain array.
+const typedList = (type, values) => {
+  if (type === 'C') return values.map(value => (value === null ? '' : String(value)));
+  if (type === 's') return nodeq.symbols(values.map(value => value ?? ''));
+  const items = type === 'j' ? values.map(value => (Number.isFinite(value) ? Long.fromNumber(value) : value)) : values;
+  return new Typed('typedlist', items, VALUE_TYPES[type]);
+};
+
+// A fixture table: [name, type char] pairs and one function making row i
+const fixture = (columns, makeRow) => ({ columns, makeRow, rows: [] });
+
+const tradeRow = (i, time = new Date(START + i * 1000)) => [
+  time, SYMS[i % SYMS.length], i % 3 === 0 ? 'S' : 'B', 100 + ((i * 37) % 500) / 10, 100 * (1 + (i % 10))
+];
+
+const quoteRow = (i, time = new Date(START + i * 500)) => {
+  const bid = 100 + ((i * 13) % 400) / 10;
+  return [time, SYMS[i % SYMS.length], bid, bid + 0.05, 100 + (i % 7) * 100, 100 + (i % 5) * 100];
+};
+
+export const FIXTURES = {
+  trades: fixture([['time', 'p'], ['sym', 's'], ['side', 'c'], ['price', 'f'], ['size', 'j']], tradeRow),
+  quotes: fixture([['time', 'p'], ['sym', 's'], ['bid', 'f'], ['ask', 'f'], ['bsize', 'i'], ['asize', 'i']], quoteRow),
+  // One column of every q type, for the grid's renderers
+  alltypes: fixture(
+    [
+      ['boolean', 'b'], ['guid', 'g'], ['byte', 'x'], ['short', 'h'], ['int', 'i'], ['long', 'j'],
+      ['real', 'e'], ['float', 'f'], ['char', 'c'], ['symbol', 's'], ['timestamp', 'p'], ['month', 'm'],
+      ['date', 'd'], ['datetime', 'z'], ['timespan', 'n'], ['minute', 'u'], ['second', 'v'], ['time', 't'],
+      ['string', 'C']
+    ],
+    (i) => {
+      const time = new Date(START + i * 86400000 + i * 3723123);
+      return [
+        i % 2 === 0, `0a369037-75d3-b24d-6721-5a1d44d4bed${i}`, i, i * 10, i * 100, i * 1000000000,
+        i + 0.5, i * 1.25, String.fromCharCode(97 + i), SYMS[i], time, time,
+        time, time, time, time, time, time,
+        `row ${i}`
+      ];
+    }
+  ),
+  // A value, then q's null, infinity and negative infinity in each numeric column; temporal,
+  // symbol and string columns have a null in the last three rows (node-q cannot write their
+  // infinities)
+  nulls: fixture(
+    [
+      ['short', 'h'], ['int', 'i'], ['long', 'j'], ['real', 'e'], ['float', 'f'], ['symbol', 's'],
+      ['timestamp', 'p'], ['date', 'd'], ['timespan', 'n'], ['time', 't'], ['string', 'C']
+    ],
+    (i) => {
+      const numbers = [[7, 70, 7000000000, 7.5, 7.25], null, Infinity, -Infinity][i];
+      const numeric = Array.isArray(numbers) ? numbers : Array(5).fill(numbers);
+      const time = i === 0 ? new Date(START) : null;
+      return [...numeric, i === 0 ? 'AAPL' : null, time, time, time, time, i === 0 ? 'value' : null];
+    }
+  )
+};
+
+const ROW_COUNTS = { trades: 1000, quotes: 2000, alltypes: 5, nulls: 4 };
+
+for (const [name, table] of Object.entries(FIXTURES)) {
+  table.rows = Array.from({ length: ROW_COUNTS[name] }, (_, i) => table.makeRow(i));
+}
+
+// Other variables in the root namespace, and the .mock namespace
+const VARIABLES = {
+  prices: { kind: 'variable', type: 9, value: () => nodeq.floats([101.5, 102.25, 99.75]) },
+  config: { kind: 'dictionary', type: 99, value: () => nodeq.dict({ region: 'emea', depth: 10 }) },
+  vwap: { kind: 'function', type: 100, value: () => FUNCTIONS.vwap.source },
+  '.mock.version': { kind: 'variable', type: 10, value: () => '1.0' }
+};
+
+// Lambdas in the root namespace: their parameters and source, as `value` shows them, and what
+// calling them returns
+const FUNCTIONS = {
+  vwap: {
+    params: ['s'],
+    source: '{[s] exec size wavg price from trades where sym=s}',
+    call: (sym) => {
+      const rows = FIXTURES.trades.rows.filter(row => row[1] === String(sym));
+      const size = rows.reduce((sum, row) => sum + row[4], 0);
+      return nodeq.float(size === 0 ? null : rows.reduce((sum, row) => sum + row[3] * row[4], 0) / size);
+    }
+  }
+};
+
+const signal = (text) => new Error(text);
+
+// node-q would write a bare Long as a dictionary
+const longAtom = (value) => nodeq.long(Long.fromNumber(value));
+
+const getFixture = (name) => {
+  const table = FIXTURES[String(name)];
+  if (!table) throw signal(String(name));
+  return table;
+};
+
+// Rows of a fixture as a q table
+export const toQTable = ({ columns }, rows) => new QTable(Object.fromEntries(columns.map(([name, type], c) => (
+  [name, typedList(type, rows.map(row => row[c]))]
+))));
+
+const metaColumns = ({ columns }) => ({
+  c: nodeq.symbols(columns.map(([name]) => name)),
+  t: nodeq.chars(columns.map(([, type]) => type)),
+  f: nodeq.symbols(columns.map(() => '')),
+  a: nodeq.symbols(columns.map(([name]) => (name === 'time' ? 's' : '')))
+});
+
+const meta = (table) => {
+  const { c, ...rest } = metaColumns(table);
+  return new QKeyedTable({ c }, rest);
+};
+
+const namespaceEntries = (namespace) => {
+  const entries = namespace === '.'
+    ? [
+      ['.mock', 'namespace', 0, 0],
+      ...Object.keys(FIXTURES).map(name => [name, 'table', 98, FIXTURES[name].rows.length]),
+      ...Object.entries(VARIABLES).filter(([name]) => !name.startsWith('.')).map(([name, v]) => [name, v.kind, v.type, 3])
+    ]
+    : Object.entries(VARIABLES).filter(([name]) => name.startsWith(`${namespace}.`)).map(([name, v]) => [name, v.kind, v.type, 3]);
+  return new QTable({
+    name: nodeq.symbols(entries.map(([name]) => name)),
+    kind: nodeq.symbols(entries.map(([, kind]) => kind)),
+    type: nodeq.shorts(entries.map(([, , type]) => type)),
+    size: nodeq.longs(entries.map(([, , , size]) => Long.fromNumber(size)))
+  });
+};
+
+const preview = (name, limit) => {
+  if (FIXTURES[name]) return toQTable(FIXTURES[name], FIXTURES[name].rows.slice(0, limit));
+  if (VARIABLES[name]) return VARIABLES[name].value();
+  throw signal(name);
+};
+
+// LIST_FUNCTIONS's table: only the root namespace has functions
+const functionList = (namespaces) => {
+  const names = namespaces.map(String).includes('.') ? Object.keys(FUNCTIONS) : [];
+  return new QTable({
+    name: nodeq.symbols(names),
+    params: names.map(name => nodeq.symbols(FUNCTIONS[name].params)),
+    source: names.map(name => FUNCTIONS[name].source)
+  });
+};
+
+const callFunction = (name, args) => {
+  const fn = FUNCTIONS[name];
+  if (!fn) throw signal(name);
+  if (args.length > fn.params.length) throw signal('rank');
+  return fn.call(...args);
+};
+
+// A functional select of the bridge's table views, run over a fixture
+const functionalSelect = (text) => {
+  const select = parseFunctionalSelect(text);
+  const table = getFixture(select.table);
+  const result = runFunctionalSelect(select, table.columns.map(([name]) => name), table.rows);
+  return select.count ? longAtom(result) : toQTable(table, result);
+};
+
+const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Publishes new rows of `table` to one subscriber every interval, as ("upd"; `table; rows)
+const publish = (client, tableName, syms, intervalMs) => {
+  const table = getFixture(tableName);
+  let i = table.rows.length;
+  const timer = setInterval(() => {
+    const rows = Array.from({ length: 3 }, () => table.makeRow(i++, new Date()))
+      .filter(row => syms.length === 0 || syms.includes(row[1]));
+    if (rows.length > 0) {
+      client.send([nodeq.symbol('upd'), nodeq.symbol(tableName), toQTable(table, rows)]);
+    }
+  }, intervalMs);
+  client.onClose(() => clearInterval(timer));
+};
+
+// Queries typed into the editor: a pattern and what it returns from its captures
+const TEXT_QUERIES = [
+  [/^tables(\[\])?$/, () => nodeq.symbols(Object.keys(FIXTURES))],
+  [/^cols (\w+)$/, (name) => nodeq.symbols(getFixture(name).columns.map(([column]) => column))],
+  [/^count (\w+)$/, (name) => longAtom(getFixture(name).rows.length)],
+  [/^meta (\w+)$/, (name) => meta(getFixture(name))],
+  [/^select(?:\[(\d+)\])? from (\w+)(?: where sym=`(\w+))?$/, (limit, name, sym) => {
+    const table = getFixture(name);
+    const rows = table.rows.filter(row => !sym || row[1] === sym);
+    return toQTable(table, limit ? rows.slice(0, Number(limit)) : rows);
+  }],
+  [/^(\w+)\s*(?:\[`(\w*)\]|`(\w*))$/, (name, bracketed, juxtaposed) => callFunction(name, [bracketed ?? juxtaposed])],
+  [/^(\w+)$/, (name) => (FIXTURES[name] ? toQTable(FIXTURES[name], FIXTURES[name].rows) : preview(name))],
+  // What the bridge sends to page through a table without a view
+  [/^count get `\$"(\w+)"$/, (name) => longAtom(getFixture(name).rows.length)],
+  [/^'(\w+)$/, (name) => { throw signal(name); }],
+  [/^system\s*"sleep (\d+(?:\.\d+)?)"$/, async (seconds) => {
+    await delay(Number(seconds) * 1000);
+    return null;
+  }]
+];
+
+// The bridge's own lambdas, called as k(fn, args)
+const CALLS = {
+  [TABLE_METADATA]: (name) => {
+    const table = getFixture(name);
+    return [new QTable(metaColumns(table)), nodeq.symbols([]), false, longAtom(table.rows.length)];
+  },
+  [TABLE_PARTITIONS]: () => [nodeq.symbol(''), []],
+  [LATEST_PARTITION]: () => [nodeq.symbol(''), ''],
+  '{meta x}': (name) => meta(getFixture(name)),
+  '{cols x}': (name) => nodeq.symbols(getFixture(name).columns.map(([column]) => column)),
+  [LIST_NAMESPACE]: (namespace) => namespaceEntries(String(namespace)),
+  [PREVIEW_ENTRY]: (name, limit) => preview(String(name), Number(limit)),
+  [LIST_FUNCTIONS]: (namespaces) => functionList(Array.isArray(namespaces) ? namespaces : [namespaces]),
+  [FUNCTION_SOURCE]: (name) => {
+    if (!FUNCTIONS[String(name)]) throw signal('type');
+    return FUNCTIONS[String(name)].source;
+  }
+};
+
+export const answerMockQuery = async (message, client, { updIntervalMs = 1000 } = {}) => {
+  if (typeof message === 'string') {
+    const text = message.trim();
+    if (text === LIST_TABLES) {
+      const names = Object.keys(FIXTURES);
+      return new QTable({ name: nodeq.symbols(names), partitioned: nodeq.booleans(names.map(() => false)) });
+    }
+    // What the bridge sends to page, sort and filter a table
+    if (isFunctionalSelect(text)) return functionalSelect(text);
+    for (const [pattern, respond] of TEXT_QUERIES) {
+      const match = pattern.exec(text);
+      if (match) return respond(...match.slice(1));
+    }
+    throw signal('mock');
+  }
+  if (Array.isArray(message) && typeof message[0] === 'string') {
+    const [fn, ...args] = message;
+    if (fn === '.u.sub') {
+      const [table, syms] = args;
+      const fixtureTable = getFixture(table);
+      publish(client, String(table), Array.isArray(syms) ? syms.map(String) : [], updIntervalMs);
+      return [nodeq.symbol(String(table)), toQTable(fixtureTable, [])];
+    }
+    if (CALLS[fn]) return CALLS[fn](...args);
+    if (FUNCTIONS[fn]) return callFunction(fn, args);
+  }
+  throw signal('mock');
+};
+
+// latencyMs delays every reply; updIntervalMs is how often subscribers get rows
+export const startMockQ = ({ host = '127.0.0.1', port = 0, latencyMs = 0, updIntervalMs = 1000 } = {}) =>
+  startStandInQ(async (message, client) => {
+    if (latencyMs > 0) await delay(latencyMs);
+    return answerMockQuery(message, client, { updIntervalMs });
+  }, { host, port });
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.MOCK_Q_PORT) || 5000;
+  const latencyMs = Number(process.env.MOCK_Q_LATENCY_MS) || 0;
+  startMockQ({ host: process.env.MOCK_Q_HOST || '127.0.0.1', port, latencyMs }).then((q) => {
+    console.log(`Mock q process listening on ${q.host}:${q.port} (tables: ${Object.keys(FIXTURES).join(', ')})`);
+  }, (error) => {
+    console.error(`Mock q process could not listen on port ${port}:`, error.message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createSession, closeAllSessions } from '../sessions.js';
+import { createSubscription, closeAllSubscriptions } from '../subscriptions.js';
+import { FUNCTION_SOURCE, LIST_FUNCTIONS, parseFunctionList } from '../functions.js';
+import { symbolArg, symbolsArg } from '../identifiers.js';
+import { formatQueryResult, toNumber } from '../results.js';
+import { buildTableViewQueries, normalizeTableView } from '../select.js';
+import { LIST_TABLES, TABLE_METADATA, parseTableList, parseTableMetadata } from '../tables.js';
+import { startMockQ } from './mock-q.js';
+
+let q;
+let session;
+
+beforeEach(async () => {
+  q = await startMockQ({ updIntervalMs: 20 });
+  session = await createSession({ host: q.host, port: q.port });
+});
+
+afterEach(async () => {
+  closeAllSubscriptions();
+  closeAllSessions();
+  await q.close();
+});
+
+describe('mock q process', () => {
+  it('lists its tables and their metadata the way the bridge asks', async () => {
+    expect(parseTableList(await session.query(LIST_TABLES))).toEqual([
+      { name: 'trades', partitioned: false },
+      { name: 'quotes', partitioned: false },
+      { name: 'alltypes', partitioned: false },
+      { name: 'nulls', partitioned: false }
+    ]);
+    const metadata = parseTableMetadata('trades', await session.query(TABLE_METADATA, { args: [symbolArg('trades'), false] }));
+    expect(metadata.columns.map(column => `${column.name}:${column.type}`)).toEqual([
+      'time:timestamp', 'sym:symbol', 'side:char', 'price:float', 'size:long'
+    ]);
+    expect(metadata.keyColumns).toEqual([]);
+    expect(metadata.rowCount).toBe(1000);
+  });
+
+  it('pages through a table by row index', async () => {
+    const columnTypes = new Map([['time', 'p'], ['sym', 's']]);
+    const queries = buildTableViewQueries('trades', columnTypes, normalizeTableView(columnTypes, {}), 100, 50);
+    const info = {};
+    const page = formatQueryResult(await session.query(queries.page, { info }), info);
+    expect(page.data).toHaveLength(50);
+    expect(info.bytes).toBeGreaterThan(0);
+    expect(toNumber(await session.query(queries.count))).toBe(1000);
+  });
+
+  it('sorts, filters and searches a table view', async () => {
+    const columnTypes = new Map([['time', 'p'], ['sym', 's'], ['side', 'c'], ['price', 'f'], ['size', 'j']]);
+    const view = normalizeTableView(columnTypes, {
+      sort: [{ column: 'size', desc: true }, { column: 'price' }],
+      filters: [{ column: 'sym', op: 'eq', value: 'IBM' }, { column: 'price', op: 'ge', value: '120' }]
+    });
+    const queries = buildTableViewQueries('trades', columnTypes, view, 0, 20);
+    const info = {};
+    const page = formatQueryResult(await session.query(queries.page, { info }), info);
+    const [sym, price, size] = ['sym', 'price', 'size'].map(column => page.columns.indexOf(column));
+
+    expect(page.data).toHaveLength(20);
+    expect(page.data.every(row => row[sym].value === 'IBM' && row[price] >= 120)).toBe(true);
+    const keys = page.data.map(row => [-Number(row[size]), row[price]]);
+    expect(keys).toEqual([...keys].sort((a, b) => a[0] - b[0] || a[1] - b[1]));
+    expect(toNumber(await session.query(queries.count))).toBe(120);
+
+    const search = buildTableViewQueries('trades', columnTypes, normalizeTableView(columnTypes, { search: 'aap' }), 0, 10);
+    expect(toNumber(await session.query(search.count))).toBe(200);
+
+    // side is a char column: each char is matched on its own
+    const sells = buildTableViewQueries('trades', columnTypes, normalizeTableView(columnTypes, {
+      filters: [{ column: 'side', op: 'contains', value: 's' }]
+    }), 0, 10);
+    expect(toNumber(await session.query(sells.count))).toBe(334);
+  });
+
+  it('lists and calls its functions', async () => {
+    const functions = parseFunctionList(await session.query(LIST_FUNCTIONS, { args: [symbolsArg(['.'])] }));
+    expect(functions).toEqual([{
+      name: 'vwap',
+      parameters: [{ name: 's', type: 'symbol', required: true }],
+      source: '{[s] exec size wavg price from trades where sym=s}'
+    }]);
+    expect(await session.query(FUNCTION_SOURCE, { args: [symbolArg('vwap')] })).toBe(functions[0].source);
+
+    const vwap = await session.query('vwap', { args: [symbolArg('IBM')] });
+    expect(vwap).toBeGreaterThan(100);
+    expect(await session.query('vwap`IBM')).toBe(vwap);
+    expect(await session.query('vwap[`IBM]')).toBe(vwap);
+  });
+
+  it('has a table of typed nulls and infinities', async () => {
+    const info = {};
+    const result = formatQueryResult(await session.query('select from nulls', { info }), info);
+    const infinity = (sign) => Array(5).fill({ __kdb_type: 'infinity', sign });
+    expect(result.meta.types).toEqual([
+      'short', 'int', 'long', 'real', 'float', 'symbol', 'timestamp', 'date', 'timespan', 'time', 'string'
+    ]);
+    expect(result.data[0].slice(0, 5)).toEqual([7, 70, '7000000000', 7.5, 7.25]);
+    expect(result.data[1].slice(0, 5)).toEqual(Array(5).fill(null));
+    expect(result.data[2].slice(0, 5)).toEqual(infinity(1));
+    expect(result.data[3].slice(0, 5)).toEqual(infinity(-1));
+    expect(result.data[1].slice(6, 10)).toEqual(Array(4).fill(null));
+  });
+
+  it('has a column of every q type', async () => {
+    const info = {};
+    const result = formatQueryResult(await session.query('select from alltypes', { info }), info);
+    expect(result.meta.types).toEqual([
+      'boolean', 'guid', 'byte', 'short', 'int', 'long', 'real', 'float', 'char', 'symbol',
+      'timestamp', 'month', 'date', 'datetime', 'timespan', 'minute', 'second', 'time', 'string'
+    ]);
+    expect(result.data).toHaveLength(5);
+  });
+
+  it('signals errors and refuses queries it has no answer for', async () => {
+    await expect(session.query("'rank")).rejects.toThrow('rank');
+    await expect(session.query('delete from trades')).rejects.toThrow('mock');
+  });
+
+  it('publishes upd to subscribers', async () => {
+    const subscription = await createSubscription(session, 'trades', ['IBM']);
+    const rows = await new Promise(resolve => subscription.once('batch', resolve));
+    expect(rows.length).toBeGreaterThan(0);
+    expect(rows.every(row => String(row.sym) === 'IBM')).toBe(true);
+  });
+});
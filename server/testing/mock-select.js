@@ -0,0 +1,225 @@
+// The functional selects the bridge builds for table views (see server/select.js), read and run
+// against a mock q process's fixture rows. Only the forms buildTableViewQueries writes are known:
+//
+//   ?[`$"t";where;0b;()]                      where is (), enlist c or (c1;c2...)
+//   count ?[...]
+//   o n sublist (`$"a") xdesc (`$"b") xasc ?[...]
+//
+// with =, <>, <, <=, >, >=, like, within, not and | over columns, i, lower and string, and
+// constants written as (enlist `$"x"), (first "x") or ("F"$"1.5"). Anything else is a 'nyi.
+
+const nyi = () => new Error('nyi');
+
+const TOKEN = /^(?:(\s+)|(`\$"(?:\\.|[^"\\])*")|(`\w*)|("(?:\\.|[^"\\])*")|([01]b)|(-?\d+(?:\.\d+)?)|(<>|<=|>=|[=<>|?[\];()$])|([a-z]\w*))/;
+
+// q string literal contents, as qString escapes them
+const unescape = (literal) => literal.slice(1, -1).replace(/\\([0-7]{3}|.)/g, (_, c) => (c.length === 3 ? String.fromCharCode(parseInt(c, 8)) : c));
+
+const tokenize = (text) => {
+  const tokens = [];
+  let rest = text;
+  while (rest) {
+    const match = TOKEN.exec(rest);
+    if (!match) throw nyi();
+    const [all, space, quotedSymbol, symbol, string, boolean, number, punctuation, word] = match;
+    if (quotedSymbol) tokens.push({ type: 'symbol', value: unescape(quotedSymbol.slice(2)) });
+    else if (symbol) tokens.push({ type: 'symbol', value: symbol.slice(1) });
+    else if (string) tokens.push({ type: 'string', value: unescape(string) });
+    else if (boolean) tokens.push({ type: 'boolean', value: boolean === '1b' });
+    else if (number) tokens.push({ type: 'number', value: Number(number) });
+    else if (punctuation) tokens.push({ type: 'punctuation', value: punctuation });
+    else if (word) tokens.push({ type: 'word', value: word });
+    else if (!space) throw nyi();
+    rest = rest.slice(all.length);
+  }
+  return tokens;
+};
+
+// q text read as a parse tree: lists are arrays, a column or i is { column }, a function
+// { fn }, and constants are { constant }
+const parser = (tokens) => {
+  let position = 0;
+  const peek = () => tokens[position];
+  const take = (type, value) => {
+    const token = tokens[position];
+    if (!token || token.type !== type || (value !== undefined && token.value !== value)) throw nyi();
+    position += 1;
+    return token;
+  };
+  const isNext = (type, value) => !!peek() && peek().type === type && (value === undefined || peek().value === value);
+
+  const cast = (type, text) => {
+    if ('FEJIH'.includes(type)) return Number(text);
+    if ('PDZ'.includes(type)) {
+      const [date, time = '00:00'] = text.split(/[DT]/);
+      return new Date(`${date.replace(/\./g, '-')}T${time}Z`);
+    }
+    throw nyi();
+  };
+
+  const value = () => {
+    const token = peek();
+    if (!token) throw nyi();
+    if (token.type === 'word' && (token.value === 'enlist' || token.value === 'first')) {
+      position += 1;
+      const argument = value();
+      // enlist of a constant is the constant itself in a parse tree; first picks a char out of a string
+      if (token.value === 'first') return { constant: argument.constant[0] };
+      return argument.column !== undefined ? { constant: argument.column } : [argument];
+    }
+    if (isNext('punctuation', '(')) {
+      position += 1;
+      const items = [];
+      while (!isNext('punctuation', ')')) {
+        items.push(value());
+        if (!isNext('punctuation', ')')) take('punctuation', ';');
+      }
+      take('punctuation', ')');
+      return items.length === 1 ? items[0] : items;
+    }
+    position += 1;
+    if (token.type === 'symbol') return { column: token.value };
+    if (token.type === 'string') {
+      if (isNext('punctuation', '$')) {
+        position += 1;
+        return { constant: cast(token.value, take('string').value) };
+      }
+      return { constant: token.value };
+    }
+    if (token.type === 'number') {
+      const numbers = [token.value];
+      while (isNext('number')) numbers.push(take('number').value);
+      return { constant: numbers.length === 1 ? numbers[0] : numbers };
+    }
+    if (token.type === 'punctuation' || token.type === 'word') return { fn: token.value };
+    throw nyi();
+  };
+
+  // ?[`$"t";where;0b;()]
+  const select = () => {
+    take('punctuation', '?');
+    take('punctuation', '[');
+    const table = take('symbol').value;
+    take('punctuation', ';');
+    const where = isNext('punctuation', '(') || isNext('word', 'enlist') ? value() : [];
+    take('punctuation', ';');
+    take('boolean', false);
+    take('punctuation', ';');
+    take('punctuation', '(');
+    take('punctuation', ')');
+    take('punctuation', ']');
+    // enlist c parses to [c]; (c1;c2) to [c1, c2]; a lone clause list would start with its function
+    const clauses = Array.isArray(where) && where.length > 0 && where[0].fn ? [where] : where;
+    return { table, clauses: Array.isArray(clauses) ? clauses : [clauses] };
+  };
+
+  const expression = () => {
+    if (isNext('word', 'count')) {
+      position += 1;
+      return { ...expression(), count: true };
+    }
+    if (isNext('number')) {
+      const offset = take('number').value;
+      const limit = take('number').value;
+      take('word', 'sublist');
+      return { ...expression(), offset, limit };
+    }
+    if (isNext('punctuation', '(')) {
+      position += 1;
+      const column = take('symbol').value;
+      take('punctuation', ')');
+      const direction = take('word').value;
+      if (direction !== 'xasc' && direction !== 'xdesc') throw nyi();
+      const rest = expression();
+      return { ...rest, sort: [{ column, desc: direction === 'xdesc' }, ...(rest.sort || [])] };
+    }
+    return select();
+  };
+
+  return () => {
+    const result = expression();
+    if (position !== tokens.length) throw nyi();
+    return result;
+  };
+};
+
+// Whether `text` is a functional select of the bridge's; the rest are left to other answers
+export const isFunctionalSelect = (text) => /^(?:count |\d+ \d+ sublist |\(`\$"[^"]*"\) x(?:asc|desc) )*\?\[/.test(text);
+
+// Parse a functional select into { table, clauses, sort, offset, limit, count }
+export const parseFunctionalSelect = (text) => parser(tokenize(text))();
+
+// q's ordering: nulls first, then numbers, times and text in their own order
+const comparable = (value) => (value instanceof Date ? value.getTime() : value);
+
+const compare = (a, b) => {
+  const left = comparable(a);
+  const right = comparable(b);
+  if (left === right) return 0;
+  if (left === null || left === undefined || Number.isNaN(left)) return -1;
+  if (right === null || right === undefined || Number.isNaN(right)) return 1;
+  return left < right ? -1 : 1;
+};
+
+const globToRegExp = (pattern) => new RegExp(`^${pattern.replace(/\[[^\]]*\]|[*?]|[^*?[]+/g, (part) => {
+  if (part === '*') return '.*';
+  if (part === '?') return '.';
+  if (part.startsWith('[')) return part;
+  return part.replace(/[.+^${}()|\\/]/g, '\\$&');
+})}$`, 's');
+
+const text = (value) => {
+  if (value === null || value === undefined || Number.isNaN(value)) return '';
+  if (value instanceof Date) return value.toISOString().replace(/-/g, '.').replace('T', 'D').slice(0, -1);
+  return String(value);
+};
+
+const FUNCTIONS = {
+  '=': (a, b) => compare(a, b) === 0,
+  '<>': (a, b) => compare(a, b) !== 0,
+  '<': (a, b) => compare(a, b) < 0,
+  '<=': (a, b) => compare(a, b) <= 0,
+  '>': (a, b) => compare(a, b) > 0,
+  '>=': (a, b) => compare(a, b) >= 0,
+  like: (a, pattern) => globToRegExp(pattern).test(text(a)),
+  within: (a, [low, high]) => compare(a, low) >= 0 && compare(a, high) <= 0,
+  not: (a) => !a,
+  '|': (a, b) => a || b,
+  lower: (a) => text(a).toLowerCase(),
+  string: (a) => text(a)
+};
+
+// Run a parsed select over `rows`, arrays in the order of `columns` (their names); the rows it
+// selects, or their count. An unknown column signals its name, as q does.
+export const runFunctionalSelect = ({ clauses, sort = [], offset, limit, count }, columns, rows) => {
+  const position = (column) => {
+    const c = columns.indexOf(column);
+    if (c < 0) throw new Error(column);
+    return c;
+  };
+  const evaluate = (node, row, index) => {
+    if (node.constant !== undefined) return node.constant;
+    if (node.column !== undefined) return node.column === 'i' ? index : row[position(node.column)];
+    if (Array.isArray(node) && node[0] && FUNCTIONS[node[0].fn]) {
+      return FUNCTIONS[node[0].fn](...node.slice(1).map(argument => evaluate(argument, row, index)));
+    }
+    throw nyi();
+  };
+
+  let selected = rows.filter((row, index) => clauses.every(clause => evaluate(clause, row, index)));
+  if (sort.length > 0) {
+    const keys = sort.map(({ column, desc }) => ({ c: position(column), desc }));
+    selected = selected
+      .map((row, index) => ({ row, index }))
+      .sort((a, b) => {
+        for (const { c, desc } of keys) {
+          const order = compare(a.row[c], b.row[c]);
+          if (order !== 0) return desc ? -order : order;
+        }
+        return a.index - b.index;
+      })
+      .map(({ row }) => row);
+  }
+  if (offset !== undefined) selected = selected.slice(offset, offset + limit);
+  return count ? selected.length : selected;
+};
@@ -0,0 +1,128 @@
+import net from 'net';
+import nodeq from '../../lib/node-q/index.cjs';
+import { serialize, deserialize } from '../../lib/node-q/lib/c.cjs';
+
+// A stand-in for a q process, for tests that need the bridge to talk IPC to something.
+// It accepts any login, decodes each message with node-q and replies with whatever
+// `answer(message, client)` returns (or resolves to; replies keep the order messages came
+// in, as q's do); an Error thrown by `answer` goes back as a q error with its message as
+// the signal. `client.send(value)` pushes an async message, e.g. a tickerplant's upd.
+// Every message received is kept in `messages`, in order.
+
+const ASYNC = 0;
+const RESPONSE = 2;
+
+// node-q can read tables but not write them; answers wrap their columns in these instead.
+// Columns are node-q typed lists (nodeq.longs([...])), or arrays of strings for string columns.
+export class QTable {
+  constructor(columns) {
+    this.columns = columns;
+  }
+}
+
+export class QKeyedTable {
+  constructor(keys, values) {
+    this.keys = keys;
+    this.values = values;
+  }
+}
+
+const containsTable = (value) => value instanceof QTable || value instanceof QKeyedTable ||
+  (Array.isArray(value) && value.some(containsTable));
+
+// A value as q IPC without the 8-byte header: a table is 98 and its column dictionary, a keyed
+// table 99 and its two tables, a list holding either a general list; the rest is node-q's
+const encodeBody = (value) => {
+  if (value instanceof QTable) {
+    return Buffer.concat([Buffer.from([98, 0]), serialize(nodeq.dict(value.columns)).subarray(8)]);
+  }
+  if (value instanceof QKeyedTable) {
+    return Buffer.concat([Buffer.from([99]), encodeBody(new QTable(value.keys)), encodeBody(new QTable(value.values))]);
+  }
+  if (Array.isArray(value) && containsTable(value)) {
+    const header = Buffer.alloc(6);
+    header.writeUInt32LE(value.length, 2);
+    return Buffer.concat([header, ...value.map(encodeBody)]);
+  }
+  return serialize(value).subarray(8);
+};
+
+// A q error message: type -128 followed by the signal as a null-terminated string
+const errorMessage = (signal) => {
+  const text = Buffer.from(`${signal}\0`, 'utf8');
+  const message = Buffer.alloc(9 + text.length);
+  message.writeUInt8(1, 0);
+  message.writeUInt8(RESPONSE, 1);
+  message.writeUInt32LE(message.length, 4);
+  message.writeUInt8(0x80, 8);
+  text.copy(message, 9);
+  return message;
+};
+
+const message = (type, value) => {
+  const body = encodeBody(value);
+  const header = Buffer.alloc(8);
+  header.writeUInt8(1, 0);
+  header.writeUInt8(type, 1);
+  header.writeUInt32LE(8 + body.length, 4);
+  return Buffer.concat([header, body]);
+};
+
+// Listens on an ephemeral port unless `port` is given
+export const startStandInQ = (answer = () => null, { host = '127.0.0.1', port = 0 } = {}) => new Promise((resolve, reject) => {
+  const messages = [];
+  const sockets = new Set();
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+
+    const client = {
+      send: (value) => {
+        if (!socket.destroyed) socket.write(message(ASYNC, value));
+      },
+      onClose: (listener) => socket.on('close', listener)
+    };
+    // Each reply waits for the ones before it
+    let replies = Promise.resolve();
+    let buffer = Buffer.alloc(0);
+    let loggedIn = false;
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      if (!loggedIn) {
+        // "user:password" + capability byte + NUL; answer with the capability we speak
+        const end = buffer.indexOf(0);
+        if (end < 0) return;
+        loggedIn = true;
+        buffer = buffer.subarray(end + 1);
+        socket.write(Buffer.from([3]));
+      }
+      while (buffer.length >= 8 && buffer.length >= buffer.readUInt32LE(4)) {
+        const length = buffer.readUInt32LE(4);
+        const received = deserialize(buffer.subarray(0, length), false, true, true, false, {});
+        buffer = buffer.subarray(length);
+        messages.push(received);
+        replies = replies
+          .then(() => answer(received, client))
+          .then((value) => message(RESPONSE, value))
+          .catch((error) => errorMessage(error.message))
+          .then((reply) => {
+            if (!socket.destroyed) socket.write(reply);
+          });
+      }
+    });
+  });
+
+  server.once('error', reject);
+  server.listen(port, host, () => {
+    resolve({
+      host,
+      port: server.address().port,
+      messages,
+      close: () => new Promise((done) => {
+        for (const socket of sockets) socket.destroy();
+        server.close(() => done());
+      })
+    });
+  });
+});
@@ -1,22 +1,53 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { DashboardPage } from '@/pages/dashboard-page'
 import { useKdbConnection } from '@/hooks/use-kdb-connection'
 import { ThemeProvider } from '@/contexts/theme-context'
 import { LoadingScreen } from '@/components/loading-screen'
 import { useAppLoader } from '@/hooks/use-app-loader'
+import { KdbConnectionParams, KdbConnectionInfo } from '@/types/kdb'
+import { recordConnection, getProfileById, findProfileFor } from '@/lib/connection-profiles'
 
 function AppContent() {
-  const { status, error, connect, disconnect, cancelConnection, cancelQuery, tables, executeQuery, getTableData, refreshTables } = useKdbConnection()
-  const [connectionData, setConnectionData] = useState<{host: string; port: number} | null>(null)
+  const { status, error, errorCode, sessionState, connect, resume, disconnect, cancelConnection, cancelQuery, getQueryPolicy, tables, streamQuery, queryProgress, getTableData, tableMetadata, loadTableMetadata, tablePartitions, loadTablePartitions, listNamespace, previewEntry, listFunctions, callFunction, subscribe, jobs, submitJob, cancelJob, getJobResult, getAuditLog, refreshTables } = useKdbConnection()
+  const [connectionData, setConnectionData] = useState<KdbConnectionInfo | null>(null)
 
-  const handleConnect = async (host: string, port: number, browseTables: boolean = false) => {
-    const success = await connect(host, port, browseTables)
+  const handleConnect = async (params: KdbConnectionParams, browseTables: boolean = false, profileId?: string) => {
+    const success = await connect(params, browseTables)
     if (success) {
-      setConnectionData({ host, port })
+      const profile = (profileId && getProfileById(profileId)) || findProfileFor(params)
+      recordConnection(params, profile?.id)
+      setConnectionData({
+        host: params.host,
+        port: params.port,
+        user: params.user,
+        transport: params.transport,
+        policy: getQueryPolicy() ?? params.policy,
+        profileId: profile?.id,
+        profileName: profile?.name,
+        environment: profile?.environment
+      })
     }
     return success
   }
 
+  // After a reload, carry on with the session the tab had, so its background jobs can still be opened
+  useEffect(() => {
+    resume().then((params) => {
+      if (!params) return
+      const profile = findProfileFor(params)
+      setConnectionData({
+        host: params.host,
+        port: params.port,
+        user: params.user,
+        transport: params.transport,
+        policy: params.policy,
+        profileId: profile?.id,
+        profileName: profile?.name,
+        environment: profile?.environment
+      })
+    })
+  }, [resume])
+
   const handleDisconnect = () => {
     disconnect()
     setConnectionData(null)
@@ -27,13 +58,30 @@ function AppContent() {
       connectionData={connectionData}
       connectionStatus={status}
       connectionError={error}
+      connectionErrorCode={errorCode}
+      sessionState={sessionState}
       tables={tables}
       onConnect={handleConnect}
       onDisconnect={handleDisconnect}
       onCancelConnection={cancelConnection}
       onCancelQuery={cancelQuery}
-      executeQuery={executeQuery}
+      streamQuery={streamQuery}
+      queryProgress={queryProgress}
       getTableData={getTableData}
+      tableMetadata={tableMetadata}
+      loadTableMetadata={loadTableMetadata}
+      tablePartitions={tablePartitions}
+      loadTablePartitions={loadTablePartitions}
+      listNamespace={listNamespace}
+      previewEntry={previewEntry}
+      listFunctions={listFunctions}
+      callFunction={callFunction}
+      subscribe={subscribe}
+      jobs={jobs}
+      submitJob={submitJob}
+      cancelJob={cancelJob}
+      getJobResult={getJobResult}
+      getAuditLog={getAuditLog}
       refreshTables={refreshTables}
     />
   )
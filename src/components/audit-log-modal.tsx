@@ -0,0 +1,238 @@
+import { useState, useEffect, useCallback } from 'react';
+import { X, ScrollText, Search, RefreshCw, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { KdbAuditEntry, KdbAuditFilters, KdbAuditKind, KdbAuditLog } from '@/types/kdb';
+
+interface AuditLogModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  getAuditLog: (filters?: KdbAuditFilters) => Promise<KdbAuditLog>;
+}
+
+interface FilterForm {
+  text: string;
+  user: string;
+  target: string;
+  kind: KdbAuditKind | '';
+  status: KdbAuditEntry['status'] | '';
+  from: string;  // datetime-local values, in the browser's time zone
+  to: string;
+}
+
+const EMPTY_FILTERS: FilterForm = { text: '', user: '', target: '', kind: '', status: '', from: '', to: '' };
+
+const STATUS_CLASSES: Record<KdbAuditEntry['status'], string> = {
+  ok: 'status-connected',
+  error: 'text-destructive',
+  cancelled: 'text-muted-foreground',
+};
+
+const toFilters = (form: FilterForm): KdbAuditFilters => ({
+  text: form.text.trim() || undefined,
+  user: form.user.trim() || undefined,
+  target: form.target.trim() || undefined,
+  kind: form.kind || undefined,
+  status: form.status || undefined,
+  from: form.from ? new Date(form.from).toISOString() : undefined,
+  to: form.to ? new Date(form.to).toISOString() : undefined,
+});
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+// Searches the bridge's audit log: who ran which query against which process, how long it took
+// and what came of it. Entries are this connection's own, newest first.
+export function AuditLogModal({ isOpen, onClose, getAuditLog }: AuditLogModalProps) {
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS);
+  const [log, setLog] = useState<KdbAuditLog | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const search = useCallback(async (filters: FilterForm) => {
+    setIsLoading(true);
+    setError(null);
+    setExpanded(null);
+    try {
+      setLog(await getAuditLog(toFilters(filters)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getAuditLog]);
+
+  // Read the log again every time the viewer opens
+  useEffect(() => {
+    if (isOpen) {
+      search(form);
+    }
+  }, [isOpen]);
+
+  const setField = <K extends keyof FilterForm>(name: K, value: FilterForm[K]) => {
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      search(form);
+    }
+  };
+
+  const handleClear = () => {
+    setForm(EMPTY_FILTERS);
+    search(EMPTY_FILTERS);
+  };
+
+  if (!isOpen) return null;
+
+  const selectClassName = 'h-8 px-2 text-sm border border-input rounded-md bg-background text-foreground';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-background border border-border rounded-lg shadow-lg w-[1100px] max-w-[95vw] h-[75vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-lg font-semibold text-foreground flex items-center">
+            <ScrollText className="h-5 w-5 mr-2" />
+            Audit Log
+          </h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="h-8 w-8 p-0"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2 p-3 border-b border-border" onKeyDown={handleKeyDown}>
+          <div className="relative w-64">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Query contains..."
+              value={form.text}
+              onChange={(e) => setField('text', e.target.value)}
+              className="pl-9 h-8 text-sm font-mono"
+            />
+          </div>
+          <Input
+            placeholder="User"
+            value={form.user}
+            onChange={(e) => setField('user', e.target.value)}
+            className="h-8 text-sm w-28"
+          />
+          <Input
+            placeholder="Host or port"
+            value={form.target}
+            onChange={(e) => setField('target', e.target.value)}
+            className="h-8 text-sm w-36"
+          />
+          <select value={form.kind} onChange={(e) => setField('kind', e.target.value as FilterForm['kind'])} className={selectClassName} title="What ran the query">
+            <option value="">Any kind</option>
+            <option value="query">Query</option>
+            <option value="job">Background job</option>
+            <option value="function">Function call</option>
+            <option value="browse">Table browsing</option>
+          </select>
+          <select value={form.status} onChange={(e) => setField('status', e.target.value as FilterForm['status'])} className={selectClassName}>
+            <option value="">Any status</option>
+            <option value="ok">OK</option>
+            <option value="error">Error</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+          <Input
+            type="datetime-local"
+            value={form.from}
+            onChange={(e) => setField('from', e.target.value)}
+            className="h-8 text-sm w-48"
+            title="From"
+          />
+          <Input
+            type="datetime-local"
+            value={form.to}
+            onChange={(e) => setField('to', e.target.value)}
+            className="h-8 text-sm w-48"
+            title="To"
+          />
+          <Button variant="default" size="sm" onClick={() => search(form)} disabled={isLoading} className="h-8">
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Search
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleClear} disabled={isLoading} className="h-8">
+            Clear
+          </Button>
+        </div>
+
+        {/* Entries */}
+        <div className="flex-1 overflow-auto enhanced-scrollbar">
+          {error ? (
+            <div className="flex items-center space-x-2 p-4 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4" />
+              <span>{error}</span>
+            </div>
+          ) : !log || log.entries.length === 0 ? (
+            <div className="p-4 text-sm text-muted-foreground text-center">
+              {isLoading ? 'Loading...' : 'No audit entries match'}
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-muted/80 backdrop-blur text-xs text-muted-foreground">
+                <tr>
+                  <th className="text-left font-medium px-3 py-2 whitespace-nowrap">Time</th>
+                  <th className="text-left font-medium px-3 py-2">User</th>
+                  <th className="text-left font-medium px-3 py-2">Process</th>
+                  <th className="text-left font-medium px-3 py-2">Kind</th>
+                  <th className="text-left font-medium px-3 py-2 w-full">Query</th>
+                  <th className="text-right font-medium px-3 py-2">Duration</th>
+                  <th className="text-right font-medium px-3 py-2">Rows</th>
+                  <th className="text-left font-medium px-3 py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {log.entries.map((entry, index) => (
+                  <tr
+                    key={`${entry.timestamp}-${index}`}
+                    onClick={() => setExpanded(prev => (prev === index ? null : index))}
+                    className="border-b border-border/50 align-top cursor-pointer hover:bg-muted/40"
+                  >
+                    <td className="px-3 py-1.5 font-mono text-xs whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                    <td className="px-3 py-1.5 whitespace-nowrap" title={entry.client ? `From ${entry.client}` : undefined}>{entry.user ?? '-'}</td>
+                    <td className="px-3 py-1.5 font-mono text-xs whitespace-nowrap">{entry.target}</td>
+                    <td className="px-3 py-1.5 whitespace-nowrap">{entry.kind}</td>
+                    <td className="px-3 py-1.5 font-mono text-xs max-w-0">
+                      {expanded === index ? (
+                        <div className="space-y-1">
+                          <pre className="whitespace-pre-wrap break-all">{entry.query}</pre>
+                          {entry.error && <div className="text-destructive whitespace-pre-wrap">{entry.error.message}</div>}
+                          <div className="text-muted-foreground">Session {entry.sessionId}{entry.client ? ` from ${entry.client}` : ''}</div>
+                        </div>
+                      ) : (
+                        <div className="truncate" title={entry.query}>{entry.query.split('\n')[0]}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-1.5 font-mono text-xs text-right whitespace-nowrap">{formatDuration(entry.durationMs)}</td>
+                    <td className="px-3 py-1.5 font-mono text-xs text-right">{entry.rowCount?.toLocaleString() ?? ''}</td>
+                    <td className={`px-3 py-1.5 whitespace-nowrap ${STATUS_CLASSES[entry.status]}`} title={entry.error?.message}>{entry.status}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer */}
+        {log && (
+          <div className="px-4 py-2 border-t border-border text-xs text-muted-foreground">
+            {log.entries.length < log.limit
+              ? `${log.entries.length.toLocaleString()} entries`
+              : `Newest ${log.limit.toLocaleString()} entries; narrow the filters to see older ones`}
+            {log.retentionDays > 0 ? ` · kept for ${log.retentionDays} days` : ''}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
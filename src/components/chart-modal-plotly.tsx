@@ -18,6 +18,8 @@ import {
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { KdbQueryResult, ChartConfig, ChartType } from '@/types/kdb';
+import { getColumnType, isNumericType, isPlottable, isTemporalType, isTimeOfDayType } from '@/lib/kdb-types';
+import { readCell } from '@/lib/columnar';
 import { generateFinancialHeatmap } from '@/lib/utils';
 import {
   DropdownMenu,
@@ -86,6 +88,8 @@ export function ChartModal({ isOpen, onClose, data, displayedData, dataSource =
   const selectedData = dataSource === 'displayed' && displayedData ? displayedData : data;
 
   const numericColumns = selectedData.columns.filter((_, index) => {
+    const type = getColumnType(selectedData, index);
+    if (type) return isNumericType(type);
     const sampleValues = selectedData.data.slice(0, 10).map(row => row[index]);
     return sampleValues.some(val => typeof val === 'number' && !isNaN(val));
   });
@@ -95,9 +99,9 @@ export function ChartModal({ isOpen, onClose, data, displayedData, dataSource =
   // Detect temporal columns based on metadata or column names
   const temporalColumns = selectedData.columns.filter((column, index) => {
     // Check metadata if available
-    if (selectedData.meta?.types && selectedData.meta.types[index]) {
-      const type = selectedData.meta.types[index].toLowerCase();
-      return type === 'timestamp' || type === 'date' || type === 'time' || type === 'datetime';
+    const type = getColumnType(selectedData, index);
+    if (type) {
+      return isTemporalType(type);
     }
     // Fallback to column name patterns
     const lowerColumn = column.toLowerCase();
@@ -118,14 +122,12 @@ export function ChartModal({ isOpen, onClose, data, displayedData, dataSource =
     const sampleSize = Math.min(10, selectedData.data.length);
     const sampleData = selectedData.data.slice(0, sampleSize);
     
-    // Check metadata first (most reliable)
-    if (selectedData.meta?.types && selectedData.meta.types[columnIndex]) {
-      const metaType = selectedData.meta.types[columnIndex].toLowerCase();
-      const temporalMetaTypes = ['timestamp', 'date', 'time', 'datetime', 'timespan', 'month', 'minute', 'second'];
-      if (temporalMetaTypes.includes(metaType)) {
-        console.log(`Detected temporal column by metadata: "${columnName}" (${metaType})`);
-        return { isTemporal: true, temporalType: metaType };
-      }
+    // The q type from the bridge is authoritative; value patterns are only a fallback without it
+    const metaType = getColumnType(selectedData, columnIndex);
+    if (metaType) {
+      return isTemporalType(metaType)
+        ? { isTemporal: true, temporalType: metaType }
+        : { isTemporal: false, temporalType: 'none' };
     }
     
     // Analyze data patterns
@@ -322,10 +324,17 @@ export function ChartModal({ isOpen, onClose, data, displayedData, dataSource =
       const xColumnIndex = selectedData.columns.indexOf(chartConfig.xColumn);
       if (xColumnIndex === -1) return;
 
+      // Cells are read by index so columnar results are never turned into rows
+      const rowCount = selectedData.data.length;
+
       // Check if any data exists
       const hasData = chartConfig.yColumns.some(yCol => {
         const yIdx = selectedData.columns.indexOf(yCol);
-        return yIdx !== -1 && selectedData.data.some(row => row[xColumnIndex] != null && row[yIdx] != null);
+        if (yIdx === -1) return false;
+        for (let i = 0; i < rowCount; i++) {
+          if (isPlottable(readCell(selectedData, i, xColumnIndex)) && isPlottable(readCell(selectedData, i, yIdx))) return true;
+        }
+        return false;
       });
       if (!hasData) return;
 
@@ -383,7 +392,7 @@ export function ChartModal({ isOpen, onClose, data, displayedData, dataSource =
           // Handle time-only strings from our custom KDB+ time handling (type 19h)
           if (typeof value === 'string') {
             // Time-only patterns: H:MM:SS, HH:MM:SS, HH:MM:SS.mmm
-            if (/^\d{1,2}:\d{2}:\d{2}(\.\d{1,3})?$/.test(value)) {
+            if (/^\d{1,2}:\d{2}:\d{2}(\.\d{1,9})?$/.test(value)) {
               // FIXED: Return time strings as-is for direct display
               // No more conversion to elapsed seconds that show as "86k"
               console.log(`   ✅ Time string (preserved): ${value}`);
@@ -484,11 +493,8 @@ export function ChartModal({ isOpen, onClose, data, displayedData, dataSource =
       };
       
       const isTimeWithinDayData = (
-        temporalInfo.temporalType === 'timeOnly' ||
-        temporalInfo.temporalType === 'time' ||
-        temporalInfo.temporalType === 'second' ||
-        temporalInfo.temporalType === 'minute' ||
-        isKdbTimeWithinDayPattern()
+        isTimeOfDayType(temporalInfo.temporalType) ||
+        (!getColumnType(selectedData, xColumnIndex) && (temporalInfo.temporalType === 'timeOnly' || isKdbTimeWithinDayPattern()))
       );
       
       // Enhanced debugging for time-within-day detection results
@@ -531,7 +537,7 @@ export function ChartModal({ isOpen, onClose, data, displayedData, dataSource =
           const yColumnIndex = selectedData.columns.indexOf(yColumn);
           if (yColumnIndex !== -1) {
             selectedData.data.forEach(row => {
-              if (row[xColumnIndex] != null && row[yColumnIndex] != null) {
+              if (isPlottable(row[xColumnIndex]) && isPlottable(row[yColumnIndex])) {
                 const xValue = (temporalInfo.isTemporal || isTimeWithinDayData)
                   ? convertTemporalForChart(row[xColumnIndex], isTimeWithinDayData) 
                   : row[xColumnIndex];
@@ -550,7 +556,7 @@ export function ChartModal({ isOpen, onClose, data, displayedData, dataSource =
           
           const seriesDataMap = new Map();
           selectedData.data.forEach(row => {
-            if (row[xColumnIndex] != null && row[yColumnIndex] != null) {
+            if (isPlottable(row[xColumnIndex]) && isPlottable(row[yColumnIndex])) {
               const xValue = (temporalInfo.isTemporal || isTimeWithinDayData)
                 ? convertTemporalForChart(row[xColumnIndex], isTimeWithinDayData)
                 : row[xColumnIndex];
@@ -602,19 +608,19 @@ export function ChartModal({ isOpen, onClose, data, displayedData, dataSource =
           const yColumnIndex = selectedData.columns.indexOf(yColumn);
           if (yColumnIndex === -1) return;
           
-          const seriesData = selectedData.data
-            .map(row => ({ 
-              x: (temporalInfo.isTemporal || isTimeWithinDayData) 
-                ? convertTemporalForChart(row[xColumnIndex], isTimeWithinDayData) 
-                : row[xColumnIndex], 
-              y: row[yColumnIndex] 
-            }))
-            .filter(d => d.x != null && d.y != null);
+          const xData: any[] = [];
+          const yData: any[] = [];
+          for (let i = 0; i < rowCount; i++) {
+            const value = readCell(selectedData, i, xColumnIndex);
+            const x = (temporalInfo.isTemporal || isTimeWithinDayData) ? convertTemporalForChart(value, isTimeWithinDayData) : value;
+            const y = readCell(selectedData, i, yColumnIndex);
+            if (!isPlottable(x) || !isPlottable(y)) continue;
+            xData.push(x);
+            yData.push(y);
+          }
           
-          if (seriesData.length === 0) return;
+          if (xData.length === 0) return;
           
-          const xData = seriesData.map(d => d.x);
-          const yData = seriesData.map(d => d.y);
           const color = seriesColors[index % seriesColors.length];
           
           traces.push({
@@ -694,7 +700,7 @@ export function ChartModal({ isOpen, onClose, data, displayedData, dataSource =
                       low: row[ohlcIndices[2]],
                       close: row[ohlcIndices[3]]
                     }))
-                    .filter(d => d.x != null && d.open != null && d.high != null && d.low != null && d.close != null);
+                    .filter(d => isPlottable(d.x) && isPlottable(d.open) && isPlottable(d.high) && isPlottable(d.low) && isPlottable(d.close));
                   
                   // Replace all traces with single candlestick trace
                   traces.length = 0; // Clear existing traces
@@ -784,7 +790,7 @@ export function ChartModal({ isOpen, onClose, data, displayedData, dataSource =
                       low: row[ohlcIndices[2]],
                       close: row[ohlcIndices[3]]
                     }))
-                    .filter(d => d.x != null && d.open != null && d.high != null && d.low != null && d.close != null);
+                    .filter(d => isPlottable(d.x) && isPlottable(d.open) && isPlottable(d.high) && isPlottable(d.low) && isPlottable(d.close));
                   
                   // Replace all traces with single OHLC trace
                   traces.length = 0; // Clear existing traces
@@ -1,15 +1,27 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Loader2, Plug, PlugZap, AlertCircle, X } from 'lucide-react';
-import { ConnectionStatus } from '@/types/kdb';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ConnectionProfilesModal, EnvironmentBadge } from '@/components/connection-profiles-modal';
+import { Loader2, Plug, PlugZap, AlertCircle, X, KeyRound, ShieldAlert, Lock, RefreshCw, BookMarked, Settings2 } from 'lucide-react';
+import { ConnectionStatus, KdbConnectionParams, KdbConnectionInfo, KdbErrorCode, KdbTransport, KdbSessionState, KdbQueryPolicy } from '@/types/kdb';
+import { ConnectionProfile, getProfiles, getLastConnection, profileToParams, describeTarget } from '@/lib/connection-profiles';
 
 interface ConnectionInputProps {
-  connectionData: { host: string; port: number } | null;
+  connectionData: KdbConnectionInfo | null;
   connectionStatus: ConnectionStatus;
   connectionError: string | null;
+  connectionErrorCode?: KdbErrorCode | null;
+  sessionState?: KdbSessionState | null;
   browseTables: boolean;
-  onConnect: (host: string, port: number, browseTables: boolean) => Promise<boolean>;
+  onConnect: (params: KdbConnectionParams, browseTables: boolean, profileId?: string) => Promise<boolean>;
   onDisconnect: () => void;
   onCancelConnection?: () => void;
   onBrowseTablesChange: (enabled: boolean) => void;
@@ -19,57 +31,134 @@ export function ConnectionInput({
   connectionData,
   connectionStatus,
   connectionError,
+  connectionErrorCode,
+  sessionState,
   browseTables,
   onConnect,
   onDisconnect,
   onCancelConnection,
   onBrowseTablesChange,
 }: ConnectionInputProps) {
-  const [hostPort, setHostPort] = useState('');
+  // Start from the last connection made in this browser
+  const [lastConnection] = useState(getLastConnection);
+  const [hostPort, setHostPort] = useState(lastConnection ? `${lastConnection.host}:${lastConnection.port}` : '');
+  const [user, setUser] = useState(lastConnection?.user || '');
+  const [password, setPassword] = useState('');
+  const [transport, setTransport] = useState<KdbTransport>(lastConnection?.transport || 'tcp');
+  const [caPath, setCaPath] = useState(lastConnection?.caPath || '');
+  const [socketPath, setSocketPath] = useState(lastConnection?.socketPath || '');
+  const [policy, setPolicy] = useState<KdbQueryPolicy>(lastConnection?.policy || 'read-write');
+  const [profileId, setProfileId] = useState<string | undefined>(lastConnection?.profileId);
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>(getProfiles);
+  const [isProfilesModalOpen, setIsProfilesModalOpen] = useState(false);
+  const [showCredentials, setShowCredentials] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
+  const passwordInputRef = useRef<HTMLInputElement>(null);
 
-  // Update input when connectionData changes
+  // While the bridge is reconnecting the session still belongs to us, so keep the connected controls
+  const hasSession = connectionStatus === 'connected' || connectionStatus === 'reconnecting';
+
+  // Update input when connectionData changes; after a disconnect the fields are kept for reconnecting
   useEffect(() => {
     if (connectionData) {
       setHostPort(`${connectionData.host}:${connectionData.port}`);
-    } else {
-      setHostPort('');
+      setUser(connectionData.user || '');
+      setTransport(connectionData.transport || 'tcp');
+      setPolicy(connectionData.policy || 'read-write');
+      setProfileId(connectionData.profileId);
     }
+    // Never keep the password around once a connection attempt has finished
+    setPassword('');
   }, [connectionData]);
 
-  const handleConnect = async () => {
-    const trimmed = hostPort.trim();
-    if (!trimmed) return;
+  // Bad credentials or TLS setup: reopen the options panel so they can be corrected
+  useEffect(() => {
+    if (connectionErrorCode === 'AUTH_FAILED' || connectionErrorCode === 'TLS_HANDSHAKE_FAILED') {
+      setShowCredentials(true);
+    }
+  }, [connectionErrorCode]);
 
+  // The connection described by the input fields, or null while host:port is incomplete
+  const getParams = (): KdbConnectionParams | null => {
     // Parse host:port format
-    const parts = trimmed.split(':');
+    const parts = hostPort.trim().split(':');
     if (parts.length !== 2) {
-      return;
+      return null;
     }
 
     const host = parts[0].trim();
     const port = parseInt(parts[1].trim(), 10);
 
     if (!host || isNaN(port) || port < 1 || port > 65535) {
-      return;
+      return null;
     }
 
+    return {
+      host,
+      port,
+      user: user.trim() || undefined,
+      password: user.trim() ? password : undefined,
+      transport,
+      caPath: transport === 'tls' ? caPath.trim() || undefined : undefined,
+      socketPath: transport === 'unix' ? socketPath.trim() || undefined : undefined,
+      policy,
+    };
+  };
+
+  const connectWith = async (params: KdbConnectionParams, fromProfileId?: string) => {
     setIsConnecting(true);
     try {
-      await onConnect(host, port, browseTables);
+      const success = await onConnect(params, browseTables, fromProfileId);
+      if (success) {
+        setShowCredentials(false);
+      }
     } finally {
       setIsConnecting(false);
     }
   };
 
+  const handleConnect = async () => {
+    const params = getParams();
+    if (!params) return;
+    await connectWith(params, profileId);
+  };
+
   const handleDisconnect = () => {
     onDisconnect();
-    setHostPort('');
+  };
+
+  // Editing the connection by hand detaches it from the selected profile
+  const editField = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setProfileId(undefined);
+  };
+
+  const handleSelectProfile = (profile: ConnectionProfile) => {
+    setHostPort(`${profile.host}:${profile.port}`);
+    setUser(profile.user || '');
+    setPassword('');
+    setTransport(profile.transport);
+    setCaPath(profile.caPath || '');
+    setSocketPath(profile.socketPath || '');
+    setPolicy(profile.policy);
+    setProfileId(profile.id);
+
+    if (profile.user) {
+      // Passwords are never saved, so ask for it before connecting
+      if (hasSession) {
+        onDisconnect();
+      }
+      setShowCredentials(true);
+      setTimeout(() => passwordInputRef.current?.focus(), 0);
+    } else {
+      // The bridge replaces the current session, so switching needs no disconnect
+      connectWith(profileToParams(profile), profile.id);
+    }
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
-      if (connectionStatus === 'connected') {
+      if (hasSession) {
         handleDisconnect();
       } else {
         handleConnect();
@@ -83,6 +172,8 @@ export function ConnectionInput({
         return <PlugZap className="h-4 w-4 status-connected" />;
       case 'connecting':
         return <Loader2 className="h-4 w-4 animate-spin status-connecting" />;
+      case 'reconnecting':
+        return <RefreshCw className="h-4 w-4 animate-spin status-connecting" />;
       case 'error':
         return <AlertCircle className="h-4 w-4 status-error" />;
       default:
@@ -96,6 +187,8 @@ export function ConnectionInput({
         return 'Connected';
       case 'connecting':
         return 'Connecting...';
+      case 'reconnecting':
+        return sessionState?.attempt ? `Reconnecting (${sessionState.attempt})...` : 'Reconnecting...';
       case 'error':
         return 'Error';
       default:
@@ -107,30 +200,177 @@ export function ConnectionInput({
     <div className="flex items-center space-x-3">
       <div className={`flex items-center space-x-2 px-2 py-1 rounded-md ${
         connectionStatus === 'connected' ? 'status-indicator-bg-connected' :
-        connectionStatus === 'connecting' ? 'status-indicator-bg-connecting' :
+        connectionStatus === 'connecting' || connectionStatus === 'reconnecting' ? 'status-indicator-bg-connecting' :
         connectionStatus === 'error' ? 'status-indicator-bg-error' : ''
       }`}>
         {getStatusIcon()}
+        {connectionStatus === 'connected' && connectionData?.transport && connectionData.transport !== 'tcp' && (
+          <span className="flex items-center text-xs font-medium status-connected" title={`Connected over ${connectionData.transport.toUpperCase()}`}>
+            {connectionData.transport === 'tls' && <Lock className="h-3 w-3 mr-0.5" />}
+            {connectionData.transport.toUpperCase()}
+          </span>
+        )}
+        {connectionStatus === 'connected' && connectionData?.policy && connectionData.policy !== 'read-write' && (
+          <span
+            className="flex items-center text-xs font-medium status-connecting"
+            title={connectionData.policy === 'read-only' ? 'Statements that change the process are refused' : 'Statements that change the process need confirming'}
+          >
+            <ShieldAlert className="h-3 w-3 mr-0.5" />
+            {connectionData.policy === 'read-only' ? 'READ-ONLY' : 'CONFIRM'}
+          </span>
+        )}
         <span className={`text-sm font-medium min-w-[80px] ${
           connectionStatus === 'connected' ? 'status-connected' :
-          connectionStatus === 'connecting' ? 'status-connecting' :
+          connectionStatus === 'connecting' || connectionStatus === 'reconnecting' ? 'status-connecting' :
           connectionStatus === 'error' ? 'status-error' : 'status-inactive'
-        }`}>
+        }`} title={connectionStatus === 'reconnecting' && sessionState?.error ? sessionState.error : undefined}>
           {getStatusText()}
         </span>
       </div>
       
       <div className="flex items-center space-x-2">
+        {/* Saved profiles: quick switch and management */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              disabled={isConnecting}
+              title="Connection profiles"
+            >
+              <BookMarked className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-72">
+            <DropdownMenuLabel>Connection profiles</DropdownMenuLabel>
+            {profiles.length === 0 && (
+              <div className="px-2 py-1.5 text-sm text-muted-foreground">No saved profiles</div>
+            )}
+            {profiles.map(profile => (
+              <DropdownMenuItem key={profile.id} onClick={() => handleSelectProfile(profile)}>
+                <div className="flex items-center space-x-2 min-w-0 w-full">
+                  <EnvironmentBadge environment={profile.environment} />
+                  <span className={`truncate ${profile.id === connectionData?.profileId ? 'font-semibold' : ''}`}>{profile.name}</span>
+                  <span className="ml-auto text-xs text-muted-foreground truncate">{describeTarget(profile)}</span>
+                </div>
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => setIsProfilesModalOpen(true)}>
+              <Settings2 className="mr-2 h-4 w-4" />
+              <span>Manage profiles...</span>
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
         <Input
           placeholder="localhost:5000"
           value={hostPort}
-          onChange={(e) => setHostPort(e.target.value)}
+          onChange={(e) => editField(setHostPort)(e.target.value)}
           onKeyPress={handleKeyPress}
-          className={`w-32 ${connectionStatus === 'connected' ? 'opacity-50 cursor-not-allowed' : ''}`}
-          disabled={isConnecting || connectionStatus === 'connected'}
+          className={`w-32 ${hasSession ? 'opacity-50 cursor-not-allowed' : ''}`}
+          disabled={isConnecting || hasSession}
         />
+
+        {/* Transport and credentials for processes that check .z.pw */}
+        <div className="relative">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setShowCredentials(prev => !prev)}
+            disabled={hasSession}
+            className={`h-8 w-8 ${user.trim() || transport !== 'tcp' || policy !== 'read-write' ? 'text-primary' : ''}`}
+            title={`Connection options (${transport.toUpperCase()}${user.trim() ? `, user ${user.trim()}` : ''}${policy !== 'read-write' ? `, ${policy}` : ''})`}
+          >
+            <KeyRound className="h-4 w-4" />
+          </Button>
+          {showCredentials && !hasSession && (
+            <div className="absolute left-0 top-10 z-50 w-64 p-3 space-y-2 bg-background border border-border rounded-lg shadow-lg">
+              <div>
+                <label htmlFor="kdb-transport" className="text-xs text-muted-foreground">Connection mode</label>
+                <select
+                  id="kdb-transport"
+                  value={transport}
+                  onChange={(e) => editField(setTransport)(e.target.value as KdbTransport)}
+                  disabled={isConnecting}
+                  className="w-full h-9 px-2 text-sm border border-input rounded-md bg-background text-foreground"
+                >
+                  <option value="tcp">TCP</option>
+                  <option value="tls">TLS</option>
+                  <option value="unix">Unix domain socket</option>
+                </select>
+              </div>
+              {transport === 'tls' && (
+                <div>
+                  <label htmlFor="kdb-ca-path" className="text-xs text-muted-foreground">CA bundle path (on bridge host)</label>
+                  <Input
+                    id="kdb-ca-path"
+                    placeholder="System trust store"
+                    value={caPath}
+                    onChange={(e) => editField(setCaPath)(e.target.value)}
+                    onKeyPress={handleKeyPress}
+                    disabled={isConnecting}
+                  />
+                </div>
+              )}
+              {transport === 'unix' && (
+                <div>
+                  <label htmlFor="kdb-socket-path" className="text-xs text-muted-foreground">Socket path (on bridge host)</label>
+                  <Input
+                    id="kdb-socket-path"
+                    placeholder={`/tmp/kx.${hostPort.split(':')[1]?.trim() || '<port>'}`}
+                    value={socketPath}
+                    onChange={(e) => editField(setSocketPath)(e.target.value)}
+                    onKeyPress={handleKeyPress}
+                    disabled={isConnecting}
+                  />
+                </div>
+              )}
+              <div>
+                <label htmlFor="kdb-policy" className="text-xs text-muted-foreground">Statements that change the process</label>
+                <select
+                  id="kdb-policy"
+                  value={policy}
+                  onChange={(e) => editField(setPolicy)(e.target.value as KdbQueryPolicy)}
+                  disabled={isConnecting}
+                  className="w-full h-9 px-2 text-sm border border-input rounded-md bg-background text-foreground"
+                  title="Assignments to globals, delete, insert, upsert, system commands and exit"
+                >
+                  <option value="read-write">Run</option>
+                  <option value="confirm">Ask first</option>
+                  <option value="read-only">Refuse (read-only)</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="kdb-user" className="text-xs text-muted-foreground">Username</label>
+                <Input
+                  id="kdb-user"
+                  value={user}
+                  onChange={(e) => editField(setUser)(e.target.value)}
+                  onKeyPress={handleKeyPress}
+                  autoComplete="username"
+                  disabled={isConnecting}
+                />
+              </div>
+              <div>
+                <label htmlFor="kdb-password" className="text-xs text-muted-foreground">Password</label>
+                <Input
+                  id="kdb-password"
+                  ref={passwordInputRef}
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  onKeyPress={handleKeyPress}
+                  autoComplete="current-password"
+                  disabled={isConnecting || !user.trim()}
+                />
+              </div>
+            </div>
+          )}
+        </div>
         
-        {connectionStatus === 'connected' ? (
+        {hasSession ? (
           <Button
             variant="outline"
             size="sm"
@@ -189,10 +429,24 @@ export function ConnectionInput({
       </div>
       
       {connectionError && connectionStatus === 'error' && (
-        <div className="text-sm status-error max-w-xs truncate" title={connectionError}>
-          {connectionError}
+        <div className="flex items-center space-x-1 text-sm status-error max-w-xs" title={connectionError}>
+          {connectionErrorCode === 'AUTH_FAILED' && <ShieldAlert className="h-4 w-4 flex-shrink-0" />}
+          <span className="truncate">
+            {connectionErrorCode === 'AUTH_FAILED' ? 'Authentication failed' :
+             connectionErrorCode === 'HOST_UNREACHABLE' ? 'Host unreachable' :
+             connectionErrorCode === 'TLS_HANDSHAKE_FAILED' ? 'TLS handshake failed' :
+             connectionErrorCode === 'CONNECTION_LOST' ? 'Connection lost' :
+             connectionError}
+          </span>
         </div>
       )}
+
+      <ConnectionProfilesModal
+        isOpen={isProfilesModalOpen}
+        onClose={() => setIsProfilesModalOpen(false)}
+        currentParams={getParams()}
+        onProfilesChange={() => setProfiles(getProfiles())}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,266 @@
+import { useState, useEffect } from 'react';
+import { X, BookMarked, Trash2, Download, Upload, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { KdbConnectionParams, KdbEnvironment, KdbQueryPolicy } from '@/types/kdb';
+import {
+  ConnectionProfile,
+  ENVIRONMENTS,
+  QUERY_POLICIES,
+  getProfiles,
+  saveProfile,
+  deleteProfile,
+  exportProfiles,
+  importProfiles,
+  describeTarget,
+} from '@/lib/connection-profiles';
+import { saveFileContent, createFileInputElement, JSON_FILE_TYPE } from '@/lib/file-utils';
+
+interface ConnectionProfilesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentParams: KdbConnectionParams | null; // What "Save current" stores
+  onProfilesChange: () => void;
+}
+
+export function EnvironmentBadge({ environment }: { environment: KdbEnvironment }) {
+  return (
+    <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase env-badge-${environment}`}>
+      {environment}
+    </span>
+  );
+}
+
+export function ConnectionProfilesModal({
+  isOpen,
+  onClose,
+  currentParams,
+  onProfilesChange,
+}: ConnectionProfilesModalProps) {
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>([]);
+  const [name, setName] = useState('');
+  const [environment, setEnvironment] = useState<KdbEnvironment>('dev');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setProfiles(getProfiles());
+      setMessage(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const refresh = () => {
+    setProfiles(getProfiles());
+    onProfilesChange();
+  };
+
+  const handleSaveCurrent = () => {
+    if (!currentParams || !name.trim()) return;
+    try {
+      const existing = profiles.find(p => p.name === name.trim());
+      saveProfile(name.trim(), currentParams, environment, { id: existing?.id });
+      setMessage({ text: `${existing ? 'Updated' : 'Saved'} profile "${name.trim()}"`, isError: false });
+      setName('');
+      refresh();
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Failed to save profile', isError: true });
+    }
+  };
+
+  const handleEnvironmentChange = (profile: ConnectionProfile, value: KdbEnvironment) => {
+    saveProfile(profile.name, profile, value, { id: profile.id });
+    refresh();
+  };
+
+  const handlePolicyChange = (profile: ConnectionProfile, value: KdbQueryPolicy) => {
+    saveProfile(profile.name, { ...profile, policy: value }, profile.environment, { id: profile.id });
+    refresh();
+  };
+
+  const handleDelete = (profile: ConnectionProfile) => {
+    deleteProfile(profile.id);
+    refresh();
+  };
+
+  const handleExport = async () => {
+    const result = await saveFileContent({
+      content: exportProfiles(),
+      suggestedName: 'kdb-connection-profiles.json',
+      fileType: JSON_FILE_TYPE,
+    });
+    if (!result.success && !result.cancelled) {
+      setMessage({ text: result.error || 'Export failed', isError: true });
+    }
+  };
+
+  const handleImport = () => {
+    const input = createFileInputElement({
+      accept: '.json,application/json',
+      onChange: async (files) => {
+        try {
+          const content = await files[0].text();
+          const { imported, errors } = importProfiles(content);
+          setMessage({
+            text: `Imported ${imported} profile${imported === 1 ? '' : 's'}${errors.length ? `. ${errors.join('; ')}` : ''}`,
+            isError: errors.length > 0 && imported === 0,
+          });
+          refresh();
+        } catch (error) {
+          setMessage({ text: error instanceof Error ? error.message : 'Import failed', isError: true });
+        } finally {
+          input.remove();
+        }
+      },
+    });
+    document.body.appendChild(input);
+    input.click();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-background border border-border rounded-lg shadow-lg w-[600px] max-h-[80vh] overflow-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-lg font-semibold text-foreground flex items-center">
+            <BookMarked className="h-4 w-4 mr-2" />
+            Connection Profiles
+          </h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="h-8 w-8 p-0"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-6">
+          {/* Save current connection */}
+          <div>
+            <h3 className="text-md font-medium text-foreground mb-3 flex items-center">
+              <Save className="h-4 w-4 mr-2" />
+              Save Current Connection
+            </h3>
+            {currentParams ? (
+              <div className="space-y-2">
+                <div className="text-sm text-muted-foreground">
+                  {describeTarget(currentParams)}{currentParams.user ? ` as ${currentParams.user}` : ''}
+                  <span className="ml-1">(the password is never saved)</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Input
+                    placeholder="Profile name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && handleSaveCurrent()}
+                  />
+                  <select
+                    value={environment}
+                    onChange={(e) => setEnvironment(e.target.value as KdbEnvironment)}
+                    className="h-9 px-2 text-sm border border-input rounded-md bg-background text-foreground"
+                  >
+                    {ENVIRONMENTS.map(env => (
+                      <option key={env} value={env}>{env.toUpperCase()}</option>
+                    ))}
+                  </select>
+                  <Button size="sm" onClick={handleSaveCurrent} disabled={!name.trim()}>
+                    Save
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground">
+                Enter a host and port in the connection bar to save it as a profile.
+              </div>
+            )}
+          </div>
+
+          {/* Saved profiles */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-md font-medium text-foreground">Saved Profiles</h3>
+              <div className="flex items-center space-x-2">
+                <Button variant="outline" size="sm" onClick={handleImport}>
+                  <Upload className="h-4 w-4 mr-1" />
+                  Import
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleExport} disabled={profiles.length === 0}>
+                  <Download className="h-4 w-4 mr-1" />
+                  Export
+                </Button>
+              </div>
+            </div>
+
+            {profiles.length === 0 ? (
+              <div className="text-sm text-muted-foreground">No saved profiles yet.</div>
+            ) : (
+              <div className="space-y-2">
+                {profiles.map(profile => (
+                  <div key={profile.id} className="flex items-center justify-between p-2 border border-border rounded-lg">
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <EnvironmentBadge environment={profile.environment} />
+                        <span className="font-medium text-foreground truncate">{profile.name}</span>
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-0.5">
+                        {describeTarget(profile)}{profile.user ? ` as ${profile.user}` : ''}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <select
+                        value={profile.environment}
+                        onChange={(e) => handleEnvironmentChange(profile, e.target.value as KdbEnvironment)}
+                        className="h-8 px-2 text-xs border border-input rounded-md bg-background text-foreground"
+                        title="Environment"
+                      >
+                        {ENVIRONMENTS.map(env => (
+                          <option key={env} value={env}>{env.toUpperCase()}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={profile.policy}
+                        onChange={(e) => handlePolicyChange(profile, e.target.value as KdbQueryPolicy)}
+                        className="h-8 px-2 text-xs border border-input rounded-md bg-background text-foreground"
+                        title="Statements that change the process"
+                      >
+                        {QUERY_POLICIES.map(policy => (
+                          <option key={policy} value={policy}>{policy}</option>
+                        ))}
+                      </select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(profile)}
+                        className="h-8 w-8 p-0"
+                        title="Delete profile"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {message && (
+            <div className={`text-sm ${message.isError ? 'status-error' : 'status-connected'}`}>
+              {message.text}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end space-x-2 p-4 border-t border-border">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
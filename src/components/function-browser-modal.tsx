@@ -0,0 +1,298 @@
+import { useState, useEffect, useCallback } from 'react';
+import { X, FunctionSquare, Search, RefreshCw, Play, Loader2, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { StatementConfirmationModal } from '@/components/statement-confirmation-modal';
+import { KdbApiError } from '@/services/kdb-api';
+import { KdbFunction, KdbFunctionArgument, KdbParameterType, KdbPolicyErrorDetails } from '@/types/kdb';
+import { PARAMETER_TYPES, PARAMETER_TYPE_LABELS, emptyValue, isListType, toFunctionArgument } from '@/lib/function-arguments';
+
+const NAMESPACES_STORAGE_KEY = 'functionNamespaces';
+
+interface FunctionBrowserModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  listFunctions: (namespaces?: string[]) => Promise<KdbFunction[]>;
+  onCallFunction: (name: string, args: KdbFunctionArgument[], confirmed?: boolean) => Promise<unknown>;
+}
+
+// What a failed call says in the form: the q signal, or the statements the query policy refused
+const describeCallError = (error: unknown): string => {
+  if (error instanceof KdbApiError && error.details && 'signal' in error.details) {
+    return `'${error.details.signal}: ${error.details.explanation}`;
+  }
+  if (error instanceof KdbApiError && error.code === 'READ_ONLY' && error.details && 'flagged' in error.details) {
+    const reasons = error.details.flagged.flatMap(statement => statement.reasons.map(reason => reason.detail));
+    return `Read-only connection: the function ${reasons.join('; ').toLowerCase()}`;
+  }
+  return error instanceof Error ? error.message : 'Function call failed';
+};
+
+// Lists the lambdas in the root and chosen namespaces; picking one opens a form with an input per
+// parameter, typed from a guess the user can change, and the call goes to q with typed arguments
+export function FunctionBrowserModal({
+  isOpen,
+  onClose,
+  listFunctions,
+  onCallFunction,
+}: FunctionBrowserModalProps) {
+  const [namespacesText, setNamespacesText] = useState(() => localStorage.getItem(NAMESPACES_STORAGE_KEY) || '');
+  const [functions, setFunctions] = useState<KdbFunction[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selected, setSelected] = useState<KdbFunction | null>(null);
+  const [types, setTypes] = useState<KdbParameterType[]>([]);
+  const [values, setValues] = useState<(string | boolean)[]>([]);
+  const [isCalling, setIsCalling] = useState(false);
+  const [callError, setCallError] = useState<string | null>(null);
+  const [pendingConfirmation, setPendingConfirmation] = useState<KdbPolicyErrorDetails | null>(null);
+
+  const loadFunctions = useCallback(async () => {
+    const namespaces = namespacesText.split(/[\s,]+/).filter(Boolean);
+    localStorage.setItem(NAMESPACES_STORAGE_KEY, namespaces.join(' '));
+    setIsLoading(true);
+    setListError(null);
+    try {
+      setFunctions(await listFunctions(namespaces));
+    } catch (error) {
+      setListError(error instanceof Error ? error.message : 'Failed to list functions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [namespacesText, listFunctions]);
+
+  // Read the functions again every time the browser opens; they change as the process runs
+  useEffect(() => {
+    if (isOpen) {
+      loadFunctions();
+    }
+  }, [isOpen]);
+
+  const handleSelect = (fn: KdbFunction) => {
+    setSelected(fn);
+    setTypes(fn.parameters.map(parameter => parameter.type));
+    setValues(fn.parameters.map(parameter => emptyValue(parameter.type)));
+    setCallError(null);
+  };
+
+  const handleTypeChange = (index: number, type: KdbParameterType) => {
+    setTypes(prev => prev.map((current, i) => (i === index ? type : current)));
+    setValues(prev => prev.map((current, i) => (i === index ? emptyValue(type) : current)));
+  };
+
+  const handleValueChange = (index: number, value: string | boolean) => {
+    setValues(prev => prev.map((current, i) => (i === index ? value : current)));
+  };
+
+  const callSelected = async (confirmed = false) => {
+    if (!selected || isCalling) return;
+    setIsCalling(true);
+    setCallError(null);
+    try {
+      const args = types.map((type, i) => toFunctionArgument(type, values[i]));
+      await onCallFunction(selected.name, args, confirmed);
+      onClose();
+    } catch (error) {
+      if (error instanceof KdbApiError && error.code === 'CONFIRMATION_REQUIRED' && error.details && 'flagged' in error.details) {
+        setPendingConfirmation(error.details);
+      } else {
+        setCallError(describeCallError(error));
+      }
+    } finally {
+      setIsCalling(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    callSelected();
+  };
+
+  const handleConfirm = () => {
+    setPendingConfirmation(null);
+    callSelected(true);
+  };
+
+  if (!isOpen) return null;
+
+  const filteredFunctions = functions.filter(fn => fn.name.toLowerCase().includes(searchTerm.toLowerCase()));
+
+  const renderInput = (type: KdbParameterType, value: string | boolean, index: number) => {
+    const id = `function-arg-${index}`;
+    if (type === 'boolean') {
+      return (
+        <input
+          id={id}
+          type="checkbox"
+          checked={value === true}
+          onChange={(e) => handleValueChange(index, e.target.checked)}
+          className="h-4 w-4"
+        />
+      );
+    }
+    const inputProps = {
+      id,
+      value: String(value),
+      onChange: (e: React.ChangeEvent<HTMLInputElement>) => handleValueChange(index, e.target.value),
+      className: 'font-mono',
+    };
+    switch (type) {
+      case 'date':
+        return <Input {...inputProps} type="date" />;
+      case 'timestamp':
+        return <Input {...inputProps} type="datetime-local" step="0.001" />;
+      case 'time':
+        return <Input {...inputProps} type="time" step="0.001" />;
+      case 'long':
+        return <Input {...inputProps} type="number" step="1" placeholder="Empty for 0N" />;
+      case 'float':
+        return <Input {...inputProps} type="number" step="any" placeholder="Empty for 0n" />;
+      default:
+        return (
+          <Input
+            {...inputProps}
+            placeholder={isListType(type) ? (type === 'dates' ? '2024.01.15 2024.01.16' : 'Space or comma separated') : undefined}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-background border border-border rounded-lg shadow-lg w-[860px] h-[70vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border space-x-3">
+          <h2 className="text-lg font-semibold text-foreground flex items-center whitespace-nowrap">
+            <FunctionSquare className="h-5 w-5 mr-2" />
+            Functions
+          </h2>
+          <div className="flex items-center space-x-2 flex-1 max-w-md">
+            <Input
+              placeholder="Namespaces besides root, e.g. .util .rpt"
+              value={namespacesText}
+              onChange={(e) => setNamespacesText(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && loadFunctions()}
+              className="h-8 text-sm font-mono"
+              title="Lambdas are listed from the root namespace and these namespaces"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={loadFunctions}
+              disabled={isLoading}
+              className="h-8 w-8 p-0 flex-shrink-0"
+              title="Refresh"
+            >
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="h-8 w-8 p-0"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Function list */}
+          <div className="w-64 border-r border-border flex flex-col">
+            <div className="p-2 relative">
+              <Search className="absolute left-5 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search functions..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9 h-8 text-sm"
+              />
+            </div>
+            <div className="flex-1 overflow-y-auto enhanced-scrollbar p-2 pt-0">
+              {listError ? (
+                <div className="p-2 text-sm text-destructive">{listError}</div>
+              ) : filteredFunctions.length === 0 ? (
+                <div className="p-2 text-sm text-muted-foreground text-center">
+                  {isLoading ? 'Loading...' : searchTerm ? 'No functions match your search' : 'No functions found'}
+                </div>
+              ) : (
+                filteredFunctions.map(fn => (
+                  <div
+                    key={fn.name}
+                    onClick={() => handleSelect(fn)}
+                    className={`sidebar-item px-2 py-1.5 rounded cursor-pointer text-sm ${
+                      selected?.name === fn.name ? 'bg-primary/10 border border-primary/20' : 'border border-transparent'
+                    }`}
+                  >
+                    <div className="font-mono truncate text-foreground">{fn.name}</div>
+                    <div className="font-mono text-xs text-muted-foreground truncate">
+                      [{fn.parameters.map(parameter => parameter.name).join(';')}]
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
+          {/* Generated form */}
+          <div className="flex-1 overflow-y-auto enhanced-scrollbar p-4">
+            {!selected ? (
+              <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+                Pick a function to call it
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <div className="font-mono font-semibold text-foreground">{selected.name}</div>
+                  <pre className="mt-2 font-mono text-xs text-muted-foreground bg-muted/50 p-2 rounded max-h-32 overflow-auto whitespace-pre-wrap break-all">{selected.source}</pre>
+                </div>
+
+                {selected.parameters.map((parameter, index) => (
+                  <div key={parameter.name} className="grid grid-cols-[8rem_8rem_1fr] items-center gap-2">
+                    <label htmlFor={`function-arg-${index}`} className="font-mono text-sm text-foreground truncate" title={parameter.name}>
+                      {parameter.name}
+                    </label>
+                    <select
+                      value={types[index]}
+                      onChange={(e) => handleTypeChange(index, e.target.value as KdbParameterType)}
+                      className="h-9 px-2 text-sm border border-input rounded-md bg-background text-foreground"
+                      title="How the argument is sent to q"
+                    >
+                      {PARAMETER_TYPES.map(type => (
+                        <option key={type} value={type}>{PARAMETER_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
+                    {renderInput(types[index], values[index], index)}
+                  </div>
+                ))}
+
+                {callError && (
+                  <div className="flex items-center space-x-2 text-sm bg-destructive/10 border border-destructive/20 p-3 rounded-lg">
+                    <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+                    <span className="text-destructive">{callError}</span>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">Dates and times are sent as UTC; an empty input is a null</span>
+                  <Button type="submit" size="sm" disabled={isCalling}>
+                    {isCalling ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                    Call
+                  </Button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <StatementConfirmationModal
+        isOpen={pendingConfirmation !== null}
+        flagged={pendingConfirmation?.flagged ?? []}
+        onConfirm={handleConfirm}
+        onCancel={() => setPendingConfirmation(null)}
+      />
+    </div>
+  );
+}
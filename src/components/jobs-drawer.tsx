@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Ban, CheckCircle2, Clock, Loader2, Table as TableIcon, X, LucideIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { KdbJob, KdbJobStatus } from '@/types/kdb';
+
+interface JobsDrawerProps {
+  jobs: KdbJob[];
+  onCancelJob: (jobId: string) => Promise<boolean>;
+  onOpenJobResult: (job: KdbJob) => Promise<void>;
+  onClose: () => void;
+}
+
+const STATUS_ICONS: Record<KdbJobStatus, { icon: LucideIcon; className: string }> = {
+  queued: { icon: Clock, className: 'text-muted-foreground' },
+  running: { icon: Loader2, className: 'animate-spin text-primary' },
+  done: { icon: CheckCircle2, className: 'status-connected' },
+  failed: { icon: AlertCircle, className: 'text-destructive' },
+  cancelled: { icon: Ban, className: 'text-muted-foreground' },
+};
+
+const formatElapsed = (ms: number) => (ms < 60000
+  ? `${(ms / 1000).toFixed(1)}s`
+  : `${Math.floor(ms / 60000)}m ${Math.floor((ms % 60000) / 1000)}s`);
+
+// How long a job has run, counting on from the bridge's figure while it still runs
+const elapsedFor = (job: KdbJob, now: number) => {
+  if (job.status === 'running' && job.startedAt) {
+    return formatElapsed(Math.max(0, now - new Date(job.startedAt).getTime()));
+  }
+  return job.elapsedMs !== null ? formatElapsed(job.elapsedMs) : null;
+};
+
+// Running, queued and recent background jobs of the session, newest first
+export function JobsDrawer({ jobs, onCancelJob, onOpenJobResult, onClose }: JobsDrawerProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const [openingJobId, setOpeningJobId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const hasRunning = jobs.some(job => job.status === 'running');
+
+  useEffect(() => {
+    if (!hasRunning) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, [hasRunning]);
+
+  const handleOpen = async (job: KdbJob) => {
+    setOpeningJobId(job.id);
+    setError(null);
+    try {
+      await onOpenJobResult(job);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open job result');
+    } finally {
+      setOpeningJobId(null);
+    }
+  };
+
+  const handleCancel = async (job: KdbJob) => {
+    setError(null);
+    try {
+      await onCancelJob(job.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel job');
+    }
+  };
+
+  return (
+    <div className="border border-border rounded-lg bg-background card-finance max-h-56 flex flex-col">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <span className="text-sm font-semibold text-foreground">Background jobs</span>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onClose} title="Hide jobs">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 text-xs text-destructive px-3 py-1">
+          <AlertCircle className="h-3 w-3" />
+          <span className="truncate">{error}</span>
+        </div>
+      )}
+
+      <div className="overflow-y-auto enhanced-scrollbar">
+        {jobs.length === 0 ? (
+          <div className="text-xs text-muted-foreground px-3 py-3">
+            No jobs yet. Run a query in the background with Ctrl/Cmd + Shift + Enter.
+          </div>
+        ) : jobs.map((job) => {
+          const elapsed = elapsedFor(job, now);
+          const { icon: StatusIcon, className: statusClassName } = STATUS_ICONS[job.status];
+          return (
+            <div key={job.id} className="flex items-center space-x-2 px-3 py-1.5 text-sm border-b border-border/50 last:border-b-0">
+              <span title={job.status}><StatusIcon className={`h-4 w-4 ${statusClassName}`} /></span>
+              <code className="font-mono text-xs truncate flex-1 min-w-0" title={job.query}>
+                {job.query.split('\n')[0]}
+              </code>
+              {job.status === 'failed' && job.error && (
+                <span className="text-xs text-destructive truncate max-w-xs" title={job.error.message}>
+                  {job.error.message}
+                </span>
+              )}
+              {job.status === 'done' && job.rowCount !== null && (
+                <span className="text-xs text-muted-foreground whitespace-nowrap">{job.rowCount.toLocaleString()} rows</span>
+              )}
+              <span className="text-xs text-muted-foreground font-mono whitespace-nowrap w-16 text-right">
+                {job.status === 'queued' ? 'queued' : elapsed}
+              </span>
+              {job.status === 'done' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => handleOpen(job)}
+                  disabled={openingJobId !== null}
+                  title="Show the result in the grid"
+                >
+                  {openingJobId === job.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <TableIcon className="h-3 w-3 mr-1" />}
+                  Open
+                </Button>
+              )}
+              {(job.status === 'queued' || job.status === 'running') && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 hover:bg-destructive/20"
+                  onClick={() => handleCancel(job)}
+                  title={job.status === 'running' ? 'Cancel' : 'Remove from the queue'}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
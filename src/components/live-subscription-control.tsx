@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Radio, Square, Loader2, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { KdbTable } from '@/types/kdb';
+import { LiveStatus, DEFAULT_LIVE_BUFFER_SIZE } from '@/hooks/use-live-subscription';
+import { toStringValue } from '@/lib/utils';
+
+const BUFFER_SIZES = [1000, 10000, 50000, 100000];
+
+interface LiveSubscriptionControlProps {
+  status: LiveStatus;
+  table: string | null;
+  error: string | null;
+  bufferedRows: number;
+  totalRows: number;
+  tables: KdbTable[];
+  disabled: boolean;
+  onStart: (table: string, syms: string[], bufferSize: number) => Promise<boolean>;
+  onStop: () => void;
+}
+
+export function LiveSubscriptionControl({
+  status,
+  table,
+  error,
+  bufferedRows,
+  totalRows,
+  tables,
+  disabled,
+  onStart,
+  onStop,
+}: LiveSubscriptionControlProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [tableName, setTableName] = useState('');
+  const [syms, setSyms] = useState('');
+  const [bufferSize, setBufferSize] = useState(DEFAULT_LIVE_BUFFER_SIZE);
+
+  const isActive = status === 'live' || status === 'reconnecting';
+
+  const handleStart = async () => {
+    if (!tableName.trim()) return;
+    // Syms may be separated by spaces, commas or backticks
+    const symList = syms.split(/[\s,`]+/).filter(Boolean);
+    const success = await onStart(tableName.trim(), symList, bufferSize);
+    if (success) {
+      setIsOpen(false);
+    }
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleStart();
+    }
+  };
+
+  if (isActive) {
+    return (
+      <div className="flex items-center space-x-2">
+        <div
+          className={`flex items-center space-x-1.5 px-2 py-1 rounded-md text-sm ${
+            status === 'live' ? 'status-indicator-bg-connected status-connected' : 'status-indicator-bg-connecting status-connecting'
+          }`}
+          title={`${totalRows.toLocaleString()} rows received, last ${bufferedRows.toLocaleString()} kept`}
+        >
+          {status === 'live' ? <Radio className="h-4 w-4 animate-pulse" /> : <Loader2 className="h-4 w-4 animate-spin" />}
+          <span className="font-medium">{status === 'live' ? 'LIVE' : 'Reconnecting'}</span>
+          <span>{table}</span>
+          <span className="text-muted-foreground">{bufferedRows.toLocaleString()} rows</span>
+        </div>
+        <Button variant="outline" size="sm" onClick={onStop} title="Stop live updates">
+          <Square className="h-3 w-3 mr-1" />
+          Stop
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled}
+        title="Subscribe to live tickerplant updates"
+      >
+        {status === 'subscribing' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Radio className="h-4 w-4 mr-1" />}
+        Live
+      </Button>
+      {isOpen && !disabled && (
+        <div className="absolute right-0 top-10 z-50 w-72 p-3 space-y-2 bg-background border border-border rounded-lg shadow-lg">
+          <div>
+            <label htmlFor="live-table" className="text-xs text-muted-foreground">Table</label>
+            <Input
+              id="live-table"
+              placeholder="trade"
+              list="live-table-names"
+              value={tableName}
+              onChange={(e) => setTableName(e.target.value)}
+              onKeyPress={handleKeyPress}
+              autoFocus
+            />
+            <datalist id="live-table-names">
+              {tables.map(t => (
+                <option key={toStringValue(t.name)} value={toStringValue(t.name)} />
+              ))}
+            </datalist>
+          </div>
+          <div>
+            <label htmlFor="live-syms" className="text-xs text-muted-foreground">Syms (blank for all)</label>
+            <Input
+              id="live-syms"
+              placeholder="AAPL MSFT"
+              value={syms}
+              onChange={(e) => setSyms(e.target.value)}
+              onKeyPress={handleKeyPress}
+            />
+          </div>
+          <div>
+            <label htmlFor="live-buffer" className="text-xs text-muted-foreground">Keep last</label>
+            <select
+              id="live-buffer"
+              value={bufferSize}
+              onChange={(e) => setBufferSize(parseInt(e.target.value))}
+              className="w-full h-9 px-2 text-sm border border-input rounded-md bg-background text-foreground"
+            >
+              {BUFFER_SIZES.map(size => (
+                <option key={size} value={size}>{size.toLocaleString()} rows</option>
+              ))}
+            </select>
+          </div>
+          {status === 'error' && error && (
+            <div className="flex items-start space-x-1 text-xs status-error">
+              <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+          <Button
+            size="sm"
+            className="w-full"
+            onClick={handleStart}
+            disabled={!tableName.trim() || status === 'subscribing'}
+          >
+            {status === 'subscribing' ? 'Subscribing...' : 'Subscribe'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import React, { useState, useRef, useMemo, useEffect, forwardRef, useImperativeHandle } from 'react';
 import { Button } from '@/components/ui/button';
-import { AlertCircle, Code, FolderOpen, Plus, X, FileText, Download, Loader2 } from 'lucide-react';
-import { KdbQueryResult } from '@/types/kdb';
+import { AlertCircle, Code, FolderOpen, Plus, X, FileText, Download, Loader2, CornerDownRight, ShieldAlert, ListChecks, Timer } from 'lucide-react';
+import { KdbJob, KdbPolicyErrorDetails, KdbQueryErrorDetails, KdbQueryProgress, KdbQueryResult } from '@/types/kdb';
+import { KdbApiError } from '@/services/kdb-api';
+import { StatementConfirmationModal } from '@/components/statement-confirmation-modal';
+import { JobsDrawer } from '@/components/jobs-drawer';
 import { 
   loadMultipleFiles, 
   saveFileContent, 
@@ -13,10 +16,15 @@ import {
 } from '@/lib/file-utils';
 
 interface QueryExecutorSimpleProps {
-  onExecuteQuery: (query: string) => Promise<KdbQueryResult>;
+  onExecuteQuery: (query: string, confirmed?: boolean) => Promise<KdbQueryResult>;
   isExecuting: boolean;
+  progress?: KdbQueryProgress | null;
   onCancelQuery?: () => void;
   onQueryExecuted?: () => void;
+  jobs?: KdbJob[];
+  onSubmitJob?: (query: string, confirmed?: boolean) => Promise<KdbJob>;
+  onCancelJob?: (jobId: string) => Promise<boolean>;
+  onOpenJobResult?: (job: KdbJob) => Promise<void>;
 }
 
 interface QueryTab {
@@ -134,7 +142,7 @@ export interface QueryExecutorRef {
   focusTextarea: () => void;
 }
 
-export const QueryExecutorSimple = forwardRef<QueryExecutorRef, QueryExecutorSimpleProps>(({ onExecuteQuery, isExecuting, onCancelQuery, onQueryExecuted }, ref) => {
+export const QueryExecutorSimple = forwardRef<QueryExecutorRef, QueryExecutorSimpleProps>(({ onExecuteQuery, isExecuting, progress, onCancelQuery, onQueryExecuted, jobs = [], onSubmitJob, onCancelJob, onOpenJobResult }, ref) => {
   // Helper to generate unique IDs
   const generateTabId = () => `tab-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
@@ -151,10 +159,31 @@ export const QueryExecutorSimple = forwardRef<QueryExecutorRef, QueryExecutorSim
   const [tabs, setTabs] = useState<QueryTab[]>([initialTab]);
   const [activeTabId, setActiveTabId] = useState<string>(initialTab.id);
   const [error, setError] = useState<string | null>(null);
+  // A q error from the last run, shown in its own panel
+  const [queryError, setQueryError] = useState<KdbQueryErrorDetails | null>(null);
+  // Statements a read-only connection refused to run
+  const [refusal, setRefusal] = useState<KdbPolicyErrorDetails | null>(null);
+  // A query waiting for the user to confirm the statements the connection's policy flagged
+  const [pendingConfirmation, setPendingConfirmation] = useState<{ query: string; details: KdbPolicyErrorDetails; background: boolean } | null>(null);
+  const [isJobsOpen, setIsJobsOpen] = useState(false);
+  const activeJobCount = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+  // Where the text of the last run starts in the editor, to find a failing statement again
+  const runOffsetRef = useRef(0);
   
   // Execution time tracking
   const [executionStartTime, setExecutionStartTime] = useState<number | null>(null);
   const [elapsedTime, setElapsedTime] = useState<string>('0.0s');
+
+  // Rows and bytes received so far while a result streams in
+  const progressText = useMemo(() => {
+    if (!progress) return null;
+    const { rowsReceived, bytesReceived, totalRows } = progress;
+    const size = bytesReceived < 1024 * 1024
+      ? `${(bytesReceived / 1024).toFixed(1)} KB`
+      : `${(bytesReceived / (1024 * 1024)).toFixed(1)} MB`;
+    const rows = totalRows !== null ? `${rowsReceived.toLocaleString()} of ${totalRows.toLocaleString()}` : rowsReceived.toLocaleString();
+    return `${rows} rows · ${size}`;
+  }, [progress]);
   
   // File operation state
   
@@ -272,25 +301,86 @@ export const QueryExecutorSimple = forwardRef<QueryExecutorRef, QueryExecutorSim
     focusTextarea
   }), []);
 
-  // Enhanced execution function for smart query selection
-  const executeQuery = async (queryToExecute: string) => {
-    if (!queryToExecute || isExecuting) return;
+  // The selection if that is what runs, otherwise the first place the text appears
+  const locateInEditor = (text: string): number => {
+    const textarea = textareaRef.current;
+    if (textarea && textarea.selectionStart !== textarea.selectionEnd && query.slice(textarea.selectionStart, textarea.selectionEnd) === text) {
+      return textarea.selectionStart;
+    }
+    return Math.max(0, query.indexOf(text));
+  };
+
+  // Enhanced execution function for smart query selection. In the background the query is queued
+  // as a job on the bridge and the editor stays free; its result is opened from the jobs drawer.
+  const executeQuery = async (queryToExecute: string, confirmed = false, background = false) => {
+    if (!queryToExecute || (isExecuting && !background)) return;
 
     try {
       setError(null);
-      await onExecuteQuery(queryToExecute);
+      setQueryError(null);
+      setRefusal(null);
+      runOffsetRef.current = locateInEditor(queryToExecute);
+      if (background && onSubmitJob) {
+        await onSubmitJob(queryToExecute, confirmed);
+        setIsJobsOpen(true);
+        onQueryExecuted?.();
+        return;
+      }
+      await onExecuteQuery(queryToExecute, confirmed);
       // Call the callback after successful query execution
       onQueryExecuted?.();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Query execution failed');
+      if (err instanceof KdbApiError && err.code === 'CONFIRMATION_REQUIRED' && err.details && 'flagged' in err.details) {
+        // Nothing ran yet; ask, and focus the editor once the dialog closes
+        setPendingConfirmation({ query: queryToExecute, details: err.details, background });
+        return;
+      } else if (err instanceof KdbApiError && err.code === 'READ_ONLY' && err.details && 'flagged' in err.details) {
+        setRefusal(err.details);
+      } else if (err instanceof KdbApiError && err.details && 'signal' in err.details) {
+        setQueryError(err.details);
+      } else {
+        setError(err instanceof Error ? err.message : 'Query execution failed');
+      }
       // Still focus on error for better UX
       onQueryExecuted?.();
     }
   };
 
+  const handleConfirmStatements = () => {
+    if (!pendingConfirmation) return;
+    const { query: confirmedQuery, background } = pendingConfirmation;
+    setPendingConfirmation(null);
+    executeQuery(confirmedQuery, true, background);
+  };
+
+  const handleCancelStatements = () => {
+    setPendingConfirmation(null);
+    onQueryExecuted?.();
+  };
+
+  // Select the statement that signalled the error and scroll it into view
+  const goToFailingStatement = () => {
+    const textarea = textareaRef.current;
+    const statement = queryError?.statement;
+    if (!textarea || !statement) return;
+
+    const lines = query.slice(runOffsetRef.current).split('\n');
+    const lineStart = (line: number) => runOffsetRef.current + lines.slice(0, line).reduce((length, text) => length + text.length + 1, 0);
+    const firstLine = statement.line - 1;
+    const lastLine = Math.min(firstLine + statement.text.split('\n').length, lines.length);
+    const start = lineStart(firstLine);
+    const end = Math.min(lineStart(lastLine) - 1, query.length);
+
+    textarea.focus();
+    textarea.setSelectionRange(start, Math.max(start, end));
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    const editorLine = query.slice(0, start).split('\n').length - 1;
+    textarea.scrollTop = Math.max(0, (editorLine - 2) * lineHeight);
+  };
+
   // Execute selected text or current query at cursor
-  const handleExecuteSelected = async () => {
-    if (!query.trim() || isExecuting) return;
+  const handleExecuteSelected = async (background = false) => {
+    if (!query.trim() || (isExecuting && !background)) return;
     
     const queryToExecute = getSelectedOrCurrentQuery(textareaRef, query);
     
@@ -306,7 +396,7 @@ export const QueryExecutorSimple = forwardRef<QueryExecutorRef, QueryExecutorSim
       return;
     }
     
-    await executeQuery(queryToExecute);
+    await executeQuery(queryToExecute, false, background);
   };
 
   // Legacy function for backward compatibility (Ctrl+Enter)
@@ -393,7 +483,10 @@ export const QueryExecutorSimple = forwardRef<QueryExecutorRef, QueryExecutorSim
   const handleKeyDown = (e: React.KeyboardEvent) => {
     const isCtrlCmd = e.ctrlKey || e.metaKey;
     
-    if (isCtrlCmd && e.key === 'Enter') {
+    if (isCtrlCmd && e.shiftKey && e.key === 'Enter' && onSubmitJob) {
+      e.preventDefault();
+      handleExecuteSelected(true);
+    } else if (isCtrlCmd && e.key === 'Enter') {
       e.preventDefault();
       handleExecute();
     } else if (isCtrlCmd && e.key.toLowerCase() === 'e') {
@@ -488,6 +581,31 @@ export const QueryExecutorSimple = forwardRef<QueryExecutorRef, QueryExecutorSim
         </div>
         
         <div className="flex items-center space-x-2">
+          {onSubmitJob && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleExecuteSelected(true)}
+                disabled={!activeTab || !activeTab.query.trim()}
+                title="Run in Background (Ctrl/Cmd + Shift + Enter)"
+                className="btn-modern"
+              >
+                <Timer className="h-4 w-4 mr-2" />
+                Background
+              </Button>
+              <Button
+                variant={isJobsOpen ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setIsJobsOpen(prev => !prev)}
+                title="Show running and recent jobs"
+                className="btn-modern"
+              >
+                {activeJobCount > 0 ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ListChecks className="h-4 w-4 mr-2" />}
+                Jobs{activeJobCount > 0 ? ` (${activeJobCount})` : ''}
+              </Button>
+            </>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -583,7 +701,7 @@ export const QueryExecutorSimple = forwardRef<QueryExecutorRef, QueryExecutorSim
             onDragLeave={handleDragLeave}
             onDragOver={handleDragOverEvent}
             onDrop={handleDropEvent}
-            placeholder="Enter your q query here... (Ctrl/Cmd + Enter to execute, Ctrl/Cmd + O to load file, Ctrl/Cmd + S to save, drag & drop .q files)"
+            placeholder="Enter your q query here... (Ctrl/Cmd + Enter to execute, Ctrl/Cmd + Shift + Enter to run in the background, Ctrl/Cmd + O to load file, Ctrl/Cmd + S to save, drag & drop .q files)"
             className={`query-editor w-full h-full px-4 py-3 rounded-lg bg-background border-2 overflow-x-auto whitespace-pre focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary font-mono text-sm text-foreground transition-all enhanced-scrollbar ${isExecuting ? 'query-editor-executing border-primary/50' : 'border-input hover:border-primary/50'}`}
             disabled={isExecuting || !activeTab}
             style={{ resize: 'none', minHeight: '120px' }}
@@ -594,11 +712,52 @@ export const QueryExecutorSimple = forwardRef<QueryExecutorRef, QueryExecutorSim
                 <Loader2 className="h-8 w-8 animate-spin text-primary" />
                 <div className="query-executing-text text-primary font-semibold">Executing query...</div>
                 <div className="query-executing-timer badge-info">{elapsedTime}</div>
+                {progressText && <div className="text-xs text-muted-foreground font-mono">{progressText}</div>}
               </div>
             </div>
           )}
         </div>
 
+        {queryError && (
+          <div className="text-sm bg-destructive/10 border border-destructive/20 p-3 rounded-lg card-finance space-y-1">
+            <div className="flex items-center space-x-2">
+              <AlertCircle className="h-4 w-4 text-destructive" />
+              <span className="font-mono font-semibold text-destructive">'{queryError.signal}</span>
+              <span className="text-destructive">{queryError.explanation}</span>
+            </div>
+            {queryError.statement && (
+              <button
+                onClick={goToFailingStatement}
+                className="flex items-center space-x-1 text-muted-foreground hover:text-primary"
+                title="Select the statement in the editor"
+              >
+                <CornerDownRight className="h-3 w-3" />
+                <span>
+                  {queryError.statement.count > 1 ? `Statement ${queryError.statement.index + 1} of ${queryError.statement.count}, ` : ''}
+                  line {queryError.statement.line}:
+                </span>
+                <code className="font-mono truncate max-w-md">{queryError.statement.text.split('\n')[0]}</code>
+              </button>
+            )}
+          </div>
+        )}
+
+        {refusal && (
+          <div className="text-sm bg-destructive/10 border border-destructive/20 p-3 rounded-lg card-finance space-y-1">
+            <div className="flex items-center space-x-2">
+              <ShieldAlert className="h-4 w-4 text-destructive" />
+              <span className="text-destructive font-medium">Read-only connection: nothing was run</span>
+            </div>
+            {refusal.flagged.map((statement) => (
+              <div key={statement.index} className="flex items-center space-x-2 text-muted-foreground">
+                <span className="whitespace-nowrap">Statement {statement.index + 1}, line {statement.line}:</span>
+                <code className="font-mono truncate max-w-md">{statement.text.split('\n')[0]}</code>
+                <span className="text-destructive truncate">{statement.reasons.map(reason => reason.detail).join('; ')}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {error && (
           <div className="flex items-center space-x-2 text-sm bg-destructive/10 border border-destructive/20 p-3 rounded-lg card-finance">
             <AlertCircle className="h-4 w-4 text-destructive" />
@@ -607,18 +766,37 @@ export const QueryExecutorSimple = forwardRef<QueryExecutorRef, QueryExecutorSim
         )}
 
 
+        {isJobsOpen && onCancelJob && onOpenJobResult && (
+          <JobsDrawer
+            jobs={jobs}
+            onCancelJob={onCancelJob}
+            onOpenJobResult={onOpenJobResult}
+            onClose={() => setIsJobsOpen(false)}
+          />
+        )}
+
         {/* Execution status bar */}
         {isExecuting && executionStartTime && (
           <div className="flex items-center justify-between bg-primary/5 p-3 rounded-lg border border-primary/20 card-finance">
             <div className="flex items-center space-x-3">
               <div className="pulse-live"></div>
-              <span className="text-primary font-semibold text-sm">Executing query...</span>
+              <span className="text-primary font-semibold text-sm">{progressText ? 'Receiving rows...' : 'Executing query...'}</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              {progressText && <span className="text-muted-foreground font-mono text-xs">{progressText}</span>}
+              <span className="badge-info font-mono text-xs">{elapsedTime}</span>
             </div>
-            <span className="badge-info font-mono text-xs">{elapsedTime}</span>
           </div>
         )}
 
       </div>
+
+      <StatementConfirmationModal
+        isOpen={pendingConfirmation !== null}
+        flagged={pendingConfirmation?.details.flagged ?? []}
+        onConfirm={handleConfirmStatements}
+        onCancel={handleCancelStatements}
+      />
     </div>
   );
 });
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { X, BarChart3 } from 'lucide-react';
+import { X, BarChart3, Timer, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 interface SettingsModalProps {
@@ -6,6 +6,12 @@ interface SettingsModalProps {
   onClose: () => void;
   chartDataSource: 'full' | 'displayed';
   onChartDataSourceChange: (value: 'full' | 'displayed') => void;
+  queryTimeoutSeconds: number;
+  onQueryTimeoutChange: (seconds: number) => void;
+  resultRowLimit: number;
+  onResultRowLimitChange: (rows: number) => void;
+  csvNullToken: string;
+  onCsvNullTokenChange: (token: string) => void;
   fullDataRowCount?: number;
   displayedDataRowCount?: number;
 }
@@ -15,6 +21,12 @@ export function SettingsModal({
   onClose,
   chartDataSource,
   onChartDataSourceChange,
+  queryTimeoutSeconds,
+  onQueryTimeoutChange,
+  resultRowLimit,
+  onResultRowLimitChange,
+  csvNullToken,
+  onCsvNullTokenChange,
   fullDataRowCount = 0,
   displayedDataRowCount = 0,
 }: SettingsModalProps) {
@@ -77,6 +89,71 @@ export function SettingsModal({
               </label>
             </div>
           </div>
+
+          {/* Query Execution Section */}
+          <div>
+            <h3 className="text-md font-medium text-foreground mb-3 flex items-center">
+              <Timer className="h-4 w-4 mr-2" />
+              Query Execution
+            </h3>
+
+            <label className="flex items-center justify-between p-3 border border-border rounded-lg">
+              <div>
+                <div className="font-medium text-foreground">Query timeout (seconds)</div>
+                <div className="text-sm text-muted-foreground mt-1">
+                  The bridge stops waiting and resets the connection after this long. 0 uses the bridge default.
+                </div>
+              </div>
+              <input
+                type="number"
+                min={0}
+                value={queryTimeoutSeconds}
+                onChange={(e) => onQueryTimeoutChange(Math.max(0, parseInt(e.target.value) || 0))}
+                className="w-20 h-8 px-2 ml-3 text-sm border border-input rounded-md bg-background text-foreground"
+              />
+            </label>
+
+            <label className="flex items-center justify-between p-3 mt-2 border border-border rounded-lg">
+              <div>
+                <div className="font-medium text-foreground">Row limit</div>
+                <div className="text-sm text-muted-foreground mt-1">
+                  Query results stop loading after this many rows. 0 loads every row.
+                </div>
+              </div>
+              <input
+                type="number"
+                min={0}
+                step={10000}
+                value={resultRowLimit}
+                onChange={(e) => onResultRowLimitChange(Math.max(0, parseInt(e.target.value) || 0))}
+                className="w-28 h-8 px-2 ml-3 text-sm border border-input rounded-md bg-background text-foreground"
+              />
+            </label>
+          </div>
+
+          {/* CSV Export Section */}
+          <div>
+            <h3 className="text-md font-medium text-foreground mb-3 flex items-center">
+              <Download className="h-4 w-4 mr-2" />
+              CSV Export
+            </h3>
+
+            <label className="flex items-center justify-between p-3 border border-border rounded-lg">
+              <div>
+                <div className="font-medium text-foreground">Null token</div>
+                <div className="text-sm text-muted-foreground mt-1">
+                  Written for q nulls (0N, 0Np, ` ...) when exporting or copying rows. Leave empty for blank fields.
+                </div>
+              </div>
+              <input
+                type="text"
+                value={csvNullToken}
+                placeholder="(empty)"
+                onChange={(e) => onCsvNullTokenChange(e.target.value)}
+                className="w-20 h-8 px-2 ml-3 text-sm border border-input rounded-md bg-background text-foreground"
+              />
+            </label>
+          </div>
         </div>
 
         {/* Footer */}
@@ -0,0 +1,74 @@
+import { X, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { KdbFlaggedStatement } from '@/types/kdb';
+
+interface StatementConfirmationModalProps {
+  isOpen: boolean;
+  flagged: KdbFlaggedStatement[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Asks before running statements the connection's query policy flagged, listing each one and why
+export function StatementConfirmationModal({
+  isOpen,
+  flagged,
+  onConfirm,
+  onCancel,
+}: StatementConfirmationModalProps) {
+  if (!isOpen) return null;
+
+  const count = `${flagged.length} statement${flagged.length === 1 ? '' : 's'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-background border border-border rounded-lg shadow-lg w-[560px] max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-lg font-semibold text-foreground flex items-center">
+            <ShieldAlert className="h-5 w-5 mr-2 text-warning" />
+            Confirm changes
+          </h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onCancel}
+            className="h-8 w-8 p-0"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-3 overflow-y-auto enhanced-scrollbar">
+          <div className="text-sm text-muted-foreground">
+            This connection asks before running anything that changes the q process. {count} would:
+          </div>
+          {flagged.map((statement) => (
+            <div key={statement.index} className="p-3 border border-border rounded-lg space-y-2">
+              <div className="text-xs text-muted-foreground">
+                Statement {statement.index + 1}, line {statement.line}
+              </div>
+              <pre className="font-mono text-sm text-foreground whitespace-pre-wrap break-all bg-muted/50 p-2 rounded">{statement.text}</pre>
+              <ul className="text-sm text-warning list-disc list-inside">
+                {statement.reasons.map((reason) => (
+                  <li key={reason.detail}>{reason.detail}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end space-x-2 p-4 border-t border-border">
+          <Button variant="outline" size="sm" onClick={onCancel} autoFocus>
+            Cancel
+          </Button>
+          <Button variant="destructive" size="sm" onClick={onConfirm}>
+            Run anyway
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
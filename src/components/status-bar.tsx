@@ -1,11 +1,12 @@
 import { Database, Hash, Clock, Activity, Zap, TrendingUp } from 'lucide-react';
-import { KdbQueryResult } from '@/types/kdb';
+import { KdbQueryResult, ConnectionStatus } from '@/types/kdb';
+import { KDB_TYPE_SIZES, isNumericType } from '@/lib/kdb-types';
 
 interface StatusBarProps {
   data: KdbQueryResult | null;
   isLoading: boolean;
   queryTime?: number;
-  connectionStatus: 'connected' | 'connecting' | 'disconnected' | 'error';
+  connectionStatus: ConnectionStatus;
 }
 
 export function StatusBar({ data, queryTime, connectionStatus }: StatusBarProps) {
@@ -13,9 +14,11 @@ export function StatusBar({ data, queryTime, connectionStatus }: StatusBarProps)
   const rowCount = data?.data?.length || 0;
   const columnCount = data?.columns?.length || 0;
   
-  // Calculate numeric column stats
-  const numericColumns = data?.columns?.filter((_, idx) => 
-    data.data.some(row => typeof row[idx] === 'number')
+  // Calculate numeric column stats from the q types, falling back to the values without metadata
+  const numericColumns = data?.columns?.filter((_, idx) =>
+    data.meta?.types?.length
+      ? isNumericType(data.meta.types[idx])
+      : data.data.some(row => typeof row[idx] === 'number')
   ).length || 0;
   
   // Format query time
@@ -27,17 +30,6 @@ export function StatusBar({ data, queryTime, connectionStatus }: StatusBarProps)
   
   // KDB+ type to byte size mapping
   const getKdbTypeSize = (type: string, columnIndex?: number): number => {
-    const typeSizes: Record<string, number> = {
-      // KDB+ primitive types
-      'boolean': 1, 'byte': 1, 'short': 2, 'int': 4, 'long': 8,
-      'real': 4, 'float': 8, 'char': 1, 'symbol': 8,
-      // KDB+ temporal types
-      'timestamp': 8, 'datetime': 8, 'timespan': 8,
-      'date': 4, 'month': 4, 'minute': 4, 'second': 4, 'time': 4,
-      // Inferred types from server
-      'number': 8
-    };
-    
     // Handle variable-length string types
     if (type === 'string' && columnIndex !== undefined && data?.data) {
       // Calculate average string length for this column
@@ -56,7 +48,7 @@ export function StatusBar({ data, queryTime, connectionStatus }: StatusBarProps)
       return validStrings > 0 ? Math.max(1, Math.round(totalLength / validStrings)) : 8;
     }
     
-    return typeSizes[type] || 8; // fallback to 8 bytes
+    return KDB_TYPE_SIZES[type] || 8; // fallback to 8 bytes
   };
 
   // Calculate accurate data size using type information
@@ -150,13 +142,16 @@ export function StatusBar({ data, queryTime, connectionStatus }: StatusBarProps)
         {/* Connection Status */}
         <div className="flex items-center space-x-1.5">
           <Zap className={`h-3 w-3 ${
-            connectionStatus === 'connected' ? 'text-success' : 'text-muted-foreground'
+            connectionStatus === 'connected' ? 'text-success' :
+            connectionStatus === 'reconnecting' ? 'text-warning' : 'text-muted-foreground'
           }`} />
           <span className="text-muted-foreground">Connection:</span>
           <span className={`font-medium ${
-            connectionStatus === 'connected' ? 'text-success' : ''
+            connectionStatus === 'connected' ? 'text-success' :
+            connectionStatus === 'reconnecting' ? 'text-warning' : ''
           }`}>
-            {connectionStatus === 'connected' ? 'Active' : 'Inactive'}
+            {connectionStatus === 'connected' ? 'Active' :
+             connectionStatus === 'reconnecting' ? 'Reconnecting' : 'Inactive'}
           </span>
         </div>
         
@@ -1,23 +1,313 @@
-import { useState } from 'react';
-import { Table, Search, Database, Hash, PanelLeftClose } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Table, Search, Database, PanelLeftClose, Folder, FolderOpen, KeyRound, Eye, FunctionSquare, Braces, Variable,
+  ChevronRight, ChevronDown, RefreshCw, Loader2, X, LucideIcon
+} from 'lucide-react';
 import { Input } from '@/components/ui/input';
-import { KdbTable } from '@/types/kdb';
-import { formatNumber, toStringValue } from '@/lib/utils';
+import { KdbEntryKind, KdbNamespaceEntry, KdbQueryResult, KdbTable, KdbTableMetadata, KdbTablePartitions } from '@/types/kdb';
+import { formatNumber } from '@/lib/utils';
+
+const ROOT = '.';
+
+const KIND_ICONS: Record<KdbEntryKind, LucideIcon> = {
+  namespace: Folder,
+  table: Table,
+  keyedTable: KeyRound,
+  view: Eye,
+  function: FunctionSquare,
+  dictionary: Braces,
+  variable: Variable,
+};
 
 interface TableSidebarProps {
   tables: KdbTable[];
   selectedTable: string | null;
-  onTableSelect: (tableName: string) => void;
+  selectedPartition: string | null;
+  onTableSelect: (tableName: string, partition?: string) => void;
+  tableMetadata: Record<string, KdbTableMetadata>;
+  loadTableMetadata: (tableName: string, options?: { refresh?: boolean; count?: boolean }) => Promise<KdbTableMetadata>;
+  tablePartitions: Record<string, KdbTablePartitions>;
+  loadTablePartitions: (tableName: string, refresh?: boolean) => Promise<KdbTablePartitions>;
+  onRefresh: () => void;
+  listNamespace: (namespace?: string) => Promise<KdbNamespaceEntry[]>;
+  previewEntry: (name: string) => Promise<KdbQueryResult>;
+  onPreviewEntry: (name: string) => Promise<void>;
   onToggleSidebar?: () => void;
 }
 
-export function TableSidebar({ tables, selectedTable, onTableSelect, onToggleSidebar }: TableSidebarProps) {
+// The last part of a qualified name: .ns.sub.trade -> trade, .ns -> ns
+const shortName = (name: string): string => name.slice(name.lastIndexOf('.') + 1) || name;
+
+const isTable = (entry: KdbNamespaceEntry): boolean => entry.kind === 'table' || entry.kind === 'keyedTable';
+
+// What the tree shows next to an entry: rows, keys, or the type (and count for a list). A
+// partitioned table has no count until it is asked for.
+const describeEntry = (entry: KdbNamespaceEntry, metadata?: KdbTableMetadata): string => {
+  if (entry.kind === 'view') return 'view';
+  if (isTable(entry)) {
+    const rows = metadata?.rowCount ?? entry.count;
+    return rows === null ? 'partitioned' : `${formatNumber(rows)} rows`;
+  }
+  if (entry.count === null || entry.typeCode === null) return '';
+  switch (entry.kind) {
+    case 'dictionary':
+      return `${formatNumber(entry.count)} keys`;
+    case 'variable':
+      return entry.typeCode < 0 ? entry.type ?? '' : `${formatNumber(entry.count)} ${entry.type}`;
+    default:
+      return '';
+  }
+};
+
+// The q process as a tree: namespaces (each read when first opened), then tables, keyed tables,
+// views, functions, dictionaries and other variables. Tables open in the grid page by page and
+// expand to their columns, with a partition picker for a partitioned table; functions show their
+// source here, and anything else is previewed in the grid.
+export function TableSidebar({
+  tables,
+  selectedTable,
+  selectedPartition,
+  onTableSelect,
+  tableMetadata,
+  loadTableMetadata,
+  tablePartitions,
+  loadTablePartitions,
+  onRefresh,
+  listNamespace,
+  previewEntry,
+  onPreviewEntry,
+  onToggleSidebar,
+}: TableSidebarProps) {
   const [searchTerm, setSearchTerm] = useState('');
+  const [children, setChildren] = useState<Record<string, KdbNamespaceEntry[]>>({});
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState<Set<string>>(new Set());
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [functionSource, setFunctionSource] = useState<{ name: string; source: string } | null>(null);
 
-  const filteredTables = tables.filter(table =>
-    toStringValue(table.name).toLowerCase().includes(searchTerm.toLowerCase()) ||
-    table.columns.some(col => toStringValue(col).toLowerCase().includes(searchTerm.toLowerCase()))
-  );
+  const setFlag = (setter: typeof setLoading, name: string, on: boolean) => {
+    setter(prev => {
+      const next = new Set(prev);
+      if (on) next.add(name); else next.delete(name);
+      return next;
+    });
+  };
+
+  const setError = (name: string, message: string | null) => {
+    setErrors(prev => {
+      const next = { ...prev };
+      if (message === null) delete next[name]; else next[name] = message;
+      return next;
+    });
+  };
+
+  const loadNamespace = useCallback(async (namespace: string) => {
+    setFlag(setLoading, namespace, true);
+    setError(namespace, null);
+    try {
+      const entries = await listNamespace(namespace);
+      setChildren(prev => ({ ...prev, [namespace]: entries }));
+    } catch (error) {
+      setError(namespace, error instanceof Error ? error.message : `Failed to list ${namespace}`);
+    } finally {
+      setFlag(setLoading, namespace, false);
+    }
+  }, [listNamespace]);
+
+  // Start again from the root whenever the table list is refreshed (on connect or from the header)
+  const reload = useCallback(() => {
+    setChildren({});
+    setExpanded(new Set());
+    setErrors({});
+    setFunctionSource(null);
+    loadNamespace(ROOT);
+  }, [loadNamespace]);
+
+  useEffect(() => {
+    reload();
+  }, [tables]);
+
+  const toggleNamespace = (name: string) => {
+    const isOpen = expanded.has(name);
+    setFlag(setExpanded, name, !isOpen);
+    if (!isOpen && !children[name]) {
+      loadNamespace(name);
+    }
+  };
+
+  const loadColumns = async (name: string, options: { refresh?: boolean; count?: boolean } = {}) => {
+    setError(name, null);
+    setFlag(setLoading, name, true);
+    try {
+      const metadata = await loadTableMetadata(name, options);
+      if (metadata.partitioned) {
+        await loadTablePartitions(name, options.refresh);
+      }
+    } catch (error) {
+      setError(name, error instanceof Error ? error.message : `Failed to read ${name}`);
+    } finally {
+      setFlag(setLoading, name, false);
+    }
+  };
+
+  const toggleTable = (name: string) => {
+    const isOpen = expanded.has(name);
+    setFlag(setExpanded, name, !isOpen);
+    const metadata = tableMetadata[name];
+    if (!isOpen && (!metadata || (metadata.partitioned && !tablePartitions[name]))) {
+      loadColumns(name);
+    }
+  };
+
+  const showFunction = async (name: string) => {
+    setError(name, null);
+    setFlag(setLoading, name, true);
+    try {
+      const result = await previewEntry(name);
+      setFunctionSource({ name, source: String(result.data[0]?.[0] ?? '') });
+    } catch (error) {
+      setError(name, error instanceof Error ? error.message : `Failed to read ${name}`);
+    } finally {
+      setFlag(setLoading, name, false);
+    }
+  };
+
+  const preview = async (name: string) => {
+    setError(name, null);
+    setFlag(setLoading, name, true);
+    try {
+      await onPreviewEntry(name);
+    } catch (error) {
+      setError(name, error instanceof Error ? error.message : `Failed to preview ${name}`);
+    } finally {
+      setFlag(setLoading, name, false);
+    }
+  };
+
+  const handleSelect = (entry: KdbNamespaceEntry) => {
+    if (entry.kind === 'namespace') {
+      toggleNamespace(entry.name);
+      return;
+    }
+    setSelectedName(entry.name);
+    if (isTable(entry)) {
+      onTableSelect(entry.name);
+    } else if (entry.kind === 'function') {
+      showFunction(entry.name);
+    } else {
+      preview(entry.name);
+    }
+  };
+
+  const term = searchTerm.trim().toLowerCase();
+
+  // Searching looks through everything loaded so far, opening namespaces with a match inside;
+  // a table also matches on the columns it has shown
+  const matches = (entry: KdbNamespaceEntry): boolean =>
+    entry.name.toLowerCase().includes(term) ||
+    (entry.kind === 'namespace' && (children[entry.name] ?? []).some(matches)) ||
+    (tableMetadata[entry.name]?.columns ?? []).some(column => column.name.toLowerCase().includes(term));
+
+  const renderEntries = (namespace: string, depth: number): JSX.Element[] => {
+    const entries = (children[namespace] ?? []).filter(entry => !term || matches(entry));
+    return entries.map(entry => {
+      const isNamespace = entry.kind === 'namespace';
+      const isOpen = (isNamespace || isTable(entry)) &&
+        (expanded.has(entry.name) || (isNamespace && !!term && (children[entry.name] ?? []).some(matches)));
+      const isSelected = isTable(entry) ? selectedTable === entry.name : selectedName === entry.name;
+      const Icon = isNamespace && isOpen ? FolderOpen : KIND_ICONS[entry.kind];
+      const Chevron = isOpen ? ChevronDown : ChevronRight;
+      const metadata = tableMetadata[entry.name];
+      const label = describeEntry(entry, metadata);
+
+      return (
+        <div key={entry.name}>
+          <div
+            className={`sidebar-item flex items-center py-1 pr-2 rounded cursor-pointer text-sm border ${
+              isSelected ? 'bg-primary/10 border-primary/20' : 'border-transparent'
+            }`}
+            style={{ paddingLeft: `${depth * 12 + 4}px` }}
+            onClick={() => handleSelect(entry)}
+            title={entry.name}
+          >
+            {isNamespace ? (
+              <Chevron className="h-3 w-3 mr-1 flex-shrink-0 text-muted-foreground" />
+            ) : isTable(entry) ? (
+              <Chevron
+                className="h-3 w-3 mr-1 flex-shrink-0 text-muted-foreground hover:text-primary"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleTable(entry.name);
+                }}
+              />
+            ) : (
+              <span className="w-3 mr-1 flex-shrink-0" />
+            )}
+            <Icon className="h-4 w-4 mr-2 flex-shrink-0 text-primary" />
+            <span className="font-mono truncate flex-1 text-foreground">{shortName(entry.name)}</span>
+            {loading.has(entry.name) ? (
+              <Loader2 className="h-3 w-3 ml-2 flex-shrink-0 animate-spin text-muted-foreground" />
+            ) : label && (
+              <span className="ml-2 text-xs text-muted-foreground whitespace-nowrap">{label}</span>
+            )}
+          </div>
+          {errors[entry.name] && (
+            <div className="text-xs text-destructive py-1" style={{ paddingLeft: `${depth * 12 + 24}px` }}>
+              {errors[entry.name]}
+            </div>
+          )}
+          {isOpen && metadata && (
+            <div style={{ paddingLeft: `${(depth + 1) * 12 + 24}px` }} className="pr-2 pb-1 text-xs">
+              {metadata.partitioned && (
+                <select
+                  value={selectedTable === entry.name && selectedPartition ? selectedPartition : ''}
+                  onChange={(e) => e.target.value && onTableSelect(entry.name, e.target.value)}
+                  className="w-full mb-1 px-1 py-0.5 font-mono border border-border rounded bg-background text-foreground"
+                  title={`Browse one ${tablePartitions[entry.name]?.field ?? 'partition'} at a time`}
+                >
+                  <option value="">{tablePartitions[entry.name] ? `${tablePartitions[entry.name].partitions.length} partitions` : 'Loading partitions...'}</option>
+                  {(tablePartitions[entry.name]?.partitions ?? []).slice().reverse().map(value => (
+                    <option key={value} value={value}>{value}</option>
+                  ))}
+                </select>
+              )}
+              {metadata.columns.map(column => (
+                <div key={column.name} className="flex items-center py-0.5">
+                  <span className="font-mono truncate flex-1 text-foreground" title={column.name}>{column.name}</span>
+                  {metadata.keyColumns.includes(column.name) && (
+                    <span className="ml-2 text-primary whitespace-nowrap" title="Key column">key</span>
+                  )}
+                  <span className="ml-2 text-muted-foreground whitespace-nowrap">
+                    {column.type}{column.attributes && ` ${column.attributes}#`}
+                  </span>
+                </div>
+              ))}
+              <div className="flex items-center space-x-3 pt-1 text-muted-foreground">
+                {metadata.rowCount === null && (
+                  <button onClick={() => loadColumns(entry.name, { count: true })} className="hover:text-primary" title="Counting reads every partition">
+                    Count rows
+                  </button>
+                )}
+                <button onClick={() => loadColumns(entry.name, { refresh: true })} className="hover:text-primary">
+                  Refresh
+                </button>
+              </div>
+            </div>
+          )}
+          {isOpen && children[entry.name]?.length === 0 && (
+            <div className="text-xs text-muted-foreground py-1" style={{ paddingLeft: `${(depth + 1) * 12 + 24}px` }}>
+              Empty
+            </div>
+          )}
+          {isOpen && renderEntries(entry.name, depth + 1)}
+        </div>
+      );
+    });
+  };
+
+  const rootEntries = children[ROOT] ?? [];
+  const rendered = renderEntries(ROOT, 0);
 
   return (
     <div className="app-sidebar flex flex-col h-full">
@@ -25,24 +315,33 @@ export function TableSidebar({ tables, selectedTable, onTableSelect, onToggleSid
         <div className="flex items-center justify-between mb-2">
           <div className="flex items-center space-x-2">
             <Database className="h-5 w-5 text-primary" />
-            <h2 className="text-lg font-semibold text-foreground">Tables</h2>
-            <span className="text-sm text-muted-foreground">({tables.length})</span>
+            <h2 className="text-lg font-semibold text-foreground">Explorer</h2>
+            <span className="text-sm text-muted-foreground">({rootEntries.length})</span>
           </div>
-          {onToggleSidebar && (
+          <div className="flex items-center">
             <button
-              onClick={onToggleSidebar}
+              onClick={onRefresh}
               className="sidebar-toggle-btn p-1.5 text-muted-foreground hover:text-primary rounded"
-              title={`Hide Tables Panel (${navigator.platform.includes('Mac') ? 'Cmd' : 'Ctrl'}+B)`}
+              title="Refresh"
             >
-              <PanelLeftClose className="h-4 w-4" />
+              <RefreshCw className={`h-4 w-4 ${loading.has(ROOT) ? 'animate-spin' : ''}`} />
             </button>
-          )}
+            {onToggleSidebar && (
+              <button
+                onClick={onToggleSidebar}
+                className="sidebar-toggle-btn p-1.5 text-muted-foreground hover:text-primary rounded"
+                title={`Hide Explorer (${navigator.platform.includes('Mac') ? 'Cmd' : 'Ctrl'}+B)`}
+              >
+                <PanelLeftClose className="h-4 w-4" />
+              </button>
+            )}
+          </div>
         </div>
-        
+
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
-            placeholder="Search tables..."
+            placeholder="Search names..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="pl-10"
@@ -50,45 +349,35 @@ export function TableSidebar({ tables, selectedTable, onTableSelect, onToggleSid
         </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto">
-        {filteredTables.length === 0 ? (
+      <div className="flex-1 overflow-y-auto enhanced-scrollbar">
+        {errors[ROOT] ? (
+          <div className="p-4 text-sm text-destructive">{errors[ROOT]}</div>
+        ) : rendered.length === 0 ? (
           <div className="p-4 text-center text-muted-foreground">
-            {searchTerm ? 'No tables match your search' : 'No tables available'}
+            {loading.has(ROOT) ? 'Loading...' : term ? 'Nothing loaded matches your search' : 'Nothing defined'}
           </div>
         ) : (
-          <div className="p-2">
-            {filteredTables.map((table) => (
-              <div
-                key={table.name}
-                className={`
-                  sidebar-item p-3 rounded-lg cursor-pointer transition-colors mb-2
-                  ${selectedTable === table.name
-                    ? 'bg-primary/10 border border-primary/20'
-                    : 'border border-transparent'
-                  }
-                `}
-                onClick={() => onTableSelect(table.name)}
-              >
-                <div className="flex items-start space-x-3">
-                  <Table className="h-4 w-4 text-primary flex-shrink-0 mt-0.5" />
-                  <div className="min-w-0 flex-1">
-                    <p className="font-medium text-sm truncate text-foreground mb-2">{table.name}</p>
-                    <div className="flex items-center space-x-4 text-xs text-muted-foreground">
-                      <span className="flex items-center">
-                        <Hash className="h-3 w-3 mr-1" />
-                        {table.columns.length} cols
-                      </span>
-                      <span className="whitespace-nowrap">
-                        {formatNumber(table.rowCount)} rows
-                      </span>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            ))}
-          </div>
+          <div className="p-2">{rendered}</div>
         )}
       </div>
+
+      {functionSource && (
+        <div className="border-t border-border max-h-[40%] flex flex-col">
+          <div className="flex items-center justify-between px-2 py-1">
+            <span className="font-mono text-xs text-foreground truncate" title={functionSource.name}>{functionSource.name}</span>
+            <button
+              onClick={() => setFunctionSource(null)}
+              className="p-1 text-muted-foreground hover:text-primary rounded"
+              title="Close"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+          <pre className="flex-1 overflow-auto enhanced-scrollbar px-2 pb-2 font-mono text-xs text-muted-foreground whitespace-pre-wrap break-all">
+            {functionSource.source}
+          </pre>
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
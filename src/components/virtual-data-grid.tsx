@@ -16,7 +16,27 @@ import { ChevronUp, ChevronDown, ChevronLeft, ChevronRight, Search, Database, Lo
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ColumnManagementModal } from '@/components/column-management-modal';
-import { KdbQueryResult } from '@/types/kdb';
+import { KdbQueryResult, KdbTableView } from '@/types/kdb';
+import {
+  compareLossless,
+  formatKdbInfinity,
+  formatKdbList,
+  formatKdbLong,
+  formatKdbSpecial,
+  getColumnType,
+  isKdbInfinity,
+  isKdbNull,
+  isLosslessType,
+  isTimeOfDayType
+} from '@/lib/kdb-types';
+import { readCell } from '@/lib/columnar';
+import { toTableView } from '@/lib/table-view';
+
+// A grid row is just the result row it shows; cells are read with readCell
+interface GridRow {
+  _originalRowIndex: number;
+  _id: number;
+}
 
 interface VirtualDataGridProps {
   data: KdbQueryResult | null;
@@ -32,8 +52,18 @@ interface VirtualDataGridProps {
   isSidebarVisible?: boolean;
   onShowSidebar?: () => void;
   onDisplayedDataChange?: (displayedData: KdbQueryResult) => void;
+  csvNullToken?: string; // Written for q nulls when copying or exporting CSV
+  onRaiseRowLimit?: () => void; // Offered when a streamed result stopped at the row limit
+  serverSide?: boolean; // Sorting, filters and search are applied by the bridge rather than to the loaded rows
+  onViewChange?: (view: KdbTableView) => void;
+  partition?: string | null; // The partition a partitioned table's pages are read from
+  partitions?: string[];     // Its table's partitions, oldest first
+  onPartitionChange?: (partition: string) => void;
 }
 
+// How long filter and search typing settles before a server-side view is requested
+const VIEW_CHANGE_DEBOUNCE_MS = 300;
+
 export function VirtualDataGrid({ 
   data, 
   isLoading, 
@@ -47,7 +77,14 @@ export function VirtualDataGrid({
   enableColumnControls = false,
   isSidebarVisible = true,
   onShowSidebar,
-  onDisplayedDataChange
+  onDisplayedDataChange,
+  csvNullToken = '',
+  onRaiseRowLimit,
+  serverSide = false,
+  onViewChange,
+  partition = null,
+  partitions = [],
+  onPartitionChange
 }: VirtualDataGridProps) {
   const [sorting, setSorting] = useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
@@ -74,13 +111,18 @@ export function VirtualDataGrid({
   // Ref for ResizeObserver
   const resizeObserverRef = useRef<ResizeObserver | null>(null);
 
-  // Initialize column order when data changes
+  // Key columns of a keyed table or dictionary, by column id; these are pinned and shaded
+  const keyColumnIds = useMemo(() => new Set(
+    (data?.keyColumns || []).map(name => String(data?.columns.indexOf(name))).filter(id => id !== '-1')
+  ), [data?.keyColumns, data?.columns]);
+
+  // Initialize column order when the columns change (live updates keep the same columns array)
   React.useEffect(() => {
     if (data?.columns) {
       const baseColumns = ['__row_number__', ...data.columns.map((_, index) => index.toString())];
       setColumnOrder(showSelectionColumn ? ['__select__', ...baseColumns] : baseColumns);
     }
-  }, [data, showSelectionColumn]);
+  }, [data?.columns, showSelectionColumn]);
 
   // Dynamic height measurement for virtual scrolling
   useLayoutEffect(() => {
@@ -303,6 +345,24 @@ export function VirtualDataGrid({
     });
   };
 
+  // One CSV field: nulls become the configured token, infinities their q literal
+  const toCsvCell = (value: any, columnIndex: number): string => {
+    let stringValue: string;
+    if (isKdbNull(value)) {
+      stringValue = csvNullToken;
+    } else if (isKdbInfinity(value)) {
+      stringValue = formatKdbInfinity(value, getColumnType(data, columnIndex));
+    } else if (Array.isArray(value)) {
+      stringValue = formatKdbList(value);
+    } else {
+      stringValue = value.__kdb_type === 'symbol' ? value.value : String(value);
+    }
+    // Escape values containing commas, quotes, or newlines
+    return stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')
+      ? `"${stringValue.replace(/"/g, '""')}"`
+      : stringValue;
+  };
+
   // Copy selected rows to clipboard
   const copySelectedToClipboard = async () => {
     const selectedRows = table.getSelectedRowModel().rows;
@@ -321,15 +381,7 @@ export function VirtualDataGrid({
     const csvContent = [
       headers.join(','),
       ...selectedRows.map(row => 
-        visibleColumns.map(col => {
-          const value = row.getValue(col.id);
-          if (value === null || value === undefined) return '';
-          const stringValue = String(value);
-          // Escape values containing commas, quotes, or newlines
-          return stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')
-            ? `"${stringValue.replace(/"/g, '""')}"` 
-            : stringValue;
-        }).join(',')
+        visibleColumns.map(col => toCsvCell(row.getValue(col.id), parseInt(col.id))).join(',')
       )
     ].join('\n');
     
@@ -376,15 +428,7 @@ export function VirtualDataGrid({
     const csvContent = [
       headers.join(','),
       ...filteredRows.map(row => 
-        visibleColumns.map(col => {
-          const value = row.getValue(col.id);
-          if (value === null || value === undefined) return '';
-          const stringValue = String(value);
-          // Escape values containing commas, quotes, or newlines
-          return stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')
-            ? `"${stringValue.replace(/"/g, '""')}"` 
-            : stringValue;
-        }).join(',')
+        visibleColumns.map(col => toCsvCell(row.getValue(col.id), parseInt(col.id))).join(',')
       )
     ].join('\n');
     
@@ -404,9 +448,12 @@ export function VirtualDataGrid({
   const totalDataRows = data?.data?.length || 0;
   const currentDisplayPage = clientSidePagination ? clientPage : currentPage;
 
-  // Liberal time-only column detection - detects any time-looking strings  
+  // Time-only columns come from the q type; without metadata, detect any time-looking strings
   const isTimeOnlyColumn = (columnIndex: number): boolean => {
     if (!data || !data.data || !data.columns) return false;
+
+    const type = getColumnType(data, columnIndex);
+    if (type) return isTimeOfDayType(type);
     
     const sampleSize = Math.min(10, data.data.length);
     const sampleData = data.data.slice(0, sampleSize);
@@ -531,10 +578,11 @@ export function VirtualDataGrid({
       .map((colId) => {
         const index = parseInt(colId);
         const columnName = data.columns[index];
+        const columnType = getColumnType(data, index);
       
       return {
         id: colId,
-        accessorKey: colId,
+        accessorFn: (row: GridRow) => readCell(data, row._originalRowIndex, index),
         header: ({ column }: any) => (
           <div 
             className={`flex items-center space-x-2 ${
@@ -570,12 +618,21 @@ export function VirtualDataGrid({
         minSize: 50, // Minimum column width
         maxSize: 500, // Maximum column width
         enableResizing: true,
+        // Longs, timestamps and timespans are exact strings, so sort them exactly too
+        ...(isLosslessType(columnType) && {
+          sortingFn: (rowA: any, rowB: any, columnId: string) =>
+            compareLossless(rowA.getValue(columnId), rowB.getValue(columnId), columnType)
+        }),
         cell: ({ getValue }: any) => {
           const value = getValue();
-          if (value === null || value === undefined) return <span className="text-muted-foreground">-</span>;
-          if (typeof value === 'number') {
+          const special = formatKdbSpecial(value, columnType);
+          if (special !== undefined) return <span className="kdb-null">{special}</span>;
+          if (Array.isArray(value)) return <span className="text-muted-foreground">{formatKdbList(value)}</span>;
+          const isLong = columnType === 'long' && typeof value === 'string';
+          if (typeof value === 'number' || isLong) {
             // Format numbers with special styling for financial data
-            const formatted = value.toLocaleString();
+            const formatted = isLong ? formatKdbLong(value) : value.toLocaleString();
+            const sign = isLong ? (value.startsWith('-') ? -1 : value === '0' ? 0 : 1) : Math.sign(value as number);
             const columnName = data.columns[index]?.toLowerCase() || '';
             
             // Check if it's a financial column
@@ -583,9 +640,9 @@ export function VirtualDataGrid({
                 columnName.includes('volume') || columnName.includes('amount') ||
                 columnName.includes('value') || columnName.includes('cost')) {
               // Add special formatting for positive/negative values
-              if (value < 0) {
+              if (sign < 0) {
                 return <span className="value-negative">{formatted}</span>;
-              } else if (value > 0 && (columnName.includes('change') || columnName.includes('pnl'))) {
+              } else if (sign > 0 && (columnName.includes('change') || columnName.includes('pnl'))) {
                 return <span className="value-positive">+{formatted}</span>;
               }
               return <span className="financial-amount">{formatted}</span>;
@@ -607,7 +664,8 @@ export function VirtualDataGrid({
               return <span className="text-sm text-foreground">{displayValue.replace('T', ' ').replace('Z', '')}</span>;
             }
             // Check if it's a symbol/ticker (KDB+ symbols or column name based)
-            if (value.__kdb_type === 'symbol' || columnName.includes('sym') || columnName.includes('ticker') || columnName.includes('symbol')) {
+            if (value.__kdb_type === 'symbol' || columnType === 'symbol' ||
+                (!data.meta?.types?.length && (columnName.includes('sym') || columnName.includes('ticker') || columnName.includes('symbol')))) {
               return <span className="font-semibold text-primary">{displayValue}</span>;
             }
             if (displayValue.length > 50) {
@@ -631,16 +689,11 @@ export function VirtualDataGrid({
 
   const tableData = useMemo(() => {
     if (!data || !data.data) return [];
-    const allData = data.data.map((row, rowIndex) => {
-      const rowObj: Record<string, any> = {};
-      row.forEach((cell, cellIndex) => {
-        rowObj[cellIndex.toString()] = cell;
-      });
-      // Store original index that will never change regardless of sorting
-      rowObj._originalRowIndex = rowIndex;
-      rowObj._id = rowIndex; // Keep for backward compatibility
-      return rowObj;
-    });
+    // Rows only carry their index; cells are read from the result (in place for columnar results)
+    const allData: GridRow[] = Array.from({ length: data.data.length }, (_, rowIndex) => ({
+      _originalRowIndex: rowIndex, // Never changes regardless of sorting
+      _id: rowIndex // Keep for backward compatibility
+    }));
     
     // Apply client-side pagination if enabled
     if (clientSidePagination && allData.length > clientPageSize) {
@@ -661,6 +714,8 @@ export function VirtualDataGrid({
     getCoreRowModel: getCoreRowModel(),
     getSortedRowModel: getSortedRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
+    manualSorting: serverSide,
+    manualFiltering: serverSide,
     onGlobalFilterChange: setGlobalFilter,
     globalFilterFn: 'includesString',
     enableColumnResizing: true,
@@ -677,6 +732,40 @@ export function VirtualDataGrid({
     enableRowSelection: true,
   });
 
+  // Server-side, the sorting, filters and search go to the bridge once typing settles.
+  // The first run is skipped: the page shown on mount was loaded with an empty view.
+  const viewRequestedRef = useRef(false);
+  React.useEffect(() => {
+    if (!serverSide || !onViewChange || !data) return;
+    if (!viewRequestedRef.current) {
+      viewRequestedRef.current = true;
+      return;
+    }
+    const timer = setTimeout(() => {
+      onViewChange(toTableView(data.columns, sorting, columnFilters, globalFilter));
+    }, VIEW_CHANGE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+    // data.columns is left out on purpose: a new page must not request the view again
+  }, [serverSide, onViewChange, sorting, columnFilters, globalFilter]);
+
+  // Left offsets of the pinned key columns, each sticking just right of the ones before it
+  const keyColumnOffsets = new Map<string, number>();
+  let lastKeyColumnId: string | null = null;
+  table.getVisibleLeafColumns().reduce((offset, column) => {
+    if (!keyColumnIds.has(column.id)) return offset;
+    keyColumnOffsets.set(column.id, offset);
+    lastKeyColumnId = column.id;
+    return offset + column.getSize();
+  }, 0);
+
+  const keyColumnClass = (columnId: string) => keyColumnOffsets.has(columnId)
+    ? `key-column-cell ${columnId === lastKeyColumnId ? 'last-key-column' : ''}`
+    : '';
+
+  const keyColumnStyle = (columnId: string): React.CSSProperties => keyColumnOffsets.has(columnId)
+    ? { position: 'sticky', left: keyColumnOffsets.get(columnId) }
+    : {};
+
   // Virtual row model
   const { rows } = table.getRowModel();
 
@@ -692,12 +781,14 @@ export function VirtualDataGrid({
     
     // Convert table rows back to KdbQueryResult format
     // Maintain original column order regardless of column visibility/reordering
+    // Unfiltered and unsorted, the displayed data is the result itself (columnar results stay columnar)
+    if (filteredRows.length === data.data.length && filteredRows.every((row, index) => row.original._originalRowIndex === index)) {
+      onDisplayedDataChange(data);
+      return;
+    }
+
     const displayedRowData = filteredRows.map(row => {
-      return data.columns.map((_, colIndex) => {
-        const colId = colIndex.toString();
-        // Use row.original directly to avoid getValue issues
-        return row.original[colId];
-      });
+      return data.columns.map((_, colIndex) => readCell(data, row.original._originalRowIndex, colIndex));
     });
 
     const displayedData: KdbQueryResult = {
@@ -892,6 +983,16 @@ export function VirtualDataGrid({
                   </>
                 )}
                 {globalFilter && ` (filtered)`}
+                {data.truncated && (
+                  <span className="text-warning">
+                    {` · row limit reached, ${(data.meta?.count ?? totalDataRows).toLocaleString()} rows in result`}
+                    {onRaiseRowLimit && (
+                      <button onClick={onRaiseRowLimit} className="ml-2 underline hover:text-primary">
+                        Raise limit
+                      </button>
+                    )}
+                  </span>
+                )}
               </div>
               
               {/* Action Icons */}
@@ -901,7 +1002,7 @@ export function VirtualDataGrid({
                   <button
                     onClick={onShowSidebar}
                     className="sidebar-toggle-btn p-1.5 text-muted-foreground hover:text-primary rounded"
-                    title={`Show Tables Panel (${navigator.platform.includes('Mac') ? 'Cmd' : 'Ctrl'}+B)`}
+                    title={`Show Explorer (${navigator.platform.includes('Mac') ? 'Cmd' : 'Ctrl'}+B)`}
                   >
                     <PanelLeft className="h-4 w-4" />
                   </button>
@@ -1031,6 +1132,41 @@ export function VirtualDataGrid({
             </select>
           )}
           
+          {/* Partition picker: paging stays within one partition of a partitioned table */}
+          {partition && (
+            <div className="flex items-center space-x-1 mr-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onPartitionChange?.(partitions[partitions.indexOf(partition) - 1])}
+                disabled={!onPartitionChange || partitions.indexOf(partition) <= 0}
+                title="Previous partition"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <select
+                value={partition}
+                onChange={(e) => onPartitionChange?.(e.target.value)}
+                disabled={!onPartitionChange || partitions.length === 0}
+                className="px-2 py-1 text-sm font-mono border border-border rounded-md bg-background text-foreground"
+                title="Partition"
+              >
+                {(partitions.includes(partition) ? partitions : [...partitions, partition]).slice().reverse().map(value => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onPartitionChange?.(partitions[partitions.indexOf(partition) + 1])}
+                disabled={!onPartitionChange || partitions.indexOf(partition) < 0 || partitions.indexOf(partition) >= partitions.length - 1}
+                title="Next partition"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+
           {/* Pagination Controls */}
           {((clientSidePagination && totalDataRows > clientPageSize) || 
             (!clientSidePagination && totalRows > 0 && totalPages > 1 && onPageChange)) && (
@@ -1105,7 +1241,7 @@ export function VirtualDataGrid({
               <tr key={headerGroup.id}>
                 {headerGroup.headers.map((header) => {
                   const isSpecialColumn = header.column.id === '__row_number__' || header.column.id === '__select__';
-                  const isDraggable = enableColumnControls && !isSpecialColumn;
+                  const isDraggable = enableColumnControls && !isSpecialColumn && !keyColumnIds.has(header.column.id);
                   const isBeingDragged = draggedColumn === header.column.id;
                   const isDropTarget = dragOverColumn === header.column.id;
                   
@@ -1120,8 +1256,8 @@ export function VirtualDataGrid({
                       isBeingDragged ? 'opacity-60 scale-95' : ''
                     } ${
                       isDropTarget ? 'bg-primary/10' : ''
-                    }`}
-                    style={{ width: header.column.getSize() }}
+                    } ${keyColumnClass(header.column.id)}`}
+                    style={{ width: header.column.getSize(), ...keyColumnStyle(header.column.id) }}
                     draggable={isDraggable}
                     onDragStart={isDraggable ? (e) => handleDragStart(e, header.column.id) : undefined}
                     onDragOver={isDraggable ? (e) => handleDragOver(e, header.column.id) : undefined}
@@ -1168,6 +1304,31 @@ export function VirtualDataGrid({
                 })}
               </tr>
             ))}
+            {/* Column filters, applied by the bridge to the whole table */}
+            {serverSide && (
+              <tr className="column-filter-row">
+                {table.getVisibleLeafColumns().map((column) => {
+                  const isSpecialColumn = column.id === '__row_number__' || column.id === '__select__';
+                  return (
+                    <th
+                      key={column.id}
+                      className={`px-1 py-0.5 ${keyColumnClass(column.id)}`}
+                      style={{ width: column.getSize(), ...keyColumnStyle(column.id) }}
+                    >
+                      {!isSpecialColumn && (
+                        <input
+                          value={(column.getFilterValue() as string) ?? ''}
+                          onChange={(e) => column.setFilterValue(e.target.value || undefined)}
+                          placeholder="Filter, e.g. >100"
+                          title="Text matches anywhere in the value; start with =, <>, <, <=, > or >= to compare"
+                          className="w-full h-6 px-1.5 text-xs font-normal rounded border border-border bg-background focus:outline-none focus:ring-1 focus:ring-primary"
+                        />
+                      )}
+                    </th>
+                  );
+                })}
+              </tr>
+            )}
           </thead>
           
           {/* Virtual Table Body */}
@@ -1193,8 +1354,8 @@ export function VirtualDataGrid({
                   {row.getVisibleCells().map((cell) => (
                     <td
                       key={cell.id}
-                      className="data-table-cell px-4 py-2 text-sm text-foreground"
-                      style={{ width: cell.column.getSize() }}
+                      className={`data-table-cell px-4 py-2 text-sm text-foreground ${keyColumnClass(cell.column.id)}`}
+                      style={{ width: cell.column.getSize(), ...keyColumnStyle(cell.column.id) }}
                     >
                       <div className="truncate" title={String(cell.getValue())}>
                         {flexRender(cell.column.columnDef.cell, cell.getContext())}
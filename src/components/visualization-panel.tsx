@@ -16,6 +16,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { KdbQueryResult, ChartConfig, ChartType } from '@/types/kdb';
 import { generateFinancialHeatmap } from '@/lib/utils';
+import { getColumnType, isNumericType, isPlottable, isTemporalType } from '@/lib/kdb-types';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -40,6 +41,8 @@ export function VisualizationPanel({ data, isExpanded = false }: VisualizationPa
   const chartRef = useRef<HTMLDivElement>(null);
 
   const numericColumns = data.columns.filter((_, index) => {
+    const type = getColumnType(data, index);
+    if (type) return isNumericType(type);
     const sampleValues = data.data.slice(0, 10).map(row => row[index]);
     return sampleValues.some(val => typeof val === 'number' && !isNaN(val));
   });
@@ -49,9 +52,9 @@ export function VisualizationPanel({ data, isExpanded = false }: VisualizationPa
   // Detect temporal columns based on metadata or column names
   const temporalColumns = data.columns.filter((column, index) => {
     // Check metadata if available
-    if (data.meta?.types && data.meta.types[index]) {
-      const type = data.meta.types[index].toLowerCase();
-      return type === 'timestamp' || type === 'date' || type === 'time' || type === 'datetime';
+    const type = getColumnType(data, index);
+    if (type) {
+      return isTemporalType(type);
     }
     // Fallback to column name patterns
     const lowerColumn = column.toLowerCase();
@@ -98,7 +101,7 @@ export function VisualizationPanel({ data, isExpanded = false }: VisualizationPa
       const plotData = data.data.map(row => ({
         x: row[xColumnIndex],
         y: row[yColumnIndex]
-      })).filter(d => d.x != null && d.y != null);
+      })).filter(d => isPlottable(d.x) && isPlottable(d.y));
 
       if (plotData.length === 0) return;
 
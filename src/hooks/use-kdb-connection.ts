@@ -1,34 +1,102 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { KdbApiService } from '@/services/kdb-api';
-import { ConnectionStatus, KdbTable, KdbQueryResult } from '@/types/kdb';
+import { ConnectionStatus, KdbTable, KdbQueryResult, KdbConnectionParams, KdbErrorCode, KdbSessionState, KdbQueryOptions, KdbSubscriptionHandlers, KdbSubscriptionHandle, KdbStreamOptions, KdbQueryProgress, KdbTableView, KdbFunction, KdbFunctionArgument, KdbNamespaceEntry, KdbTableMetadata, KdbTablePartitions, KdbJob, KdbAuditFilters, KdbAuditLog } from '@/types/kdb';
+
+// A job's latest description replaces the one held, or goes first if it is new
+const mergeJob = (jobs: KdbJob[], job: KdbJob): KdbJob[] => (
+  jobs.some(existing => existing.id === job.id)
+    ? jobs.map(existing => (existing.id === job.id ? job : existing))
+    : [job, ...jobs]
+);
 
 export function useKdbConnection() {
   const [status, setStatus] = useState<ConnectionStatus>('disconnected');
   const [error, setError] = useState<string | null>(null);
+  const [errorCode, setErrorCode] = useState<KdbErrorCode | null>(null);
+  const [sessionState, setSessionState] = useState<KdbSessionState | null>(null);
   const [tables, setTables] = useState<KdbTable[]>([]);
+  // Columns and counts of the tables looked at so far, until the table list is refreshed
+  const [tableMetadata, setTableMetadata] = useState<Record<string, KdbTableMetadata>>({});
+  const tableMetadataRef = useRef<Record<string, KdbTableMetadata>>({});
+  const [tablePartitions, setTablePartitions] = useState<Record<string, KdbTablePartitions>>({});
+  const tablePartitionsRef = useRef<Record<string, KdbTablePartitions>>({});
+  const [queryProgress, setQueryProgress] = useState<KdbQueryProgress | null>(null);
+  const [jobs, setJobs] = useState<KdbJob[]>([]);
   const serviceRef = useRef<KdbApiService | null>(null);
 
+  const clearTableMetadata = useCallback(() => {
+    tableMetadataRef.current = {};
+    setTableMetadata({});
+    tablePartitionsRef.current = {};
+    setTablePartitions({});
+  }, []);
+
   useEffect(() => {
-    serviceRef.current = new KdbApiService();
+    const service = new KdbApiService();
+    serviceRef.current = service;
     
-    const unsubscribeStatus = serviceRef.current.onStatusChange(setStatus);
-    const unsubscribeError = serviceRef.current.onError(setError);
+    const unsubscribeStatus = service.onStatusChange((nextStatus) => {
+      setStatus(nextStatus);
+      if (nextStatus === 'error') {
+        // Covers drops reported by the bridge after connect() returned
+        setErrorCode(service.getLastError()?.code ?? null);
+      } else if (nextStatus === 'connected') {
+        setError(null);
+        setErrorCode(null);
+      }
+      if (nextStatus !== 'reconnecting') {
+        setSessionState(null);
+      }
+    });
+    const unsubscribeError = service.onError(setError);
+    const unsubscribeSessionState = service.onSessionState(setSessionState);
+    const unsubscribeQueryProgress = service.onQueryProgress(setQueryProgress);
 
     return () => {
       unsubscribeStatus();
       unsubscribeError();
+      unsubscribeSessionState();
+      unsubscribeQueryProgress();
       if (serviceRef.current) {
+        // A resume still in flight would otherwise take the session after we are gone
+        serviceRef.current.cancelConnection();
         serviceRef.current.disconnect();
       }
     };
   }, []);
 
-  const connect = useCallback(async (host: string, port: number, browseTables: boolean = false) => {
+  // The session's background jobs, kept current from the bridge's job events while connected
+  useEffect(() => {
+    const service = serviceRef.current;
+    if (!service || status !== 'connected') {
+      if (status === 'disconnected') {
+        setJobs([]);
+      }
+      return;
+    }
+
+    let active = true;
+    const stopWatching = service.watchJobs((job) => setJobs(prev => mergeJob(prev, job)));
+    service.listJobs().then((list) => {
+      if (active) setJobs(list);
+    }, () => undefined);
+    return () => {
+      active = false;
+      stopWatching();
+    };
+  }, [status]);
+
+  const connect = useCallback(async (params: KdbConnectionParams, browseTables: boolean = false) => {
     if (!serviceRef.current) return false;
     
     try {
       setError(null);
-      const success = await serviceRef.current.connect(host, port);
+      setErrorCode(null);
+      const success = await serviceRef.current.connect(params);
+      if (!success) {
+        setErrorCode(serviceRef.current.getLastError()?.code ?? null);
+      }
+      clearTableMetadata();
       if (success && browseTables) {
         const tablesList = await serviceRef.current.getTables();
         setTables(tablesList);
@@ -40,40 +108,162 @@ export function useKdbConnection() {
       setError(err instanceof Error ? err.message : 'Connection failed');
       return false;
     }
+  }, [clearTableMetadata]);
+
+  // Pick up the session this tab had before a reload, with its tables and jobs
+  const resume = useCallback(async (): Promise<KdbConnectionParams | null> => {
+    if (!serviceRef.current) return null;
+
+    const connection = await serviceRef.current.resume();
+    if (connection && serviceRef.current.isConnected()) {
+      try {
+        setTables(await serviceRef.current.getTables());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load tables');
+      }
+    }
+    return connection;
   }, []);
 
   const disconnect = useCallback(() => {
     if (serviceRef.current) {
       serviceRef.current.disconnect();
       setTables([]);
+      clearTableMetadata();
       setError(null);
+      setErrorCode(null);
+    }
+  }, [clearTableMetadata]);
+
+  const executeQuery = useCallback(async (query: string, options?: KdbQueryOptions): Promise<KdbQueryResult> => {
+    if (!serviceRef.current) {
+      throw new Error('Connection service not initialized');
+    }
+    return serviceRef.current.executeQuery(query, options);
+  }, []);
+
+  // Progress starts again from nothing for every streamed query
+  const streamQuery = useCallback(async (query: string, options?: KdbStreamOptions): Promise<KdbQueryResult> => {
+    if (!serviceRef.current) {
+      throw new Error('Connection service not initialized');
+    }
+    setQueryProgress(null);
+    return serviceRef.current.streamQuery(query, options);
+  }, []);
+
+  const getTableData = useCallback(async (tableName: string, offset: number = 0, limit: number = 100, view?: KdbTableView, partition?: string): Promise<KdbQueryResult> => {
+    if (!serviceRef.current) {
+      throw new Error('Connection service not initialized');
+    }
+    return serviceRef.current.getTableData(tableName, offset, limit, view, partition);
+  }, []);
+
+  // Cached per table; refresh fetches it again, and count asks for a partitioned table's rows
+  const loadTableMetadata = useCallback(async (tableName: string, options: { refresh?: boolean; count?: boolean } = {}): Promise<KdbTableMetadata> => {
+    if (!serviceRef.current) {
+      throw new Error('Connection service not initialized');
+    }
+    const cached = tableMetadataRef.current[tableName];
+    if (cached && !options.refresh && !(options.count && cached.rowCount === null)) {
+      return cached;
+    }
+    const metadata = await serviceRef.current.getTableMetadata(tableName, options.count);
+    tableMetadataRef.current = { ...tableMetadataRef.current, [tableName]: metadata };
+    setTableMetadata(tableMetadataRef.current);
+    return metadata;
+  }, []);
+
+  // Cached with the metadata; refresh reads the partitions again, e.g. after a new day is written
+  const loadTablePartitions = useCallback(async (tableName: string, refresh: boolean = false): Promise<KdbTablePartitions> => {
+    if (!serviceRef.current) {
+      throw new Error('Connection service not initialized');
+    }
+    const cached = tablePartitionsRef.current[tableName];
+    if (cached && !refresh) {
+      return cached;
+    }
+    const partitions = await serviceRef.current.getTablePartitions(tableName);
+    tablePartitionsRef.current = { ...tablePartitionsRef.current, [tableName]: partitions };
+    setTablePartitions(tablePartitionsRef.current);
+    return partitions;
+  }, []);
+
+  const listNamespace = useCallback(async (namespace?: string): Promise<KdbNamespaceEntry[]> => {
+    if (!serviceRef.current) {
+      throw new Error('Connection service not initialized');
+    }
+    return serviceRef.current.listNamespace(namespace);
+  }, []);
+
+  const previewEntry = useCallback(async (name: string): Promise<KdbQueryResult> => {
+    if (!serviceRef.current) {
+      throw new Error('Connection service not initialized');
+    }
+    return serviceRef.current.previewEntry(name);
+  }, []);
+
+  const listFunctions = useCallback(async (namespaces?: string[]): Promise<KdbFunction[]> => {
+    if (!serviceRef.current) {
+      throw new Error('Connection service not initialized');
+    }
+    return serviceRef.current.listFunctions(namespaces);
+  }, []);
+
+  const callFunction = useCallback(async (name: string, args: KdbFunctionArgument[], options?: KdbQueryOptions): Promise<KdbQueryResult> => {
+    if (!serviceRef.current) {
+      throw new Error('Connection service not initialized');
+    }
+    return serviceRef.current.callFunction(name, args, options);
+  }, []);
+
+  const subscribe = useCallback(async (table: string, syms: string[], handlers: KdbSubscriptionHandlers): Promise<KdbSubscriptionHandle> => {
+    if (!serviceRef.current) {
+      throw new Error('Connection service not initialized');
+    }
+    return serviceRef.current.subscribe(table, syms, handlers);
+  }, []);
+
+  const submitJob = useCallback(async (query: string, options?: KdbQueryOptions): Promise<KdbJob> => {
+    if (!serviceRef.current) {
+      throw new Error('Connection service not initialized');
+    }
+    const job = await serviceRef.current.submitJob(query, options);
+    setJobs(prev => mergeJob(prev, job));
+    return job;
+  }, []);
+
+  const cancelJob = useCallback(async (jobId: string): Promise<boolean> => {
+    if (!serviceRef.current) {
+      throw new Error('Connection service not initialized');
     }
+    return serviceRef.current.cancelJob(jobId);
   }, []);
 
-  const executeQuery = useCallback(async (query: string): Promise<KdbQueryResult> => {
+  const getJobResult = useCallback(async (jobId: string): Promise<KdbQueryResult> => {
     if (!serviceRef.current) {
       throw new Error('Connection service not initialized');
     }
-    return serviceRef.current.executeQuery(query);
+    return serviceRef.current.getJobResult(jobId);
   }, []);
 
-  const getTableData = useCallback(async (tableName: string, offset: number = 0, limit: number = 100): Promise<KdbQueryResult> => {
+  const getAuditLog = useCallback(async (filters?: KdbAuditFilters): Promise<KdbAuditLog> => {
     if (!serviceRef.current) {
       throw new Error('Connection service not initialized');
     }
-    return serviceRef.current.getTableData(tableName, offset, limit);
+    return serviceRef.current.getAuditLog(filters);
   }, []);
 
   const refreshTables = useCallback(async () => {
     if (!serviceRef.current || !serviceRef.current.isConnected()) return;
     
     try {
+      clearTableMetadata();
       const tablesList = await serviceRef.current.getTables();
       setTables(tablesList);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to refresh tables');
     }
-  }, []);
+  }, [clearTableMetadata]);
 
   const cancelConnection = useCallback(() => {
     if (serviceRef.current) {
@@ -87,16 +277,38 @@ export function useKdbConnection() {
     }
   }, []);
 
+  const getQueryPolicy = useCallback(() => serviceRef.current?.getQueryPolicy() ?? null, []);
+
   return {
     status,
     error,
+    errorCode,
+    sessionState,
     tables,
     connect,
+    resume,
     disconnect,
     cancelConnection,
     cancelQuery,
+    getQueryPolicy,
     executeQuery,
+    streamQuery,
+    queryProgress,
     getTableData,
+    tableMetadata,
+    loadTableMetadata,
+    tablePartitions,
+    loadTablePartitions,
+    listNamespace,
+    previewEntry,
+    listFunctions,
+    callFunction,
+    subscribe,
+    jobs,
+    submitJob,
+    cancelJob,
+    getJobResult,
+    getAuditLog,
     refreshTables,
     isConnected: status === 'connected'
   };
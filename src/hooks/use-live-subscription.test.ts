@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { KdbSubscriptionHandle, KdbSubscriptionHandlers, KdbUpdateBatch } from '@/types/kdb';
+import { useLiveSubscription } from './use-live-subscription';
+
+const COLUMNS = ['time', 'sym', 'price'];
+
+// A bridge subscription to trades that hands its handlers to the test
+const subscribeTo = () => {
+  const subscription: { handlers: KdbSubscriptionHandlers | null } = { handlers: null };
+  const subscribe = vi.fn(async (table: string, syms: string[], handlers: KdbSubscriptionHandlers): Promise<KdbSubscriptionHandle> => {
+    subscription.handlers = handlers;
+    return {
+      info: { id: 'sub-1', table, syms, columns: COLUMNS, state: 'connected', updates: 0, rows: 0, createdAt: new Date().toISOString() },
+      close: vi.fn()
+    };
+  });
+  return { subscribe, subscription };
+};
+
+const batch = (rows: unknown[][]): KdbUpdateBatch => ({
+  table: 'trades',
+  columns: COLUMNS,
+  data: rows,
+  meta: { types: ['timestamp', 'symbol', 'float'], count: rows.length }
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('useLiveSubscription', () => {
+  it('keeps the column types of the updates', async () => {
+    const { subscribe, subscription } = subscribeTo();
+    const { result } = renderHook(() => useLiveSubscription(subscribe));
+
+    await act(() => result.current.start('trades', ['IBM']));
+    expect(result.current.status).toBe('live');
+
+    act(() => {
+      subscription.handlers!.onUpdate(batch([['2026.10.19D10:00:00', 'IBM', 120.5]]));
+      vi.advanceTimersByTime(250);
+    });
+    expect(result.current.data?.columns).toEqual(COLUMNS);
+    expect(result.current.data?.meta?.types).toEqual(['timestamp', 'symbol', 'float']);
+
+    act(() => {
+      subscription.handlers!.onUpdate(batch([['2026.10.19D10:00:01', 'IBM', 121]]));
+      vi.advanceTimersByTime(250);
+    });
+    expect(result.current.data?.data).toHaveLength(2);
+    expect(result.current.data?.meta?.types).toEqual(['timestamp', 'symbol', 'float']);
+  });
+});
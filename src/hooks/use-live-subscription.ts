@@ -0,0 +1,138 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { RingBuffer } from '@/lib/ring-buffer';
+import { KdbQueryResult, KdbSessionState, KdbSubscriptionHandle, KdbSubscriptionHandlers, KdbUpdateBatch } from '@/types/kdb';
+
+export type LiveStatus = 'idle' | 'subscribing' | 'live' | 'reconnecting' | 'error';
+
+export const DEFAULT_LIVE_BUFFER_SIZE = 10000;
+
+// Re-render at most this often, however fast upd batches arrive
+const RENDER_INTERVAL_MS = 250;
+
+type Subscribe = (table: string, syms: string[], handlers: KdbSubscriptionHandlers) => Promise<KdbSubscriptionHandle>;
+
+export function useLiveSubscription(subscribe: Subscribe) {
+  const [status, setStatus] = useState<LiveStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [table, setTable] = useState<string | null>(null);
+  const [data, setData] = useState<KdbQueryResult | null>(null);
+  const [totalRows, setTotalRows] = useState(0);
+
+  const handleRef = useRef<KdbSubscriptionHandle | null>(null);
+  const bufferRef = useRef<RingBuffer<any[]> | null>(null);
+  const columnsRef = useRef<string[]>([]);
+  const metaRef = useRef<KdbQueryResult['meta']>(undefined);
+  const totalRowsRef = useRef(0);
+  const renderTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const render = useCallback(() => {
+    renderTimerRef.current = null;
+    const buffer = bufferRef.current;
+    if (!buffer) return;
+    // columns keeps its identity between renders so the grid keeps its column layout
+    setData({
+      columns: columnsRef.current,
+      data: buffer.toArray(),
+      meta: { types: [], ...metaRef.current, count: buffer.size }
+    });
+    setTotalRows(totalRowsRef.current);
+  }, []);
+
+  const handleUpdate = useCallback((batch: KdbUpdateBatch) => {
+    const buffer = bufferRef.current;
+    if (!buffer) return;
+
+    // The subscription's columns come without types, so the first batch's meta is kept as well
+    if (!metaRef.current || columnsRef.current.join() !== batch.columns.join()) {
+      columnsRef.current = batch.columns;
+      metaRef.current = batch.meta;
+    }
+    buffer.pushAll(batch.data);
+    totalRowsRef.current += batch.data.length;
+
+    if (!renderTimerRef.current) {
+      renderTimerRef.current = setTimeout(render, RENDER_INTERVAL_MS);
+    }
+  }, [render]);
+
+  const handleState = useCallback((state: KdbSessionState) => {
+    if (state.state === 'connected') {
+      setStatus('live');
+    } else if (state.state === 'reconnecting') {
+      setStatus('reconnecting');
+    } else if (state.state === 'disconnected') {
+      setStatus('error');
+      setError(state.error || 'Live feed disconnected');
+    }
+  }, []);
+
+  const stop = useCallback(() => {
+    if (handleRef.current) {
+      handleRef.current.close();
+      handleRef.current = null;
+    }
+    if (renderTimerRef.current) {
+      clearTimeout(renderTimerRef.current);
+      renderTimerRef.current = null;
+    }
+    bufferRef.current = null;
+    setStatus('idle');
+    setTable(null);
+    setData(null);
+    setTotalRows(0);
+  }, []);
+
+  const start = useCallback(async (tableName: string, syms: string[], bufferSize: number = DEFAULT_LIVE_BUFFER_SIZE) => {
+    stop();
+    setError(null);
+    setStatus('subscribing');
+    setTable(tableName);
+
+    const buffer = new RingBuffer<any[]>(bufferSize);
+    bufferRef.current = buffer;
+    columnsRef.current = [];
+    metaRef.current = undefined;
+    totalRowsRef.current = 0;
+
+    try {
+      const handle = await subscribe(tableName, syms, {
+        onUpdate: handleUpdate,
+        onState: handleState,
+        onError: (message) => {
+          setStatus('error');
+          setError(message);
+        }
+      });
+      if (bufferRef.current !== buffer) {
+        // Stopped or restarted while the bridge was subscribing
+        handle.close();
+        return false;
+      }
+      handleRef.current = handle;
+      columnsRef.current = handle.info.columns;
+      setData({ columns: columnsRef.current, data: [], meta: { types: [], count: 0 } });
+      setStatus('live');
+      return true;
+    } catch (err) {
+      if (bufferRef.current !== buffer) return false;
+      bufferRef.current = null;
+      setStatus('error');
+      setError(err instanceof Error ? err.message : 'Subscription failed');
+      return false;
+    }
+  }, [subscribe, stop, handleUpdate, handleState]);
+
+  // Drop the subscription when the component using it goes away
+  useEffect(() => stop, [stop]);
+
+  return {
+    status,
+    error,
+    table,
+    data,
+    totalRows,
+    isLive: status === 'live' || status === 'reconnecting',
+    start,
+    stop
+  };
+}
@@ -0,0 +1,39 @@
+// Where the KDB+ bridge lives. It is read at startup from config.json served next to index.html,
+// so one build can be deployed against any bridge, including one behind a path prefix:
+//   { "bridgeUrl": "/kdb" }   -> requests go to /kdb/api/...
+// A relative bridgeUrl is resolved against the page. Without the file the build-time VITE_API_URL
+// is used, and without that the bridge on this machine.
+
+const DEFAULT_BRIDGE_URL = 'http://localhost:3001';
+
+const RUNTIME_CONFIG_FILE = 'config.json';
+
+let bridgeUrl = import.meta.env.VITE_API_URL || DEFAULT_BRIDGE_URL;
+
+// Resolve against the page and drop any trailing slash
+const normalizeBridgeUrl = (url: string): string => new URL(url, window.location.href).href.replace(/\/+$/, '');
+
+// Read config.json once before the app renders. A missing or unreadable file keeps the build-time
+// URL; dev servers answer unknown paths with index.html, which is not JSON either.
+export const loadBridgeConfig = async (): Promise<void> => {
+  try {
+    const response = await fetch(`${import.meta.env.BASE_URL}${RUNTIME_CONFIG_FILE}`, { cache: 'no-store' });
+    if (response.ok) {
+      const config = await response.json();
+      if (typeof config?.bridgeUrl === 'string' && config.bridgeUrl) {
+        bridgeUrl = config.bridgeUrl;
+      }
+    }
+  } catch {
+    // No runtime config; keep the build-time URL
+  }
+  bridgeUrl = normalizeBridgeUrl(bridgeUrl);
+};
+
+// Fall back to the bridge on this machine, for when the configured URL cannot be used
+export const resetBridgeUrl = (): void => {
+  bridgeUrl = DEFAULT_BRIDGE_URL;
+};
+
+// Base of every bridge endpoint, e.g. https://host/kdb/api
+export const getApiBaseUrl = (): string => `${bridgeUrl}/api`;
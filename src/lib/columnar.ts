@@ -0,0 +1,134 @@
+// Decoding of the bridge's columnar result frame (see server/columnar.js).
+// Columns are viewed in place over the response buffer; nothing is converted
+// until a cell is read, and rows are only built for code that asks for one.
+
+import { KdbColumnEncoding, KdbColumnVector, KdbInfinity, KdbQueryResult } from '@/types/kdb';
+
+export const COLUMNAR_CONTENT_TYPE = 'application/x-kdb-columnar';
+
+const MAGIC = 'KDBC';
+
+interface ColumnEncoding {
+  encoding: KdbColumnEncoding;
+  offset?: number;
+  dictionary?: string[];
+  values?: unknown[];
+}
+
+interface ColumnarHeader extends Omit<KdbQueryResult, 'data' | 'columnar'> {
+  encodings: ColumnEncoding[];
+  rows?: number;  // Values per column, fewer than meta.count when the bridge truncated the result
+}
+
+const POSITIVE_INFINITY: KdbInfinity = Object.freeze({ __kdb_type: 'infinity', sign: 1 });
+const NEGATIVE_INFINITY: KdbInfinity = Object.freeze({ __kdb_type: 'infinity', sign: -1 });
+
+const align8 = (n: number): number => (n + 7) & ~7;
+
+// q's integer nulls are the smallest value and its infinities the largest, negated for -0W
+const intReader = (values: Int16Array | Int32Array, nul: number) => (row: number) => {
+  const value = values[row];
+  if (value === nul) return null;
+  if (value === -(nul + 1)) return POSITIVE_INFINITY;
+  if (value === nul + 1) return NEGATIVE_INFINITY;
+  return value;
+};
+
+const floatReader = (values: Float32Array | Float64Array) => (row: number) => {
+  const value = values[row];
+  if (Number.isNaN(value)) return null;
+  if (value === Infinity) return POSITIVE_INFINITY;
+  if (value === -Infinity) return NEGATIVE_INFINITY;
+  return value;
+};
+
+const LONG_NULL = -(2n ** 63n);
+const LONG_INFINITY = 2n ** 63n - 1n;
+
+// Longs are read as decimal strings, as the JSON transport sends them
+const longReader = (values: BigInt64Array) => (row: number) => {
+  const value = values[row];
+  if (value === LONG_NULL) return null;
+  if (value === LONG_INFINITY) return POSITIVE_INFINITY;
+  if (value === -LONG_INFINITY) return NEGATIVE_INFINITY;
+  return value.toString();
+};
+
+const decodeColumn = (buffer: ArrayBuffer, bodyOffset: number, count: number, type: string | undefined, column: ColumnEncoding): KdbColumnVector => {
+  const offset = bodyOffset + (column.offset ?? 0);
+  switch (column.encoding) {
+    case 'uint8': {
+      const values = new Uint8Array(buffer, offset, count);
+      return { encoding: column.encoding, values, get: type === 'boolean' ? row => values[row] === 1 : row => values[row] };
+    }
+    case 'int16': {
+      const values = new Int16Array(buffer, offset, count);
+      return { encoding: column.encoding, values, get: intReader(values, -32768) };
+    }
+    case 'int32': {
+      const values = new Int32Array(buffer, offset, count);
+      return { encoding: column.encoding, values, get: intReader(values, -2147483648) };
+    }
+    case 'int64': {
+      const values = new BigInt64Array(buffer, offset, count);
+      return { encoding: column.encoding, values, get: longReader(values) };
+    }
+    case 'float32': {
+      const values = new Float32Array(buffer, offset, count);
+      return { encoding: column.encoding, values, get: floatReader(values) };
+    }
+    case 'float64': {
+      const values = new Float64Array(buffer, offset, count);
+      return { encoding: column.encoding, values, get: floatReader(values) };
+    }
+    case 'symbol': {
+      // One symbol object per dictionary entry, shared by every row that uses it
+      const values = new Int32Array(buffer, offset, count);
+      const symbols = (column.dictionary ?? []).map(value => ({ __kdb_type: 'symbol', value }));
+      return { encoding: column.encoding, values, get: row => (values[row] < 0 ? null : symbols[values[row]]) };
+    }
+    default: {
+      const values = column.values ?? [];
+      return { encoding: 'json', values, get: row => values[row] };
+    }
+  }
+};
+
+// An array-like of rows over the columns, so code written against row-major data keeps working.
+// Each access to a row builds it afresh; hot paths should use readCell instead.
+const createRowView = (columns: KdbColumnVector[], count: number): any[][] => {
+  const isRow = (property: string | symbol): property is string => {
+    if (typeof property !== 'string') return false;
+    const row = Number(property);
+    return Number.isInteger(row) && row >= 0 && row < count && String(row) === property;
+  };
+  return new Proxy(new Array(count), {
+    get: (target, property, receiver) => (isRow(property)
+      ? columns.map(column => column.get(Number(property)))
+      : Reflect.get(target, property, receiver)),
+    has: (target, property) => isRow(property) || Reflect.has(target, property)
+  });
+};
+
+export const isColumnarResponse = (response: Response): boolean =>
+  (response.headers.get('Content-Type') ?? '').startsWith(COLUMNAR_CONTENT_TYPE);
+
+// Turn a columnar frame into a KdbQueryResult whose columns read straight from `buffer`
+export const decodeColumnar = (buffer: ArrayBuffer): KdbQueryResult => {
+  const prefix = new DataView(buffer);
+  const magic = String.fromCharCode(...new Uint8Array(buffer, 0, 4));
+  if (magic !== MAGIC) {
+    throw new Error('Malformed columnar result');
+  }
+  const headerLength = prefix.getUint32(4, true);
+  const { encodings, rows, ...header } = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 8, headerLength))) as ColumnarHeader;
+  const bodyOffset = align8(8 + headerLength);
+  const count = rows ?? header.meta?.count ?? 0;
+
+  const columnar = encodings.map((column, index) => decodeColumn(buffer, bodyOffset, count, header.meta?.types[index], column));
+  return { ...header, data: createRowView(columnar, count), columnar };
+};
+
+// One cell of a result, whichever way it arrived, without building its row
+export const readCell = (result: KdbQueryResult, row: number, column: number): any =>
+  result.columnar ? result.columnar[column].get(row) : result.data[row]?.[column];
@@ -0,0 +1,165 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  deleteProfile,
+  describeTarget,
+  exportProfiles,
+  findProfileFor,
+  getLastConnection,
+  getProfileById,
+  getProfiles,
+  importProfiles,
+  profileToParams,
+  recordConnection,
+  saveProfile
+} from './connection-profiles';
+
+const STORAGE_KEY = 'kdb-viz-connection-profiles';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('saveProfile', () => {
+  it('keeps everything but the password', () => {
+    const profile = saveProfile('Ticker', { host: 'tp1', port: 5010, user: 'alice', password: 'hunter2', policy: 'confirm' }, 'uat');
+    expect(getProfileById(profile.id)).toMatchObject({ name: 'Ticker', host: 'tp1', port: 5010, transport: 'tcp', user: 'alice', policy: 'confirm', environment: 'uat' });
+    expect(localStorage.getItem(STORAGE_KEY)).not.toContain('hunter2');
+  });
+
+  it('updates a profile in place and refuses an unknown id', () => {
+    const profile = saveProfile('HDB', { host: 'hdb1', port: 5012 }, 'dev');
+    saveProfile('HDB', { host: 'hdb2', port: 5012, transport: 'tls', caPath: '/etc/ca.pem' }, 'prod', { id: profile.id });
+    expect(getProfiles()).toHaveLength(1);
+    expect(getProfileById(profile.id)).toMatchObject({ host: 'hdb2', transport: 'tls', caPath: '/etc/ca.pem', environment: 'prod', policy: 'read-write' });
+    expect(() => saveProfile('HDB', { host: 'hdb3', port: 5012 }, 'dev', { id: 'nope' })).toThrow('Profile not found');
+  });
+
+  it('only keeps the CA bundle of TLS and the socket path of Unix sockets', () => {
+    const profile = saveProfile('Local', { host: 'localhost', port: 5000, caPath: '/etc/ca.pem', socketPath: '/tmp/kx.5000' }, 'dev');
+    expect(profile.caPath).toBeUndefined();
+    expect(profile.socketPath).toBeUndefined();
+  });
+});
+
+describe('getProfiles', () => {
+  it('orders profiles by environment, then name', () => {
+    saveProfile('b', { host: 'h', port: 1 }, 'prod');
+    saveProfile('z', { host: 'h', port: 2 }, 'dev');
+    saveProfile('a', { host: 'h', port: 3 }, 'prod');
+    saveProfile('m', { host: 'h', port: 4 }, 'uat');
+    expect(getProfiles().map(profile => `${profile.environment}/${profile.name}`)).toEqual(['dev/z', 'uat/m', 'prod/a', 'prod/b']);
+  });
+
+  it('reads profiles saved before query policies as read-write', () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      profiles: [{ id: 'p1', name: 'Old', host: 'h', port: 1, transport: 'tcp', environment: 'dev', createdAt: '2026-01-01T00:00:00Z', updatedAt: '2026-01-01T00:00:00Z' }]
+    }));
+    const [profile] = getProfiles();
+    expect(profile.policy).toBe('read-write');
+    expect(profile.createdAt).toBeInstanceOf(Date);
+  });
+});
+
+describe('findProfileFor', () => {
+  it('matches the same process whatever the user', () => {
+    const profile = saveProfile('RDB', { host: 'rdb1', port: 5011, user: 'alice' }, 'prod');
+    expect(findProfileFor({ host: 'rdb1', port: 5011, user: 'bob' })?.id).toBe(profile.id);
+    expect(findProfileFor({ host: 'rdb1', port: 5012 })).toBeNull();
+    expect(findProfileFor({ host: 'rdb1', port: 5011, transport: 'tls' })).toBeNull();
+  });
+
+  it('matches Unix sockets by their path', () => {
+    const profile = saveProfile('Socket', { host: 'localhost', port: 5000, transport: 'unix', socketPath: '/run/kx.5000' }, 'dev');
+    expect(findProfileFor({ host: 'other', port: 5000, transport: 'unix', socketPath: '/run/kx.5000' })?.id).toBe(profile.id);
+    expect(findProfileFor({ host: 'localhost', port: 5000, transport: 'unix' })).toBeNull();
+  });
+});
+
+describe('deleteProfile', () => {
+  it('removes the profile and unlinks the last connection from it', () => {
+    const profile = saveProfile('RDB', { host: 'rdb1', port: 5011 }, 'dev');
+    recordConnection({ host: 'rdb1', port: 5011 }, profile.id);
+    expect(deleteProfile(profile.id)).toBe(true);
+    expect(getProfiles()).toEqual([]);
+    expect(getLastConnection()).toMatchObject({ host: 'rdb1', port: 5011 });
+    expect(getLastConnection()?.profileId).toBeUndefined();
+    expect(deleteProfile(profile.id)).toBe(false);
+  });
+});
+
+describe('recordConnection', () => {
+  it('remembers the last connection without its password and marks the profile used', () => {
+    const profile = saveProfile('RDB', { host: 'rdb1', port: 5011, user: 'alice' }, 'dev');
+    recordConnection({ host: 'rdb1', port: 5011, user: 'alice', password: 'hunter2' }, profile.id);
+    expect(getLastConnection()).toEqual({ host: 'rdb1', port: 5011, transport: 'tcp', user: 'alice', policy: 'read-write', profileId: profile.id });
+    expect(getProfileById(profile.id)?.lastUsedAt).toBeInstanceOf(Date);
+    expect(localStorage.getItem(STORAGE_KEY)).not.toContain('hunter2');
+  });
+});
+
+describe('describeTarget', () => {
+  it('writes the address with its transport', () => {
+    expect(describeTarget({ host: 'rdb1', port: 5011 })).toBe('rdb1:5011');
+    expect(describeTarget({ host: 'rdb1', port: 5011, transport: 'tls' })).toBe('tls://rdb1:5011');
+    expect(describeTarget({ host: 'localhost', port: 5000, transport: 'unix' })).toBe('unix:///tmp/kx.5000');
+    expect(describeTarget({ host: 'localhost', port: 5000, transport: 'unix', socketPath: '/run/kx' })).toBe('unix:///run/kx');
+  });
+});
+
+describe('profileToParams', () => {
+  it('sends the password only for a profile with a user', () => {
+    const withUser = saveProfile('A', { host: 'h', port: 1, user: 'alice' }, 'dev');
+    const withoutUser = saveProfile('B', { host: 'h', port: 2 }, 'dev');
+    expect(profileToParams(withUser, 'secret')).toMatchObject({ host: 'h', port: 1, user: 'alice', password: 'secret', policy: 'read-write' });
+    expect(profileToParams(withoutUser, 'secret').password).toBeUndefined();
+  });
+});
+
+describe('exportProfiles and importProfiles', () => {
+  it('round-trips profiles through JSON', () => {
+    saveProfile('RDB', { host: 'rdb1', port: 5011, user: 'alice', policy: 'read-only' }, 'prod');
+    const exported = exportProfiles();
+    localStorage.clear();
+
+    expect(importProfiles(exported)).toEqual({ imported: 1, errors: [] });
+    expect(getProfiles()).toEqual([expect.objectContaining({ name: 'RDB', host: 'rdb1', port: 5011, user: 'alice', policy: 'read-only', environment: 'prod' })]);
+  });
+
+  it('exports only the profiles asked for', () => {
+    const kept = saveProfile('A', { host: 'h', port: 1 }, 'dev');
+    saveProfile('B', { host: 'h', port: 2 }, 'dev');
+    expect(JSON.parse(exportProfiles({ profileIds: [kept.id] })).profiles.map((profile: { name: string }) => profile.name)).toEqual(['A']);
+  });
+
+  it('reports profiles it cannot import and keeps the rest', () => {
+    saveProfile('Existing', { host: 'h', port: 1 }, 'dev');
+    const result = importProfiles(JSON.stringify({
+      profiles: [
+        { name: 'Good', host: 'h', port: '5000', environment: 'uat', transport: 'carrier-pigeon' },
+        { name: 'No host', port: 5000, environment: 'dev' },
+        { name: 'Staging', host: 'h', port: 5000, environment: 'staging' },
+        { name: 'Existing', host: 'h', port: 9, environment: 'dev' }
+      ]
+    }));
+    expect(result.imported).toBe(1);
+    expect(result.errors).toEqual([
+      'Profile "No host" is missing a name, host or port',
+      'Profile "Staging" has unknown environment "staging"',
+      'Profile "Existing" already exists'
+    ]);
+    expect(findProfileFor({ host: 'h', port: 5000 })).toMatchObject({ name: 'Good', transport: 'tcp', policy: 'read-write' });
+  });
+
+  it('replaces profiles of the same name when asked to', () => {
+    saveProfile('Existing', { host: 'h', port: 1 }, 'dev');
+    const result = importProfiles(JSON.stringify({ profiles: [{ name: 'Existing', host: 'h', port: 9, environment: 'prod' }] }), { overwrite: true });
+    expect(result).toEqual({ imported: 1, errors: [] });
+    expect(getProfiles()).toEqual([expect.objectContaining({ name: 'Existing', port: 9, environment: 'prod' })]);
+  });
+
+  it('rejects files that are not a profile export', () => {
+    expect(importProfiles('{"queries": []}')).toEqual({ imported: 0, errors: ['No profiles found in file'] });
+    expect(importProfiles('not json').errors[0]).toMatch(/^Invalid JSON format/);
+  });
+});
@@ -0,0 +1,323 @@
+// Connection Profile Storage for KDB+ Visualizer
+// Named host/port/transport/user presets with an environment tag and query policy.
+// Passwords are never stored.
+
+import { KdbConnectionParams, KdbTransport, KdbEnvironment, KdbQueryPolicy } from '@/types/kdb';
+
+export const ENVIRONMENTS: KdbEnvironment[] = ['dev', 'uat', 'prod'];
+
+export const QUERY_POLICIES: KdbQueryPolicy[] = ['read-write', 'confirm', 'read-only'];
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  host: string;
+  port: number;
+  transport: KdbTransport;
+  user?: string;
+  caPath?: string;
+  socketPath?: string;
+  policy: KdbQueryPolicy;
+  environment: KdbEnvironment;
+  createdAt: Date;
+  updatedAt: Date;
+  lastUsedAt?: Date;
+}
+
+// The last connection made, so the connection bar can be filled in again after a reload
+export interface LastConnection {
+  host: string;
+  port: number;
+  transport: KdbTransport;
+  user?: string;
+  caPath?: string;
+  socketPath?: string;
+  policy: KdbQueryPolicy;
+  profileId?: string;
+}
+
+interface ProfileStorage {
+  profiles: ConnectionProfile[];
+  lastConnection?: LastConnection;
+}
+
+const STORAGE_KEY = 'kdb-viz-connection-profiles';
+const DEFAULT_STORAGE: ProfileStorage = {
+  profiles: []
+};
+
+// Generate unique ID
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+}
+
+function isEnvironment(value: unknown): value is KdbEnvironment {
+  return typeof value === 'string' && (ENVIRONMENTS as string[]).includes(value);
+}
+
+function isTransport(value: unknown): value is KdbTransport {
+  return value === 'tcp' || value === 'tls' || value === 'unix';
+}
+
+function isQueryPolicy(value: unknown): value is KdbQueryPolicy {
+  return typeof value === 'string' && (QUERY_POLICIES as string[]).includes(value);
+}
+
+// Get storage data from localStorage
+function getStorageData(): ProfileStorage {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return { ...DEFAULT_STORAGE, profiles: [] };
+
+    const parsed = JSON.parse(stored);
+    // Convert date strings back to Date objects
+    // Profiles saved before query policies existed run everything
+    parsed.profiles = (parsed.profiles || []).map((p: any) => ({
+      ...p,
+      policy: isQueryPolicy(p.policy) ? p.policy : 'read-write',
+      createdAt: new Date(p.createdAt),
+      updatedAt: new Date(p.updatedAt),
+      lastUsedAt: p.lastUsedAt ? new Date(p.lastUsedAt) : undefined
+    }));
+
+    return { ...DEFAULT_STORAGE, ...parsed };
+  } catch (error) {
+    console.error('Error loading connection profiles:', error);
+    return { ...DEFAULT_STORAGE, profiles: [] };
+  }
+}
+
+// Save storage data to localStorage
+function saveStorageData(data: ProfileStorage): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.error('Error saving connection profiles:', error);
+    throw new Error('Failed to save connection profiles. Storage may be full.');
+  }
+}
+
+// Only the fields a profile keeps; in particular the password is dropped
+function profileFields(params: KdbConnectionParams) {
+  const transport = params.transport || 'tcp';
+  return {
+    host: params.host,
+    port: params.port,
+    transport,
+    user: params.user || undefined,
+    caPath: transport === 'tls' ? params.caPath || undefined : undefined,
+    socketPath: transport === 'unix' ? params.socketPath || undefined : undefined,
+    policy: params.policy || 'read-write'
+  };
+}
+
+// Profile Management Functions
+
+export function saveProfile(
+  name: string,
+  params: KdbConnectionParams,
+  environment: KdbEnvironment,
+  options: { id?: string } = {}
+): ConnectionProfile {
+  const storage = getStorageData();
+  const now = new Date();
+
+  let profile: ConnectionProfile;
+
+  if (options.id) {
+    // Update existing profile
+    const existingIndex = storage.profiles.findIndex(p => p.id === options.id);
+    if (existingIndex === -1) {
+      throw new Error('Profile not found for update');
+    }
+
+    profile = {
+      ...storage.profiles[existingIndex],
+      ...profileFields(params),
+      name,
+      environment,
+      updatedAt: now
+    };
+
+    storage.profiles[existingIndex] = profile;
+  } else {
+    // Create new profile
+    profile = {
+      id: generateId(),
+      name,
+      ...profileFields(params),
+      environment,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    storage.profiles.push(profile);
+  }
+
+  saveStorageData(storage);
+  return profile;
+}
+
+// Profiles ordered by environment (dev, uat, prod), then name
+export function getProfiles(): ConnectionProfile[] {
+  return getStorageData().profiles.sort((a, b) =>
+    ENVIRONMENTS.indexOf(a.environment) - ENVIRONMENTS.indexOf(b.environment) ||
+    a.name.localeCompare(b.name)
+  );
+}
+
+export function getProfileById(id: string): ConnectionProfile | null {
+  return getStorageData().profiles.find(p => p.id === id) || null;
+}
+
+// The saved profile pointing at the same process, so ad-hoc connections still get an environment tag
+export function findProfileFor(params: KdbConnectionParams): ConnectionProfile | null {
+  const { host, port, transport = 'tcp', socketPath } = profileFields(params);
+  return getProfiles().find(p =>
+    p.transport === transport &&
+    (transport === 'unix' ? (p.socketPath || null) === (socketPath || null) && p.port === port : p.host === host && p.port === port)
+  ) || null;
+}
+
+export function deleteProfile(id: string): boolean {
+  const storage = getStorageData();
+  const index = storage.profiles.findIndex(p => p.id === id);
+
+  if (index === -1) return false;
+
+  storage.profiles.splice(index, 1);
+  if (storage.lastConnection?.profileId === id) {
+    storage.lastConnection = { ...storage.lastConnection, profileId: undefined };
+  }
+  saveStorageData(storage);
+  return true;
+}
+
+// Printable address, e.g. "tls://host:port" or "unix:///tmp/kx.5000"
+export function describeTarget(params: { host: string; port: number; transport?: KdbTransport; socketPath?: string }): string {
+  if (params.transport === 'unix') {
+    return `unix://${params.socketPath || `/tmp/kx.${params.port}`}`;
+  }
+  return `${params.transport === 'tls' ? 'tls://' : ''}${params.host}:${params.port}`;
+}
+
+export function profileToParams(profile: ConnectionProfile, password?: string): KdbConnectionParams {
+  return {
+    host: profile.host,
+    port: profile.port,
+    transport: profile.transport,
+    user: profile.user,
+    password: profile.user ? password : undefined,
+    caPath: profile.caPath,
+    socketPath: profile.socketPath,
+    policy: profile.policy
+  };
+}
+
+// Last Connection Functions
+
+export function recordConnection(params: KdbConnectionParams, profileId?: string): void {
+  const storage = getStorageData();
+
+  storage.lastConnection = { ...profileFields(params), profileId };
+  if (profileId) {
+    const profile = storage.profiles.find(p => p.id === profileId);
+    if (profile) {
+      profile.lastUsedAt = new Date();
+    }
+  }
+
+  saveStorageData(storage);
+}
+
+export function getLastConnection(): LastConnection | null {
+  return getStorageData().lastConnection || null;
+}
+
+// Import/Export Functions
+
+export function exportProfiles(options: { profileIds?: string[] } = {}): string {
+  const storage = getStorageData();
+
+  const exportData = {
+    profiles: options.profileIds
+      ? storage.profiles.filter(p => options.profileIds!.includes(p.id))
+      : storage.profiles
+  };
+
+  return JSON.stringify(exportData, null, 2);
+}
+
+export function importProfiles(
+  jsonData: string,
+  options: {
+    overwrite?: boolean;
+  } = {}
+): { imported: number; errors: string[] } {
+  const errors: string[] = [];
+  let imported = 0;
+
+  try {
+    const importData = JSON.parse(jsonData);
+    const storage = getStorageData();
+
+    if (!Array.isArray(importData.profiles)) {
+      return { imported, errors: ['No profiles found in file'] };
+    }
+
+    importData.profiles.forEach((profile: any) => {
+      try {
+        const port = parseInt(profile.port);
+        if (!profile.name || !profile.host || isNaN(port)) {
+          errors.push(`Profile "${profile.name || 'unnamed'}" is missing a name, host or port`);
+          return;
+        }
+        if (!isEnvironment(profile.environment)) {
+          errors.push(`Profile "${profile.name}" has unknown environment "${profile.environment}"`);
+          return;
+        }
+
+        const existingProfile = storage.profiles.find(p => p.name === profile.name);
+
+        if (existingProfile && !options.overwrite) {
+          errors.push(`Profile "${profile.name}" already exists`);
+          return;
+        }
+
+        const importedProfile: ConnectionProfile = {
+          id: generateId(),
+          name: profile.name,
+          ...profileFields({
+            host: profile.host,
+            port,
+            transport: isTransport(profile.transport) ? profile.transport : 'tcp',
+            user: profile.user,
+            caPath: profile.caPath,
+            socketPath: profile.socketPath,
+            policy: isQueryPolicy(profile.policy) ? profile.policy : 'read-write'
+          }),
+          environment: profile.environment,
+          createdAt: new Date(profile.createdAt || Date.now()),
+          updatedAt: new Date(profile.updatedAt || Date.now())
+        };
+
+        if (existingProfile) {
+          const index = storage.profiles.indexOf(existingProfile);
+          storage.profiles[index] = importedProfile;
+        } else {
+          storage.profiles.push(importedProfile);
+        }
+
+        imported++;
+      } catch (error) {
+        errors.push(`Failed to import profile "${profile.name}": ${error}`);
+      }
+    });
+
+    saveStorageData(storage);
+  } catch (error) {
+    errors.push(`Invalid JSON format: ${error}`);
+  }
+
+  return { imported, errors };
+}
@@ -10,8 +10,28 @@ export interface FileSaveOptions {
   content: string;
   fileName?: string;
   suggestedName?: string;
+  fileType?: FileTypeOption; // Defaults to KDB+ scripts
 }
 
+export interface FileTypeOption {
+  description: string;
+  accept: Record<string, string[]>; // MIME type -> extensions
+}
+
+const KDB_SCRIPT_FILE_TYPE: FileTypeOption = {
+  description: 'KDB+ Scripts',
+  accept: {
+    'text/plain': ['.q', '.kdb', '.txt']
+  }
+};
+
+export const JSON_FILE_TYPE: FileTypeOption = {
+  description: 'JSON Files',
+  accept: {
+    'application/json': ['.json']
+  }
+};
+
 export interface FileSaveResult {
   success: boolean;
   fileName?: string;
@@ -104,20 +124,13 @@ export function isFileSystemAccessSupported(): boolean {
 // Save file using File System Access API (modern browsers)
 async function saveFileWithFileSystemAccess(options: FileSaveOptions): Promise<FileSaveResult> {
   try {
-    const { content, fileName, suggestedName } = options;
+    const { content, fileName, suggestedName, fileType = KDB_SCRIPT_FILE_TYPE } = options;
     const defaultName = fileName || suggestedName || 'query.q';
     
     // @ts-ignore - File System Access API types may not be available
     const fileHandle = await window.showSaveFilePicker({
       suggestedName: defaultName,
-      types: [
-        {
-          description: 'KDB+ Scripts',
-          accept: {
-            'text/plain': ['.q', '.kdb', '.txt']
-          }
-        }
-      ]
+      types: [fileType]
     });
     
     const writable = await fileHandle.createWritable();
@@ -145,11 +158,11 @@ async function saveFileWithFileSystemAccess(options: FileSaveOptions): Promise<F
 // Save file using download fallback (older browsers)
 function saveFileWithDownload(options: FileSaveOptions): FileSaveResult {
   try {
-    const { content, fileName, suggestedName } = options;
+    const { content, fileName, suggestedName, fileType = KDB_SCRIPT_FILE_TYPE } = options;
     const defaultName = fileName || suggestedName || 'query.q';
     
     // Create a Blob with the content
-    const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
+    const blob = new Blob([content], { type: `${Object.keys(fileType.accept)[0]};charset=utf-8` });
     
     // Create a download URL
     const url = URL.createObjectURL(blob);
@@ -0,0 +1,47 @@
+// Turning the inputs of the generated function form into the typed arguments
+// POST /api/functions/call sends to q
+
+import { KdbFunctionArgument, KdbParameterType } from '@/types/kdb';
+
+export const PARAMETER_TYPE_LABELS: Record<KdbParameterType, string> = {
+  boolean: 'boolean',
+  long: 'long',
+  float: 'float',
+  string: 'string',
+  symbol: 'symbol',
+  date: 'date',
+  timestamp: 'timestamp',
+  time: 'time',
+  longs: 'long list',
+  floats: 'float list',
+  symbols: 'symbol list',
+  dates: 'date list',
+};
+
+export const PARAMETER_TYPES = Object.keys(PARAMETER_TYPE_LABELS) as KdbParameterType[];
+
+const LIST_TYPES: KdbParameterType[] = ['longs', 'floats', 'symbols', 'dates'];
+
+export const isListType = (type: KdbParameterType): boolean => LIST_TYPES.includes(type);
+
+// The value a fresh input of the type starts with
+export const emptyValue = (type: KdbParameterType): string | boolean => (type === 'boolean' ? false : '');
+
+// q writes dates 2024.01.15; the bridge reads 2024-01-15
+const toIsoDate = (text: string): string => text.replace(/^(\d{4})\.(\d{2})\.(\d{2})$/, '$1-$2-$3');
+
+// List inputs are typed as space or comma separated items: "AAPL IBM", "2024.01.15, 2024.01.16"
+export const toFunctionArgument = (type: KdbParameterType, value: string | boolean): KdbFunctionArgument => {
+  if (type === 'boolean') {
+    return { type, value: value === true };
+  }
+  const text = String(value);
+  if (isListType(type)) {
+    const items = text.split(/[\s,]+/).filter(Boolean);
+    return { type, value: type === 'dates' ? items.map(toIsoDate) : items };
+  }
+  if (type === 'date') {
+    return { type, value: toIsoDate(text.trim()) };
+  }
+  return { type, value: type === 'string' ? text : text.trim() };
+};
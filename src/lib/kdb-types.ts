@@ -0,0 +1,132 @@
+// Helpers for the q column types the bridge reports in KdbQueryResult.meta,
+// and for the typed nulls and infinities in its values
+
+import { KdbInfinity, KdbQueryResult } from '@/types/kdb';
+
+// Bytes per value as q stores it; strings are sized from the data instead
+export const KDB_TYPE_SIZES: Record<string, number> = {
+  boolean: 1, guid: 16, byte: 1, short: 2, int: 4, long: 8,
+  real: 4, float: 8, char: 1, symbol: 8, enum: 4,
+  timestamp: 8, datetime: 8, timespan: 8,
+  date: 4, month: 4, minute: 4, second: 4, time: 4
+};
+
+const NUMERIC_TYPES = new Set(['byte', 'short', 'int', 'long', 'real', 'float']);
+
+const TEMPORAL_TYPES = new Set(['timestamp', 'month', 'date', 'datetime', 'timespan', 'minute', 'second', 'time']);
+
+// Temporal types that carry no date part
+const TIME_OF_DAY_TYPES = new Set(['timespan', 'minute', 'second', 'time']);
+
+// The q type of a column, or undefined for results without metadata
+export const getColumnType = (result: KdbQueryResult | null | undefined, columnIndex: number): string | undefined =>
+  result?.meta?.types?.[columnIndex];
+
+export const isNumericType = (type: string | undefined): boolean => !!type && NUMERIC_TYPES.has(type);
+
+export const isTemporalType = (type: string | undefined): boolean => !!type && TEMPORAL_TYPES.has(type);
+
+export const isTimeOfDayType = (type: string | undefined): boolean => !!type && TIME_OF_DAY_TYPES.has(type);
+
+// Nulls arrive as null whatever their type; the column type gives the q literal to show
+const NULL_LITERALS: Record<string, string> = {
+  guid: '0Ng', short: '0Nh', int: '0Ni', long: '0N', real: '0Ne', float: '0n',
+  char: '" "', string: '""', symbol: '`', enum: '0N',
+  timestamp: '0Np', month: '0Nm', date: '0Nd', datetime: '0Nz',
+  timespan: '0Nn', minute: '0Nu', second: '0Nv', time: '0Nt'
+};
+
+// Positive infinity literals; negative ones are the same with a leading '-'
+const INFINITY_LITERALS: Record<string, string> = {
+  short: '0Wh', int: '0Wi', long: '0W', real: '0We', float: '0w',
+  timestamp: '0Wp', month: '0Wm', date: '0Wd', datetime: '0wz',
+  timespan: '0Wn', minute: '0Wu', second: '0Wv', time: '0Wt'
+};
+
+export const isKdbNull = (value: unknown): value is null | undefined => value === null || value === undefined;
+
+export const isKdbInfinity = (value: unknown): value is KdbInfinity =>
+  typeof value === 'object' && value !== null && (value as KdbInfinity).__kdb_type === 'infinity';
+
+// Values that can be drawn: charts skip nulls and infinities
+export const isPlottable = (value: unknown): boolean => !isKdbNull(value) && !isKdbInfinity(value);
+
+export const formatKdbNull = (type: string | undefined): string => (type && NULL_LITERALS[type]) || '0N';
+
+export const formatKdbInfinity = (value: KdbInfinity, type: string | undefined): string =>
+  `${value.sign < 0 ? '-' : ''}${(type && INFINITY_LITERALS[type]) || '0W'}`;
+
+// Text for a null or infinity, or undefined for an ordinary value
+export const formatKdbSpecial = (value: unknown, type: string | undefined): string | undefined => {
+  if (isKdbNull(value)) return formatKdbNull(type);
+  if (isKdbInfinity(value)) return formatKdbInfinity(value, type);
+  return undefined;
+};
+
+const formatListItem = (item: any): string => {
+  if (Array.isArray(item)) return `(${formatKdbList(item)})`;
+  if (isKdbNull(item)) return '';
+  if (isKdbInfinity(item)) return item.sign < 0 ? '-0W' : '0W';
+  if (item.__kdb_type === 'symbol') return `\`${item.value}`;
+  return typeof item === 'object' ? JSON.stringify(item) : String(item);
+};
+
+// Text for a nested list cell, close to q's own display: 1 2 3, `a `b, (1 2) (3 4)
+export const formatKdbList = (value: unknown[]): string => value.map(formatListItem).join(' ');
+
+// Longs, timestamps and timespans travel as strings so no digit is lost; these compare them exactly
+const LOSSLESS_TYPES = new Set(['long', 'timestamp', 'timespan']);
+
+export const isLosslessType = (type: string | undefined): boolean => !!type && LOSSLESS_TYPES.has(type);
+
+// 14:30:25.123456789, 2D14:30:25.123456789 or -00:00:01.000000001 to nanoseconds
+const timespanToNanos = (value: string): bigint => {
+  const match = /^(-)?(?:(\d+)D)?(\d+):(\d+):(\d+)(?:\.(\d+))?$/.exec(value);
+  if (!match) return 0n;
+  const [, sign, days = '0', hours, minutes, seconds, fraction = ''] = match;
+  const nanos = ((BigInt(days) * 24n + BigInt(hours)) * 60n + BigInt(minutes)) * 60n * 1000000000n
+    + BigInt(seconds) * 1000000000n + BigInt(fraction.padEnd(9, '0').slice(0, 9));
+  return sign ? -nanos : nanos;
+};
+
+const toBigInt = (value: unknown, type: string | undefined): bigint => {
+  if (typeof value === 'number') return BigInt(Math.trunc(value));
+  if (type === 'timespan') return timespanToNanos(String(value));
+  try {
+    return BigInt(String(value));
+  } catch {
+    return 0n;
+  }
+};
+
+// Ordering q itself uses: nulls first, then -0W, values, 0W
+const specialRank = (value: unknown): number => {
+  if (isKdbNull(value)) return -2;
+  if (isKdbInfinity(value)) return value.sign;
+  return 0;
+};
+
+// Exact comparison for long, timestamp and timespan values
+export const compareLossless = (a: unknown, b: unknown, type: string | undefined): number => {
+  const rankA = specialRank(a);
+  const rankB = specialRank(b);
+  if (rankA !== 0 || rankB !== 0) return rankA - rankB;
+  if (type === 'timestamp') {
+    // ISO strings with a fixed nine-digit fraction sort as text
+    const textA = String(a);
+    const textB = String(b);
+    return textA < textB ? -1 : textA > textB ? 1 : 0;
+  }
+  const valueA = toBigInt(a, type);
+  const valueB = toBigInt(b, type);
+  return valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+};
+
+// A long sent as a decimal string, grouped like other numbers without going through a float
+export const formatKdbLong = (value: string): string => {
+  try {
+    return BigInt(value).toLocaleString();
+  } catch {
+    return value;
+  }
+};
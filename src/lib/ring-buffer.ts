@@ -0,0 +1,51 @@
+// Fixed-capacity FIFO for live data: once full, each push overwrites the oldest entries
+
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  private length = 0;
+
+  constructor(readonly capacity: number) {
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new Error(`Ring buffer capacity must be a positive integer, got ${capacity}`);
+    }
+    this.items = new Array(capacity);
+  }
+
+  get size(): number {
+    return this.length;
+  }
+
+  push(value: T): void {
+    this.pushAll([value]);
+  }
+
+  pushAll(values: T[]): void {
+    // Only the newest `capacity` values can survive, so skip the rest up front
+    const from = Math.max(0, values.length - this.capacity);
+    for (let i = from; i < values.length; i++) {
+      const end = (this.start + this.length) % this.capacity;
+      this.items[end] = values[i];
+      if (this.length < this.capacity) {
+        this.length++;
+      } else {
+        this.start = (this.start + 1) % this.capacity;
+      }
+    }
+  }
+
+  // Oldest first
+  toArray(): T[] {
+    const result = new Array<T>(this.length);
+    for (let i = 0; i < this.length; i++) {
+      result[i] = this.items[(this.start + i) % this.capacity] as T;
+    }
+    return result;
+  }
+
+  clear(): void {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.length = 0;
+  }
+}
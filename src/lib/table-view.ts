@@ -0,0 +1,36 @@
+// Turning the grid's sorting and filter state into the KdbTableView the bridge applies
+// when a table is browsed server-side
+
+import { ColumnFiltersState, SortingState } from '@tanstack/react-table';
+import { KdbColumnFilter, KdbFilterOp, KdbTableView } from '@/types/kdb';
+
+export const EMPTY_TABLE_VIEW: KdbTableView = { sort: [], filters: [], search: '' };
+
+// Operators typed in front of a filter value: ">= 100", "<>AAPL", "=2024.01.15"
+const OPERATOR_PREFIXES: [string, KdbFilterOp][] = [
+  ['>=', 'ge'], ['<=', 'le'], ['<>', 'ne'], ['>', 'gt'], ['<', 'lt'], ['=', 'eq']
+];
+
+// A column filter as typed in the grid; text without an operator matches anywhere in the value
+export const parseColumnFilter = (column: string, text: string): KdbColumnFilter | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  for (const [prefix, op] of OPERATOR_PREFIXES) {
+    if (trimmed.startsWith(prefix)) {
+      const value = trimmed.slice(prefix.length).trim();
+      return value ? { column, op, value } : null;
+    }
+  }
+  return { column, op: 'contains', value: trimmed };
+};
+
+// Grid column ids are column indexes into `columns`
+export const toTableView = (columns: string[], sorting: SortingState, columnFilters: ColumnFiltersState, search: string): KdbTableView => ({
+  sort: sorting
+    .filter(({ id }) => columns[parseInt(id)] !== undefined)
+    .map(({ id, desc }) => ({ column: columns[parseInt(id)], desc })),
+  filters: columnFilters
+    .map(({ id, value }) => (columns[parseInt(id)] !== undefined ? parseColumnFilter(columns[parseInt(id)], String(value ?? '')) : null))
+    .filter((filter): filter is KdbColumnFilter => filter !== null),
+  search: search.trim()
+});
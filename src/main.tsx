@@ -1,10 +1,22 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import { loadBridgeConfig, resetBridgeUrl } from './lib/bridge-config'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-)
\ No newline at end of file
+const render = () => {
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>,
+  )
+}
+
+// Find the bridge before anything can call it. A bridge URL that cannot be used (config.json or
+// VITE_API_URL that is not a URL) still leaves the app usable, against the default bridge.
+loadBridgeConfig()
+  .catch((error) => {
+    console.error('Cannot use the configured bridge URL, falling back to the default:', error)
+    resetBridgeUrl()
+  })
+  .then(render)
@@ -6,22 +6,53 @@ import { ChartModal } from '@/components/chart-modal-plotly';
 import { SettingsModal } from '@/components/settings-modal';
 import { ConnectionInput } from '@/components/connection-input';
 import { StatusBar } from '@/components/status-bar';
+import { LiveSubscriptionControl } from '@/components/live-subscription-control';
+import { FunctionBrowserModal } from '@/components/function-browser-modal';
+import { AuditLogModal } from '@/components/audit-log-modal';
+import { useLiveSubscription } from '@/hooks/use-live-subscription';
 import { Button } from '@/components/ui/button';
-import { Database, Settings } from 'lucide-react';
-import { KdbTable, KdbQueryResult, ConnectionStatus } from '@/types/kdb';
+import { Database, Settings, FunctionSquare, ScrollText } from 'lucide-react';
+import { KdbTable, KdbQueryResult, ConnectionStatus, KdbConnectionParams, KdbErrorCode, KdbConnectionInfo, KdbEnvironment, KdbSessionState, KdbSubscriptionHandlers, KdbSubscriptionHandle, KdbStreamOptions, KdbQueryProgress, KdbTableView, KdbFunction, KdbFunctionArgument, KdbQueryOptions, KdbNamespaceEntry, KdbTableMetadata, KdbTablePartitions, KdbJob, KdbAuditFilters, KdbAuditLog } from '@/types/kdb';
+import { EMPTY_TABLE_VIEW } from '@/lib/table-view';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
 
+const ENVIRONMENT_LABELS: Record<KdbEnvironment, string> = {
+  dev: 'DEVELOPMENT',
+  uat: 'UAT',
+  prod: 'PRODUCTION',
+};
+
+// Rows a query result loads before it stops, unless raised in settings or from the grid
+const DEFAULT_RESULT_ROW_LIMIT = 100000;
+
 interface DashboardPageProps {
-  connectionData: { host: string; port: number } | null;
+  connectionData: KdbConnectionInfo | null;
   connectionStatus: ConnectionStatus;
   connectionError: string | null;
+  connectionErrorCode: KdbErrorCode | null;
+  sessionState: KdbSessionState | null;
   tables: KdbTable[];
-  onConnect: (host: string, port: number, browseTables: boolean) => Promise<boolean>;
+  onConnect: (params: KdbConnectionParams, browseTables: boolean, profileId?: string) => Promise<boolean>;
   onDisconnect: () => void;
   onCancelConnection: () => void;
   onCancelQuery: () => void;
-  executeQuery: (query: string) => Promise<KdbQueryResult>;
-  getTableData: (tableName: string, offset: number, limit: number) => Promise<KdbQueryResult>;
+  streamQuery: (query: string, options?: KdbStreamOptions) => Promise<KdbQueryResult>;
+  queryProgress: KdbQueryProgress | null;
+  getTableData: (tableName: string, offset: number, limit: number, view?: KdbTableView, partition?: string) => Promise<KdbQueryResult>;
+  tableMetadata: Record<string, KdbTableMetadata>;
+  loadTableMetadata: (tableName: string, options?: { refresh?: boolean; count?: boolean }) => Promise<KdbTableMetadata>;
+  tablePartitions: Record<string, KdbTablePartitions>;
+  loadTablePartitions: (tableName: string, refresh?: boolean) => Promise<KdbTablePartitions>;
+  listFunctions: (namespaces?: string[]) => Promise<KdbFunction[]>;
+  callFunction: (name: string, args: KdbFunctionArgument[], options?: KdbQueryOptions) => Promise<KdbQueryResult>;
+  listNamespace: (namespace?: string) => Promise<KdbNamespaceEntry[]>;
+  previewEntry: (name: string) => Promise<KdbQueryResult>;
+  subscribe: (table: string, syms: string[], handlers: KdbSubscriptionHandlers) => Promise<KdbSubscriptionHandle>;
+  jobs: KdbJob[];
+  submitJob: (query: string, options?: KdbQueryOptions) => Promise<KdbJob>;
+  cancelJob: (jobId: string) => Promise<boolean>;
+  getJobResult: (jobId: string) => Promise<KdbQueryResult>;
+  getAuditLog: (filters?: KdbAuditFilters) => Promise<KdbAuditLog>;
   refreshTables: () => Promise<void>;
 }
 
@@ -29,35 +60,75 @@ export function DashboardPage({
   connectionData,
   connectionStatus,
   connectionError,
+  connectionErrorCode,
+  sessionState,
   tables,
   onConnect,
   onDisconnect,
   onCancelConnection,
   onCancelQuery,
-  executeQuery,
+  streamQuery,
+  queryProgress,
   getTableData,
+  tableMetadata,
+  loadTableMetadata,
+  tablePartitions,
+  loadTablePartitions,
+  listFunctions,
+  callFunction,
+  listNamespace,
+  previewEntry,
+  subscribe,
+  jobs,
+  submitJob,
+  cancelJob,
+  getJobResult,
+  getAuditLog,
   refreshTables,
 }: DashboardPageProps) {
   const [selectedTable, setSelectedTable] = useState<string | null>(null);
+  // Partition the selected table is paged within, when it is partitioned
+  const [selectedPartition, setSelectedPartition] = useState<string | null>(null);
   const [currentData, setCurrentData] = useState<KdbQueryResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isExecuting, setIsExecuting] = useState(false);
   const [currentPage, setCurrentPage] = useState(0);
   const [pageSize] = useState(100);
+  const [tableView, setTableView] = useState<KdbTableView>(EMPTY_TABLE_VIEW);
   const [isChartModalOpen, setIsChartModalOpen] = useState(false);
-  const [, setLastExecutedQuery] = useState<string | null>(null);
+  const [lastExecutedQuery, setLastExecutedQuery] = useState<string | null>(null);
+  // Whether the user confirmed the last query's flagged statements, so a re-run needn't ask again
+  const lastQueryConfirmedRef = useRef(false);
   const [isSidebarVisible, setIsSidebarVisible] = useState(true);
   const [browseTables, setBrowseTables] = useState(false);
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
+  const [isFunctionBrowserOpen, setIsFunctionBrowserOpen] = useState(false);
+  const [isAuditLogOpen, setIsAuditLogOpen] = useState(false);
   const [chartDataSource, setChartDataSource] = useState<'full' | 'displayed'>('full');
+  const [queryTimeoutSeconds, setQueryTimeoutSeconds] = useState<number>(() => {
+    // 0 means "use the bridge default"
+    return parseInt(localStorage.getItem('queryTimeoutSeconds') || '0') || 0;
+  });
+  const [resultRowLimit, setResultRowLimit] = useState<number>(() => {
+    // 0 means no limit
+    const stored = localStorage.getItem('resultRowLimit');
+    return stored === null ? DEFAULT_RESULT_ROW_LIMIT : parseInt(stored) || 0;
+  });
+  const [csvNullToken, setCsvNullToken] = useState<string>(() => localStorage.getItem('csvNullToken') || '');
   const [displayedData, setDisplayedData] = useState<KdbQueryResult | null>(null);
   const [lastQueryTime, setLastQueryTime] = useState<number | undefined>(undefined);
 
   // Ref for focus management  
   const queryExecutorRef = useRef<QueryExecutorRef>(null);
 
-  const totalRows = selectedTable 
-    ? tables.find(t => t.name === selectedTable)?.rowCount || 0 
+  // While a live subscription runs, the grid and charts show its ring buffer instead of query results
+  const live = useLiveSubscription(subscribe);
+  const stopLive = live.stop;
+  const gridData = live.isLive ? live.data : currentData;
+
+  // The bridge counts the rows a sorted or filtered view matches; the sidebar's count is the fallback
+  const totalRows = selectedTable
+    ? currentData?.totalRows ?? tableMetadata[selectedTable]?.rowCount ?? 0
     : 0;
 
   const toggleSidebar = useCallback(() => {
@@ -77,7 +148,7 @@ export function DashboardPage({
       
       // Press 'c': Open chart modal (when data is available and not editing text)
       // Explicitly exclude Ctrl/Cmd+C to prevent conflicts with copy
-      if (event.key === 'c' && !event.ctrlKey && !event.metaKey && currentData && currentData.data.length > 0) {
+      if (event.key === 'c' && !event.ctrlKey && !event.metaKey && gridData && gridData.data.length > 0) {
         // Check if user is currently focused in a text editing context
         const activeElement = document.activeElement;
         const isEditingText = activeElement && (
@@ -96,7 +167,7 @@ export function DashboardPage({
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [toggleSidebar, browseTables, currentData, setIsChartModalOpen]);
+  }, [toggleSidebar, browseTables, gridData, setIsChartModalOpen]);
 
   // Responsive behavior - auto-hide sidebar on mobile
   useEffect(() => {
@@ -113,18 +184,33 @@ export function DashboardPage({
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  const handleTableSelect = async (tableName: string) => {
+  // A partitioned table opens at `partition`, or at its latest partition when none is picked
+  const handleTableSelect = async (tableName: string, partition?: string) => {
+    live.stop();
     setSelectedTable(tableName);
+    setSelectedPartition(partition ?? null);
     setCurrentPage(0);
-    setLastExecutedQuery(`0!meta ${tableName}`);
-    await loadTableMetadata(tableName);
+    setTableView(EMPTY_TABLE_VIEW);
+    setLastExecutedQuery(null);
+    loadTableMetadata(tableName).catch(error => console.error('Error loading table metadata:', error));
+    await loadTableData(tableName, 0, pageSize, EMPTY_TABLE_VIEW, partition ?? null);
   };
 
-  const loadTableData = async (tableName: string, offset: number, limit: number) => {
+  const loadTableData = async (
+    tableName: string,
+    offset: number,
+    limit: number,
+    view: KdbTableView = tableView,
+    partition: string | null = selectedPartition
+  ) => {
     setIsLoading(true);
     try {
-      const result = await getTableData(tableName, offset, limit);
+      const result = await getTableData(tableName, offset, limit, view, partition ?? undefined);
       setCurrentData(result);
+      setSelectedPartition(result.partition ?? null);
+      if (result.partition) {
+        loadTablePartitions(tableName).catch(error => console.error('Error loading partitions:', error));
+      }
     } catch (error) {
       console.error('Error loading table data:', error);
       setCurrentData(null);
@@ -133,14 +219,15 @@ export function DashboardPage({
     }
   };
 
-  const loadTableMetadata = async (tableName: string) => {
+  // A variable, dictionary or view picked in the explorer: its first rows, shown like a query result
+  const handlePreviewEntry = async (name: string) => {
+    live.stop();
     setIsLoading(true);
     try {
-      const result = await executeQuery(`0!meta ${tableName}`);
+      const result = await previewEntry(name);
+      setSelectedTable(null);
+      setLastExecutedQuery(null);
       setCurrentData(result);
-    } catch (error) {
-      console.error('Error loading table metadata:', error);
-      setCurrentData(null);
     } finally {
       setIsLoading(false);
     }
@@ -154,22 +241,124 @@ export function DashboardPage({
     }
   };
 
-  const handleExecuteQuery = async (query: string): Promise<KdbQueryResult> => {
+  // Sorting, filtering or searching a browsed table starts again from its first page
+  const handleTableViewChange = (view: KdbTableView) => {
+    setTableView(view);
+    setCurrentPage(0);
+    if (selectedTable) {
+      loadTableData(selectedTable, 0, pageSize, view);
+    }
+  };
+
+  // Another partition of the browsed table, from its first page with the same view
+  const handlePartitionChange = (partition: string) => {
+    setCurrentPage(0);
+    setSelectedPartition(partition);
+    if (selectedTable) {
+      loadTableData(selectedTable, 0, pageSize, tableView, partition);
+    }
+  };
+
+  const handleQueryTimeoutChange = (seconds: number) => {
+    setQueryTimeoutSeconds(seconds);
+    localStorage.setItem('queryTimeoutSeconds', String(seconds));
+  };
+
+  const handleResultRowLimitChange = (rows: number) => {
+    setResultRowLimit(rows);
+    localStorage.setItem('resultRowLimit', String(rows));
+  };
+
+  const handleCsvNullTokenChange = (token: string) => {
+    setCsvNullToken(token);
+    localStorage.setItem('csvNullToken', token);
+  };
+
+  const handleStartLive = async (table: string, syms: string[], bufferSize: number) => {
+    setSelectedTable(null);
+    return live.start(table, syms, bufferSize);
+  };
+
+  // Rows are streamed in: the grid shows the first chunk while the rest arrives
+  // `confirmed` runs statements the connection's query policy flagged, once the user has agreed
+  const handleExecuteQuery = async (query: string, confirmed = false, rowLimit: number = resultRowLimit): Promise<KdbQueryResult> => {
+    live.stop();
     setIsExecuting(true);
     const startTime = Date.now();
     try {
-      const result = await executeQuery(query);
+      const result = await streamQuery(query, {
+        timeoutMs: queryTimeoutSeconds > 0 ? queryTimeoutSeconds * 1000 : undefined,
+        rowLimit,
+        confirmed,
+        onChunk: (partial) => {
+          setSelectedTable(null);
+          setCurrentData(partial);
+        }
+      });
       const endTime = Date.now();
       setLastQueryTime(endTime - startTime);
       setCurrentData(result);
       setSelectedTable(null); // Clear table selection when executing custom query
       setLastExecutedQuery(query.trim());
+      lastQueryConfirmedRef.current = confirmed;
+      return result;
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  // Queue the query as a background job on the bridge; its result is opened from the jobs drawer
+  const handleSubmitJob = (query: string, confirmed = false): Promise<KdbJob> => submitJob(query, {
+    timeoutMs: queryTimeoutSeconds > 0 ? queryTimeoutSeconds * 1000 : undefined,
+    confirmed
+  });
+
+  // Show a finished job's result in the grid like a query's
+  const handleOpenJobResult = async (job: KdbJob): Promise<void> => {
+    live.stop();
+    setIsLoading(true);
+    try {
+      const result = await getJobResult(job.id);
+      setCurrentData(result);
+      setSelectedTable(null);
+      setLastExecutedQuery(null);
+      setLastQueryTime(job.elapsedMs ?? undefined);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // A function called from the function browser; its result replaces the grid like a query's
+  const handleCallFunction = async (name: string, args: KdbFunctionArgument[], confirmed = false): Promise<KdbQueryResult> => {
+    live.stop();
+    setIsExecuting(true);
+    const startTime = Date.now();
+    try {
+      const result = await callFunction(name, args, {
+        timeoutMs: queryTimeoutSeconds > 0 ? queryTimeoutSeconds * 1000 : undefined,
+        confirmed,
+      });
+      setLastQueryTime(Date.now() - startTime);
+      setCurrentData(result);
+      setSelectedTable(null);
+      // Raising the row limit re-runs the last query, which this was not
+      setLastExecutedQuery(null);
       return result;
     } finally {
       setIsExecuting(false);
     }
   };
 
+  // Run the last query again with ten times the row limit
+  const handleRaiseRowLimit = () => {
+    if (!lastExecutedQuery || resultRowLimit === 0) return;
+    const rowLimit = resultRowLimit * 10;
+    handleResultRowLimitChange(rowLimit);
+    handleExecuteQuery(lastExecutedQuery, lastQueryConfirmedRef.current, rowLimit).catch((error) => {
+      console.error('Error re-running query with a higher row limit:', error);
+    });
+  };
+
   // Focus callback for after query execution
   const handleQueryExecuted = useCallback(() => {
     // Use setTimeout to ensure focus happens after React updates
@@ -213,9 +402,16 @@ export function DashboardPage({
     handleBrowseTablesChange();
   }, [browseTables, connectionStatus, tables.length, refreshTables]);
 
-  // Clear data when connection status changes
+  // The bridge drops subscriptions together with their session
+  useEffect(() => {
+    if (connectionStatus !== 'connected' && connectionStatus !== 'reconnecting') {
+      stopLive();
+    }
+  }, [connectionStatus, stopLive]);
+
+  // Clear data once the session is gone or replaced; a reconnect keeps it, as the session survives
   useEffect(() => {
-    if (connectionStatus !== 'connected') {
+    if (connectionStatus === 'disconnected' || connectionStatus === 'error' || connectionStatus === 'connecting') {
       setCurrentData(null);
       setSelectedTable(null);
       setLastExecutedQuery(null);
@@ -238,6 +434,8 @@ export function DashboardPage({
               connectionData={connectionData}
               connectionStatus={connectionStatus}
               connectionError={connectionError}
+              connectionErrorCode={connectionErrorCode}
+              sessionState={sessionState}
               browseTables={browseTables}
               onConnect={onConnect}
               onDisconnect={onDisconnect}
@@ -247,6 +445,35 @@ export function DashboardPage({
           </div>
           
           <div className="flex items-center space-x-2">
+            <LiveSubscriptionControl
+              status={live.status}
+              table={live.table}
+              error={live.error}
+              bufferedRows={live.data?.data.length || 0}
+              totalRows={live.totalRows}
+              tables={tables}
+              disabled={connectionStatus !== 'connected'}
+              onStart={handleStartLive}
+              onStop={live.stop}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsFunctionBrowserOpen(true)}
+              disabled={connectionStatus !== 'connected'}
+              title="Call a function"
+            >
+              <FunctionSquare className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsAuditLogOpen(true)}
+              disabled={connectionStatus !== 'connected'}
+              title="Audit log"
+            >
+              <ScrollText className="h-4 w-4" />
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -259,6 +486,16 @@ export function DashboardPage({
         </div>
       </header>
 
+      {/* Environment banner for connections made from (or matching) a saved profile */}
+      {connectionData?.environment && (connectionStatus === 'connected' || connectionStatus === 'reconnecting') && (
+        <div className={`flex items-center justify-center space-x-2 px-2 py-0.5 text-xs font-semibold tracking-wide env-banner-${connectionData.environment}`}>
+          <span>{ENVIRONMENT_LABELS[connectionData.environment]}</span>
+          <span className="font-normal">
+            {connectionData.profileName} · {connectionData.host}:{connectionData.port}
+          </span>
+        </div>
+      )}
+
       {/* Query Executor and Main Content with Vertical Resizing */}
       <div className="flex-1 overflow-hidden">
         <PanelGroup direction="vertical" className="h-full">
@@ -268,8 +505,13 @@ export function DashboardPage({
               ref={queryExecutorRef}
               onExecuteQuery={handleExecuteQuery}
               isExecuting={isExecuting}
+              progress={queryProgress}
               onCancelQuery={onCancelQuery}
               onQueryExecuted={handleQueryExecuted}
+              jobs={jobs}
+              onSubmitJob={handleSubmitJob}
+              onCancelJob={cancelJob}
+              onOpenJobResult={handleOpenJobResult}
             />
           </Panel>
           
@@ -286,7 +528,16 @@ export function DashboardPage({
               <TableSidebar
                 tables={tables}
                 selectedTable={selectedTable}
+                selectedPartition={selectedPartition}
+                tablePartitions={tablePartitions}
+                loadTablePartitions={loadTablePartitions}
                 onTableSelect={handleTableSelect}
+                tableMetadata={tableMetadata}
+                loadTableMetadata={loadTableMetadata}
+                onRefresh={refreshTables}
+                listNamespace={listNamespace}
+                previewEntry={previewEntry}
+                onPreviewEntry={handlePreviewEntry}
                 onToggleSidebar={toggleSidebar}
               />
             </Panel>
@@ -299,19 +550,27 @@ export function DashboardPage({
               <div className="h-full flex flex-col overflow-hidden">
                 {/* Virtual Data Grid - handles both regular data and metadata */}
                 <VirtualDataGrid
-                  data={currentData}
+                  key={selectedTable ?? 'query'}
+                  data={gridData}
                   isLoading={isLoading}
                   onPageChange={selectedTable ? handlePageChange : undefined}
                   currentPage={currentPage}
                   pageSize={pageSize}
                   totalRows={totalRows}
                   clientSidePagination={!selectedTable} // Use client-side for queries, server-side for tables
+                  serverSide={!!selectedTable && !live.isLive}
+                  partition={selectedTable && !live.isLive ? selectedPartition : null}
+                  partitions={selectedTable ? tablePartitions[selectedTable]?.partitions : undefined}
+                  onPartitionChange={handlePartitionChange}
+                  onViewChange={handleTableViewChange}
                   onOpenChart={() => setIsChartModalOpen(true)}
-                  hasData={!!(currentData && currentData.data.length > 0)}
+                  hasData={!!(gridData && gridData.data.length > 0)}
                   enableColumnControls={true}
                   isSidebarVisible={browseTables && isSidebarVisible}
                   onShowSidebar={browseTables ? toggleSidebar : undefined}
                   onDisplayedDataChange={handleDisplayedDataChange}
+                  csvNullToken={csvNullToken}
+                  onRaiseRowLimit={handleRaiseRowLimit}
                 />
               </div>
             </Panel>
@@ -320,19 +579,27 @@ export function DashboardPage({
           <div className="h-full flex flex-col overflow-hidden transition-all duration-300 ease-in-out">
             {/* Virtual Data Grid - handles both regular data and metadata */}
             <VirtualDataGrid
-              data={currentData}
+              key={selectedTable ?? 'query'}
+              data={gridData}
               isLoading={isLoading}
               onPageChange={selectedTable ? handlePageChange : undefined}
               currentPage={currentPage}
               pageSize={pageSize}
               totalRows={totalRows}
               clientSidePagination={!selectedTable} // Use client-side for queries, server-side for tables
+              serverSide={!!selectedTable && !live.isLive}
+              partition={selectedTable && !live.isLive ? selectedPartition : null}
+              partitions={selectedTable ? tablePartitions[selectedTable]?.partitions : undefined}
+              onPartitionChange={handlePartitionChange}
+              onViewChange={handleTableViewChange}
               onOpenChart={() => setIsChartModalOpen(true)}
-              hasData={!!(currentData && currentData.data.length > 0)}
+              hasData={!!(gridData && gridData.data.length > 0)}
               enableColumnControls={true}
               isSidebarVisible={browseTables && isSidebarVisible}
               onShowSidebar={browseTables ? toggleSidebar : undefined}
               onDisplayedDataChange={handleDisplayedDataChange}
+              csvNullToken={csvNullToken}
+              onRaiseRowLimit={handleRaiseRowLimit}
             />
             </div>
           )}
@@ -342,30 +609,50 @@ export function DashboardPage({
       </div>
 
       {/* Chart Modal */}
-      {currentData && (
+      {gridData && (
         <ChartModal
           isOpen={isChartModalOpen}
           onClose={() => setIsChartModalOpen(false)}
-          data={currentData}
+          data={gridData}
           displayedData={displayedData || undefined}
           dataSource={chartDataSource}
         />
       )}
 
+      {/* Function Browser */}
+      <AuditLogModal
+        isOpen={isAuditLogOpen}
+        onClose={() => setIsAuditLogOpen(false)}
+        getAuditLog={getAuditLog}
+      />
+
+      <FunctionBrowserModal
+        isOpen={isFunctionBrowserOpen}
+        onClose={() => setIsFunctionBrowserOpen(false)}
+        listFunctions={listFunctions}
+        onCallFunction={handleCallFunction}
+      />
+
       {/* Settings Modal */}
       <SettingsModal
         isOpen={isSettingsModalOpen}
         onClose={() => setIsSettingsModalOpen(false)}
         chartDataSource={chartDataSource}
         onChartDataSourceChange={setChartDataSource}
-        fullDataRowCount={currentData?.data?.length || 0}
+        queryTimeoutSeconds={queryTimeoutSeconds}
+        onQueryTimeoutChange={handleQueryTimeoutChange}
+        resultRowLimit={resultRowLimit}
+        onResultRowLimitChange={handleResultRowLimitChange}
+        csvNullToken={csvNullToken}
+        onCsvNullTokenChange={handleCsvNullTokenChange}
+        fullDataRowCount={gridData?.data?.length || 0}
         displayedDataRowCount={displayedData?.data?.length || 0}
       />
       
       {/* Status Bar - Always visible at bottom */}
-      {currentData && (
+      {gridData && (
         <StatusBar
-          data={currentData}
+          data={gridData}
           isLoading={isLoading}
           queryTime={lastQueryTime}
           connectionStatus={connectionStatus}
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { KdbApiService } from './kdb-api';
+
+// A bridge that knows one session and one finished job, answering only that session's id
+const SESSION_ID = 'session-1';
+const RESULT = { columns: ['x'], data: [[1], [2]], meta: { types: ['long'] } };
+
+const json = (body: unknown, status = 200): Response => new Response(JSON.stringify(body), {
+  status,
+  headers: { 'Content-Type': 'application/json' },
+});
+
+const bridge = vi.fn(async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const path = new URL(url).pathname;
+  const sessionId = (init.headers as Record<string, string> | undefined)?.['X-Session-Id'];
+  if (path === '/api/connect') {
+    return json({ success: true, sessionId: SESSION_ID, connection: { host: 'localhost', port: 5000 } });
+  }
+  if (sessionId !== SESSION_ID) {
+    return json({ success: false, error: `Unknown or expired session ${sessionId}` }, 404);
+  }
+  if (path === '/api/sessions') {
+    return json({ success: true, sessions: [{ id: SESSION_ID, host: 'localhost', port: 5000, user: null, transport: 'tcp', socketPath: null, policy: 'confirm', state: 'connected' }] });
+  }
+  if (path === '/api/jobs') {
+    return json({ success: true, job: { id: 'job-1', query: 'til 2', status: 'queued' } });
+  }
+  if (path === '/api/jobs/job-1/result') {
+    return json({ success: true, data: RESULT });
+  }
+  return json({ success: false, error: 'Not found' }, 404);
+});
+
+// sessionStorage outlives a reload of the tab, so one store is shared by every "page load"
+const storage = new Map<string, string>();
+
+beforeEach(() => {
+  storage.clear();
+  bridge.mockClear();
+  vi.stubGlobal('fetch', bridge);
+  vi.stubGlobal('sessionStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('KdbApiService.resume', () => {
+  it('fetches a job result from a new page load', async () => {
+    const before = new KdbApiService();
+    expect(await before.connect({ host: 'localhost', port: 5000 })).toBe(true);
+    const job = await before.submitJob('til 2');
+
+    const after = new KdbApiService();
+    expect(after.isConnected()).toBe(false);
+    expect(await after.resume()).toMatchObject({ host: 'localhost', port: 5000, transport: 'tcp', policy: 'confirm' });
+    expect(after.isConnected()).toBe(true);
+    expect(await after.getJobResult(job.id)).toEqual(RESULT);
+  });
+
+  it('has nothing to resume without a stored session', async () => {
+    expect(await new KdbApiService().resume()).toBeNull();
+    expect(bridge).not.toHaveBeenCalled();
+  });
+
+  it('forgets a session the bridge no longer knows', async () => {
+    storage.set('kdb-viz-session', 'expired');
+    const service = new KdbApiService();
+    expect(await service.resume()).toBeNull();
+    expect(service.isConnected()).toBe(false);
+    expect(storage.size).toBe(0);
+  });
+
+  it('forgets the session on disconnect', async () => {
+    const service = new KdbApiService();
+    await service.connect({ host: 'localhost', port: 5000 });
+    service.disconnect();
+    expect(await new KdbApiService().resume()).toBeNull();
+  });
+});
@@ -1,12 +1,40 @@
-import { KdbQueryResult, KdbTable, ConnectionStatus } from '@/types/kdb';
-
-const API_BASE_URL = 'http://localhost:3001/api';
+import { KdbQueryResult, KdbTable, ConnectionStatus, KdbConnectionParams, KdbErrorCode, KdbSessionState, KdbQueryOptions, KdbSubscriptionHandlers, KdbSubscriptionHandle, KdbSubscriptionInfo, KdbUpdateBatch, KdbStreamOptions, KdbQueryProgress, KdbQueryErrorDetails, KdbPolicyErrorDetails, KdbTableView, KdbFunction, KdbFunctionArgument, KdbNamespaceEntry, KdbTableMetadata, KdbTablePartitions, KdbJob, KdbAuditFilters, KdbAuditLog, KdbQueryPolicy } from '@/types/kdb';
+import { COLUMNAR_CONTENT_TYPE, decodeColumnar, isColumnarResponse } from '@/lib/columnar';
+import { getApiBaseUrl } from '@/lib/bridge-config';
+
+const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+// The tab's bridge session id, kept in sessionStorage so a reloaded page can take its session back,
+// background jobs and their results included
+const SESSION_STORAGE_KEY = 'kdb-viz-session';
+
+const storedSessionId = (): string | null => (
+  typeof sessionStorage === 'undefined' ? null : sessionStorage.getItem(SESSION_STORAGE_KEY)
+);
+
+// Error raised for bridge failures that carry a code the UI can act on
+export class KdbApiError extends Error {
+  readonly code: KdbErrorCode;
+  readonly details?: KdbQueryErrorDetails | KdbPolicyErrorDetails; // Set for QUERY_ERROR, READ_ONLY and CONFIRMATION_REQUIRED
+
+  constructor(message: string, code: KdbErrorCode = 'UNKNOWN', details?: KdbQueryErrorDetails | KdbPolicyErrorDetails) {
+    super(message);
+    this.name = 'KdbApiError';
+    this.code = code;
+    this.details = details;
+  }
+}
 
 export class KdbApiService {
   private connectionStatus: ConnectionStatus = 'disconnected';
   private eventListeners: Map<string, Function[]> = new Map();
   private abortController: AbortController | null = null;
   private queryAbortController: AbortController | null = null;
+  private sessionId: string | null = null;
+  private lastError: KdbApiError | null = null;
+  private events: EventSource | null = null;
+  private sessionState: KdbSessionState | null = null;
+  private queryPolicy: KdbQueryPolicy | null = null;
 
   constructor() {
     this.addEventListener = this.addEventListener.bind(this);
@@ -14,7 +42,10 @@ export class KdbApiService {
     this.emit = this.emit.bind(this);
   }
 
-  async connect(host: string, port: number): Promise<boolean> {
+  async connect(params: KdbConnectionParams): Promise<boolean> {
+    const { host, port, user, password, transport, caPath, socketPath, policy } = params;
+    this.lastError = null;
+
     try {
       // Cancel any existing connection attempt
       if (this.abortController) {
@@ -24,29 +55,36 @@ export class KdbApiService {
       // Create new AbortController for this connection attempt
       this.abortController = new AbortController();
 
+      this.closeEvents();
       this.connectionStatus = 'connecting';
       this.emit('statusChange', this.connectionStatus);
 
-      const response = await fetch(`${API_BASE_URL}/connect`, {
+      const response = await fetch(`${getApiBaseUrl()}/connect`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ host, port }),
+        body: JSON.stringify({ host, port, user, password, transport, caPath, socketPath, policy, sessionId: this.sessionId }),
         signal: this.abortController.signal,
       });
 
       const result = await response.json();
 
       if (result.success) {
+        this.setSessionId(result.sessionId);
+        this.queryPolicy = result.connection?.policy ?? null;
         this.connectionStatus = 'connected';
         this.emit('statusChange', this.connectionStatus);
         this.abortController = null;
+        this.openEvents();
         return true;
       } else {
+        // The bridge drops the previous session before reconnecting
+        this.setSessionId(null);
+        this.lastError = new KdbApiError(result.error || 'Connection failed', result.code);
         this.connectionStatus = 'error';
         this.emit('statusChange', this.connectionStatus);
-        this.emit('error', result.error || 'Connection failed');
+        this.emit('error', this.lastError.message);
         this.abortController = null;
         return false;
       }
@@ -56,16 +94,71 @@ export class KdbApiService {
         this.emit('statusChange', this.connectionStatus);
         this.emit('error', 'Connection cancelled');
       } else {
+        this.lastError = new KdbApiError(`Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 'CONNECTION_FAILED');
         this.connectionStatus = 'error';
         this.emit('statusChange', this.connectionStatus);
-        this.emit('error', `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        this.emit('error', this.lastError.message);
       }
       this.abortController = null;
       return false;
     }
   }
 
+  // Take back the session this tab had before the page was reloaded, if the bridge still holds it.
+  // Resolves to what the session is connected to (no password), or null when there is nothing to resume.
+  async resume(): Promise<KdbConnectionParams | null> {
+    const sessionId = this.sessionId ? null : storedSessionId();
+    if (!sessionId) return null;
+
+    if (this.abortController) {
+      this.abortController.abort();
+    }
+    const controller = new AbortController();
+    this.abortController = controller;
+
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/sessions`, {
+        headers: { 'X-Session-Id': sessionId },
+        signal: controller.signal,
+      });
+      const result = await response.json();
+      const session = result.success ? result.sessions?.[0] : null;
+      if (!session || session.state === 'disconnected') {
+        // Closed, expired or dropped while the page was away; the user connects afresh
+        if (storedSessionId() === sessionId) this.setSessionId(null);
+        return null;
+      }
+
+      this.setSessionId(sessionId);
+      this.queryPolicy = session.policy ?? null;
+      this.setStatus(session.state === 'reconnecting' ? 'reconnecting' : 'connected');
+      this.openEvents();
+      return {
+        host: session.host,
+        port: session.port,
+        user: session.user ?? undefined,
+        transport: session.transport,
+        socketPath: session.socketPath ?? undefined,
+        policy: session.policy,
+      };
+    } catch {
+      // Cancelled, or the bridge is not there; leave the id for the next load to try
+      return null;
+    } finally {
+      if (this.abortController === controller) this.abortController = null;
+    }
+  }
+
   disconnect(): void {
+    this.closeEvents();
+    if (this.sessionId) {
+      // Release the bridge session; nothing to do if the bridge is already gone
+      fetch(`${getApiBaseUrl()}/disconnect`, {
+        method: 'POST',
+        headers: this.sessionHeaders(),
+      }).catch(() => undefined);
+      this.setSessionId(null);
+    }
     this.connectionStatus = 'disconnected';
     this.emit('statusChange', this.connectionStatus);
   }
@@ -81,13 +174,19 @@ export class KdbApiService {
     if (this.queryAbortController) {
       this.queryAbortController.abort();
       this.queryAbortController = null;
+
+      // Aborting the fetch only stops the browser waiting; the bridge has to drop the query too
+      if (this.sessionId) {
+        fetch(`${getApiBaseUrl()}/query/cancel`, {
+          method: 'POST',
+          headers: this.sessionHeaders(),
+        }).catch(() => undefined);
+      }
     }
   }
 
-  async executeQuery(query: string): Promise<KdbQueryResult> {
-    if (!this.isConnected()) {
-      throw new Error('Not connected to KDB+ server');
-    }
+  async executeQuery(query: string, options: KdbQueryOptions = {}): Promise<KdbQueryResult> {
+    this.assertConnected();
 
     try {
       // Cancel any existing query execution
@@ -98,15 +197,24 @@ export class KdbApiService {
       // Create new AbortController for this query
       this.queryAbortController = new AbortController();
 
-      const response = await fetch(`${API_BASE_URL}/query`, {
+      // Offer the columnar encoding first; the bridge falls back to JSON for anything it cannot send that way
+      const { format = 'columnar' } = options;
+      const response = await fetch(`${getApiBaseUrl()}/query`, {
         method: 'POST',
-        headers: {
+        headers: this.sessionHeaders({
           'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ query }),
+          'Accept': format === 'columnar' ? `${COLUMNAR_CONTENT_TYPE}, application/json` : 'application/json',
+        }),
+        body: JSON.stringify({ query, timeoutMs: options.timeoutMs, confirmed: options.confirmed }),
         signal: this.queryAbortController.signal,
       });
 
+      if (response.ok && isColumnarResponse(response)) {
+        const buffer = await response.arrayBuffer();
+        this.queryAbortController = null;
+        return decodeColumnar(buffer);
+      }
+
       const result = await response.json();
 
       if (result.success) {
@@ -114,7 +222,7 @@ export class KdbApiService {
         return result.data;
       } else {
         this.queryAbortController = null;
-        throw new Error(result.error || 'Query execution failed');
+        throw new KdbApiError(result.error || 'Query execution failed', result.code, result.details);
       }
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
@@ -122,50 +230,449 @@ export class KdbApiService {
         throw new Error('Query execution cancelled');
       }
       this.queryAbortController = null;
-      throw new Error(`Query failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      // The bridge's own errors (q signals, timeouts, a lost connection) already say what failed
+      if (error instanceof KdbApiError) {
+        throw error;
+      }
+      throw new KdbApiError(`Query failed: ${error instanceof Error ? error.message : 'Unknown error'}`, error instanceof KdbApiError ? error.code : undefined);
     }
   }
 
-  async getTables(): Promise<KdbTable[]> {
-    if (!this.isConnected()) {
-      throw new Error('Not connected to KDB+ server');
+  // Run a query whose rows arrive in chunks. onChunk sees the rows received so far after every
+  // chunk, and 'queryProgress' events report rows and bytes. Reading stops at options.rowLimit,
+  // leaving a result marked truncated. Results no longer than one chunk arrive whole, as columns.
+  async streamQuery(query: string, options: KdbStreamOptions = {}): Promise<KdbQueryResult> {
+    this.assertConnected();
+
+    const { timeoutMs, rowLimit = 0, confirmed, onChunk } = options;
+    if (this.queryAbortController) {
+      this.queryAbortController.abort();
     }
+    const controller = new AbortController();
+    this.queryAbortController = controller;
 
     try {
-      const response = await fetch(`${API_BASE_URL}/tables`);
+      const response = await fetch(`${getApiBaseUrl()}/query`, {
+        method: 'POST',
+        headers: this.sessionHeaders({
+          'Content-Type': 'application/json',
+          'Accept': `${NDJSON_CONTENT_TYPE}, ${COLUMNAR_CONTENT_TYPE}, application/json`,
+        }),
+        body: JSON.stringify({ query, timeoutMs, rowLimit, confirmed }),
+        signal: controller.signal,
+      });
+
+      // Results that fit in one chunk come whole, already cut to rowLimit
+      if (response.ok && isColumnarResponse(response)) {
+        const buffer = await response.arrayBuffer();
+        const data = decodeColumnar(buffer);
+        this.emit('queryProgress', { rowsReceived: data.data.length, bytesReceived: buffer.byteLength, totalRows: data.meta?.count ?? data.data.length });
+        return data;
+      }
+
+      // Errors, and bridges that do not stream, answer with a single JSON body
+      if (!response.body || !(response.headers.get('Content-Type') ?? '').startsWith(NDJSON_CONTENT_TYPE)) {
+        const result = await response.json();
+        if (!result.success) {
+          throw new KdbApiError(result.error || 'Query execution failed', result.code, result.details);
+        }
+        const data: KdbQueryResult = result.data;
+        const total = data.meta?.count ?? data.data.length;
+        if (rowLimit > 0 && data.data.length > rowLimit) {
+          data.data = data.data.slice(0, rowLimit);
+          data.truncated = true;
+        }
+        this.emit('queryProgress', { rowsReceived: data.data.length, bytesReceived: 0, totalRows: total });
+        return data;
+      }
+
+      return await this.readStream(response.body, rowLimit, onChunk);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error('Query execution cancelled');
+      }
+      if (error instanceof KdbApiError) {
+        throw error;
+      }
+      throw new KdbApiError(`Query failed: ${error instanceof Error ? error.message : 'Unknown error'}`, error instanceof KdbApiError ? error.code : undefined);
+    } finally {
+      if (this.queryAbortController === controller) {
+        this.queryAbortController = null;
+      }
+    }
+  }
+
+  async getTables(): Promise<KdbTable[]> {
+    this.assertConnected();
+
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/tables`, {
+        headers: this.sessionHeaders(),
+      });
       const result = await response.json();
 
       if (result.success) {
         return result.tables;
       } else {
-        throw new Error(result.error || 'Failed to fetch tables');
+        throw new KdbApiError(result.error || 'Failed to fetch tables', result.code);
       }
     } catch (error) {
-      throw new Error(`Failed to fetch tables: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new KdbApiError(`Failed to fetch tables: ${error instanceof Error ? error.message : 'Unknown error'}`, error instanceof KdbApiError ? error.code : undefined);
     }
   }
 
-  async getTableData(tableName: string, offset: number = 0, limit: number = 100): Promise<KdbQueryResult> {
-    if (!this.isConnected()) {
-      throw new Error('Not connected to KDB+ server');
+  // One page of a table; a view has the bridge sort, filter and search the table before paging it.
+  // A partitioned table is paged within `partition`, or its latest partition when none is given.
+  async getTableData(tableName: string, offset: number = 0, limit: number = 100, view?: KdbTableView, partition?: string): Promise<KdbQueryResult> {
+    this.assertConnected();
+
+    try {
+      const params = new URLSearchParams({ offset: String(offset), limit: String(limit) });
+      if (view) {
+        if (view.sort.length > 0) params.set('sort', JSON.stringify(view.sort));
+        if (view.filters.length > 0) params.set('filters', JSON.stringify(view.filters));
+        if (view.search) params.set('search', view.search);
+      }
+      if (partition) params.set('partition', partition);
+      const response = await fetch(`${getApiBaseUrl()}/tables/${encodeURIComponent(tableName)}/data?${params}`, {
+        headers: this.sessionHeaders(),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        return { ...result.data, totalRows: result.pagination?.total, partition: result.partition?.value };
+      } else {
+        throw new KdbApiError(result.error || 'Failed to fetch table data', result.code);
+      }
+    } catch (error) {
+      throw new KdbApiError(`Failed to fetch table data: ${error instanceof Error ? error.message : 'Unknown error'}`, error instanceof KdbApiError ? error.code : undefined);
+    }
+  }
+
+  async getTablePartitions(tableName: string): Promise<KdbTablePartitions> {
+    this.assertConnected();
+
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/tables/${encodeURIComponent(tableName)}/partitions`, {
+        headers: this.sessionHeaders(),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        return { field: result.field, partitions: result.partitions };
+      } else {
+        throw new KdbApiError(result.error || `Failed to list partitions of ${tableName}`, result.code);
+      }
+    } catch (error) {
+      throw new KdbApiError(`Failed to list partitions of ${tableName}: ${error instanceof Error ? error.message : 'Unknown error'}`, error instanceof KdbApiError ? error.code : undefined);
+    }
+  }
+
+  // The entries of one namespace ('.' for the root), for the sidebar tree
+  async listNamespace(namespace: string = '.'): Promise<KdbNamespaceEntry[]> {
+    this.assertConnected();
+
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/namespaces?${new URLSearchParams({ namespace })}`, {
+        headers: this.sessionHeaders(),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        return result.entries;
+      } else {
+        throw new KdbApiError(result.error || `Failed to list ${namespace}`, result.code);
+      }
+    } catch (error) {
+      throw new KdbApiError(`Failed to list ${namespace}: ${error instanceof Error ? error.message : 'Unknown error'}`, error instanceof KdbApiError ? error.code : undefined);
+    }
+  }
+
+  // The first rows of a variable or view as a result the grid can show; a function comes back as its source
+  async previewEntry(name: string): Promise<KdbQueryResult> {
+    this.assertConnected();
+
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/namespaces/preview?${new URLSearchParams({ name })}`, {
+        headers: this.sessionHeaders(),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        return result.data;
+      } else {
+        throw new KdbApiError(result.error || `Failed to preview ${name}`, result.code, result.details);
+      }
+    } catch (error) {
+      if (error instanceof KdbApiError) {
+        throw error;
+      }
+      throw new KdbApiError(`Failed to preview ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+  }
+
+  // Lambdas in the root namespace and in `namespaces` (e.g. ['.util']), with their parameters
+  async listFunctions(namespaces: string[] = []): Promise<KdbFunction[]> {
+    this.assertConnected();
 
     try {
-      const response = await fetch(`${API_BASE_URL}/tables/${tableName}/data?offset=${offset}&limit=${limit}`);
+      const params = new URLSearchParams({ namespaces: ['.', ...namespaces].join(',') });
+      const response = await fetch(`${getApiBaseUrl()}/functions?${params}`, {
+        headers: this.sessionHeaders(),
+      });
       const result = await response.json();
 
+      if (result.success) {
+        return result.functions;
+      } else {
+        throw new KdbApiError(result.error || 'Failed to list functions', result.code);
+      }
+    } catch (error) {
+      throw new KdbApiError(`Failed to list functions: ${error instanceof Error ? error.message : 'Unknown error'}`, error instanceof KdbApiError ? error.code : undefined);
+    }
+  }
+
+  // Call a function with typed arguments; cancelled like a query, and subject to the same query policy
+  async callFunction(name: string, args: KdbFunctionArgument[], options: KdbQueryOptions = {}): Promise<KdbQueryResult> {
+    this.assertConnected();
+
+    try {
+      if (this.queryAbortController) {
+        this.queryAbortController.abort();
+      }
+      this.queryAbortController = new AbortController();
+
+      const response = await fetch(`${getApiBaseUrl()}/functions/call`, {
+        method: 'POST',
+        headers: this.sessionHeaders({
+          'Content-Type': 'application/json',
+        }),
+        body: JSON.stringify({ name, args, timeoutMs: options.timeoutMs, confirmed: options.confirmed }),
+        signal: this.queryAbortController.signal,
+      });
+      const result = await response.json();
+      this.queryAbortController = null;
+
       if (result.success) {
         return result.data;
       } else {
-        throw new Error(result.error || 'Failed to fetch table data');
+        throw new KdbApiError(result.error || `Calling ${name} failed`, result.code, result.details);
+      }
+    } catch (error) {
+      this.queryAbortController = null;
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error('Function call cancelled');
+      }
+      if (error instanceof KdbApiError) {
+        throw error;
+      }
+      throw new KdbApiError(`Calling ${name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Subscribe to a tickerplant table on the connected process; an empty syms list means all syms
+  async subscribe(table: string, syms: string[], handlers: KdbSubscriptionHandlers): Promise<KdbSubscriptionHandle> {
+    this.assertConnected();
+
+    let info: KdbSubscriptionInfo;
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/subscriptions`, {
+        method: 'POST',
+        headers: this.sessionHeaders({
+          'Content-Type': 'application/json',
+        }),
+        body: JSON.stringify({ table, syms }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new KdbApiError(result.error || 'Subscription failed', result.code);
+      }
+      info = result.subscription;
+    } catch (error) {
+      throw new KdbApiError(`Failed to subscribe to ${table}: ${error instanceof Error ? error.message : 'Unknown error'}`, error instanceof KdbApiError ? error.code : 'SUBSCRIPTION_FAILED');
+    }
+
+    const sessionId = this.sessionId!;
+    const events = new EventSource(`${getApiBaseUrl()}/subscriptions/${info.id}/events?sessionId=${encodeURIComponent(sessionId)}`);
+    events.addEventListener('upd', (event) => {
+      handlers.onUpdate(JSON.parse((event as MessageEvent).data) as KdbUpdateBatch);
+    });
+    events.addEventListener('status', (event) => {
+      const state: KdbSessionState = JSON.parse((event as MessageEvent).data);
+      handlers.onState?.(state);
+      if (state.state === 'closed') {
+        events.close();
+      }
+    });
+    events.onerror = () => {
+      if (events.readyState === EventSource.CLOSED) {
+        handlers.onError?.(`Live updates for ${table} stopped`);
+      }
+    };
+
+    return {
+      info,
+      close: () => {
+        events.close();
+        fetch(`${getApiBaseUrl()}/subscriptions/${info.id}`, {
+          method: 'DELETE',
+          headers: { 'X-Session-Id': sessionId },
+        }).catch(() => undefined);
+      },
+    };
+  }
+
+  // Queue a query to run in the background on the bridge. Resolves as soon as the job is queued;
+  // a query the connection's policy holds back fails here with CONFIRMATION_REQUIRED or READ_ONLY.
+  async submitJob(query: string, options: KdbQueryOptions = {}): Promise<KdbJob> {
+    this.assertConnected();
+
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/jobs`, {
+        method: 'POST',
+        headers: this.sessionHeaders({
+          'Content-Type': 'application/json',
+        }),
+        body: JSON.stringify({ query, timeoutMs: options.timeoutMs, confirmed: options.confirmed }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new KdbApiError(result.error || 'Failed to submit job', result.code, result.details);
+      }
+      return result.job;
+    } catch (error) {
+      if (error instanceof KdbApiError) {
+        throw error;
+      }
+      throw new KdbApiError(`Failed to submit job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // The session's running, queued and recent jobs, newest first
+  async listJobs(): Promise<KdbJob[]> {
+    this.assertConnected();
+
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/jobs`, {
+        headers: this.sessionHeaders(),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new KdbApiError(result.error || 'Failed to list jobs', result.code);
+      }
+      return result.jobs;
+    } catch (error) {
+      throw new KdbApiError(`Failed to list jobs: ${error instanceof Error ? error.message : 'Unknown error'}`, error instanceof KdbApiError ? error.code : undefined);
+    }
+  }
+
+  // The result of a finished job; a failed job rejects with the error it failed with
+  async getJobResult(jobId: string): Promise<KdbQueryResult> {
+    this.assertConnected();
+
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/jobs/${encodeURIComponent(jobId)}/result`, {
+        headers: this.sessionHeaders({
+          'Accept': `${COLUMNAR_CONTENT_TYPE}, application/json`,
+        }),
+      });
+
+      if (response.ok && isColumnarResponse(response)) {
+        return decodeColumnar(await response.arrayBuffer());
+      }
+
+      const result = await response.json();
+      if (!result.success) {
+        throw new KdbApiError(result.error || 'Failed to fetch job result', result.code, result.details);
+      }
+      return result.data;
+    } catch (error) {
+      if (error instanceof KdbApiError) {
+        throw error;
+      }
+      throw new KdbApiError(`Failed to fetch job result: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Resolves to whether there was anything to cancel; a running job is stopped by restarting the
+  // session's socket, which also cancels any query running on it
+  async cancelJob(jobId: string): Promise<boolean> {
+    this.assertConnected();
+
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/jobs/${encodeURIComponent(jobId)}/cancel`, {
+        method: 'POST',
+        headers: this.sessionHeaders(),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new KdbApiError(result.error || 'Failed to cancel job', result.code);
+      }
+      return result.cancelled;
+    } catch (error) {
+      throw new KdbApiError(`Failed to cancel job: ${error instanceof Error ? error.message : 'Unknown error'}`, error instanceof KdbApiError ? error.code : undefined);
+    }
+  }
+
+  // Follow status changes of the session's jobs; returns a function that stops following
+  watchJobs(onJob: (job: KdbJob) => void): () => void {
+    if (!this.sessionId || typeof EventSource === 'undefined') return () => undefined;
+
+    const events = new EventSource(`${getApiBaseUrl()}/jobs/events?sessionId=${encodeURIComponent(this.sessionId)}`);
+    events.addEventListener('job', (event) => {
+      onJob(JSON.parse((event as MessageEvent).data) as KdbJob);
+    });
+    return () => events.close();
+  }
+
+  // Search this session's entries in the bridge's audit log
+  async getAuditLog(filters: KdbAuditFilters = {}): Promise<KdbAuditLog> {
+    this.assertConnected();
+
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== '') {
+        params.set(name, String(value));
       }
+    }
+
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/audit?${params}`, {
+        headers: this.sessionHeaders(),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new KdbApiError(result.error || 'Failed to read the audit log', result.code);
+      }
+      return { entries: result.entries, limit: result.limit, retentionDays: result.retentionDays };
     } catch (error) {
-      throw new Error(`Failed to fetch table data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new KdbApiError(`Failed to read the audit log: ${error instanceof Error ? error.message : 'Unknown error'}`, error instanceof KdbApiError ? error.code : undefined);
     }
   }
 
-  async getTableMetadata(tableName: string): Promise<KdbQueryResult> {
-    return this.executeQuery(`0!meta ${tableName}`);
+  // Columns and row count of one table; a partitioned table is only counted when count is set
+  async getTableMetadata(tableName: string, count: boolean = false): Promise<KdbTableMetadata> {
+    this.assertConnected();
+
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/tables/${encodeURIComponent(tableName)}/meta?${new URLSearchParams({ count: String(count) })}`, {
+        headers: this.sessionHeaders(),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        return result.table;
+      } else {
+        throw new KdbApiError(result.error || `Failed to read ${tableName}`, result.code);
+      }
+    } catch (error) {
+      throw new KdbApiError(`Failed to read ${tableName}: ${error instanceof Error ? error.message : 'Unknown error'}`, error instanceof KdbApiError ? error.code : undefined);
+    }
   }
 
   isConnected(): boolean {
@@ -176,6 +683,170 @@ export class KdbApiService {
     return this.connectionStatus;
   }
 
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  // Latest state pushed by the bridge, e.g. the reconnect attempt while 'reconnecting'
+  getSessionState(): KdbSessionState | null {
+    return this.sessionState;
+  }
+
+  // The policy the bridge applies to the session, which its own settings can make stricter than the one asked for
+  getQueryPolicy(): KdbQueryPolicy | null {
+    return this.queryPolicy;
+  }
+
+  // Details of the most recent failed connect(), e.g. to tell bad credentials from a dead host
+  getLastError(): KdbApiError | null {
+    return this.lastError;
+  }
+
+  private assertConnected(): void {
+    if (this.connectionStatus === 'reconnecting') {
+      throw new KdbApiError('Connection to KDB+ server lost - reconnecting', 'CONNECTION_LOST');
+    }
+    if (!this.isConnected()) {
+      throw new Error('Not connected to KDB+ server');
+    }
+  }
+
+  // Follow the session's connection state; EventSource cannot send headers so the id goes in the URL
+  private openEvents(): void {
+    if (!this.sessionId || typeof EventSource === 'undefined') return;
+
+    const events = new EventSource(`${getApiBaseUrl()}/events?sessionId=${encodeURIComponent(this.sessionId)}`);
+    events.addEventListener('status', (event) => {
+      const state: KdbSessionState = JSON.parse((event as MessageEvent).data);
+      this.sessionState = state;
+      this.emit('sessionState', state);
+
+      switch (state.state) {
+        case 'connected':
+          this.setStatus('connected');
+          break;
+        case 'reconnecting':
+          this.setStatus('reconnecting');
+          break;
+        case 'disconnected':
+          this.lastError = new KdbApiError(state.error || 'Connection to KDB+ server lost', 'CONNECTION_LOST');
+          this.closeEvents();
+          this.setStatus('error');
+          this.emit('error', this.lastError.message);
+          break;
+      }
+    });
+    events.onerror = () => {
+      // The browser retries on its own unless the bridge rejected the stream (e.g. it restarted
+      // and no longer knows this session)
+      if (events.readyState === EventSource.CLOSED && this.events === events) {
+        this.lastError = new KdbApiError('Lost contact with the KDB+ bridge', 'CONNECTION_LOST');
+        this.closeEvents();
+        this.setSessionId(null);
+        this.setStatus('error');
+        this.emit('error', this.lastError.message);
+      }
+    };
+    this.events = events;
+  }
+
+  // Read an NDJSON result stream (see server/streaming.js) up to rowLimit rows
+  private async readStream(body: ReadableStream<Uint8Array>, rowLimit: number, onChunk?: (result: KdbQueryResult) => void): Promise<KdbQueryResult> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    const progress: KdbQueryProgress = { rowsReceived: 0, bytesReceived: 0, totalRows: null };
+    let result: KdbQueryResult | null = null;
+    let pending = '';
+    let done = false;
+
+    const handleLine = (text: string) => {
+      const message = JSON.parse(text);
+      switch (message.type) {
+        case 'header':
+          result = { columns: message.columns, data: [], kind: message.kind, keyColumns: message.keyColumns, meta: message.meta };
+          progress.totalRows = message.meta?.count ?? null;
+          break;
+        case 'rows': {
+          if (!result) break;
+          const room = rowLimit > 0 ? rowLimit - result.data.length : message.rows.length;
+          result.data.push(...message.rows.slice(0, room));
+          if (rowLimit > 0 && result.data.length >= rowLimit && (progress.totalRows ?? 0) > rowLimit) {
+            result.truncated = true;
+            done = true;
+          }
+          break;
+        }
+        case 'end':
+          // The bridge stops early at its own maximum row count
+          if (result && result.data.length < (progress.totalRows ?? 0)) {
+            result.truncated = true;
+          }
+          done = true;
+          break;
+        case 'error':
+          throw new KdbApiError(message.error || 'Query execution failed', message.code, message.details);
+      }
+    };
+
+    try {
+      while (!done) {
+        const { value, done: finished } = await reader.read();
+        if (finished) break;
+        progress.bytesReceived += value.byteLength;
+        const lines = (pending + decoder.decode(value, { stream: true })).split('\n');
+        pending = lines.pop() ?? '';
+        for (const text of lines) {
+          if (text && !done) handleLine(text);
+        }
+        if (result) {
+          const current: KdbQueryResult = result;
+          progress.rowsReceived = current.data.length;
+          this.emit('queryProgress', { ...progress });
+          onChunk?.({ ...current });
+        }
+      }
+    } finally {
+      // Past the row limit the bridge is still sending; dropping the stream stops it
+      reader.cancel().catch(() => undefined);
+    }
+
+    // Without its end line the stream was cut off (the bridge or the network failed mid-result),
+    // so whatever rows arrived are not the whole result
+    if (!result || !done) {
+      throw new KdbApiError('Query result stream ended early', 'UNKNOWN');
+    }
+    return result;
+  }
+
+  private closeEvents(): void {
+    if (this.events) {
+      this.events.close();
+      this.events = null;
+    }
+    this.sessionState = null;
+  }
+
+  private setStatus(status: ConnectionStatus): void {
+    if (this.connectionStatus === status) return;
+    this.connectionStatus = status;
+    this.emit('statusChange', status);
+  }
+
+  private setSessionId(sessionId: string | null): void {
+    this.sessionId = sessionId;
+    if (typeof sessionStorage === 'undefined') return;
+    if (sessionId) {
+      sessionStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+    } else {
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+  }
+
+  // Every bridge call after connect is routed to this service's session
+  private sessionHeaders(headers: Record<string, string> = {}): Record<string, string> {
+    return this.sessionId ? { ...headers, 'X-Session-Id': this.sessionId } : headers;
+  }
+
   private addEventListener(event: string, listener: Function): void {
     if (!this.eventListeners.has(event)) {
       this.eventListeners.set(event, []);
@@ -210,4 +881,14 @@ export class KdbApiService {
     this.addEventListener('error', listener);
     return () => this.removeEventListener('error', listener);
   }
+
+  onQueryProgress(listener: (progress: KdbQueryProgress) => void): () => void {
+    this.addEventListener('queryProgress', listener);
+    return () => this.removeEventListener('queryProgress', listener);
+  }
+
+  onSessionState(listener: (state: KdbSessionState) => void): () => void {
+    this.addEventListener('sessionState', listener);
+    return () => this.removeEventListener('sessionState', listener);
+  }
 }
\ No newline at end of file
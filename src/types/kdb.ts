@@ -5,15 +5,138 @@ export interface KdbConnection {
   error?: string;
 }
 
+export type KdbTransport = 'tcp' | 'tls' | 'unix';
+
+export type KdbEnvironment = 'dev' | 'uat' | 'prod';
+
+// What the bridge does with statements that would change the process (assignments, delete,
+// insert/upsert, dropping tables, system commands, exit): run them, ask first, or refuse them
+export type KdbQueryPolicy = 'read-write' | 'confirm' | 'read-only';
+
+// Everything needed to open a bridge session; the password is never persisted
+export interface KdbConnectionParams {
+  host: string;
+  port: number;
+  user?: string;
+  password?: string;
+  transport?: KdbTransport;
+  caPath?: string;      // CA bundle on the bridge host, TLS only
+  socketPath?: string;  // Unix domain socket on the bridge host, defaults to /tmp/kx.<port>
+  policy?: KdbQueryPolicy; // Defaults to read-write
+}
+
+// The current connection as shown in the UI, including the saved profile it came from
+export interface KdbConnectionInfo {
+  host: string;
+  port: number;
+  user?: string;
+  transport?: KdbTransport;
+  policy?: KdbQueryPolicy;
+  profileId?: string;
+  profileName?: string;
+  environment?: KdbEnvironment;
+}
+
+export type KdbErrorCode =
+  | 'AUTH_FAILED'
+  | 'HOST_UNREACHABLE'
+  | 'CONNECTION_FAILED'
+  | 'TLS_HANDSHAKE_FAILED'
+  | 'INVALID_REQUEST'
+  | 'CONNECTION_LOST'
+  | 'QUERY_TIMEOUT'
+  | 'QUERY_CANCELLED'
+  | 'SUBSCRIPTION_FAILED'
+  | 'QUERY_ERROR'
+  | 'READ_ONLY'
+  | 'CONFIRMATION_REQUIRED'
+  | 'JOB_NOT_FINISHED'
+  | 'RESULT_TOO_LARGE'
+  | 'UNKNOWN';
+
+// A q error signal ('type, 'length, an undefined name ...) as parsed by the bridge
+export interface KdbQueryErrorDetails {
+  signal: string;
+  explanation: string;
+  statement?: {
+    index: number;  // 0-based position among the statements that were run
+    count: number;
+    line: number;   // 1-based line of the submitted query the statement starts on
+    text: string;
+  };
+}
+
+// A statement the bridge held back under the connection's query policy, and why
+export interface KdbFlaggedStatement {
+  index: number;  // 0-based position among the query's statements
+  line: number;   // 1-based line of the submitted query the statement starts on
+  text: string;
+  reasons: {
+    kind: 'assign' | 'delete' | 'insert' | 'upsert' | 'drop' | 'system' | 'exit' | 'eval' | 'file' | 'ipc';
+    detail: string;
+  }[];
+}
+
+// Details of a READ_ONLY or CONFIRMATION_REQUIRED error
+export interface KdbPolicyErrorDetails {
+  policy: KdbQueryPolicy;
+  flagged: KdbFlaggedStatement[];
+}
+
+export interface KdbQueryOptions {
+  timeoutMs?: number;   // Bridge abandons the query after this long; omitted uses the bridge default
+  format?: KdbWireFormat; // Encoding to ask the bridge for; defaults to 'columnar'
+  confirmed?: boolean;  // Run statements the query policy flagged; the user has confirmed them
+}
+
+// 'columnar' sends numeric columns as typed arrays; bridges that do not offer it answer in JSON
+export type KdbWireFormat = 'columnar' | 'json';
+
+// Options for a query whose rows are streamed in chunks
+export interface KdbStreamOptions {
+  timeoutMs?: number;
+  rowLimit?: number;    // Stop reading after this many rows; 0 or omitted reads them all
+  confirmed?: boolean;
+  onChunk?: (result: KdbQueryResult) => void; // The rows received so far, after each chunk
+}
+
+// Progress of the query being streamed, emitted after every chunk
+export interface KdbQueryProgress {
+  rowsReceived: number;
+  bytesReceived: number;
+  totalRows: number | null; // Known once the header has arrived
+}
+
+// One entry of GET /api/tables; columns and counts are fetched per table as KdbTableMetadata
 export interface KdbTable {
   name: string;
-  columns: string[];
-  rowCount: number;
+  partitioned: boolean;
+}
+
+// What a name in a namespace holds, as the sidebar tree groups it
+export type KdbEntryKind = 'namespace' | 'table' | 'keyedTable' | 'view' | 'function' | 'dictionary' | 'variable';
+
+// One entry of GET /api/namespaces; namespaces and views (never evaluated to list them) have no type or count
+export interface KdbNamespaceEntry {
+  name: string;             // Fully qualified: trade, .ns.trade
+  kind: KdbEntryKind;
+  type: string | null;      // q type name; typeCode < 0 is an atom
+  typeCode: number | null;
+  count: number | null;
 }
 
 export interface KdbTableMetadata {
   tableName: string;
   columns: KdbColumnMetadata[];
+  keyColumns: string[];     // Key columns of a keyed table, in key order; empty for any other
+  rowCount: number | null;  // null for a partitioned table until it is counted
+  partitioned: boolean;
+}
+
+// GET /api/tables/:name/partitions; field (.Q.pf) is null for a table that is not partitioned
+export interface KdbTablePartitions {
+  field: string | null;
+  partitions: string[];     // Oldest first, as q writes them: 2024.01.15
 }
 
 export interface KdbColumnMetadata {
@@ -23,29 +146,188 @@ export interface KdbColumnMetadata {
   attributes: string;
 }
 
+// q type names reported by the bridge; 'string' is a column of char vectors
+export type KdbTypeName =
+  | 'boolean' | 'guid' | 'byte' | 'short' | 'int' | 'long' | 'real' | 'float'
+  | 'char' | 'string' | 'symbol' | 'enum'
+  | 'timestamp' | 'month' | 'date' | 'datetime' | 'timespan' | 'minute' | 'second' | 'time'
+  | 'mixed' | 'table' | 'dict' | 'function';
+
+// A q infinity (0W, -0Wi, 0Wp ...); which one depends on the column type
+export interface KdbInfinity {
+  __kdb_type: 'infinity';
+  sign: 1 | -1;
+}
+
+// q vector attributes: sorted, unique, parted, grouped, or '' for none
+export type KdbAttribute = '' | 's' | 'u' | 'p' | 'g';
+
+// How a result was shaped in q; dictionaries arrive as key/value rows
+export type KdbResultKind = 'table' | 'keyedTable' | 'dict' | 'list' | 'atom';
+
 export interface KdbQueryResult {
   columns: string[];
   data: any[][];
+  kind?: KdbResultKind;
+  keyColumns?: string[];        // Key columns of a keyed table ('key' for a dictionary)
   meta?: {
-    types: string[];
+    types: string[];            // KdbTypeName per column
+    typeCodes?: number[];       // q type number per column (negative for atoms)
+    attributes?: KdbAttribute[];
     count: number;
   };
+  columnar?: KdbColumnVector[]; // Set when the result arrived columnar; data then reads through it
+  truncated?: boolean;          // Cut at the row limit or the bridge's maximum; meta.count still has the full count
+  totalRows?: number;           // For one page of a table: the rows on the server matching its view
+  partition?: string;           // For one page of a partitioned table: the partition it was read from
+}
+
+// Sorting, filtering and search the bridge applies to a table before paging it
+export type KdbFilterOp = 'eq' | 'ne' | 'lt' | 'le' | 'gt' | 'ge' | 'contains';
+
+export interface KdbColumnFilter {
+  column: string;
+  op: KdbFilterOp;
+  value: string;        // Read by q as the column's type
+}
+
+export interface KdbTableView {
+  sort: { column: string; desc: boolean }[];  // First entry is the primary sort key
+  filters: KdbColumnFilter[];
+  search: string;       // Case-insensitive match over symbol and string columns
+}
+
+export type KdbColumnEncoding = 'uint8' | 'int16' | 'int32' | 'int64' | 'float32' | 'float64' | 'symbol' | 'json';
+
+// One column of a columnar result, read in place from the buffer the bridge sent
+export interface KdbColumnVector {
+  encoding: KdbColumnEncoding;
+  values: ArrayLike<unknown>;   // The typed array as received (symbol codes for 'symbol')
+  get(row: number): any;        // The value in the form the JSON transport would have sent
 }
 
+// A lambda listed by GET /api/functions; `source` is its text as q prints it
 export interface KdbFunction {
   name: string;
   parameters: KdbParameter[];
+  source: string;
   description?: string;
 }
 
+// How an argument is sent to q; the list types take an array of values
+export type KdbParameterType =
+  | 'boolean' | 'long' | 'float' | 'string' | 'symbol' | 'date' | 'timestamp' | 'time'
+  | 'longs' | 'floats' | 'symbols' | 'dates';
+
+// q does not type parameters: `type` is guessed from the name and can be changed in the form
 export interface KdbParameter {
   name: string;
-  type: string;
+  type: KdbParameterType;
   required: boolean;
   defaultValue?: any;
 }
 
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+// One argument of POST /api/functions/call. Dates are yyyy-mm-dd, timestamps yyyy-mm-ddThh:mm:ss.sss
+// and times hh:mm:ss.sss, all UTC; an empty value is the type's null
+export interface KdbFunctionArgument {
+  type: KdbParameterType;
+  value: string | boolean | string[];
+}
+
+// A tickerplant subscription held by the bridge (see POST /api/subscriptions)
+export interface KdbSubscriptionInfo {
+  id: string;
+  table: string;
+  syms: string[];
+  columns: string[];
+  state: KdbSessionState['state'];
+  updates: number;
+  rows: number;
+  createdAt: string;
+}
+
+// One batch of upd rows, shaped like a query result
+export interface KdbUpdateBatch extends KdbQueryResult {
+  table: string;
+}
+
+export interface KdbSubscriptionHandlers {
+  onUpdate: (batch: KdbUpdateBatch) => void;
+  onState?: (state: KdbSessionState) => void;
+  onError?: (error: string) => void;
+}
+
+export interface KdbSubscriptionHandle {
+  info: KdbSubscriptionInfo;
+  close: () => void;
+}
+
+export type KdbJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// A query run in the background by the bridge (see POST /api/jobs); jobs of a session run one at a time
+export interface KdbJob {
+  id: string;
+  sessionId: string;
+  query: string;
+  status: KdbJobStatus;
+  rowCount: number | null;  // Rows of the result once done
+  error: {
+    message: string;
+    code: KdbErrorCode;
+    details?: KdbQueryErrorDetails;
+  } | null;
+  submittedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  elapsedMs: number | null;  // Running time so far, or in total once finished
+}
+
+export type KdbAuditKind = 'query' | 'job' | 'function' | 'browse';
+
+// One line of the bridge's audit log: a query run for a user, with what became of it
+export interface KdbAuditEntry {
+  timestamp: string;
+  sessionId: string;
+  user: string | null;    // q username of the connection
+  client: string | null;  // Address the browser connected to the bridge from
+  target: string;         // The q process, e.g. user@host:port
+  kind: KdbAuditKind;
+  query: string;          // With anything matching the bridge's redaction patterns masked
+  durationMs: number;
+  rowCount: number | null;
+  status: 'ok' | 'error' | 'cancelled';
+  error: { code: KdbErrorCode | null; message: string } | null;
+}
+
+// Filters of GET /api/audit; target and text match anywhere, case-insensitively. The bridge only
+// returns the caller's session's entries unless given its audit token.
+export interface KdbAuditFilters {
+  from?: string;
+  to?: string;
+  sessionId?: string;
+  user?: string;
+  kind?: KdbAuditKind;
+  status?: KdbAuditEntry['status'];
+  target?: string;
+  text?: string;
+  limit?: number;
+}
+
+export interface KdbAuditLog {
+  entries: KdbAuditEntry[];  // Newest first
+  limit: number;
+  retentionDays: number;     // 0 when entries are kept forever
+}
+
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
+
+// Connection state pushed by the bridge over /api/events
+export interface KdbSessionState {
+  state: 'connecting' | 'connected' | 'reconnecting' | 'disconnected' | 'closed';
+  attempt: number;
+  nextRetryAt: string | null;
+  error: string | null;
+}
 
 export type ChartType = 
   | 'line' 
@@ -1,55 +1,43 @@
-import { test, expect } from '@playwright/test';
+import { test, expect, type Page } from '@playwright/test';
+
+// Runs against the mock q process (server/testing/mock-q.js) on port 5000, which
+// playwright.config.ts starts along with the bridge and the frontend.
+
+const connect = async (page: Page, target = 'localhost:5000') => {
+  await page.goto('/');
+  await page.getByPlaceholder('localhost:5000').fill(target);
+  await page.getByLabel('Browse Tables').check();
+  await page.getByRole('button', { name: 'Connect' }).click();
+};
 
 test.describe('KDB+ Visualizer Connection', () => {
-  test('should display connection form on landing page', async ({ page }) => {
+  test('should display the connection box on the landing page', async ({ page }) => {
     await page.goto('/');
-    
-    // Check if the connection form is visible
-    await expect(page.getByText('KDB+ Visualizer')).toBeVisible();
-    await expect(page.getByLabel('Host')).toBeVisible();
-    await expect(page.getByLabel('Port')).toBeVisible();
+
+    await expect(page.getByPlaceholder('localhost:5000')).toBeVisible();
     await expect(page.getByRole('button', { name: 'Connect' })).toBeVisible();
+    await expect(page.getByText('Disconnected')).toBeVisible();
   });
 
-  test('should show validation errors for invalid input', async ({ page }) => {
-    await page.goto('/');
-    
-    // Clear the host field and try to connect
-    await page.getByLabel('Host').clear();
-    await page.getByLabel('Port').clear();
-    await page.getByRole('button', { name: 'Connect' }).click();
-    
-    // Check for validation errors
-    await expect(page.getByText('Host is required')).toBeVisible();
-    await expect(page.getByText('Port is required')).toBeVisible();
+  test('should connect to the mock q process', async ({ page }) => {
+    await connect(page);
+
+    await expect(page.getByText('Connected', { exact: true })).toBeVisible({ timeout: 10000 });
+    await expect(page.getByRole('button', { name: 'Disconnect' })).toBeVisible();
   });
 
-  test('should connect to localhost successfully', async ({ page }) => {
-    await page.goto('/');
-    
-    // Fill in connection details
-    await page.getByLabel('Host').fill('localhost');
-    await page.getByLabel('Port').fill('4000');
-    
-    // Click connect
-    await page.getByRole('button', { name: 'Connect' }).click();
-    
-    // Wait for the dashboard to load
-    await expect(page.getByText('Connected to localhost:4000')).toBeVisible({ timeout: 10000 });
-    await expect(page.getByText('Tables')).toBeVisible();
+  test('should display tables in the explorer after connection', async ({ page }) => {
+    await connect(page);
+
+    await expect(page.getByText('Explorer')).toBeVisible({ timeout: 10000 });
+    await expect(page.getByText('trades', { exact: true })).toBeVisible();
+    await expect(page.getByText('quotes', { exact: true })).toBeVisible();
+    await expect(page.getByText('alltypes', { exact: true })).toBeVisible();
   });
 
-  test('should display tables in sidebar after connection', async ({ page }) => {
-    await page.goto('/');
-    
-    // Connect
-    await page.getByLabel('Host').fill('localhost');
-    await page.getByLabel('Port').fill('4000');
-    await page.getByRole('button', { name: 'Connect' }).click();
-    
-    // Wait for dashboard and check tables
-    await expect(page.getByText('Tables')).toBeVisible({ timeout: 10000 });
-    await expect(page.getByText('trades')).toBeVisible();
-    await expect(page.getByText('quotes')).toBeVisible();
+  test('should report a host that does not answer', async ({ page }) => {
+    await connect(page, 'localhost:5999');
+
+    await expect(page.getByText('Host unreachable')).toBeVisible({ timeout: 10000 });
   });
-});
\ No newline at end of file
+});
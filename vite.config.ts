@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
@@ -12,5 +13,10 @@ export default defineConfig({
   server: {
     port: 3000,
     open: true
+  },
+  test: {
+    // Unit tests sit next to the code they cover; tests/ holds the Playwright specs
+    include: ['server/**/*.test.js', 'src/**/*.test.ts'],
+    environment: 'node'
   }
-})
\ No newline at end of file
+})